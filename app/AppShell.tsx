@@ -2,10 +2,13 @@
 
 import * as React from "react";
 import { usePathname } from "next/navigation";
+import ImpersonationBanner from "./ImpersonationBanner";
+import SessionExpiredModal from "./SessionExpiredModal";
 import Sidebar from "./Sidebar";
 
 const PUBLIC_PATHS = new Set([
   "/login",
+  "/login/magic",
   "/signup",
   "/forgot-password",
   "/reset-password",
@@ -28,7 +31,11 @@ export default function AppShell({ children }: { children: React.ReactNode }) {
         <div className="absolute top-24 right-[-4rem] h-96 w-96 rounded-full bg-sky-700/18 blur-3xl" />
       </div>
       <Sidebar />
-      <main className="relative z-10 flex-1 p-6">{children}</main>
+      <main className="relative z-10 flex-1 p-6">
+        <ImpersonationBanner />
+        {children}
+      </main>
+      <SessionExpiredModal />
     </div>
   );
 }
@@ -0,0 +1,39 @@
+"use client";
+
+import { parseLeadAssignee, usePermissions, useTeam, type LeadAssignee } from "@/lib/api";
+
+// "Whose leads" picker for the leads table and the funnel. Only team owners
+// get it; agents are already limited to their own leads by the backend.
+export default function AssigneeFilter({
+  value,
+  onChange,
+}: {
+  value: LeadAssignee;
+  onChange: (value: LeadAssignee) => void;
+}) {
+  const { can } = usePermissions();
+  const owner = can("team.manage");
+  const team = useTeam({ enabled: owner });
+  if (!owner || !team.data) return null;
+
+  const members = team.data.members;
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(parseLeadAssignee(e.target.value))}
+      className="rounded border border-border bg-card px-2 py-1.5 text-xs text-foreground"
+      title="Assigned to"
+    >
+      <option value="all">Whole team</option>
+      <option value="me">My leads</option>
+      <option value="unassigned">Unassigned</option>
+      {members.map((m) => (
+        <option key={m.email} value={m.email}>
+          {m.name || m.email}
+        </option>
+      ))}
+      {/* A filter from a link or bookmark can name someone who has since left. */}
+      {value.includes("@") && !members.some((m) => m.email === value) ? <option value={value}>{value}</option> : null}
+    </select>
+  );
+}
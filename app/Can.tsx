@@ -0,0 +1,21 @@
+"use client";
+
+import * as React from "react";
+import { usePermissions } from "@/lib/api";
+import type { Capability } from "@/lib/permissions";
+
+// Renders children only when the signed-in user holds `permission`.
+// Nothing is rendered while /api/me is still loading.
+export default function Can({
+  permission,
+  fallback = null,
+  children,
+}: {
+  permission: Capability;
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  const { can, loading } = usePermissions();
+  if (loading) return null;
+  return <>{can(permission) ? children : fallback}</>;
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import * as React from "react";
+import { getSession } from "next-auth/react";
+import type { AppSession } from "@/lib/apiFetch";
+import { errorMessage, stopImpersonation } from "@/lib/api";
+
+export default function ImpersonationBanner() {
+  const [viewing, setViewing] = React.useState<{ id: string; email: string } | null>(null);
+  const [exiting, setExiting] = React.useState(false);
+  const [error, setError] = React.useState("");
+
+  React.useEffect(() => {
+    let dead = false;
+    getSession()
+      .then((s) => {
+        if (!dead) setViewing((s as AppSession | null)?.impersonating || null);
+      })
+      .catch(() => {});
+    return () => {
+      dead = true;
+    };
+  }, []);
+
+  async function onExit() {
+    if (!viewing || exiting) return;
+    setExiting(true);
+    setError("");
+    try {
+      await stopImpersonation(viewing.id);
+      // Full reload so no cached data from the viewed account survives.
+      window.location.assign("/admin/users");
+    } catch (e) {
+      setError(errorMessage(e, "Exit failed"));
+      setExiting(false);
+    }
+  }
+
+  if (!viewing) return null;
+
+  return (
+    <div className="sticky top-0 z-30 mb-4 flex flex-wrap items-center justify-between gap-2 rounded-xl border border-amber-400/50 bg-amber-500/15 px-4 py-2 text-sm text-amber-100 shadow-lg backdrop-blur-md">
+      <div>
+        Viewing as <span className="font-semibold">{viewing.email}</span>. Everything you do is recorded in the audit log.
+        {error ? <span className="ml-2 text-rose-300">{error}</span> : null}
+      </div>
+      <button
+        type="button"
+        onClick={onExit}
+        disabled={exiting}
+        className="rounded border border-amber-300/60 bg-amber-500/20 px-3 py-1 text-xs font-medium text-amber-50 hover:bg-amber-500/30 disabled:opacity-60"
+      >
+        {exiting ? "Exiting..." : "Exit"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import * as React from "react";
+import { useSettings, type Lead } from "@/lib/api";
+import { formatZoneTime, resolveLeadZone, textingWindow, type ZoneSource } from "@/lib/timezone";
+
+const SOURCE_LABELS: Record<ZoneSource, string> = {
+  lead: "lead's timezone",
+  snapshot: "vendor data",
+  zip: "ZIP code",
+  area_code: "phone area code",
+  state: "state",
+};
+
+// Refreshes on each minute boundary; only this label re-renders.
+function useMinute() {
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    let id = 0;
+    const schedule = () => {
+      id = window.setTimeout(() => {
+        setNow(Date.now());
+        schedule();
+      }, 60_000 - (Date.now() % 60_000) + 50);
+    };
+    schedule();
+    return () => window.clearTimeout(id);
+  }, []);
+
+  return now;
+}
+
+// The lead's current local time and whether it is a reasonable moment to
+// text them: inside the TCPA window and outside the user's AI quiet hours.
+export default function LeadLocalTime({
+  lead,
+  className = "",
+}: {
+  lead: Pick<Lead, "lead_timezone" | "zip" | "phone" | "state"> & Partial<Pick<Lead, "lead_snapshot_json">>;
+  className?: string;
+}) {
+  const nowMs = useMinute();
+  const settings = useSettings().data?.settings;
+  const resolved = resolveLeadZone(lead);
+  if (!resolved) return <span className={`text-muted-foreground ${className}`}>-</span>;
+
+  const texting = textingWindow(resolved, nowMs, {
+    enabled: settings?.ai_quiet_hours_enabled,
+    start: settings?.ai_quiet_hours_start,
+    end: settings?.ai_quiet_hours_end,
+  });
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 whitespace-nowrap ${className}`}
+      title={`${resolved.zone}, from ${SOURCE_LABELS[resolved.source]}. ${texting.reason}.`}
+    >
+      <span>{formatZoneTime(resolved.zone, nowMs)}</span>
+      <span
+        className={`rounded border px-1 py-0.5 text-[10px] leading-none ${
+          texting.safe
+            ? "border-emerald-400/40 bg-emerald-500/15 text-emerald-300"
+            : "border-amber-400/40 bg-amber-500/15 text-amber-300"
+        }`}
+      >
+        {texting.safe ? "Safe to text" : "Don't text"}
+      </span>
+    </span>
+  );
+}
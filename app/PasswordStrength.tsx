@@ -0,0 +1,28 @@
+"use client";
+
+import { checkPassword } from "@/lib/passwordPolicy";
+
+const BAR_COLORS = ["bg-rose-500", "bg-rose-500", "bg-amber-500", "bg-cyan-500", "bg-emerald-500"];
+
+// Live meter under a new-password field. Renders nothing until typing starts.
+export default function PasswordStrength({ password, email }: { password: string; email?: string }) {
+  if (!password) return null;
+  const check = checkPassword(password, { email });
+
+  return (
+    <div className="space-y-1" aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map((step) => (
+          <div
+            key={step}
+            className={`h-1.5 flex-1 rounded-full ${check.score >= step ? BAR_COLORS[check.score] : "bg-muted"}`}
+          />
+        ))}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Strength: <span className="font-medium text-foreground">{check.label}</span>
+        {check.errors[0] ? ` — ${check.errors[0]}` : ""}
+      </div>
+    </div>
+  );
+}
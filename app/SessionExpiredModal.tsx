@@ -0,0 +1,62 @@
+"use client";
+
+import * as React from "react";
+import { signOut } from "next-auth/react";
+import { SESSION_EXPIRED_EVENT, type SessionEndReason } from "@/lib/apiFetch";
+
+// Shown when apiFetch could not refresh the backend token. Signing in again
+// returns the user to the page they were on via the same `next` param proxy.ts sets.
+export default function SessionExpiredModal() {
+  const [reason, setReason] = React.useState<SessionEndReason | null>(null);
+  const [leaving, setLeaving] = React.useState(false);
+
+  React.useEffect(() => {
+    // A revocation wins over a plain expiry reported by a parallel request.
+    const onExpired = (e: Event) => {
+      const next = (e as CustomEvent<SessionEndReason>).detail === "revoked" ? "revoked" : "expired";
+      setReason((prev) => (prev === "revoked" ? prev : next));
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, onExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, onExpired);
+  }, []);
+
+  async function handleSignIn() {
+    setLeaving(true);
+    const next = `${window.location.pathname}${window.location.search}`;
+    // Clear the NextAuth cookie first, otherwise proxy.ts bounces /login back to the dashboard.
+    await signOut({ redirect: false }).catch(() => {});
+    window.location.assign(`/login?next=${encodeURIComponent(next)}`);
+  }
+
+  if (!reason) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 p-4">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-expired-title"
+        className="w-full max-w-sm rounded-xl border border-border/80 bg-slate-900 p-5 shadow-2xl"
+      >
+        <div id="session-expired-title" className="text-base font-semibold text-slate-100">
+          {reason === "revoked" ? "Signed out" : "Session expired"}
+        </div>
+        <p className="mt-2 text-sm text-muted-foreground">
+          {reason === "revoked"
+            ? "This session was signed out from Settings. Sign in again to continue."
+            : "Your sign-in has expired. Sign in again to pick up where you left off."}
+        </p>
+        <div className="mt-4 flex justify-end">
+          <button
+            type="button"
+            onClick={handleSignIn}
+            disabled={leaving}
+            className="rounded border border-cyan-400/40 bg-cyan-500/15 px-3 py-1.5 text-sm text-cyan-200 hover:bg-cyan-500/25 disabled:opacity-60"
+          >
+            {leaving ? "Signing out..." : "Sign in again"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,126 +4,103 @@ import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import { signOut } from "next-auth/react";
 import * as React from "react";
-import { apiFetch } from "@/lib/apiFetch";
-
-type Activity = {
-  leads_waiting: number;
-  email_leads_waiting: number;
-  leads_human_alerts: number;
-  email_leads_human_alerts: number;
-};
+import { revokeCurrentSession, useNavigationActivity, usePermissions, useRealtime, useSavedViews } from "@/lib/api";
+import type { Capability } from "@/lib/permissions";
+import Can from "./Can";
 
 type NavItem = {
+  // Defaults to href; saved views can share a link.
+  key?: string;
   href: string;
   label: string;
+  title?: string;
   badgeKey?: "leads" | "email_leads";
+  // Fixed waiting count, used by saved views.
+  waitingCount?: number;
   humanBadgeKey?: "leads" | "email_leads";
   indent?: boolean;
+  permission?: Capability;
 };
 
+const NAV_ITEMS: NavItem[] = [
+  { href: "/dashboard", label: "Dashboard" },
+  { href: "/calendar", label: "Calendar" },
+  { href: "/leads", label: "Leads", badgeKey: "leads", humanBadgeKey: "leads" },
+  {
+    href: "/email-leads",
+    label: "Email Leads",
+    badgeKey: "email_leads",
+    humanBadgeKey: "email_leads",
+    indent: true,
+    permission: "leads.import.email",
+  },
+  { href: "/pipeline", label: "Funnel" },
+  { href: "/stats", label: "Stats" },
+  { href: "/team", label: "Team", permission: "team.manage" },
+  { href: "/sandbox-chat", label: "Sandbox Chat" },
+  { href: "/settings", label: "Settings" },
+  { href: "/admin/users", label: "User Approvals", permission: "admin.users.manage" },
+  { href: "/admin/audit", label: "Audit Log", permission: "admin.audit.read" },
+  { href: "/admin/textdrip", label: "Textdrip Debug", permission: "admin.textdrip.debug" },
+  { href: "/admin/email", label: "Email Debug", permission: "admin.email.debug" },
+];
+
 const billingNavItem = { href: "/billing", label: "Billing" };
 
-function toNumber(v: unknown) {
-  const n = Number(v);
-  return Number.isFinite(n) ? n : 0;
-}
+const ACTIVITY_POLL_MS = 12000;
+// Counts arrive as pushed events while the stream is open; this is only a safety net.
+const ACTIVITY_POLL_REALTIME_MS = 60000;
 
 export default function Sidebar() {
   const pathname = usePathname();
   const router = useRouter();
-  const [isAdmin, setIsAdmin] = React.useState(false);
-  const [emailLeadImportAccess, setEmailLeadImportAccess] = React.useState(false);
-  const [activity, setActivity] = React.useState<Activity>({
+  const { can } = usePermissions();
+  const realtimeStatus = useRealtime();
+  const activity = useNavigationActivity({
+    pollMs: realtimeStatus === "open" ? ACTIVITY_POLL_REALTIME_MS : ACTIVITY_POLL_MS,
+  }).data ?? {
     leads_waiting: 0,
     email_leads_waiting: 0,
     leads_human_alerts: 0,
     email_leads_human_alerts: 0,
-  });
-
-  React.useEffect(() => {
-    let dead = false;
-    (async () => {
-      try {
-        const r = await apiFetch("/api/me", { cache: "no-store" });
-        if (!r.ok) return;
-        const body = await r.json().catch(() => ({}));
-        const role = String(body?.user?.role || "").toLowerCase();
-        const access = role === "admin" || body?.user?.email_lead_import_access === true;
-        if (!dead) {
-          setIsAdmin(role === "admin");
-          setEmailLeadImportAccess(access);
-        }
-      } catch {}
-    })();
-    return () => {
-      dead = true;
-    };
-  }, []);
-
-  React.useEffect(() => {
-    let dead = false;
-    let timer: ReturnType<typeof setTimeout> | null = null;
-
-    async function tick() {
-      try {
-        const r = await apiFetch("/api/navigation/activity", { cache: "no-store" });
-        if (r.ok) {
-          const body = await r.json().catch(() => ({}));
-          const next = body?.activity || {};
-          if (!dead) {
-            setActivity({
-              leads_waiting: Math.max(0, toNumber(next?.leads_waiting)),
-              email_leads_waiting: Math.max(0, toNumber(next?.email_leads_waiting)),
-              leads_human_alerts: Math.max(0, toNumber(next?.leads_human_alerts)),
-              email_leads_human_alerts: Math.max(0, toNumber(next?.email_leads_human_alerts)),
-            });
-          }
-        }
-      } catch {}
-      if (!dead) timer = setTimeout(tick, 12000);
-    }
-
-    tick();
-    return () => {
-      dead = true;
-      if (timer) clearTimeout(timer);
-    };
-  }, []);
-
-  const navItems: NavItem[] = [
-    { href: "/dashboard", label: "Dashboard" },
-    { href: "/calendar", label: "Calendar" },
-    { href: "/leads", label: "Leads", badgeKey: "leads", humanBadgeKey: "leads" },
-    ...(emailLeadImportAccess
-      ? [{ href: "/email-leads", label: "Email Leads", badgeKey: "email_leads" as const, humanBadgeKey: "email_leads" as const, indent: true }]
-      : []),
-    { href: "/pipeline", label: "Funnel" },
-    { href: "/stats", label: "Stats" },
-    { href: "/sandbox-chat", label: "Sandbox Chat" },
-    { href: "/settings", label: "Settings" },
-    ...(isAdmin
-      ? [
-          { href: "/admin/users", label: "User Approvals" },
-          { href: "/admin/audit", label: "Audit Log" },
-          { href: "/admin/textdrip", label: "Textdrip Debug" },
-          { href: "/admin/email", label: "Email Debug" },
-        ]
-      : []),
-  ];
+  };
+
+  const savedViews = useSavedViews({
+    pollMs: realtimeStatus === "open" ? ACTIVITY_POLL_REALTIME_MS : ACTIVITY_POLL_MS,
+  }).data ?? [];
+  const viewItems: NavItem[] = savedViews.map((v) => ({
+    key: `view:${v.id}`,
+    href: v.query ? `/leads?${v.query}` : "/leads",
+    label: v.name,
+    title: v.mine ? undefined : `Shared by ${v.owner_email}`,
+    indent: true,
+    waitingCount: v.waiting_count,
+  }));
+
+  // Saved lead views are listed under Leads.
+  const navItems = NAV_ITEMS.filter((item) => !item.permission || can(item.permission)).flatMap((item) =>
+    item.href === "/leads" ? [item, ...viewItems] : [item]
+  );
 
   const handleLogout = async () => {
+    // End the backend session record too. A failed revoke is not worth
+    // holding up sign-out for: the session stays listed in Settings > Sessions
+    // until it expires or is revoked from there.
+    await revokeCurrentSession().catch(() => {});
     await signOut({ redirect: false });
     router.push("/login");
     router.refresh();
   };
 
   function isActive(href: string) {
+    if (href.startsWith("/leads?")) return false;
     if (href === "/leads") return pathname === "/leads" || pathname.startsWith("/leads/");
     if (href === "/email-leads") return pathname === "/email-leads" || pathname.startsWith("/email-leads/");
     return pathname === href;
   }
 
   function badgeCount(item: NavItem) {
+    if (item.waitingCount !== undefined) return item.waitingCount;
     if (item.badgeKey === "leads") return activity.leads_waiting;
     if (item.badgeKey === "email_leads") return activity.email_leads_waiting;
     return 0;
@@ -150,8 +127,9 @@ export default function Sidebar() {
           const humanCount = humanBadgeCount(item);
           return (
             <Link
-              key={item.href}
+              key={item.key ?? item.href}
               href={item.href}
+              title={item.title}
               className={[
                 "flex items-center justify-between rounded px-3 py-2.5 text-base font-medium",
                 item.indent ? "ml-3 text-sm" : "",
@@ -160,7 +138,7 @@ export default function Sidebar() {
                   : "text-cyan-100 hover:bg-slate-800/75 hover:text-white",
               ].join(" ")}
             >
-              <span>{item.label}</span>
+              <span className="truncate">{item.label}</span>
               <span className="ml-2 inline-flex items-center gap-1.5">
                 {humanCount > 0 ? (
                   <span
@@ -181,17 +159,19 @@ export default function Sidebar() {
         })}
       </nav>
 
-      <Link
-        href={billingNavItem.href}
-        className={[
-          "mb-3 block rounded px-3 py-2.5 text-base font-medium",
-          pathname === billingNavItem.href
-            ? "bg-cyan-600/85 text-white shadow-[0_0_14px_rgba(56,189,248,0.45)]"
-            : "text-cyan-100 hover:bg-slate-800/75 hover:text-white",
-        ].join(" ")}
-      >
-        {billingNavItem.label}
-      </Link>
+      <Can permission="billing.manage">
+        <Link
+          href={billingNavItem.href}
+          className={[
+            "mb-3 block rounded px-3 py-2.5 text-base font-medium",
+            pathname === billingNavItem.href
+              ? "bg-cyan-600/85 text-white shadow-[0_0_14px_rgba(56,189,248,0.45)]"
+              : "text-cyan-100 hover:bg-slate-800/75 hover:text-white",
+          ].join(" ")}
+        >
+          {billingNavItem.label}
+        </Link>
+      </Can>
 
       <button
         onClick={handleLogout}
@@ -1,59 +1,19 @@
 "use client";
 
 import * as React from "react";
-import { apiFetch } from "@/lib/apiFetch";
-
-type EmailEvent = {
-  id: number;
-  user_id: string;
-  email?: string;
-  provider_message_id?: string;
-  event_type?: string;
-  status?: string;
-  subject?: string;
-  from_email?: string;
-  to_email?: string;
-  error_reason?: string;
-  payload?: Record<string, any>;
-  created_at?: string | null;
-};
-
-type SuppressedEmail = {
-  id: number;
-  user_id: string;
-  email: string;
-  reason?: string;
-  source?: string;
-  active: number;
-  payload?: Record<string, any>;
-  updated_at?: string | null;
-};
-
-type SummaryPayload = {
-  window_hours?: number;
-  filters?: { user_id?: string; email?: string };
-  delivery_events?: {
-    total?: number;
-    delivered?: number;
-    failed?: number;
-    opened?: number;
-    clicked?: number;
-    complaints?: number;
-    unique_emails?: number;
-    latest_event_at?: string | null;
-    by_status?: Record<string, number>;
-  };
-  suppressed_emails?: {
-    active?: number;
-  };
-};
-
-type ConfigPayload = {
-  resend_configured?: boolean;
-  email_from?: string;
-  webhook_secret_set?: boolean;
-  webhook_url?: string;
-};
+import {
+  errorMessage,
+  getEmailDeliverySummary,
+  getMe,
+  listEmailDeliveryEvents,
+  listSuppressedEmails,
+  setEmailSuppressed,
+  type EmailConfig,
+  type EmailDeliveryEvent,
+  type EmailDeliverySummary,
+  type SuppressedEmail,
+} from "@/lib/api";
+import { hasPermission } from "@/lib/permissions";
 
 function fmtDate(v?: string | null) {
   if (!v) return "";
@@ -73,9 +33,9 @@ export default function AdminEmailPage() {
   const [loading, setLoading] = React.useState(true);
   const [error, setError] = React.useState("");
 
-  const [summary, setSummary] = React.useState<SummaryPayload | null>(null);
-  const [config, setConfig] = React.useState<ConfigPayload>({});
-  const [events, setEvents] = React.useState<EmailEvent[]>([]);
+  const [summary, setSummary] = React.useState<EmailDeliverySummary | null>(null);
+  const [config, setConfig] = React.useState<EmailConfig | null>(null);
+  const [events, setEvents] = React.useState<EmailDeliveryEvent[]>([]);
   const [suppressed, setSuppressed] = React.useState<SuppressedEmail[]>([]);
 
   const [limitInput, setLimitInput] = React.useState("200");
@@ -94,14 +54,12 @@ export default function AdminEmailPage() {
     setLoading(true);
     setError("");
     try {
-      const meResp = await apiFetch("/api/me", { cache: "no-store" });
-      if (!meResp.ok) throw new Error("Not authenticated");
-      const meBody = await meResp.json().catch(() => ({}));
-      const admin = String(meBody?.user?.role || "").toLowerCase() === "admin";
+      const me = await getMe();
+      const admin = hasPermission(me, "admin.email.debug");
       setIsAdmin(admin);
       if (!admin) {
         setSummary(null);
-        setConfig({});
+        setConfig(null);
         setEvents([]);
         setSuppressed([]);
         setLoading(false);
@@ -129,35 +87,18 @@ export default function AdminEmailPage() {
       if (emailFilter.trim()) suppressedParams.set("email", emailFilter.trim());
       if (sourceFilter.trim()) suppressedParams.set("source", sourceFilter.trim());
 
-      const [summaryResp, eventsResp, suppressedResp] = await Promise.all([
-        apiFetch(`/api/admin/email/summary?${summaryParams.toString()}`, { cache: "no-store" }),
-        apiFetch(`/api/admin/email/delivery-events?${eventsParams.toString()}`, { cache: "no-store" }),
-        apiFetch(`/api/admin/email/suppressed-emails?${suppressedParams.toString()}`, { cache: "no-store" }),
+      const [nextSummary, nextEvents, nextSuppressed] = await Promise.all([
+        getEmailDeliverySummary(summaryParams),
+        listEmailDeliveryEvents(eventsParams),
+        listSuppressedEmails(suppressedParams),
       ]);
 
-      if (!summaryResp.ok) {
-        const txt = await summaryResp.text().catch(() => "");
-        throw new Error(`Load summary failed (${summaryResp.status}): ${txt}`);
-      }
-      if (!eventsResp.ok) {
-        const txt = await eventsResp.text().catch(() => "");
-        throw new Error(`Load events failed (${eventsResp.status}): ${txt}`);
-      }
-      if (!suppressedResp.ok) {
-        const txt = await suppressedResp.text().catch(() => "");
-        throw new Error(`Load suppressed emails failed (${suppressedResp.status}): ${txt}`);
-      }
-
-      const summaryBody = await summaryResp.json().catch(() => ({}));
-      const eventsBody = await eventsResp.json().catch(() => ({}));
-      const suppressedBody = await suppressedResp.json().catch(() => ({}));
-
-      setSummary((summaryBody?.summary || null) as SummaryPayload | null);
-      setConfig((summaryBody?.config || {}) as ConfigPayload);
-      setEvents(Array.isArray(eventsBody?.events) ? eventsBody.events : []);
-      setSuppressed(Array.isArray(suppressedBody?.emails) ? suppressedBody.emails : []);
-    } catch (e: any) {
-      setError(String(e?.message || "Load failed"));
+      setSummary(nextSummary.summary);
+      setConfig(nextSummary.config);
+      setEvents(nextEvents);
+      setSuppressed(nextSuppressed);
+    } catch (e) {
+      setError(errorMessage(e, "Load failed"));
     } finally {
       setLoading(false);
     }
@@ -172,18 +113,10 @@ export default function AdminEmailPage() {
     setBusyId(row.id);
     setError("");
     try {
-      const resp = await apiFetch(`/api/admin/email/suppressed-emails/${row.id}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ active: nextActive }),
-      });
-      if (!resp.ok) {
-        const txt = await resp.text().catch(() => "");
-        throw new Error(`Update failed (${resp.status}): ${txt}`);
-      }
+      await setEmailSuppressed(row.id, nextActive);
       await load();
-    } catch (e: any) {
-      setError(String(e?.message || "Update failed"));
+    } catch (e) {
+      setError(errorMessage(e, "Update failed"));
     } finally {
       setBusyId(null);
     }
@@ -281,19 +214,19 @@ export default function AdminEmailPage() {
       <div className="mt-3 rounded border border-border/70 bg-card/70 p-3 text-xs text-muted-foreground">
         <div>
           Resend configured:{" "}
-          <span className={config.resend_configured ? "text-emerald-300 font-medium" : "text-amber-300 font-medium"}>
-            {config.resend_configured ? "yes" : "no"}
+          <span className={config?.resend_configured ? "text-emerald-300 font-medium" : "text-amber-300 font-medium"}>
+            {config?.resend_configured ? "yes" : "no"}
           </span>
-          {" | "}From: {config.email_from || "-"}
+          {" | "}From: {config?.email_from || "-"}
         </div>
         <div>
           Webhook secret set:{" "}
-          <span className={config.webhook_secret_set ? "text-emerald-300 font-medium" : "text-amber-300 font-medium"}>
-            {config.webhook_secret_set ? "yes" : "no"}
+          <span className={config?.webhook_secret_set ? "text-emerald-300 font-medium" : "text-amber-300 font-medium"}>
+            {config?.webhook_secret_set ? "yes" : "no"}
           </span>
         </div>
         <div className="mt-1 break-all">
-          Webhook URL: <code>{config.webhook_url || "-"}</code>
+          Webhook URL: <code>{config?.webhook_url || "-"}</code>
         </div>
       </div>
 
@@ -1,50 +1,18 @@
 "use client";
 
 import * as React from "react";
-import { apiFetch } from "@/lib/apiFetch";
-
-type DeliveryEvent = {
-  id: number;
-  user_id: string;
-  lead_id?: number | null;
-  message_id?: number | null;
-  provider_message_id?: string;
-  event_type?: string;
-  status?: string;
-  from_phone?: string;
-  to_phone?: string;
-  payload?: Record<string, any>;
-  created_at?: string | null;
-};
-
-type SuppressedContact = {
-  id: number;
-  user_id: string;
-  phone: string;
-  reason?: string;
-  source?: string;
-  active: number;
-  payload?: Record<string, any>;
-  updated_at?: string | null;
-};
-
-type SummaryPayload = {
-  window_hours?: number;
-  filters?: { user_id?: string; phone?: string };
-  delivery_events?: {
-    total?: number;
-    delivered?: number;
-    failed?: number;
-    opt_out?: number;
-    opt_in?: number;
-    unique_phones?: number;
-    latest_event_at?: string | null;
-    by_status?: Record<string, number>;
-  };
-  suppressed_contacts?: {
-    active?: number;
-  };
-};
+import {
+  errorMessage,
+  getMe,
+  getTextdripDeliverySummary,
+  listTextdripDeliveryEvents,
+  listTextdripSuppressedContacts,
+  setTextdripContactSuppressed,
+  type DeliveryEvent,
+  type SuppressedContact,
+  type TextdripDeliverySummary,
+} from "@/lib/api";
+import { hasPermission } from "@/lib/permissions";
 
 function fmtDate(v?: string | null) {
   if (!v) return "";
@@ -64,7 +32,7 @@ export default function AdminTextdripPage() {
   const [loading, setLoading] = React.useState(true);
   const [error, setError] = React.useState("");
 
-  const [summary, setSummary] = React.useState<SummaryPayload | null>(null);
+  const [summary, setSummary] = React.useState<TextdripDeliverySummary | null>(null);
   const [events, setEvents] = React.useState<DeliveryEvent[]>([]);
   const [contacts, setContacts] = React.useState<SuppressedContact[]>([]);
 
@@ -84,10 +52,8 @@ export default function AdminTextdripPage() {
     setLoading(true);
     setError("");
     try {
-      const meResp = await apiFetch("/api/me", { cache: "no-store" });
-      if (!meResp.ok) throw new Error("Not authenticated");
-      const meBody = await meResp.json().catch(() => ({}));
-      const admin = String(meBody?.user?.role || "").toLowerCase() === "admin";
+      const me = await getMe();
+      const admin = hasPermission(me, "admin.textdrip.debug");
       setIsAdmin(admin);
       if (!admin) {
         setSummary(null);
@@ -118,34 +84,17 @@ export default function AdminTextdripPage() {
       if (phoneFilter.trim()) contactsParams.set("phone", phoneFilter.trim());
       if (sourceFilter.trim()) contactsParams.set("source", sourceFilter.trim());
 
-      const [summaryResp, eventsResp, contactsResp] = await Promise.all([
-        apiFetch(`/api/admin/textdrip/summary?${summaryParams.toString()}`, { cache: "no-store" }),
-        apiFetch(`/api/admin/textdrip/delivery-events?${eventsParams.toString()}`, { cache: "no-store" }),
-        apiFetch(`/api/admin/textdrip/suppressed-contacts?${contactsParams.toString()}`, { cache: "no-store" }),
+      const [nextSummary, nextEvents, nextContacts] = await Promise.all([
+        getTextdripDeliverySummary(summaryParams),
+        listTextdripDeliveryEvents(eventsParams),
+        listTextdripSuppressedContacts(contactsParams),
       ]);
 
-      if (!summaryResp.ok) {
-        const txt = await summaryResp.text().catch(() => "");
-        throw new Error(`Load summary failed (${summaryResp.status}): ${txt}`);
-      }
-      if (!eventsResp.ok) {
-        const txt = await eventsResp.text().catch(() => "");
-        throw new Error(`Load delivery events failed (${eventsResp.status}): ${txt}`);
-      }
-      if (!contactsResp.ok) {
-        const txt = await contactsResp.text().catch(() => "");
-        throw new Error(`Load suppressed contacts failed (${contactsResp.status}): ${txt}`);
-      }
-
-      const summaryBody = await summaryResp.json().catch(() => ({}));
-      const eventsBody = await eventsResp.json().catch(() => ({}));
-      const contactsBody = await contactsResp.json().catch(() => ({}));
-
-      setSummary((summaryBody?.summary || null) as SummaryPayload | null);
-      setEvents(Array.isArray(eventsBody?.events) ? eventsBody.events : []);
-      setContacts(Array.isArray(contactsBody?.contacts) ? contactsBody.contacts : []);
-    } catch (e: any) {
-      setError(String(e?.message || "Load failed"));
+      setSummary(nextSummary);
+      setEvents(nextEvents);
+      setContacts(nextContacts);
+    } catch (e) {
+      setError(errorMessage(e, "Load failed"));
     } finally {
       setLoading(false);
     }
@@ -160,18 +109,10 @@ export default function AdminTextdripPage() {
     setBusyId(contact.id);
     setError("");
     try {
-      const resp = await apiFetch(`/api/admin/textdrip/suppressed-contacts/${contact.id}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ active: nextActive }),
-      });
-      if (!resp.ok) {
-        const txt = await resp.text().catch(() => "");
-        throw new Error(`Update failed (${resp.status}): ${txt}`);
-      }
+      await setTextdripContactSuppressed(contact.id, nextActive);
       await load();
-    } catch (e: any) {
-      setError(String(e?.message || "Update failed"));
+    } catch (e) {
+      setError(errorMessage(e, "Update failed"));
     } finally {
       setBusyId(null);
     }
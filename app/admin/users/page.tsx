@@ -1,72 +1,34 @@
 "use client";
 
 import * as React from "react";
-import { apiFetch } from "@/lib/apiFetch";
-
-type UserRow = {
-  id: number;
-  email: string;
-  first_name?: string;
-  last_name?: string;
-  phone?: string;
-  createdAt?: string;
-  approval_status?: "pending" | "approved" | "suspended" | "rejected" | string;
-  approved_at?: string | null;
-  billing_status?: "trial" | "active" | "past_due" | "canceled" | "none" | string;
-  trial_ends_at?: string | null;
-  email_lead_import_access?: number | boolean;
-};
-
-type AdminStatus = {
-  email_configured?: boolean;
-  email_from?: string;
-  google_oauth_configured?: boolean;
-  pending_users?: number;
-  user_counts?: {
-    pending?: number;
-    approved?: number;
-    suspended?: number;
-    rejected?: number;
-  };
-  setup_checks?: Array<{
-    key: string;
-    label: string;
-    status: "green" | "yellow" | "red" | string;
-    detail?: string;
-  }>;
-};
-
-type InviteRow = {
-  id: number;
-  email?: string;
-  role?: string;
-  created_by?: string;
-  created_at?: string;
-  expires_at?: string;
-  revoked_at?: string | null;
-  used_at?: string | null;
-  status?: string;
-};
-
-type LeadIntegrityResult = {
-  scanned?: number;
-  affected?: number;
-  affected_rows?: number;
-  fixed_rows?: number;
-  apply_fixes?: boolean;
-  issue_counts?: Record<string, number>;
-  samples?: Array<{
-    id: number;
-    user_id: string;
-    issues?: string[];
-    before?: Record<string, any>;
-    after?: Record<string, any>;
-  }>;
-};
+import {
+  checkLeadIntegrity,
+  createAdminInvite,
+  errorMessage,
+  getAdminSystemStatus,
+  getMe,
+  listAdminInvites,
+  listAdminUsers,
+  resetUserTwoFactor,
+  revokeAdminInvite,
+  runAdminUserAction,
+  setUserBilling,
+  setUserPermissions,
+  setUserTwoFactorRequired,
+  startImpersonation,
+  type AdminSystemStatus,
+  type AdminUser,
+  type AdminUserAction,
+  type AdminInvite,
+  type BillingStatus,
+  type LeadIntegrityResult,
+  type UserBillingUpdate,
+} from "@/lib/api";
+import { CAPABILITIES, hasPermission, resolvePermissions, type Capability } from "@/lib/permissions";
 
 type Tab = "all" | "pending" | "approved" | "suspended" | "rejected";
 type BillingDraft = {
-  billing_status: "trial" | "active" | "past_due" | "canceled" | "none";
+  billing_status: BillingStatus;
   trial_ends_at: string;
   stripe_customer_id: string;
   stripe_subscription_id: string;
@@ -100,8 +62,8 @@ function tabLabel(tab: Tab) {
 }
 
 export default function AdminUsersPage() {
-  const [users, setUsers] = React.useState<UserRow[]>([]);
-  const [status, setStatus] = React.useState<AdminStatus>({});
+  const [users, setUsers] = React.useState<AdminUser[]>([]);
+  const [status, setStatus] = React.useState<AdminSystemStatus | null>(null);
   const [tab, setTab] = React.useState<Tab>("all");
   const [error, setError] = React.useState("");
   const [loading, setLoading] = React.useState(true);
@@ -109,7 +71,7 @@ export default function AdminUsersPage() {
   const [busyId, setBusyId] = React.useState<number | null>(null);
   const [inviteEmail, setInviteEmail] = React.useState("");
   const [inviteExpiryDays, setInviteExpiryDays] = React.useState("7");
-  const [invites, setInvites] = React.useState<InviteRow[]>([]);
+  const [invites, setInvites] = React.useState<AdminInvite[]>([]);
   const [inviteUrl, setInviteUrl] = React.useState("");
   const [integrityUserId, setIntegrityUserId] = React.useState("");
   const [integrityLimit, setIntegrityLimit] = React.useState("5000");
@@ -121,53 +83,32 @@ export default function AdminUsersPage() {
     setLoading(true);
     setError("");
     try {
-      const meResp = await apiFetch("/api/me", { cache: "no-store" });
-      if (!meResp.ok) throw new Error("Not authenticated");
-      const meBody = await meResp.json().catch(() => ({}));
-      const role = String(meBody?.user?.role || "").toLowerCase();
-      const admin = role === "admin";
+      const me = await getMe();
+      const admin = hasPermission(me, "admin.users.manage");
       setIsAdmin(admin);
       if (!admin) {
         setUsers([]);
-        setStatus({});
+        setStatus(null);
         setLoading(false);
         return;
       }
 
-      const [usersResp, statusResp, invitesResp] = await Promise.all([
-        apiFetch(`/api/admin/users?status=${nextTab}`, { cache: "no-store" }),
-        apiFetch("/api/admin/system-status", { cache: "no-store" }),
-        apiFetch("/api/admin/invites?limit=20", { cache: "no-store" }),
+      const [nextUsers, nextStatus, nextInvites] = await Promise.all([
+        listAdminUsers(nextTab),
+        getAdminSystemStatus(),
+        listAdminInvites(20),
       ]);
 
-      if (!usersResp.ok) {
-        const txt = await usersResp.text().catch(() => "");
-        throw new Error(`Load users failed (${usersResp.status}): ${txt}`);
-      }
-      if (!statusResp.ok) {
-        const txt = await statusResp.text().catch(() => "");
-        throw new Error(`Load status failed (${statusResp.status}): ${txt}`);
-      }
-      if (!invitesResp.ok) {
-        const txt = await invitesResp.text().catch(() => "");
-        throw new Error(`Load invites failed (${invitesResp.status}): ${txt}`);
-      }
-
-      const usersBody = await usersResp.json();
-      const statusBody = await statusResp.json();
-      const invitesBody = await invitesResp.json();
-
-      const nextUsers = Array.isArray(usersBody?.users) ? usersBody.users : [];
       setUsers(nextUsers);
       setBillingByUser((prev) => {
         const next: Record<number, BillingDraft> = { ...prev };
         for (const u of nextUsers) {
-          const id = Number(u?.id || 0);
+          const id = u.id;
           if (!id) continue;
           if (!next[id]) {
             next[id] = {
-              billing_status: (String(u?.billing_status || "trial").toLowerCase() as BillingDraft["billing_status"]) || "trial",
-              trial_ends_at: String(u?.trial_ends_at || ""),
+              billing_status: (u.billing_status.toLowerCase() || "trial") as BillingStatus,
+              trial_ends_at: u.trial_ends_at || "",
               stripe_customer_id: "",
               stripe_subscription_id: "",
             };
@@ -175,10 +116,10 @@ export default function AdminUsersPage() {
         }
         return next;
       });
-      setStatus((statusBody?.status || {}) as AdminStatus);
-      setInvites(Array.isArray(invitesBody?.invites) ? invitesBody.invites : []);
-    } catch (e: any) {
-      setError(String(e?.message || "Failed to load"));
+      setStatus(nextStatus);
+      setInvites(nextInvites);
+    } catch (e) {
+      setError(errorMessage(e, "Failed to load"));
     } finally {
       setLoading(false);
     }
@@ -188,79 +129,88 @@ export default function AdminUsersPage() {
     load(tab);
   }, [tab]);
 
-  async function runAction(id: number, action: "approve" | "reject" | "suspend" | "reactivate" | "delete" | "delete-account" | "resend-approval-email" | "send-reset-email") {
+  async function runAction(id: number, action: AdminUserAction) {
     setBusyId(id);
     setError("");
     try {
-      let url = `/api/admin/users/${id}/${action}`;
-      let method = "POST";
-      if (action === "delete") {
-        url = `/api/admin/users/${id}`;
-        method = "DELETE";
-      }
-      if (action === "delete-account") {
-        url = `/api/admin/users/${id}/delete-account`;
-        method = "POST";
-      }
-      const r = await apiFetch(url, { method });
-      if (!r.ok) {
-        const txt = await r.text().catch(() => "");
-        throw new Error(`${action} failed (${r.status}): ${txt}`);
-      }
+      await runAdminUserAction(id, action);
       await load(tab);
     } finally {
       setBusyId(null);
     }
   }
 
-  async function setEmailLeadImportAccess(id: number, enabled: boolean) {
-    setBusyId(id);
+  async function toggleCapability(u: AdminUser, capability: Capability) {
+    const current = resolvePermissions(u);
+    const next = current.includes(capability)
+      ? current.filter((c) => c !== capability)
+      : [...current, capability];
+    setBusyId(u.id);
     setError("");
     try {
-      const r = await apiFetch(`/api/admin/users/${id}/email-lead-import-access`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ enabled }),
-      });
-      if (!r.ok) {
-        const txt = await r.text().catch(() => "");
-        throw new Error(`Email lead import access update failed (${r.status}): ${txt}`);
-      }
+      await setUserPermissions(u.id, next);
+      await load(tab);
+    } catch (e) {
+      setError(errorMessage(e, "Permission update failed"));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function toggleTwoFactorRequired(u: AdminUser) {
+    setBusyId(u.id);
+    setError("");
+    try {
+      await setUserTwoFactorRequired(u.id, !u.two_factor_required);
+      await load(tab);
+    } catch (e) {
+      setError(errorMessage(e, "Two-factor requirement update failed"));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function resetTwoFactor(u: AdminUser) {
+    if (!window.confirm(`Reset two-factor for ${u.email}? Their authenticator and recovery codes stop working.`)) return;
+    setBusyId(u.id);
+    setError("");
+    try {
+      await resetUserTwoFactor(u.id);
       await load(tab);
+    } catch (e) {
+      setError(errorMessage(e, "Two-factor reset failed"));
     } finally {
       setBusyId(null);
     }
   }
 
+  async function viewAsUser(u: AdminUser) {
+    if (!window.confirm(`View the app as ${u.email}? This is recorded in the audit log.`)) return;
+    setBusyId(u.id);
+    setError("");
+    try {
+      await startImpersonation(u.id);
+      // Full reload so nothing cached for the admin account is shown as theirs.
+      window.location.assign("/dashboard");
+    } catch (e) {
+      setError(errorMessage(e, "View as user failed"));
+      setBusyId(null);
+    }
+  }
+
   async function createInvite() {
     setError("");
     setInviteUrl("");
     const days = Number(inviteExpiryDays || "7");
     const expiresMinutes = Math.max(1, days) * 24 * 60;
-    const r = await apiFetch("/api/admin/invites", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ email: inviteEmail, role: "agent", expiresMinutes }),
-    });
-    if (!r.ok) {
-      const txt = await r.text().catch(() => "");
-      throw new Error(`Create invite failed (${r.status}): ${txt}`);
-    }
-    const body = await r.json().catch(() => ({}));
-    setInviteUrl(String(body?.signup_url || ""));
+    setInviteUrl(await createAdminInvite({ email: inviteEmail, role: "agent", expiresMinutes }));
     setInviteEmail("");
     await load(tab);
   }
 
   async function revokeInvite(id: number) {
     setError("");
-    const r = await apiFetch(`/api/admin/invites/${id}/revoke`, {
-      method: "POST",
-    });
-    if (!r.ok) {
-      const txt = await r.text().catch(() => "");
-      throw new Error(`Revoke invite failed (${r.status}): ${txt}`);
-    }
+    await revokeAdminInvite(id);
     await load(tab);
   }
 
@@ -268,26 +218,14 @@ export default function AdminUsersPage() {
     setError("");
     setIntegrityBusy(true);
     try {
-      const params = new URLSearchParams();
       const userId = String(integrityUserId || "").trim();
       const limitNum = Math.max(1, Math.min(50000, Number(integrityLimit || "5000")));
-      params.set("limit", String(limitNum));
-      params.set("sample", "25");
-      params.set("apply", applyFixes ? "1" : "0");
-      if (userId) params.set("user_id", userId);
-
-      const r = await apiFetch(`/api/admin/data-integrity/leads?${params.toString()}`, {
-        cache: "no-store",
-      });
-      if (!r.ok) {
-        const txt = await r.text().catch(() => "");
-        throw new Error(`Lead integrity check failed (${r.status}): ${txt}`);
-      }
-      const body = await r.json().catch(() => ({}));
-      setIntegrityResult((body?.result || null) as LeadIntegrityResult | null);
+      setIntegrityResult(
+        await checkLeadIntegrity({ limit: limitNum, sample: 25, apply: applyFixes, userId: userId || undefined })
+      );
       if (applyFixes) await load(tab);
-    } catch (e: any) {
-      setError(String(e?.message || "Lead integrity check failed"));
+    } catch (e) {
+      setError(errorMessage(e, "Lead integrity check failed"));
     } finally {
       setIntegrityBusy(false);
     }
@@ -314,25 +252,17 @@ export default function AdminUsersPage() {
     setBusyId(id);
     setError("");
     try {
-      const payload: Record<string, any> = {
+      const payload: UserBillingUpdate = {
         billing_status: draft.billing_status,
         trial_ends_at: draft.trial_ends_at ? draft.trial_ends_at : null,
       };
       if (draft.stripe_customer_id.trim()) payload.stripe_customer_id = draft.stripe_customer_id.trim();
       if (draft.stripe_subscription_id.trim()) payload.stripe_subscription_id = draft.stripe_subscription_id.trim();
 
-      const r = await apiFetch(`/api/admin/users/${id}/billing`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
-      if (!r.ok) {
-        const txt = await r.text().catch(() => "");
-        throw new Error(`Billing update failed (${r.status}): ${txt}`);
-      }
+      await setUserBilling(id, payload);
       await load(tab);
-    } catch (e: any) {
-      setError(String(e?.message || "Billing update failed"));
+    } catch (e) {
+      setError(errorMessage(e, "Billing update failed"));
     } finally {
       setBusyId(null);
     }
@@ -348,33 +278,33 @@ export default function AdminUsersPage() {
       <div className="mt-4 grid gap-3 md:grid-cols-5">
         <div className="rounded border border-border/70 bg-card/70 p-3 text-sm">
           <div className="text-muted-foreground">Pending</div>
-          <div className="text-xl font-semibold">{Number(status.user_counts?.pending || 0)}</div>
+          <div className="text-xl font-semibold">{Number(status?.user_counts?.pending || 0)}</div>
         </div>
         <div className="rounded border border-border/70 bg-card/70 p-3 text-sm">
           <div className="text-muted-foreground">Approved</div>
-          <div className="text-xl font-semibold">{Number(status.user_counts?.approved || 0)}</div>
+          <div className="text-xl font-semibold">{Number(status?.user_counts?.approved || 0)}</div>
         </div>
         <div className="rounded border border-border/70 bg-card/70 p-3 text-sm">
           <div className="text-muted-foreground">Suspended</div>
-          <div className="text-xl font-semibold">{Number(status.user_counts?.suspended || 0)}</div>
+          <div className="text-xl font-semibold">{Number(status?.user_counts?.suspended || 0)}</div>
         </div>
         <div className="rounded border border-border/70 bg-card/70 p-3 text-sm">
           <div className="text-muted-foreground">Rejected</div>
-          <div className="text-xl font-semibold">{Number(status.user_counts?.rejected || 0)}</div>
+          <div className="text-xl font-semibold">{Number(status?.user_counts?.rejected || 0)}</div>
         </div>
         <div className="rounded border border-border/70 bg-card/70 p-3 text-sm">
           <div className="text-muted-foreground">Email Delivery</div>
-          <div className={status.email_configured ? "text-emerald-300 font-medium" : "text-amber-300 font-medium"}>
-            {status.email_configured ? "Configured" : "Not configured"}
+          <div className={status?.email_configured ? "text-emerald-300 font-medium" : "text-amber-300 font-medium"}>
+            {status?.email_configured ? "Configured" : "Not configured"}
           </div>
-          <div className="text-xs text-muted-foreground">{status.email_from || "Set EMAIL_FROM + RESEND_API_KEY"}</div>
+          <div className="text-xs text-muted-foreground">{status?.email_from || "Set EMAIL_FROM + RESEND_API_KEY"}</div>
         </div>
       </div>
 
       <div className="mt-4 rounded border border-border/70 bg-card/70 p-4">
         <h2 className="text-lg font-medium">Setup Health</h2>
         <div className="mt-3 grid gap-2 md:grid-cols-2">
-          {(status.setup_checks || []).map((c) => (
+          {(status?.setup_checks || []).map((c) => (
             <div key={c.key} className={`rounded border px-3 py-2 text-sm ${healthClass(c.status)}`}>
               <div className="font-medium">{c.label}</div>
               <div className="text-xs opacity-90">{c.detail || ""}</div>
@@ -457,7 +387,7 @@ export default function AdminUsersPage() {
             className="rounded border border-border px-3 py-2 text-sm"
           />
           <button
-            onClick={() => createInvite().catch((e) => setError(String(e?.message || "Create invite failed")))}
+            onClick={() => createInvite().catch((e) => setError(errorMessage(e, "Create invite failed")))}
             className="rounded bg-cyan-600 text-white text-sm px-3 py-2 hover:bg-cyan-500"
           >
             Create Invite
@@ -503,6 +433,7 @@ export default function AdminUsersPage() {
             const fullName = [u.first_name, u.last_name].filter(Boolean).join(" ") || "(No name)";
             const busy = busyId === u.id;
             const approval = normalizeApprovalStatus(u.approval_status);
+            const permissions = resolvePermissions(u);
             const draft = billingByUser[u.id] || {
               billing_status: (String(u?.billing_status || "trial").toLowerCase() as BillingDraft["billing_status"]) || "trial",
               trial_ends_at: String(u?.trial_ends_at || ""),
@@ -524,14 +455,37 @@ export default function AdminUsersPage() {
                     Billing: {String(u.billing_status || "trial")} | Trial ends: {fmtDate(u.trial_ends_at) || "n/a"}
                   </div>
                   <div className="mt-1 text-xs text-muted-foreground">
-                    Email lead import: {Number(u.email_lead_import_access || 0) === 1 ? "enabled" : "disabled"}
+                    2FA: {u.two_factor_enabled ? "on" : "off"}
+                    {u.two_factor_required ? " (required)" : ""}
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-1.5">
+                    {(Object.keys(CAPABILITIES) as Capability[]).map((capability) => {
+                      const granted = permissions.includes(capability);
+                      return (
+                        <button
+                          key={capability}
+                          type="button"
+                          onClick={() => toggleCapability(u, capability)}
+                          disabled={busy}
+                          title={CAPABILITIES[capability]}
+                          className={
+                            granted
+                              ? "rounded border border-emerald-400/50 bg-emerald-500/15 px-2 py-0.5 text-[11px] text-emerald-200 hover:bg-emerald-500/25 disabled:opacity-60"
+                              : "rounded border border-border bg-card/60 px-2 py-0.5 text-[11px] text-muted-foreground hover:bg-muted/40 disabled:opacity-60"
+                          }
+                        >
+                          {granted ? "✓ " : ""}
+                          {capability}
+                        </button>
+                      );
+                    })}
                   </div>
                 </div>
 
                 <div className="flex flex-wrap gap-2 justify-end">
                   {approval !== "approved" && approval !== "suspended" ? (
                     <button
-                      onClick={() => runAction(u.id, "approve").catch((e) => setError(String(e?.message || "Approve failed")))}
+                      onClick={() => runAction(u.id, "approve").catch((e) => setError(errorMessage(e, "Approve failed")))}
                       disabled={busy}
                       className="rounded bg-green-600 text-white text-sm px-3 py-2 hover:bg-emerald-500 disabled:opacity-60"
                     >
@@ -541,7 +495,7 @@ export default function AdminUsersPage() {
 
                   {approval === "suspended" ? (
                     <button
-                      onClick={() => runAction(u.id, "reactivate").catch((e) => setError(String(e?.message || "Reactivate failed")))}
+                      onClick={() => runAction(u.id, "reactivate").catch((e) => setError(errorMessage(e, "Reactivate failed")))}
                       disabled={busy}
                       className="rounded bg-green-600 text-white text-sm px-3 py-2 hover:bg-emerald-500 disabled:opacity-60"
                     >
@@ -551,7 +505,7 @@ export default function AdminUsersPage() {
 
                   {approval === "approved" ? (
                     <button
-                      onClick={() => runAction(u.id, "suspend").catch((e) => setError(String(e?.message || "Suspend failed")))}
+                      onClick={() => runAction(u.id, "suspend").catch((e) => setError(errorMessage(e, "Suspend failed")))}
                       disabled={busy}
                       className="rounded bg-yellow-600 text-white text-sm px-3 py-2 hover:bg-amber-500 disabled:opacity-60"
                     >
@@ -561,7 +515,7 @@ export default function AdminUsersPage() {
 
                   {approval === "pending" ? (
                     <button
-                      onClick={() => runAction(u.id, "reject").catch((e) => setError(String(e?.message || "Reject failed")))}
+                      onClick={() => runAction(u.id, "reject").catch((e) => setError(errorMessage(e, "Reject failed")))}
                       disabled={busy}
                       className="rounded bg-yellow-600 text-white text-sm px-3 py-2 hover:bg-amber-500 disabled:opacity-60"
                     >
@@ -572,7 +526,7 @@ export default function AdminUsersPage() {
                   <button
                     onClick={() => {
                       if (!window.confirm(`Delete account for ${u.email}? This removes all user data.`)) return;
-                      runAction(u.id, "delete-account").catch((e) => setError(String(e?.message || "Delete account failed")));
+                      runAction(u.id, "delete-account").catch((e) => setError(errorMessage(e, "Delete account failed")));
                     }}
                     disabled={busy}
                     className="rounded bg-red-600 text-white text-sm px-3 py-2 hover:bg-rose-500 disabled:opacity-60"
@@ -584,7 +538,7 @@ export default function AdminUsersPage() {
                     <button
                       onClick={() => {
                         if (!window.confirm(`Delete pending user ${u.email}?`)) return;
-                        runAction(u.id, "delete").catch((e) => setError(String(e?.message || "Delete failed")));
+                        runAction(u.id, "delete").catch((e) => setError(errorMessage(e, "Delete failed")));
                       }}
                       disabled={busy}
                       className="rounded border border-rose-400/50 text-rose-200 text-sm px-3 py-2 hover:bg-rose-500/10 disabled:opacity-60"
@@ -594,31 +548,43 @@ export default function AdminUsersPage() {
                   ) : null}
 
                   <button
-                    onClick={() =>
-                      setEmailLeadImportAccess(u.id, Number(u.email_lead_import_access || 0) !== 1).catch((e) =>
-                        setError(String(e?.message || "Email lead access update failed"))
-                      )
-                    }
+                    onClick={() => runAction(u.id, "resend-approval-email").catch((e) => setError(errorMessage(e, "Resend failed")))}
                     disabled={busy}
-                    className={
-                      Number(u.email_lead_import_access || 0) === 1
-                        ? "rounded bg-emerald-700 text-white text-sm px-3 py-2 hover:bg-emerald-600 disabled:opacity-60"
-                        : "rounded bg-slate-700 text-white text-sm px-3 py-2 hover:bg-slate-600 disabled:opacity-60"
-                    }
+                    className="rounded bg-slate-700 text-white text-sm px-3 py-2 hover:bg-slate-600 disabled:opacity-60"
                   >
-                    {Number(u.email_lead_import_access || 0) === 1 ? "Disable Email Lead Import" : "Enable Email Lead Import"}
+                    Resend Approval
                   </button>
 
+                  {approval === "approved" ? (
+                    <button
+                      onClick={() => viewAsUser(u)}
+                      disabled={busy}
+                      className="rounded border border-amber-400/50 bg-amber-500/10 text-amber-200 text-sm px-3 py-2 hover:bg-amber-500/20 disabled:opacity-60"
+                    >
+                      View As User
+                    </button>
+                  ) : null}
+
                   <button
-                    onClick={() => runAction(u.id, "resend-approval-email").catch((e) => setError(String(e?.message || "Resend failed")))}
+                    onClick={() => toggleTwoFactorRequired(u)}
                     disabled={busy}
-                    className="rounded bg-slate-700 text-white text-sm px-3 py-2 hover:bg-slate-600 disabled:opacity-60"
+                    className="rounded border border-cyan-400/40 bg-cyan-500/15 text-cyan-200 text-sm px-3 py-2 hover:bg-cyan-500/25 disabled:opacity-60"
                   >
-                    Resend Approval
+                    {u.two_factor_required ? "Stop Requiring 2FA" : "Require 2FA"}
                   </button>
 
+                  {u.two_factor_enabled ? (
+                    <button
+                      onClick={() => resetTwoFactor(u)}
+                      disabled={busy}
+                      className="rounded border border-rose-400/50 text-rose-200 text-sm px-3 py-2 hover:bg-rose-500/10 disabled:opacity-60"
+                    >
+                      Reset 2FA
+                    </button>
+                  ) : null}
+
                   <button
-                    onClick={() => runAction(u.id, "send-reset-email").catch((e) => setError(String(e?.message || "Reset email failed")))}
+                    onClick={() => runAction(u.id, "send-reset-email").catch((e) => setError(errorMessage(e, "Reset email failed")))}
                     disabled={busy}
                     className="rounded bg-indigo-700 text-white text-sm px-3 py-2 hover:bg-indigo-600 disabled:opacity-60"
                   >
@@ -675,7 +641,7 @@ export default function AdminUsersPage() {
                 </div>
                 {!inv.used_at && !inv.revoked_at ? (
                   <button
-                    onClick={() => revokeInvite(inv.id).catch((e) => setError(String(e?.message || "Revoke invite failed")))}
+                    onClick={() => revokeInvite(inv.id).catch((e) => setError(errorMessage(e, "Revoke invite failed")))}
                     className="mt-2 rounded border border-rose-400/40 px-2 py-1 text-xs text-rose-300 hover:bg-rose-500/10"
                   >
                     Revoke
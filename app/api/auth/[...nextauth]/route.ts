@@ -1,10 +1,211 @@
 import NextAuth from "next-auth";
+import type { JWT } from "next-auth/jwt";
 import Credentials from "next-auth/providers/credentials";
+import {
+  checkThrottle,
+  clearFailures,
+  clientIp,
+  LOGIN_EMAIL_POLICY,
+  LOGIN_IP_POLICY,
+  recordFailure,
+  strictest,
+  type ThrottleVerdict,
+} from "@/lib/authThrottle";
+import { resolvePermissions, type Capability } from "@/lib/permissions";
+import { verifyChallenge } from "@/lib/powChallenge";
 
 const API_BASE =
   process.env.NEXT_PUBLIC_API_BASE ||
   "https://infinitedrip-backend.onrender.com";
 
+// Refresh a little early so requests in flight don't race the expiry.
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Role and permission changes reach proxy.ts within this long, including for
+// backend tokens that never expire (tokenExpiresAt 0) and so never refresh.
+const CLAIMS_TTL_MS = 60 * 1000;
+
+// Backend answers with `expires_in` (seconds) or an absolute `expires_at`.
+function readExpiresAt(data: { expires_in?: unknown; expires_at?: unknown }): number {
+  const inSeconds = Number(data?.expires_in || 0);
+  if (Number.isFinite(inSeconds) && inSeconds > 0) return Date.now() + inSeconds * 1000;
+  const at = Date.parse(String(data?.expires_at || ""));
+  return Number.isFinite(at) ? at : 0;
+}
+
+// Admin required 2FA but the user has not enrolled; proxy.ts holds them on Settings.
+function needsTwoFactorSetup(user: { two_factor_required?: unknown; two_factor_enabled?: unknown }) {
+  return user.two_factor_required === true && user.two_factor_enabled !== true;
+}
+
+// NextAuth hands the message of an error thrown from authorize back to
+// signIn() as `error`; the login page switches on these codes.
+class LoginError extends Error {}
+
+// Backend login errors passed through to the login page.
+const BACKEND_LOGIN_ERRORS: Record<string, string> = {
+  pending_approval: "PendingApproval",
+  access_disabled: "AccessDisabled",
+  two_factor_required: "TwoFactorRequired",
+  invalid_two_factor_code: "TwoFactorInvalid",
+};
+
+// Wrong password or code; these count toward throttling. A missing 2FA code does not.
+const FAILED_LOGIN_ERRORS = new Set(["invalid_credentials", "invalid_two_factor_code"]);
+
+// Checks the impersonation id sent by startImpersonation against the backend.
+// Only user managers may set the claim, and the viewed user's email and
+// permissions come from the backend record, never from the client.
+async function verifyImpersonation(token: JWT, value: unknown) {
+  if (!value || typeof value !== "object") return null;
+  if (!resolvePermissions({ role: token.role, permissions: token.permissions }).includes("admin.users.manage")) return null;
+  const id = String((value as { id?: unknown }).id || "");
+  if (!id) return null;
+  try {
+    const resp = await fetch(`${API_BASE}/api/admin/impersonation/${encodeURIComponent(id)}`, {
+      headers: { Authorization: `Bearer ${String(token.token || "")}` },
+      cache: "no-store",
+    });
+    if (!resp.ok) return null;
+    const data = await resp.json().catch(() => null);
+    const record = data?.impersonation;
+    // An ended session can't be resumed by replaying its id.
+    if (!record || String(record.id || "") !== id || record.active === false || record.ended_at) return null;
+    const email = String(record.user?.email || "").trim().toLowerCase();
+    if (!email) return null;
+    return { id, email, permissions: resolvePermissions(record.user) };
+  } catch (e) {
+    console.error("IMPERSONATION CHECK ERROR:", e);
+    return null;
+  }
+}
+
+type BackendUser = {
+  id: string;
+  token: string;
+  refreshToken: string;
+  tokenExpiresAt: number;
+  role: string;
+  permissions: Capability[];
+  twoFactorSetup: boolean;
+  sessionId: string;
+};
+
+// Login runs server-side; pass the browser's details on so the session list can show them.
+function clientHeaders(headers: Record<string, unknown> | undefined, ip: string) {
+  const out: Record<string, string> = { "Content-Type": "application/json" };
+  const userAgent = headers?.["user-agent"];
+  if (userAgent) out["user-agent"] = String(userAgent);
+  if (ip !== "unknown") out["x-forwarded-for"] = ip;
+  return out;
+}
+
+// Successful /auth/login and /auth/magic-link/verify body.
+type LoginResponse = {
+  token: unknown;
+  refresh_token?: unknown;
+  expires_in?: unknown;
+  expires_at?: unknown;
+  session_id?: unknown;
+  user: {
+    email: unknown;
+    role?: unknown;
+    permissions?: unknown;
+    email_lead_import_access?: unknown;
+    two_factor_required?: unknown;
+    two_factor_enabled?: unknown;
+  };
+};
+
+// The user object authorize returns; the jwt callback copies it into the token.
+function toAuthUser(data: LoginResponse) {
+  return {
+    id: String(data.user.email),
+    name: String(data.user.email),
+    email: String(data.user.email),
+    token: String(data.token),
+    refreshToken: String(data.refresh_token || ""),
+    tokenExpiresAt: readExpiresAt(data),
+    role: String(data.user.role || "agent"),
+    permissions: resolvePermissions(data.user),
+    twoFactorSetup: needsTwoFactorSetup(data.user),
+    sessionId: String(data.session_id || ""),
+  };
+}
+
+function throttledError(verdict: ThrottleVerdict) {
+  if (verdict.status === "locked") return new LoginError(`LockedOut:${Math.ceil(verdict.retryAfterMs / 1000)}`);
+  if (verdict.status === "wait") return new LoginError(`RetryAfter:${Math.ceil(verdict.retryAfterMs / 1000)}`);
+  return null;
+}
+
+type ClaimsUser = { role?: unknown; permissions?: unknown; two_factor_required?: unknown; two_factor_enabled?: unknown };
+
+// Current role, permissions and 2FA state for a fresh access token, for
+// refresh responses that carry no `user`. Null when /api/me can't be read.
+async function loadClaimsUser(accessToken: string): Promise<ClaimsUser | null> {
+  try {
+    const resp = await fetch(`${API_BASE}/api/me`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      cache: "no-store",
+    });
+    if (!resp.ok) return null;
+    const data = await resp.json().catch(() => null);
+    return data?.user && typeof data.user === "object" ? (data.user as ClaimsUser) : null;
+  } catch {
+    return null;
+  }
+}
+
+function claimsFromUser(token: JWT, user: ClaimsUser) {
+  return {
+    role: String(user.role || token.role || "agent"),
+    permissions: resolvePermissions(user),
+    twoFactorSetup: needsTwoFactorSetup(user),
+    claimsCheckedAt: Date.now(),
+  };
+}
+
+// Keeps the current claims when /api/me can't be read; the next check is a TTL away.
+async function reloadClaims(token: JWT): Promise<JWT> {
+  const user = await loadClaimsUser(String(token.token || ""));
+  return user ? { ...token, ...claimsFromUser(token, user) } : { ...token, claimsCheckedAt: Date.now() };
+}
+
+async function refreshBackendToken(token: JWT): Promise<JWT> {
+  const refreshToken = String(token.refreshToken || "");
+  if (!refreshToken) return { ...token, error: "RefreshTokenMissing" };
+
+  try {
+    const resp = await fetch(`${API_BASE}/auth/refresh`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    });
+    const data = await resp.json().catch(() => ({}));
+    // Revoked from Settings > Sessions on this or another device.
+    if (data?.error === "session_revoked") return { ...token, error: "SessionRevoked" };
+    if (!resp.ok || !data?.token) return { ...token, error: "RefreshTokenError" };
+
+    const accessToken = String(data.token);
+    // proxy.ts gates routes on these claims; pick up role or access changes made
+    // since login (including a finished 2FA setup) even when refresh omits `user`.
+    const user: ClaimsUser | null = data.user ?? (await loadClaimsUser(accessToken));
+    return {
+      ...token,
+      token: accessToken,
+      // Backends that rotate refresh tokens send a new one; otherwise keep the old.
+      refreshToken: String(data.refresh_token || refreshToken),
+      tokenExpiresAt: readExpiresAt(data),
+      ...(user ? claimsFromUser(token, user) : {}),
+      error: undefined,
+    };
+  } catch (e) {
+    console.error("TOKEN REFRESH ERROR:", e);
+    return { ...token, error: "RefreshTokenError" };
+  }
+}
+
 const handler = NextAuth({
   providers: [
     Credentials({
@@ -12,57 +213,150 @@ const handler = NextAuth({
       credentials: {
         email: { label: "Email", type: "text" },
         password: { label: "Password", type: "password" },
+        // TOTP or recovery code, sent on the second step for accounts with 2FA.
+        otp: { label: "Code", type: "text" },
+        // Proof-of-work solution, required after repeated failures (lib/powSolver.ts).
+        challenge: { label: "Challenge", type: "text" },
+        nonce: { label: "Nonce", type: "text" },
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         const email = String(credentials?.email || "").trim().toLowerCase();
         const password = String(credentials?.password || "");
+        const otp = String(credentials?.otp || "").replace(/\s+/g, "");
 
         if (!email || !password) return null;
 
+        const ip = clientIp(req?.headers);
+        const throttleKeys = [
+          { key: `login:email:${email}`, policy: LOGIN_EMAIL_POLICY },
+          { key: `login:ip:${ip}`, policy: LOGIN_IP_POLICY },
+        ];
+        const verdict = strictest(throttleKeys.map((t) => checkThrottle(t.key, t.policy)));
+        const throttled = throttledError(verdict);
+        if (throttled) throw throttled;
+        if (verdict.status === "challenge" && !verifyChallenge(credentials?.challenge, credentials?.nonce)) {
+          throw new LoginError("ChallengeRequired");
+        }
+
         try {
           const resp = await fetch(`${API_BASE}/auth/login`, {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ email, password }),
+            headers: clientHeaders(req?.headers, ip),
+            body: JSON.stringify(otp ? { email, password, otp } : { email, password }),
           });
 
-          if (!resp.ok) return null;
-
-          const data = await resp.json();
+          const data = await resp.json().catch(() => ({}));
+          if (!resp.ok) {
+            const code = String(data?.error || "");
+            // Older backends answer a bad password with a bare 401.
+            if (FAILED_LOGIN_ERRORS.has(code) || (resp.status === 401 && !code)) {
+              throttleKeys.forEach((t) => recordFailure(t.key, t.policy));
+            }
+            if (BACKEND_LOGIN_ERRORS[code]) throw new LoginError(BACKEND_LOGIN_ERRORS[code]);
+            return null;
+          }
 
           if (!data?.ok || !data?.token || !data?.user?.email) return null;
+          clearFailures(throttleKeys[0].key);
 
-          // Return user object; we'll attach token in jwt callback
-          return {
-            id: String(data.user.email),
-            name: String(data.user.email),
-            email: String(data.user.email),
-            token: String(data.token),
-            role: String(data.user.role || "agent"),
-          } as any;
+          return toAuthUser(data);
         } catch (e) {
+          if (e instanceof LoginError) throw e;
           console.error("AUTH ERROR:", e);
           return null;
         }
       },
     }),
+    // Passwordless sign-in. The link is requested through app/api/auth/magic-link
+    // and emailed by the backend (same pipeline as reset emails); app/login/magic
+    // posts its token here. The backend makes tokens single-use and short-lived.
+    Credentials({
+      id: "magic-link",
+      name: "Magic link",
+      credentials: {
+        token: { label: "Token", type: "text" },
+        otp: { label: "Code", type: "text" },
+      },
+      async authorize(credentials, req) {
+        const token = String(credentials?.token || "").trim();
+        const otp = String(credentials?.otp || "").replace(/\s+/g, "");
+        if (!token) return null;
+
+        // Tokens are unguessable, so no challenge; the IP limit only slows down link scanning.
+        const ip = clientIp(req?.headers);
+        const ipKey = `magic:ip:${ip}`;
+        const throttled = throttledError(checkThrottle(ipKey, LOGIN_IP_POLICY));
+        if (throttled) throw throttled;
+
+        try {
+          const resp = await fetch(`${API_BASE}/auth/magic-link/verify`, {
+            method: "POST",
+            headers: clientHeaders(req?.headers, ip),
+            body: JSON.stringify(otp ? { token, otp } : { token }),
+          });
+
+          const data = await resp.json().catch(() => ({}));
+          if (!resp.ok) {
+            const code = String(data?.error || "");
+            if (code === "invalid_or_expired_token" || FAILED_LOGIN_ERRORS.has(code)) recordFailure(ipKey, LOGIN_IP_POLICY);
+            if (code === "invalid_or_expired_token") throw new LoginError("LinkInvalid");
+            if (BACKEND_LOGIN_ERRORS[code]) throw new LoginError(BACKEND_LOGIN_ERRORS[code]);
+            return null;
+          }
+
+          if (!data?.ok || !data?.token || !data?.user?.email) return null;
+          return toAuthUser(data);
+        } catch (e) {
+          if (e instanceof LoginError) throw e;
+          console.error("MAGIC LINK AUTH ERROR:", e);
+          return null;
+        }
+      },
+    }),
   ],
   session: { strategy: "jwt" },
   callbacks: {
-    async jwt({ token, user }) {
+    async jwt({ token, user, trigger, session }) {
       // first login
       if (user) {
-        token.userId = (user as any).id;
-        token.token = (user as any).token;
-        token.role = (user as any).role;
+        const u = user as BackendUser;
+        token.userId = u.id;
+        token.token = u.token;
+        token.refreshToken = u.refreshToken;
+        token.tokenExpiresAt = u.tokenExpiresAt;
+        token.role = u.role;
+        token.permissions = u.permissions;
+        token.twoFactorSetup = u.twoFactorSetup;
+        token.sessionId = u.sessionId;
+        token.claimsCheckedAt = Date.now();
+        token.error = undefined;
+        return token;
+      }
+
+      // startImpersonation / stopImpersonation in lib/api/admin.ts.
+      if (trigger === "update" && session && "impersonate" in session) {
+        token.impersonating = await verifyImpersonation(token, session.impersonate);
+        return token;
       }
+
+      // apiFetch asks for a refresh after the backend rejects the token with a 401.
+      const forced = trigger === "update" && session?.refresh === true;
+      const expiresAt = Number(token.tokenExpiresAt || 0);
+      const expiring = expiresAt > 0 && Date.now() >= expiresAt - TOKEN_REFRESH_MARGIN_MS;
+      if (forced || expiring) return refreshBackendToken(token);
+
+      if (Date.now() - Number(token.claimsCheckedAt || 0) >= CLAIMS_TTL_MS) return reloadClaims(token);
       return token;
     },
     async session({ session, token }) {
-      (session as any).userId = (token as any).userId || "demo";
-      (session as any).token = (token as any).token || "";
-      (session as any).role = (token as any).role || "agent";
-      return session;
+      return Object.assign(session, {
+        userId: token.userId || "demo",
+        token: token.token || "",
+        role: token.role || "agent",
+        impersonating: token.impersonating || null,
+        // Set when the backend token could not be refreshed; apiFetch then reports the session as expired.
+        error: token.error || undefined,
+      });
     },
   },
 });
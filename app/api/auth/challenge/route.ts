@@ -0,0 +1,7 @@
+import { createChallenge } from "@/lib/powChallenge";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return Response.json({ challenge: createChallenge() }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,66 @@
+import type { NextRequest } from "next/server";
+import { checkThrottle, clientIp, FORM_EMAIL_POLICY, FORM_IP_POLICY, recordFailure, strictest } from "@/lib/authThrottle";
+import { verifyChallenge } from "@/lib/powChallenge";
+
+const API_BASE =
+  process.env.NEXT_PUBLIC_API_BASE ||
+  "https://infinitedrip-backend.onrender.com";
+
+// Forwards a public auth form (signup, forgot-password, magic link) to the
+// backend after the per-IP and per-email limits and the proof-of-work check.
+// `challenge` and `nonce` are stripped from the body and `extra` fields are
+// added; errors use the backend's `{ error }` shape.
+export async function relayGuardedForm(
+  req: NextRequest,
+  backendPath: string,
+  scope: string,
+  extra: Record<string, unknown> = {}
+) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return Response.json({ ok: false, error: "invalid_body" }, { status: 400 });
+  }
+  const { challenge, nonce, ...fields } = body as Record<string, unknown>;
+
+  const ip = clientIp(req.headers);
+  const email = String(fields.email || "").trim().toLowerCase();
+  const limits = [
+    { key: `${scope}:ip:${ip}`, policy: FORM_IP_POLICY },
+    { key: `${scope}:email:${email}:ip:${ip}`, policy: FORM_EMAIL_POLICY },
+  ];
+
+  const verdict = strictest(limits.map((l) => checkThrottle(l.key, l.policy)));
+  if (verdict.status === "locked" || verdict.status === "wait") {
+    const retryAfter = Math.ceil(verdict.retryAfterMs / 1000);
+    return Response.json(
+      { ok: false, error: "rate_limited", retry_after: retryAfter },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } }
+    );
+  }
+
+  if (!verifyChallenge(challenge, nonce)) {
+    return Response.json({ ok: false, error: "challenge_failed" }, { status: 400 });
+  }
+
+  // Every submission counts, successful or not.
+  for (const l of limits) recordFailure(l.key, l.policy);
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${API_BASE}${backendPath}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-forwarded-for": ip,
+        "user-agent": req.headers.get("user-agent") || "",
+      },
+      body: JSON.stringify({ ...fields, ...extra }),
+      cache: "no-store",
+    });
+  } catch {
+    return Response.json({ ok: false, error: "upstream_unavailable" }, { status: 502 });
+  }
+
+  const data = await upstream.json().catch(() => ({}));
+  return Response.json(data, { status: upstream.status });
+}
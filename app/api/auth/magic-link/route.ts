@@ -0,0 +1,13 @@
+import type { NextRequest } from "next/server";
+import { safeNextPath } from "@/lib/nextPath";
+import { relayGuardedForm } from "../guardedRelay";
+
+// Asks the backend to email a sign-in link. The link lands on /login/magic
+// (the backend appends `token`), which completes sign-in via the
+// "magic-link" NextAuth provider.
+export async function POST(req: NextRequest) {
+  const callbackUrl = new URL("/login/magic", process.env.NEXTAUTH_URL || req.nextUrl.origin);
+  const next = safeNextPath(req.nextUrl.searchParams.get("next"));
+  if (next !== "/dashboard") callbackUrl.searchParams.set("next", next);
+  return relayGuardedForm(req, "/auth/magic-link", "magic-link", { callback_url: callbackUrl.toString() });
+}
@@ -0,0 +1,6 @@
+import type { NextRequest } from "next/server";
+import { relayGuardedForm } from "../guardedRelay";
+
+export async function POST(req: NextRequest) {
+  return relayGuardedForm(req, "/auth/signup", "signup");
+}
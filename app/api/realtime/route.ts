@@ -0,0 +1,75 @@
+import { getToken } from "next-auth/jwt";
+import type { NextRequest } from "next/server";
+import { openStandInStream, publishStandInEvent } from "./standin";
+
+export const dynamic = "force-dynamic";
+
+const API_BASE =
+  process.env.NEXT_PUBLIC_API_BASE ||
+  "https://infinitedrip-backend.onrender.com";
+
+const useStandIn = process.env.REALTIME_SOURCE === "standin";
+
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  // Stops nginx-style proxies from buffering the stream.
+  "X-Accel-Buffering": "no",
+};
+
+async function readSession(req: NextRequest) {
+  const token = await getToken({ req });
+  // Admins viewing as another user get that user's stream, like apiFetch.
+  const impersonating = token?.impersonating as { id?: string; email?: string } | null | undefined;
+  const userId = String(impersonating?.email || token?.email || "");
+  if (!token || !userId) return null;
+  return { userId, impersonationId: String(impersonating?.id || ""), backendToken: String(token.token || "") };
+}
+
+// EventSource cannot set Authorization headers, so the browser connects here
+// with its session cookie and the stream is relayed from the backend.
+export async function GET(req: NextRequest) {
+  const session = await readSession(req);
+  if (!session) return new Response("Unauthorized", { status: 401 });
+
+  if (useStandIn) {
+    return new Response(openStandInStream(session.userId, req.signal), { headers: SSE_HEADERS });
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${API_BASE}/api/events/stream`, {
+      headers: {
+        Accept: "text/event-stream",
+        Authorization: `Bearer ${session.backendToken}`,
+        "x-user-id": session.userId,
+        ...(session.impersonationId ? { "x-impersonation-id": session.impersonationId } : {}),
+      },
+      cache: "no-store",
+      signal: req.signal,
+    });
+  } catch {
+    return new Response("Event stream unavailable", { status: 502 });
+  }
+
+  if (!upstream.ok || !upstream.body) {
+    return new Response(`Event stream unavailable (${upstream.status})`, { status: 502 });
+  }
+  return new Response(upstream.body, { headers: SSE_HEADERS });
+}
+
+export async function POST(req: NextRequest) {
+  if (!useStandIn) return new Response("Not found", { status: 404 });
+
+  const session = await readSession(req);
+  if (!session) return new Response("Unauthorized", { status: 401 });
+
+  const event = await req.json().catch(() => null);
+  if (!event || typeof event !== "object" || typeof event.type !== "string") {
+    return Response.json({ ok: false, error: "Body must be an event object with a string `type`." }, { status: 400 });
+  }
+
+  const delivered = publishStandInEvent(session.userId, event);
+  return Response.json({ ok: true, delivered });
+}
@@ -0,0 +1,62 @@
+// In-process stand-in for the backend event stream, for local development.
+// Enable with REALTIME_SOURCE=standin, then push events from the signed-in
+// browser tab:
+//
+//   fetch("/api/realtime", { method: "POST", body: JSON.stringify({ type: "lead.updated", lead_id: 1 }) })
+//
+// Every open stream for the same user receives the event.
+
+type Client = {
+  userId: string;
+  send: (chunk: string) => void;
+};
+
+const HEARTBEAT_MS = 15000;
+
+// Survives dev-server module reloads so open streams keep receiving events.
+const store = globalThis as typeof globalThis & { __realtimeStandInClients?: Set<Client> };
+const clients = (store.__realtimeStandInClients ??= new Set<Client>());
+
+const encoder = new TextEncoder();
+
+export function openStandInStream(userId: string, signal: AbortSignal): ReadableStream<Uint8Array> {
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let client: Client | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const c: Client = {
+        userId,
+        send: (chunk) => controller.enqueue(encoder.encode(chunk)),
+      };
+      client = c;
+      clients.add(c);
+      c.send(": stand-in event source\n\n");
+      heartbeat = setInterval(() => c.send(": ping\n\n"), HEARTBEAT_MS);
+
+      signal.addEventListener("abort", () => {
+        if (heartbeat) clearInterval(heartbeat);
+        clients.delete(c);
+        try {
+          controller.close();
+        } catch {}
+      });
+    },
+    cancel() {
+      if (heartbeat) clearInterval(heartbeat);
+      if (client) clients.delete(client);
+    },
+  });
+}
+
+// Returns how many open streams received the event.
+export function publishStandInEvent(userId: string, event: Record<string, unknown>): number {
+  const chunk = `data: ${JSON.stringify(event)}\n\n`;
+  let delivered = 0;
+  for (const c of clients) {
+    if (c.userId !== userId) continue;
+    c.send(chunk);
+    delivered += 1;
+  }
+  return delivered;
+}
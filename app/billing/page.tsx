@@ -1,16 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { apiFetch } from "@/lib/apiFetch";
-
-type BillingStatus = {
-  status?: string;
-  trial_ends_at?: string | null;
-  stripe_customer_id_set?: boolean;
-  stripe_subscription_id_set?: boolean;
-  updated_at?: string | null;
-  enforced?: boolean;
-};
+import { errorMessage, getBillingStatus, type AccountBilling } from "@/lib/api";
 
 function fmtDate(value?: string | null) {
   if (!value) return "-";
@@ -23,7 +14,7 @@ function fmtDate(value?: string | null) {
 export default function BillingPage() {
   const [loading, setLoading] = React.useState(true);
   const [error, setError] = React.useState("");
-  const [billing, setBilling] = React.useState<BillingStatus>({});
+  const [billing, setBilling] = React.useState<AccountBilling | null>(null);
 
   React.useEffect(() => {
     let dead = false;
@@ -31,15 +22,10 @@ export default function BillingPage() {
       setLoading(true);
       setError("");
       try {
-        const r = await apiFetch("/api/billing/status", { cache: "no-store" });
-        if (!r.ok) {
-          const txt = await r.text().catch(() => "");
-          throw new Error(`Billing status failed (${r.status}): ${txt}`);
-        }
-        const body = await r.json().catch(() => ({}));
-        if (!dead) setBilling((body?.billing || {}) as BillingStatus);
-      } catch (e: any) {
-        if (!dead) setError(String(e?.message || "Failed to load billing status"));
+        const next = await getBillingStatus();
+        if (!dead) setBilling(next);
+      } catch (e) {
+        if (!dead) setError(errorMessage(e, "Failed to load billing status"));
       } finally {
         if (!dead) setLoading(false);
       }
@@ -62,25 +48,25 @@ export default function BillingPage() {
         ) : (
           <div className="space-y-2">
             <div>
-              <span className="text-muted-foreground">Status:</span> <span className="font-medium text-foreground">{billing.status || "trial"}</span>
+              <span className="text-muted-foreground">Status:</span> <span className="font-medium text-foreground">{billing?.status || "trial"}</span>
             </div>
             <div>
-              <span className="text-muted-foreground">Trial ends:</span> <span className="text-foreground">{fmtDate(billing.trial_ends_at)}</span>
+              <span className="text-muted-foreground">Trial ends:</span> <span className="text-foreground">{fmtDate(billing?.trial_ends_at)}</span>
             </div>
             <div>
               <span className="text-muted-foreground">Stripe customer ID:</span>{" "}
-              <span className="text-foreground">{billing.stripe_customer_id_set ? "Set" : "Not set"}</span>
+              <span className="text-foreground">{billing?.stripe_customer_id_set ? "Set" : "Not set"}</span>
             </div>
             <div>
               <span className="text-muted-foreground">Stripe subscription ID:</span>{" "}
-              <span className="text-foreground">{billing.stripe_subscription_id_set ? "Set" : "Not set"}</span>
+              <span className="text-foreground">{billing?.stripe_subscription_id_set ? "Set" : "Not set"}</span>
             </div>
             <div>
               <span className="text-muted-foreground">Billing enforcement:</span>{" "}
-              <span className="text-foreground">{billing.enforced ? "Enabled" : "Disabled"}</span>
+              <span className="text-foreground">{billing?.enforced ? "Enabled" : "Disabled"}</span>
             </div>
             <div>
-              <span className="text-muted-foreground">Last updated:</span> <span className="text-foreground">{fmtDate(billing.updated_at)}</span>
+              <span className="text-muted-foreground">Last updated:</span> <span className="text-foreground">{fmtDate(billing?.updated_at)}</span>
             </div>
           </div>
         )}
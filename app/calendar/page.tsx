@@ -2,45 +2,19 @@
 
 import * as React from "react";
 import Link from "next/link";
-import { apiFetch } from "@/lib/apiFetch";
-
-type Appointment = {
-  id: string;
-  title: string;
-  start: string | null;
-  end: string | null;
-  link: string | null;
-};
+import {
+  errorMessage,
+  getCalendarStatus,
+  getGoogleAuthUrl,
+  getSettings,
+  listAppointments,
+  updateSettings,
+  type Appointment,
+  type CalendarStatus,
+} from "@/lib/api";
 
 type CalendarView = "day" | "week" | "month";
 
-type CalendarStatus = {
-  configured?: boolean;
-  connected?: boolean;
-  gmail_connected?: boolean;
-  account_email?: string;
-  warning?: string;
-  detail?: string;
-  calendar_id?: string;
-  next_event_at?: string | null;
-  checked_at?: string;
-};
-
-type SettingsResponse = {
-  ok?: boolean;
-  settings?: {
-    calendar_max_concurrent_bookings?: number;
-    calendar_overlap_window_minutes?: number;
-    calendar_blockout_enabled?: boolean;
-    calendar_blockout_weekdays?: number[] | string;
-    calendar_blockout_all_day?: boolean;
-    calendar_blockout_start?: string;
-    calendar_blockout_end?: string;
-    calendar_blockout_ranges?: unknown;
-    calendar_blockout_recurring?: unknown;
-  };
-};
-
 const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 const FULL_WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 const BLOCKOUT_DAY_PILLS = [
@@ -496,9 +470,7 @@ export default function CalendarPage() {
   const loadStatus = React.useCallback(async () => {
     setStatusLoading(true);
     try {
-      const res = await apiFetch("/api/appointments/status", { cache: "no-store" });
-      const body = await res.json().catch(() => ({}));
-      if (res.ok) setStatus(body?.status || null);
+      setStatus(await getCalendarStatus());
     } catch {
       setStatus(null);
     } finally {
@@ -507,13 +479,7 @@ export default function CalendarPage() {
   }, []);
 
   const loadSettings = React.useCallback(async () => {
-    const settingsRes = await apiFetch("/api/settings", { cache: "no-store" });
-    if (!settingsRes.ok) {
-      const txt = await settingsRes.text().catch(() => "");
-      throw new Error(`Calendar settings load failed (${settingsRes.status}): ${txt}`);
-    }
-    const settingsBody = (await settingsRes.json().catch(() => ({}))) as SettingsResponse;
-    const settings = settingsBody?.settings || {};
+    const { settings } = await getSettings();
     const recurringFromSettings = normalizeRecurringBlockRules(
       settings.calendar_blockout_recurring ?? settings.calendar_blockout_ranges
     );
@@ -553,31 +519,18 @@ export default function CalendarPage() {
     setLoadingEvents(true);
     setError("");
     try {
-      const params = new URLSearchParams({
-        timeMin: visibleRange.start.toISOString(),
-        timeMax: visibleRange.end.toISOString(),
-        maxResults: "500",
-      });
-      const apptRes = await apiFetch(`/api/appointments?${params.toString()}`, { cache: "no-store" });
-      if (!apptRes.ok) {
-        const txt = await apptRes.text().catch(() => "");
-        throw new Error(`Appointments load failed (${apptRes.status}): ${txt}`);
-      }
-      const apptBody = await apptRes.json().catch(() => ({}));
-      setEvents(Array.isArray(apptBody?.events) ? apptBody.events : []);
-    } catch (e: unknown) {
-      const msg = e instanceof Error ? e.message : String(e || "Failed loading calendar events");
-      setError(msg);
+      setEvents(
+        await listAppointments({ timeMin: visibleRange.start, timeMax: visibleRange.end, maxResults: 500 })
+      );
+    } catch (e) {
+      setError(errorMessage(e, "Failed loading calendar events"));
     } finally {
       setLoadingEvents(false);
     }
   }, [visibleRange]);
 
   React.useEffect(() => {
-    loadSettings().catch((e: unknown) => {
-      const msg = e instanceof Error ? e.message : String(e || "Failed loading calendar settings");
-      setError(msg);
-    });
+    loadSettings().catch((e) => setError(errorMessage(e, "Failed loading calendar settings")));
     loadStatus();
   }, [loadSettings, loadStatus]);
 
@@ -608,15 +561,7 @@ export default function CalendarPage() {
         calendar_blockout_end: primaryRecurring?.end_hm || "",
         calendar_blockout_ranges: buildCalendarBlockoutRangesPayload(blockoutRanges, normalizedRecurring),
       };
-      const res = await apiFetch("/api/settings", {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(body),
-      });
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok || !data?.ok) {
-        throw new Error(String(data?.detail || data?.error || `save_failed_${res.status}`));
-      }
+      await updateSettings(body);
       setSavedRules(currentRules);
       if (scope === "blockout") {
         setSuccess("Blockout schedule saved.");
@@ -626,9 +571,8 @@ export default function CalendarPage() {
       } else {
         setSuccess("Calendar rules saved.");
       }
-    } catch (e: unknown) {
-      const msg = e instanceof Error ? e.message : String(e || "Could not save booking rules");
-      setError(msg);
+    } catch (e) {
+      setError(errorMessage(e, "Could not save booking rules"));
     } finally {
       setSavingRules(false);
     }
@@ -638,16 +582,10 @@ export default function CalendarPage() {
     setConnectingGoogle(true);
     setError("");
     try {
-      const res = await apiFetch("/api/integrations/google/url", { cache: "no-store" });
-      const body = await res.json().catch(() => ({}));
-      if (!res.ok || !body?.url) {
-        throw new Error(String(body?.detail || body?.error || `google_url_failed_${res.status}`));
-      }
-      window.location.href = String(body.url);
-    } catch (e: unknown) {
-      const msg = e instanceof Error ? e.message : String(e || "Failed to start Google connect");
+      window.location.href = await getGoogleAuthUrl();
+    } catch (e) {
       setConnectingGoogle(false);
-      setError(msg);
+      setError(errorMessage(e, "Failed to start Google connect"));
     }
   }
 
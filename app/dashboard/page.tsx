@@ -4,35 +4,22 @@ import Image from "next/image";
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { signOut } from "next-auth/react";
-import { apiFetch } from "@/lib/apiFetch";
-
-type ChecklistStep = {
-  key: string;
-  label: string;
-  done: boolean;
-};
+import { errorMessage, getOnboardingChecklist, type OnboardingStep } from "@/lib/api";
 
 export default function DashboardPage() {
   const [loading, setLoading] = useState(true);
-  const [checklist, setChecklist] = useState<ChecklistStep[]>([]);
+  const [checklist, setChecklist] = useState<OnboardingStep[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     let dead = false;
     (async () => {
       try {
-        const checklistResp = await apiFetch("/api/onboarding/checklist", { cache: "no-store" });
-        if (!checklistResp.ok) {
-          const txt = await checklistResp.text().catch(() => "");
-          throw new Error(`Checklist load failed (${checklistResp.status}): ${txt}`);
-        }
-
-        const checklistBody = await checklistResp.json().catch(() => ({}));
+        const steps = await getOnboardingChecklist();
         if (dead) return;
-        setChecklist(Array.isArray(checklistBody?.checklist?.steps) ? checklistBody.checklist.steps : []);
-      } catch (e: unknown) {
-        const msg = e instanceof Error ? e.message : String(e || "Could not load dashboard data");
-        if (!dead) setError(msg);
+        setChecklist(steps);
+      } catch (e) {
+        if (!dead) setError(errorMessage(e, "Could not load dashboard data"));
       } finally {
         if (!dead) setLoading(false);
       }
@@ -2,51 +2,19 @@
 
 import * as React from "react";
 import Link from "next/link";
-import { apiFetch } from "@/lib/apiFetch";
-
-type Lead = {
-  id: number;
-  name?: string | null;
-  first_name?: string | null;
-  last_name?: string | null;
-  phone?: string | null;
-  email?: string | null;
-  source?: string | null;
-  city?: string | null;
-  state?: string | null;
-  zip?: string | null;
-  lead_timezone?: string | null;
-  createdAt?: string | null;
-  created_at?: string | null;
-  created?: string | null;
-  last_message?: string | null;
-  lastMessageAt?: string | null;
-  last_message_at?: string | null;
-  inboundCount?: number | null;
-  inbound_count?: number | null;
-  ai_paused?: number | null;
-  ai_pause_reason?: string | null;
-  lead_snapshot_json?: string | null;
-};
-
-type GmailLeadImportStatus = {
-  access_granted?: boolean;
-  configured?: boolean;
-  connected?: boolean;
-  account_email?: string;
-  enabled?: boolean;
-  query?: string;
-  source_hints?: { from?: string[]; subject?: string[] };
-  auto_text_enabled?: boolean;
-  auto_text_template_set?: boolean;
-  worker_enabled?: boolean;
-  worker_interval_ms?: number;
-  worker_per_user_limit?: number;
-  warning?: string;
-  detail?: string;
-  recent_imports_24h?: number;
-  checked_at?: string;
-};
+import {
+  errorMessage,
+  getGmailLeadImportStatus,
+  getMe,
+  getSettings,
+  purgeGmailImportedLeads,
+  runGmailLeadImport,
+  sendGmailLeadTestText,
+  updateSettings,
+  useLeadList,
+  type GmailLeadImportStatus,
+} from "@/lib/api";
+import { hasPermission } from "@/lib/permissions";
 
 type SettingsForm = {
   gmail_lead_import_enabled: boolean;
@@ -55,11 +23,6 @@ type SettingsForm = {
   gmail_lead_import_auto_text_template: string;
 };
 
-type ImportSample = {
-  status?: string;
-  reason?: string;
-};
-
 type ImportResultSummary = {
   scanned: number;
   imported: number;
@@ -341,34 +304,6 @@ function classifyProviderBadge({
   };
 }
 
-function normalizeLead(raw: any): Lead {
-  return {
-    ...raw,
-    source: String(raw?.source || "manual"),
-    createdAt: raw?.createdAt ?? raw?.created_at ?? raw?.created ?? null,
-    lastMessageAt: raw?.lastMessageAt ?? raw?.last_message_at ?? null,
-    inboundCount: Number(raw?.inboundCount ?? raw?.inbound_count ?? raw?.inbound ?? 0),
-    lead_snapshot_json: String(raw?.lead_snapshot_json || ""),
-  };
-}
-
-async function readResponseError(r: Response): Promise<string> {
-  const ct = (r.headers.get("content-type") || "").toLowerCase();
-  const text = await r.text().catch(() => "");
-  if (ct.includes("text/html") || text.trim().startsWith("<!DOCTYPE html")) {
-    return "Server returned HTML (wrong route / proxy / auth).";
-  }
-  if (ct.includes("application/json")) {
-    try {
-      const j = JSON.parse(text || "{}");
-      return String(j?.error || j?.message || j?.detail || text || "Request failed");
-    } catch {
-      return text || "Request failed";
-    }
-  }
-  return text || "Request failed";
-}
-
 export default function EmailLeadsPage() {
   const [accessChecked, setAccessChecked] = React.useState(false);
   const [hasAccess, setHasAccess] = React.useState(false);
@@ -377,12 +312,10 @@ export default function EmailLeadsPage() {
   const [saving, setSaving] = React.useState(false);
   const [checkingStatus, setCheckingStatus] = React.useState(false);
   const [runningImport, setRunningImport] = React.useState(false);
-  const [loadingLeads, setLoadingLeads] = React.useState(false);
 
   const [form, setForm] = React.useState<SettingsForm>(DEFAULT_FORM);
   const [queryBuilder, setQueryBuilder] = React.useState<QueryBuilderState>(DEFAULT_QUERY_BUILDER);
   const [status, setStatus] = React.useState<GmailLeadImportStatus | null>(null);
-  const [leads, setLeads] = React.useState<Lead[]>([]);
   const [importSummary, setImportSummary] = React.useState<ImportResultSummary | null>(null);
   const [testTo, setTestTo] = React.useState("");
   const [testMessage, setTestMessage] = React.useState("");
@@ -393,105 +326,64 @@ export default function EmailLeadsPage() {
     setError("");
     setSuccess("");
     try {
-      const meResp = await apiFetch("/api/me", { cache: "no-store" });
-      if (!meResp.ok) {
-        const detail = await readResponseError(meResp);
-        throw new Error(`Authentication check failed: ${detail}`);
-      }
-      const meBody = await meResp.json().catch(() => ({}));
-      const role = String(meBody?.user?.role || "").toLowerCase();
-      const granted = role === "admin" || meBody?.user?.email_lead_import_access === true;
+      const me = await getMe();
+      const granted = hasPermission(me, "leads.import.email");
       setHasAccess(granted);
       setAccessChecked(true);
       if (!granted) return;
 
-      const [settingsResp, statusResp] = await Promise.all([
-        apiFetch("/api/settings", { cache: "no-store" }),
-        apiFetch("/api/integrations/gmail-leads/status", { cache: "no-store" }),
-      ]);
-      if (settingsResp.ok) {
-        const settingsBody = await settingsResp.json().catch(() => ({}));
-        const s = settingsBody?.settings || {};
+      // Either half may fail on its own; the form still shows what did load.
+      const [settingsResult, statusResult] = await Promise.allSettled([getSettings(), getGmailLeadImportStatus()]);
+      if (settingsResult.status === "fulfilled") {
+        const s = settingsResult.value.settings;
         setForm({
-          gmail_lead_import_enabled: !!s?.gmail_lead_import_enabled,
-          gmail_lead_import_query: String(s?.gmail_lead_import_query || "in:inbox newer_than:14d"),
-          gmail_lead_import_auto_text_enabled: !!s?.gmail_lead_import_auto_text_enabled,
-          gmail_lead_import_auto_text_template: String(s?.gmail_lead_import_auto_text_template || ""),
+          gmail_lead_import_enabled: !!s.gmail_lead_import_enabled,
+          gmail_lead_import_query: String(s.gmail_lead_import_query || "in:inbox newer_than:14d"),
+          gmail_lead_import_auto_text_enabled: !!s.gmail_lead_import_auto_text_enabled,
+          gmail_lead_import_auto_text_template: String(s.gmail_lead_import_auto_text_template || ""),
         });
         setTestMessage((prev) =>
           String(prev || "").trim()
             ? prev
-            : String(s?.gmail_lead_import_auto_text_template || "")
+            : String(s.gmail_lead_import_auto_text_template || "")
         );
-        setQueryBuilder(parseGmailQueryToBuilder(String(s?.gmail_lead_import_query || "in:inbox newer_than:14d")));
+        setQueryBuilder(parseGmailQueryToBuilder(String(s.gmail_lead_import_query || "in:inbox newer_than:14d")));
       }
-      if (statusResp.ok) {
-        const statusBody = await statusResp.json().catch(() => ({}));
-        setStatus((statusBody?.status || null) as GmailLeadImportStatus | null);
-      }
-    } catch (e: any) {
-      setError(String(e?.message || "Load failed"));
+      if (statusResult.status === "fulfilled") setStatus(statusResult.value);
+    } catch (e) {
+      setError(errorMessage(e, "Load failed"));
     }
   }, []);
 
-  const loadEmailLeads = React.useCallback(async () => {
-    if (!hasAccess) return;
-    setLoadingLeads(true);
-    try {
-      const r = await apiFetch("/api/leads?include_archived=0", { cache: "no-store" });
-      if (!r.ok) {
-        const details = await readResponseError(r);
-        throw new Error(`Failed to load leads (${r.status}): ${details}`);
-      }
-      const body = await r.json().catch(() => ({}));
-      const listRaw = Array.isArray(body) ? body : body?.leads || [];
-      const list = listRaw
-        .map((x: any) => normalizeLead(x))
-        .filter((x: Lead) => String(x.source || "").toLowerCase() === "gmail")
-        .sort((a: Lead, b: Lead) => toDateSafe(b.createdAt) - toDateSafe(a.createdAt));
-      setLeads(list);
-    } catch (e: any) {
-      setError(String(e?.message || "Failed to load email leads"));
-    } finally {
-      setLoadingLeads(false);
-    }
-  }, [hasAccess]);
+  const leadList = useLeadList({}, { pollMs: 12000, enabled: hasAccess });
+  const loadingLeads = hasAccess && leadList.data === undefined && !leadList.error;
+  const leadsError = leadList.error ? errorMessage(leadList.error, "Failed to load email leads") : "";
+  const leads = React.useMemo(() => {
+    return (leadList.data?.leads ?? [])
+      .filter((x) => x.source.toLowerCase() === "gmail")
+      .sort((a, b) => toDateSafe(b.createdAt) - toDateSafe(a.createdAt));
+  }, [leadList.data]);
 
   React.useEffect(() => {
     load().catch(() => {});
   }, [load]);
 
-  React.useEffect(() => {
-    if (!hasAccess) return;
-    loadEmailLeads().catch(() => {});
-    const t = window.setInterval(() => loadEmailLeads().catch(() => {}), 12000);
-    return () => window.clearInterval(t);
-  }, [hasAccess, loadEmailLeads]);
-
   async function saveSettings() {
     if (!hasAccess) return;
     setSaving(true);
     setError("");
     setSuccess("");
     try {
-      const r = await apiFetch("/api/settings", {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          gmail_lead_import_enabled: !!form.gmail_lead_import_enabled,
-          gmail_lead_import_query: String(form.gmail_lead_import_query || "").trim(),
-          gmail_lead_import_auto_text_enabled: !!form.gmail_lead_import_auto_text_enabled,
-          gmail_lead_import_auto_text_template: String(form.gmail_lead_import_auto_text_template || "").trim(),
-        }),
+      await updateSettings({
+        gmail_lead_import_enabled: !!form.gmail_lead_import_enabled,
+        gmail_lead_import_query: String(form.gmail_lead_import_query || "").trim(),
+        gmail_lead_import_auto_text_enabled: !!form.gmail_lead_import_auto_text_enabled,
+        gmail_lead_import_auto_text_template: String(form.gmail_lead_import_auto_text_template || "").trim(),
       });
-      if (!r.ok) {
-        const details = await readResponseError(r);
-        throw new Error(`Save failed (${r.status}): ${details}`);
-      }
       setSuccess("Email lead import settings saved.");
       await load().catch(() => {});
-    } catch (e: any) {
-      setError(String(e?.message || "Save failed"));
+    } catch (e) {
+      setError(errorMessage(e, "Save failed"));
     } finally {
       setSaving(false);
     }
@@ -502,15 +394,9 @@ export default function EmailLeadsPage() {
     setCheckingStatus(true);
     setError("");
     try {
-      const r = await apiFetch("/api/integrations/gmail-leads/status", { cache: "no-store" });
-      if (!r.ok) {
-        const details = await readResponseError(r);
-        throw new Error(`Status check failed (${r.status}): ${details}`);
-      }
-      const body = await r.json().catch(() => ({}));
-      setStatus((body?.status || null) as GmailLeadImportStatus | null);
-    } catch (e: any) {
-      setError(String(e?.message || "Status check failed"));
+      setStatus(await getGmailLeadImportStatus());
+    } catch (e) {
+      setError(errorMessage(e, "Status check failed"));
     } finally {
       setCheckingStatus(false);
     }
@@ -523,41 +409,30 @@ export default function EmailLeadsPage() {
     setSuccess("");
     setImportSummary(null);
     try {
-      const r = await apiFetch("/api/integrations/gmail-leads/import", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ limit: 0, dry_run: false }),
-      });
-      if (!r.ok) {
-        const details = await readResponseError(r);
-        throw new Error(`Import failed (${r.status}): ${details}`);
-      }
-      const body = await r.json().catch(() => ({}));
-      const result = body?.result || {};
-      const samples = Array.isArray(result?.samples) ? (result.samples as ImportSample[]) : [];
+      const result = await runGmailLeadImport({ limit: 0 });
       const ignoredReasonMap = new Map<string, number>();
-      for (const sample of samples) {
-        const status = String(sample?.status || "").trim().toLowerCase();
+      for (const sample of result.samples) {
+        const status = sample.status.trim().toLowerCase();
         if (status !== "ignored") continue;
-        const reason = String(sample?.reason || "unknown").trim().toLowerCase() || "unknown";
+        const reason = sample.reason.trim().toLowerCase() || "unknown";
         ignoredReasonMap.set(reason, (ignoredReasonMap.get(reason) || 0) + 1);
       }
       const reasonCounts = Array.from(ignoredReasonMap.entries())
         .map(([reason, count]) => ({ reason, count }))
         .sort((a, b) => b.count - a.count);
       setImportSummary({
-        scanned: Number(result?.scanned || 0),
-        imported: Number(result?.imported || 0),
-        ignored: Number(result?.skipped_nonlead || 0),
-        deduped: Number(result?.deduped || 0),
+        scanned: result.scanned,
+        imported: result.imported,
+        ignored: result.skipped_nonlead,
+        deduped: result.deduped,
         reasonCounts,
       });
       setSuccess(
-        `Import complete. Scanned ${Number(result?.scanned || 0)}, imported ${Number(result?.imported || 0)}, ignored ${Number(result?.skipped_nonlead || 0)}, deduped ${Number(result?.deduped || 0)}${result?.truncated ? " (scan capped by server hard max)." : ""}.`
+        `Import complete. Scanned ${result.scanned}, imported ${result.imported}, ignored ${result.skipped_nonlead}, deduped ${result.deduped}${result.truncated ? " (scan capped by server hard max)." : ""}.`
       );
-      await Promise.all([checkStatus(), loadEmailLeads()]);
-    } catch (e: any) {
-      setError(String(e?.message || "Import failed"));
+      await checkStatus();
+    } catch (e) {
+      setError(errorMessage(e, "Import failed"));
     } finally {
       setRunningImport(false);
     }
@@ -573,22 +448,10 @@ export default function EmailLeadsPage() {
       const message = String(testMessage || "").trim();
       if (!to) throw new Error("Test phone is required.");
       if (!message) throw new Error("Test message is required.");
-      const r = await apiFetch("/api/integrations/gmail-leads/test-text", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ to, message }),
-      });
-      if (!r.ok) {
-        const details = await readResponseError(r);
-        throw new Error(`Test send failed (${r.status}): ${details}`);
-      }
-      const body = await r.json().catch(() => ({}));
-      setSuccess(
-        `Test text queued to ${to}. Lead #${Number(body?.lead_id || 0)}.`
-      );
-      await loadEmailLeads();
-    } catch (e: any) {
-      setError(String(e?.message || "Test send failed"));
+      const leadId = await sendGmailLeadTestText({ to, message });
+      setSuccess(`Test text queued to ${to}. Lead #${leadId}.`);
+    } catch (e) {
+      setError(errorMessage(e, "Test send failed"));
     } finally {
       setSendingTest(false);
     }
@@ -601,22 +464,11 @@ export default function EmailLeadsPage() {
     setError("");
     setSuccess("");
     try {
-      const r = await apiFetch("/api/integrations/gmail-leads/purge", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ dry_run: false }),
-      });
-      if (!r.ok) {
-        const details = await readResponseError(r);
-        throw new Error(`Purge failed (${r.status}): ${details}`);
-      }
-      const body = await r.json().catch(() => ({}));
-      setSuccess(
-        `Purged ${Number(body?.deleted_count || 0)} imported email lead${Number(body?.deleted_count || 0) === 1 ? "" : "s"}.`
-      );
-      await Promise.all([checkStatus(), loadEmailLeads()]);
-    } catch (e: any) {
-      setError(String(e?.message || "Purge failed"));
+      const deleted = await purgeGmailImportedLeads();
+      setSuccess(`Purged ${deleted} imported email lead${deleted === 1 ? "" : "s"}.`);
+      await checkStatus();
+    } catch (e) {
+      setError(errorMessage(e, "Purge failed"));
     } finally {
       setPurging(false);
     }
@@ -662,7 +514,7 @@ export default function EmailLeadsPage() {
           <div className="mt-1 text-[11px] text-cyan-200/90">
             Full import scans all matching messages (first run may take a while). Ongoing auto-scan uses smaller batches.
           </div>
-          {error ? <div className="mt-2 text-sm text-rose-400">{error}</div> : null}
+          {error || leadsError ? <div className="mt-2 text-sm text-rose-400">{error || leadsError}</div> : null}
           {success ? <div className="mt-2 text-sm text-emerald-300">{success}</div> : null}
           {importSummary && importSummary.ignored > 0 ? (
             <div className="mt-2 rounded border border-amber-400/35 bg-amber-500/10 p-2 text-xs text-amber-200">
@@ -1018,12 +870,12 @@ export default function EmailLeadsPage() {
                       {formatConversationPreview(lead.last_message)}
                     </td>
                     <td className="px-3 py-1.5 whitespace-nowrap text-muted-foreground">
-                      {formatDateTime(lead.createdAt || lead.created_at || lead.created)}
+                      {formatDateTime(lead.createdAt)}
                     </td>
                     <td className="px-3 py-1.5 whitespace-nowrap text-muted-foreground">
                       {lead.lastMessageAt ? formatDateTime(lead.lastMessageAt) : "-"}
                     </td>
-                    <td className="px-3 py-1.5 text-right">{Number(lead.inboundCount || lead.inbound_count || 0)}</td>
+                    <td className="px-3 py-1.5 text-right">{lead.inboundCount}</td>
                     <td className="px-3 py-1.5 text-right">
                       <Link
                         href={`/leads/${lead.id}`}
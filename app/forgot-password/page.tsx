@@ -5,26 +5,38 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-
-const API_BASE =
-  process.env.NEXT_PUBLIC_API_BASE ||
-  "https://infinitedrip-backend.onrender.com";
+import { solveChallenge } from "@/lib/powSolver";
 
 export default function ForgotPasswordPage() {
   const [email, setEmail] = useState("");
   const [loading, setLoading] = useState(false);
   const [done, setDone] = useState(false);
+  const [error, setError] = useState("");
 
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault();
     setLoading(true);
+    setError("");
     try {
-      await fetch(`${API_BASE}/auth/forgot-password`, {
+      // Relayed through app/api/auth/forgot-password, which rate-limits and checks the proof of work.
+      const solution = await solveChallenge();
+      const resp = await fetch("/api/auth/forgot-password", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email }),
+        body: JSON.stringify({ email, ...solution }),
       });
+      if (resp.status === 429) {
+        setError("Too many reset requests from this network. Please wait a bit and try again.");
+        return;
+      }
+      if (resp.status === 400) {
+        setError("The security check did not pass. Please try again.");
+        return;
+      }
+      // Other outcomes stay generic so the form does not reveal which emails exist.
       setDone(true);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Request failed. Please try again.");
     } finally {
       setLoading(false);
     }
@@ -48,6 +60,7 @@ export default function ForgotPasswordPage() {
               {loading ? "Sending..." : "Send reset link"}
             </Button>
           </form>
+          {error ? <p className="mt-3 text-sm text-red-600">{error}</p> : null}
           {done ? (
             <p className="mt-3 text-sm text-green-700">
               If an account exists, a reset link has been sent.
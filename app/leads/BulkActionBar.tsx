@@ -0,0 +1,227 @@
+"use client";
+
+import * as React from "react";
+import {
+  errorMessage,
+  getAutoFollowupDefaults,
+  LEAD_STATUSES,
+  runBulkLeadAction,
+  type BulkResult,
+  type LeadAction,
+} from "@/lib/api";
+
+// Choices in the action picker. Values are parsed back by toAction().
+const ACTION_OPTIONS: Array<{ value: string; label: string }> = [
+  ...LEAD_STATUSES.map((s) => ({ value: `status:${s}`, label: `Set status: ${s}` })),
+  { value: "archive", label: "Archive" },
+  { value: "unarchive", label: "Unarchive" },
+  { value: "hot:on", label: "Mark hot" },
+  { value: "hot:off", label: "Unmark hot" },
+  { value: "ai:on", label: "Turn AI on" },
+  { value: "ai:off", label: "Turn AI off" },
+  { value: "dnc:on", label: "Set DNC" },
+  { value: "dnc:off", label: "Clear DNC" },
+  { value: "followup:defaults", label: "Auto follow-up: on with account defaults" },
+  { value: "followup:off", label: "Auto follow-up: off" },
+  { value: "delete", label: "Delete" },
+];
+
+const SHOWN_FAILURES = 20;
+
+async function toAction(value: string): Promise<LeadAction | null> {
+  const [kind, arg] = value.split(":");
+  if (kind === "status") {
+    const status = LEAD_STATUSES.find((s) => s === arg);
+    return status ? { type: "status", status } : null;
+  }
+  if (kind === "archive" || kind === "unarchive") return { type: "archive", archived: kind === "archive" };
+  if (kind === "hot") return { type: "hot", hot: arg === "on" };
+  if (kind === "ai") return { type: "ai", enabled: arg === "on" };
+  if (kind === "dnc") return { type: "dnc", enabled: arg === "on" };
+  if (kind === "followup") {
+    if (arg === "off") return { type: "auto_followup", enabled: false };
+    return { type: "auto_followup", enabled: true, config: await getAutoFollowupDefaults() };
+  }
+  if (kind === "delete") return { type: "delete" };
+  return null;
+}
+
+// Toolbar shown above the leads table while rows are selected. Runs one
+// action over the selection with a progress bar, then reports which leads
+// failed so they can be selected again and retried.
+export default function BulkActionBar({
+  selectedIds,
+  allMatching,
+  onSelectAllMatching,
+  onSelect,
+  onClear,
+  onFinished,
+}: {
+  selectedIds: number[];
+  allMatching: boolean;
+  onSelectAllMatching: () => Promise<void>;
+  onSelect: (ids: number[]) => void;
+  onClear: () => void;
+  onFinished: () => Promise<void>;
+}) {
+  const [choice, setChoice] = React.useState("");
+  const [progress, setProgress] = React.useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = React.useState<(BulkResult & { label: string }) | null>(null);
+  const [selectingAll, setSelectingAll] = React.useState(false);
+  const [error, setError] = React.useState("");
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  const count = selectedIds.length;
+  const running = progress !== null;
+
+  async function onApply() {
+    if (!choice || running || count === 0) return;
+    const label = ACTION_OPTIONS.find((o) => o.value === choice)?.label || choice;
+    if (choice === "delete" && !window.confirm(`Delete ${count} lead${count === 1 ? "" : "s"} and all their messages?`)) return;
+
+    setError("");
+    setResult(null);
+    let action: LeadAction | null;
+    try {
+      action = await toAction(choice);
+    } catch (e) {
+      setError(errorMessage(e, "Could not prepare the action."));
+      return;
+    }
+    if (!action) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: count });
+    try {
+      const outcome = await runBulkLeadAction(selectedIds, action, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setResult({ ...outcome, label });
+      if (outcome.failed.length === 0 && !outcome.cancelled) onClear();
+      await onFinished();
+    } catch (e) {
+      setError(errorMessage(e, "Bulk update failed."));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  }
+
+  async function selectAllMatching() {
+    setSelectingAll(true);
+    setError("");
+    try {
+      await onSelectAllMatching();
+    } catch (e) {
+      setError(errorMessage(e, "Could not load matching leads."));
+    } finally {
+      setSelectingAll(false);
+    }
+  }
+
+  if (count === 0 && !result) return null;
+
+  return (
+    <div className="mb-3 rounded-xl border border-cyan-400/30 bg-cyan-500/10 p-3 text-xs shadow-sm">
+      {count > 0 ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-foreground">
+            {count} selected{allMatching ? " (all matching)" : ""}
+          </span>
+          {!allMatching ? (
+            <button
+              type="button"
+              onClick={selectAllMatching}
+              disabled={selectingAll || running}
+              className="text-cyan-300 underline decoration-cyan-500/40 disabled:opacity-60"
+            >
+              {selectingAll ? "Selecting..." : "Select all matching filter"}
+            </button>
+          ) : null}
+          <button type="button" onClick={onClear} disabled={running} className="text-muted-foreground hover:text-foreground">
+            Clear selection
+          </button>
+
+          <select
+            value={choice}
+            onChange={(e) => setChoice(e.target.value)}
+            disabled={running}
+            className="ml-auto rounded border border-border bg-card px-2 py-1.5 text-xs text-foreground"
+          >
+            <option value="">Choose action...</option>
+            {ACTION_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={onApply}
+            disabled={!choice || running}
+            className={
+              choice === "delete"
+                ? "rounded border border-rose-400/40 bg-rose-500/15 px-3 py-1.5 text-rose-300 hover:bg-rose-500/25 disabled:opacity-60"
+                : "rounded border border-cyan-400/40 bg-cyan-500/15 px-3 py-1.5 text-cyan-200 hover:bg-cyan-500/25 disabled:opacity-60"
+            }
+          >
+            Apply to {count}
+          </button>
+        </div>
+      ) : null}
+
+      {progress ? (
+        <div className="mt-2 flex items-center gap-2">
+          <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+            <div
+              className="h-full bg-cyan-500 transition-all"
+              style={{ width: `${progress.total ? Math.round((progress.done / progress.total) * 100) : 0}%` }}
+            />
+          </div>
+          <span className="text-muted-foreground">
+            {progress.done} / {progress.total}
+          </span>
+          <button type="button" onClick={() => abortRef.current?.abort()} className="text-muted-foreground hover:text-foreground">
+            Stop
+          </button>
+        </div>
+      ) : null}
+
+      {error ? <div className="mt-2 text-rose-400">{error}</div> : null}
+
+      {result ? (
+        <div className="mt-2 space-y-1">
+          <div className={result.failed.length ? "text-amber-300" : "text-emerald-300"}>
+            {result.label}: {result.succeeded.length} of {result.succeeded.length + result.failed.length} done
+            {result.failed.length ? `, ${result.failed.length} failed` : ""}
+            {result.cancelled ? " (stopped early)" : ""}.
+          </div>
+          {result.failed.length ? (
+            <>
+              <ul className="max-h-32 overflow-auto text-muted-foreground">
+                {result.failed.slice(0, SHOWN_FAILURES).map((f) => (
+                  <li key={f.id}>
+                    Lead #{f.id}: {f.error}
+                  </li>
+                ))}
+                {result.failed.length > SHOWN_FAILURES ? <li>...and {result.failed.length - SHOWN_FAILURES} more</li> : null}
+              </ul>
+              <button
+                type="button"
+                onClick={() => onSelect(result.failed.map((f) => f.id))}
+                className="text-cyan-300 underline decoration-cyan-500/40"
+              >
+                Select failed leads to retry
+              </button>
+            </>
+          ) : null}
+          <button type="button" onClick={() => setResult(null)} className="ml-3 text-muted-foreground hover:text-foreground">
+            Dismiss
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
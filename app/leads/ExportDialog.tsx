@@ -0,0 +1,182 @@
+"use client";
+
+import * as React from "react";
+import { countActiveFilters, errorMessage, type LeadFilters } from "@/lib/api";
+import { downloadBlob } from "@/lib/download";
+import { DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS, exportLeads, type ExportFormat } from "@/lib/leadExport";
+
+const COLUMNS_KEY = "infinitedrip_lead_export_columns";
+
+function loadColumns() {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(COLUMNS_KEY) || "null");
+    if (Array.isArray(stored)) {
+      const keys = stored.filter((k): k is string => EXPORT_COLUMNS.some((c) => c.key === k));
+      if (keys.length) return keys;
+    }
+  } catch {
+    // Fall through to the defaults.
+  }
+  return DEFAULT_EXPORT_COLUMNS;
+}
+
+// Export the leads in the current view, or just the selected ones, with the
+// columns the user picks. Column choice is remembered per browser.
+export default function ExportDialog({
+  filters,
+  selectedIds,
+  onClose,
+}: {
+  filters: LeadFilters;
+  selectedIds: number[];
+  onClose: () => void;
+}) {
+  const [columns, setColumns] = React.useState<string[]>(loadColumns);
+  const [format, setFormat] = React.useState<ExportFormat>("csv");
+  const [includeTranscripts, setIncludeTranscripts] = React.useState(false);
+  const [onlySelected, setOnlySelected] = React.useState(selectedIds.length > 0);
+  const [exported, setExported] = React.useState<number | null>(null);
+  const [done, setDone] = React.useState("");
+  const [error, setError] = React.useState("");
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  const running = exported !== null;
+  const activeFilters = countActiveFilters(filters);
+
+  function toggleColumn(key: string, on: boolean) {
+    // Keep the table's column order regardless of click order.
+    setColumns((prev) => EXPORT_COLUMNS.map((c) => c.key).filter((k) => (k === key ? on : prev.includes(k))));
+  }
+
+  async function onExport() {
+    if (running || (columns.length === 0 && !includeTranscripts)) return;
+    try {
+      localStorage.setItem(COLUMNS_KEY, JSON.stringify(columns));
+    } catch {
+      // Private mode; the choice just isn't remembered.
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError("");
+    setDone("");
+    setExported(0);
+    try {
+      const result = await exportLeads({
+        filters,
+        columns,
+        format,
+        includeTranscripts,
+        onlyIds: onlySelected && selectedIds.length ? new Set(selectedIds) : undefined,
+        onProgress: setExported,
+        signal: controller.signal,
+      });
+      if (result) {
+        downloadBlob(`leads-${new Date().toISOString().slice(0, 10)}.${format}`, result.blob);
+        setDone(`Exported ${result.count} lead${result.count === 1 ? "" : "s"}.`);
+      }
+    } catch (e) {
+      setError(errorMessage(e, "Export failed."));
+    } finally {
+      abortRef.current = null;
+      setExported(null);
+    }
+  }
+
+  const groups = [
+    { group: "lead", title: "Lead" },
+    { group: "snapshot", title: "Vendor snapshot" },
+  ] as const;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-xl border border-border/80 bg-slate-900 p-4 text-sm shadow-2xl">
+        <div className="mb-3 flex items-center justify-between">
+          <div className="text-base font-semibold">Export leads</div>
+          <button
+            type="button"
+            onClick={() => {
+              abortRef.current?.abort();
+              onClose();
+            }}
+            className="rounded border border-border px-2.5 py-1 text-xs hover:bg-muted/40"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="mb-3 space-y-1.5 text-xs text-muted-foreground">
+          <div>
+            Exports leads matching the current view
+            {activeFilters ? ` (${activeFilters} filter${activeFilters === 1 ? "" : "s"} active)` : ""}, in table order.
+          </div>
+          {selectedIds.length ? (
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={onlySelected} onChange={(e) => setOnlySelected(e.target.checked)} />
+              Only the {selectedIds.length} selected lead{selectedIds.length === 1 ? "" : "s"}
+            </label>
+          ) : null}
+        </div>
+
+        {groups.map(({ group, title }) => (
+          <fieldset key={group} className="mb-3">
+            <legend className="mb-1.5 text-xs font-medium uppercase tracking-wide text-muted-foreground">{title}</legend>
+            <div className="grid grid-cols-2 gap-1 sm:grid-cols-3">
+              {EXPORT_COLUMNS.filter((c) => c.group === group).map((c) => (
+                <label key={c.key} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(c.key)}
+                    onChange={(e) => toggleColumn(c.key, e.target.checked)}
+                  />
+                  {c.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        ))}
+
+        <div className="mb-3 flex flex-wrap items-center gap-4 text-xs">
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={format === "csv"} onChange={() => setFormat("csv")} />
+            CSV
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={format === "xlsx"} onChange={() => setFormat("xlsx")} />
+            Excel (.xlsx)
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={includeTranscripts} onChange={(e) => setIncludeTranscripts(e.target.checked)} />
+            Include full message transcripts
+          </label>
+        </div>
+        {includeTranscripts ? (
+          <div className="mb-3 text-xs text-amber-300">Transcripts load one lead at a time, so large exports take longer.</div>
+        ) : null}
+
+        {error ? <div className="mb-3 rounded border border-rose-400/40 bg-rose-500/10 p-3 text-sm text-rose-300">{error}</div> : null}
+        {done ? <div className="mb-3 text-xs text-emerald-300">{done}</div> : null}
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onExport}
+            disabled={running || (columns.length === 0 && !includeTranscripts)}
+            className="rounded bg-cyan-600 px-4 py-1.5 text-sm font-medium text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {running ? `Exporting... ${exported}` : "Export"}
+          </button>
+          {running ? (
+            <button
+              type="button"
+              onClick={() => abortRef.current?.abort()}
+              className="text-xs text-muted-foreground hover:text-foreground"
+            >
+              Stop
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
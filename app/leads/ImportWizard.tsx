@@ -0,0 +1,473 @@
+"use client";
+
+import * as React from "react";
+import {
+  errorMessage,
+  findExistingLeads,
+  importLeadRows,
+  invalidateQueries,
+  type Lead,
+  type LeadImportRow,
+} from "@/lib/api";
+import { downloadCsv, parseCsv } from "@/lib/csv";
+import { toE164 } from "@/lib/phone";
+
+type FieldKey = keyof LeadImportRow;
+
+// Target fields, with header names recognised when guessing the mapping.
+const FIELDS: Array<{ key: FieldKey; label: string; aliases: string[] }> = [
+  { key: "name", label: "Full name", aliases: ["name", "full name", "fullname", "contact", "contact name"] },
+  { key: "first_name", label: "First name", aliases: ["first name", "firstname", "first", "fname", "given name"] },
+  { key: "last_name", label: "Last name", aliases: ["last name", "lastname", "last", "lname", "surname", "family name"] },
+  { key: "phone", label: "Phone", aliases: ["phone", "phone number", "mobile", "cell", "cell phone", "telephone", "primary phone"] },
+  { key: "email", label: "Email", aliases: ["email", "email address", "e-mail"] },
+  { key: "city", label: "City", aliases: ["city", "town"] },
+  { key: "state", label: "State", aliases: ["state", "st", "province", "region"] },
+  { key: "zip", label: "ZIP", aliases: ["zip", "zip code", "zipcode", "postal code", "postcode"] },
+  { key: "source", label: "Source", aliases: ["source", "lead source", "vendor"] },
+  { key: "notes", label: "Notes", aliases: ["notes", "note", "comments", "comment"] },
+];
+
+const PREVIEW_ROWS = 10;
+const IMPORT_BATCH = 200;
+const LOOKUP_BATCH = 500;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type Step = "upload" | "map" | "review" | "importing" | "done";
+
+type Outcome = "imported" | "duplicate" | "error" | "invalid" | "skipped";
+
+type PreparedRow = {
+  // Line in the file, 1-based, for the report.
+  line: number;
+  cells: string[];
+  lead: LeadImportRow | null;
+  errors: string[];
+  duplicateOf: string;
+};
+
+type RowReport = { outcome: Outcome; message: string };
+
+function normalizeHeader(h: string) {
+  return h.trim().toLowerCase().replace(/[_-]+/g, " ").replace(/\s+/g, " ");
+}
+
+function guessMapping(header: string[]): Array<FieldKey | ""> {
+  const used = new Set<FieldKey>();
+  return header.map((h) => {
+    const name = normalizeHeader(h);
+    const field = FIELDS.find((f) => !used.has(f.key) && f.aliases.includes(name));
+    if (!field) return "";
+    used.add(field.key);
+    return field.key;
+  });
+}
+
+function prepareRows(rows: string[][], mapping: Array<FieldKey | "">, firstLine: number): PreparedRow[] {
+  return rows.map((cells, i) => {
+    const raw: Partial<Record<FieldKey, string>> = {};
+    mapping.forEach((key, col) => {
+      const value = String(cells[col] ?? "").trim();
+      if (key && value) raw[key] = value;
+    });
+
+    const errors: string[] = [];
+    // A fixed-up error report comes back with "'+1..." phones; the apostrophe
+    // only stops spreadsheets reading the cell as a formula.
+    const phone = toE164(raw.phone?.replace(/^'/, ""));
+    if (!raw.phone) errors.push("Missing phone");
+    else if (!phone) errors.push(`Invalid phone "${raw.phone}"`);
+    const email = raw.email?.toLowerCase();
+    if (email && !EMAIL_RE.test(email)) errors.push(`Invalid email "${raw.email}"`);
+
+    const lead: LeadImportRow | null = phone
+      ? {
+          ...raw,
+          phone,
+          email,
+          state: raw.state?.toUpperCase(),
+          name: raw.name || [raw.first_name, raw.last_name].filter(Boolean).join(" ") || undefined,
+          source: raw.source || "csv_import",
+        }
+      : null;
+
+    return { line: firstLine + i, cells, lead, errors, duplicateOf: "" };
+  });
+}
+
+function describeLead(l: Lead) {
+  return `lead #${l.id}${l.name ? ` (${l.name})` : ""}`;
+}
+
+// Flags rows whose phone or email repeats an earlier row or an existing lead.
+async function markDuplicates(rows: PreparedRow[]) {
+  const seenPhones = new Map<string, number>();
+  const seenEmails = new Map<string, number>();
+  for (const r of rows) {
+    if (!r.lead) continue;
+    const earlier = seenPhones.get(r.lead.phone) ?? (r.lead.email ? seenEmails.get(r.lead.email) : undefined);
+    if (earlier !== undefined) r.duplicateOf = `row ${earlier} of this file`;
+    if (!seenPhones.has(r.lead.phone)) seenPhones.set(r.lead.phone, r.line);
+    if (r.lead.email && !seenEmails.has(r.lead.email)) seenEmails.set(r.lead.email, r.line);
+  }
+
+  const phones = Array.from(seenPhones.keys());
+  const emails = Array.from(seenEmails.keys());
+  const existing: Lead[] = [];
+  for (let i = 0; i < Math.max(phones.length, emails.length); i += LOOKUP_BATCH) {
+    existing.push(
+      ...(await findExistingLeads({ phones: phones.slice(i, i + LOOKUP_BATCH), emails: emails.slice(i, i + LOOKUP_BATCH) }))
+    );
+  }
+  const byPhone = new Map<string, Lead>();
+  const byEmail = new Map<string, Lead>();
+  for (const l of existing) {
+    const phone = toE164(l.phone);
+    if (phone) byPhone.set(phone, l);
+    if (l.email) byEmail.set(l.email.toLowerCase(), l);
+  }
+  for (const r of rows) {
+    if (!r.lead || r.duplicateOf) continue;
+    const match = byPhone.get(r.lead.phone) ?? (r.lead.email ? byEmail.get(r.lead.email) : undefined);
+    if (match) r.duplicateOf = describeLead(match);
+  }
+  return rows;
+}
+
+// Upload -> map columns -> review (validation, duplicates, preview) -> import.
+// Parsing, phone normalization and the duplicate pass all happen before
+// anything is sent, so the report can say exactly what happened to each row.
+export default function ImportWizard({ onClose, onImported }: { onClose: () => void; onImported: () => void }) {
+  const [step, setStep] = React.useState<Step>("upload");
+  const [fileName, setFileName] = React.useState("");
+  const [table, setTable] = React.useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = React.useState(true);
+  const [mapping, setMapping] = React.useState<Array<FieldKey | "">>([]);
+  const [rows, setRows] = React.useState<PreparedRow[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = React.useState(true);
+  const [progress, setProgress] = React.useState({ done: 0, total: 0 });
+  const [reports, setReports] = React.useState<Map<number, RowReport>>(() => new Map());
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState("");
+
+  const columnCount = table.reduce((max, r) => Math.max(max, r.length), 0);
+  const header = hasHeader ? table[0] ?? [] : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+  const body = hasHeader ? table.slice(1) : table;
+  const sample = body[0] ?? [];
+  const phoneMapped = mapping.includes("phone");
+
+  async function onFile(file: File | null) {
+    setError("");
+    if (!file) return;
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length === 0) {
+        setError("That file has no rows.");
+        return;
+      }
+      // A first row with a usable phone number is data, not a header.
+      const headerLike = !parsed[0].some((cell) => toE164(cell));
+      setFileName(file.name);
+      setTable(parsed);
+      setHasHeader(headerLike);
+      setMapping(headerLike ? guessMapping(parsed[0]) : Array.from({ length: parsed[0].length }, () => ""));
+      setStep("map");
+    } catch (e) {
+      setError(errorMessage(e, "Could not read that file."));
+    }
+  }
+
+  function setColumn(col: number, key: FieldKey | "") {
+    setMapping((prev) => {
+      const next = Array.from({ length: columnCount }, (_, i) => prev[i] ?? "");
+      // Each field comes from one column.
+      if (key) for (let i = 0; i < next.length; i += 1) if (next[i] === key) next[i] = "";
+      next[col] = key;
+      return next;
+    });
+  }
+
+  async function onReview() {
+    setBusy(true);
+    setError("");
+    try {
+      setRows(await markDuplicates(prepareRows(body, mapping, hasHeader ? 2 : 1)));
+      setStep("review");
+    } catch (e) {
+      setError(errorMessage(e, "Duplicate check failed."));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const invalidCount = rows.filter((r) => r.errors.length > 0).length;
+  const duplicateCount = rows.filter((r) => !r.errors.length && r.duplicateOf).length;
+  const toSend = rows.filter((r) => r.lead && !r.errors.length && !(skipDuplicates && r.duplicateOf));
+
+  async function onImport() {
+    const sent = toSend;
+    const next = new Map<number, RowReport>();
+    for (const r of rows) {
+      if (r.errors.length) next.set(r.line, { outcome: "invalid", message: r.errors.join("; ") });
+      else if (skipDuplicates && r.duplicateOf) next.set(r.line, { outcome: "skipped", message: `Duplicate of ${r.duplicateOf}` });
+    }
+
+    setStep("importing");
+    setProgress({ done: 0, total: sent.length });
+    for (let i = 0; i < sent.length; i += IMPORT_BATCH) {
+      const batch = sent.slice(i, i + IMPORT_BATCH);
+      try {
+        const results = await importLeadRows(
+          batch.map((r) => r.lead as LeadImportRow),
+          { skipDuplicates }
+        );
+        const byRow = new Map(results.map((res) => [res.row, res]));
+        batch.forEach((r, j) => {
+          const res = byRow.get(j);
+          if (!res) next.set(r.line, { outcome: "error", message: "No result returned for this row" });
+          else if (res.status === "imported") next.set(r.line, { outcome: "imported", message: res.lead_id ? `Lead #${res.lead_id}` : "" });
+          else next.set(r.line, { outcome: res.status, message: res.error || (res.status === "duplicate" ? "Already exists" : "Failed") });
+        });
+      } catch (e) {
+        const message = errorMessage(e, "Import request failed");
+        batch.forEach((r) => next.set(r.line, { outcome: "error", message }));
+      }
+      setProgress({ done: Math.min(i + IMPORT_BATCH, sent.length), total: sent.length });
+    }
+
+    setReports(next);
+    setStep("done");
+    await invalidateQueries("leads");
+    onImported();
+  }
+
+  const importedCount = Array.from(reports.values()).filter((r) => r.outcome === "imported").length;
+  const problemLines = rows.filter((r) => reports.get(r.line) && reports.get(r.line)?.outcome !== "imported");
+
+  function downloadReport() {
+    const rows = [
+      ["line", ...header, "import_status", "import_message"],
+      ...problemLines.map((r) => {
+        const report = reports.get(r.line);
+        return [r.line, ...Array.from({ length: header.length }, (_, i) => r.cells[i] ?? ""), report?.outcome, report?.message];
+      }),
+    ];
+    // The cells come straight from the uploaded file, so treat them like export data.
+    downloadCsv(`${fileName.replace(/\.csv$/i, "") || "leads"}-import-report.csv`, rows, { neutralizeFormulas: true });
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="max-h-[90vh] w-full max-w-4xl overflow-y-auto rounded-xl border border-border/80 bg-slate-900 p-4 text-sm shadow-2xl">
+        <div className="mb-3 flex items-center justify-between">
+          <div className="text-base font-semibold">
+            Import leads{fileName ? <span className="ml-2 text-xs font-normal text-muted-foreground">{fileName}</span> : null}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={step === "importing"}
+            className="rounded border border-border px-2.5 py-1 text-xs hover:bg-muted/40 disabled:opacity-60"
+          >
+            {step === "done" ? "Close" : "Cancel"}
+          </button>
+        </div>
+
+        {error ? <div className="mb-3 rounded border border-rose-400/40 bg-rose-500/10 p-3 text-sm text-rose-300">{error}</div> : null}
+
+        {step === "upload" ? (
+          <div className="space-y-2">
+            <p className="text-muted-foreground">
+              Choose a CSV file. The next step maps its columns to lead fields; nothing is imported until you confirm.
+            </p>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => onFile(e.target.files?.[0] ?? null)}
+              className="text-sm text-muted-foreground"
+            />
+          </div>
+        ) : null}
+
+        {step === "map" ? (
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+              First row is a header
+            </label>
+            <div className="overflow-x-auto rounded border border-border/70">
+              <table className="w-full text-xs">
+                <thead className="bg-muted/70 text-muted-foreground">
+                  <tr>
+                    <th className="px-3 py-1.5 text-left">Column</th>
+                    <th className="px-3 py-1.5 text-left">Example</th>
+                    <th className="px-3 py-1.5 text-left">Import as</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {header.map((h, col) => (
+                    <tr key={col} className="border-t border-border/70">
+                      <td className="px-3 py-1.5 text-foreground">{h || `Column ${col + 1}`}</td>
+                      <td className="max-w-[260px] truncate px-3 py-1.5 text-muted-foreground">{sample[col] ?? ""}</td>
+                      <td className="px-3 py-1.5">
+                        <select
+                          value={mapping[col] ?? ""}
+                          onChange={(e) => setColumn(col, e.target.value as FieldKey | "")}
+                          className="rounded border border-border bg-card px-2 py-1 text-xs text-foreground"
+                        >
+                          <option value="">Ignore</option>
+                          {FIELDS.map((f) => (
+                            <option key={f.key} value={f.key}>
+                              {f.label}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {!phoneMapped ? <div className="text-xs text-amber-300">Map a column to Phone to continue.</div> : null}
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setStep("upload")}
+                className="rounded border border-border px-3 py-1.5 text-sm hover:bg-muted/40"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={onReview}
+                disabled={!phoneMapped || busy}
+                className="rounded bg-cyan-600 px-4 py-1.5 text-sm font-medium text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {busy ? "Checking..." : `Review ${body.length} row${body.length === 1 ? "" : "s"}`}
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {step === "review" ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-xs">
+              <span className="rounded border border-emerald-400/40 bg-emerald-500/10 px-2 py-1 text-emerald-300">
+                {rows.length - invalidCount - duplicateCount} new
+              </span>
+              <span className="rounded border border-amber-400/40 bg-amber-500/10 px-2 py-1 text-amber-300">
+                {duplicateCount} duplicate{duplicateCount === 1 ? "" : "s"}
+              </span>
+              <span className="rounded border border-rose-400/40 bg-rose-500/10 px-2 py-1 text-rose-300">
+                {invalidCount} invalid
+              </span>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+              Skip duplicates
+            </label>
+
+            <div className="overflow-x-auto rounded border border-border/70">
+              <table className="w-full text-xs">
+                <thead className="bg-muted/70 text-muted-foreground">
+                  <tr>
+                    <th className="px-3 py-1.5 text-left">Line</th>
+                    <th className="px-3 py-1.5 text-left">Name</th>
+                    <th className="px-3 py-1.5 text-left">Phone</th>
+                    <th className="px-3 py-1.5 text-left">Email</th>
+                    <th className="px-3 py-1.5 text-left">Location</th>
+                    <th className="px-3 py-1.5 text-left">Check</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, PREVIEW_ROWS).map((r) => (
+                    <tr key={r.line} className="border-t border-border/70">
+                      <td className="px-3 py-1.5 text-muted-foreground">{r.line}</td>
+                      <td className="px-3 py-1.5">{r.lead?.name || "-"}</td>
+                      <td className="px-3 py-1.5">{r.lead?.phone || "-"}</td>
+                      <td className="px-3 py-1.5">{r.lead?.email || "-"}</td>
+                      <td className="px-3 py-1.5 text-muted-foreground">
+                        {[r.lead?.city, r.lead?.state, r.lead?.zip].filter(Boolean).join(", ") || "-"}
+                      </td>
+                      <td className="px-3 py-1.5">
+                        {r.errors.length ? (
+                          <span className="text-rose-300">{r.errors.join("; ")}</span>
+                        ) : r.duplicateOf ? (
+                          <span className="text-amber-300">Duplicate of {r.duplicateOf}</span>
+                        ) : (
+                          <span className="text-emerald-300">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {rows.length > PREVIEW_ROWS ? (
+              <div className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROWS} of {rows.length} rows.</div>
+            ) : null}
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setStep("map")}
+                className="rounded border border-border px-3 py-1.5 text-sm hover:bg-muted/40"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={onImport}
+                disabled={toSend.length === 0}
+                className="rounded bg-cyan-600 px-4 py-1.5 text-sm font-medium text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Import {toSend.length} lead{toSend.length === 1 ? "" : "s"}
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {step === "importing" ? (
+          <div className="space-y-2">
+            <div className="text-muted-foreground">
+              Importing {progress.done} / {progress.total}...
+            </div>
+            <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+              <div
+                className="h-full bg-cyan-500 transition-all"
+                style={{ width: `${progress.total ? Math.round((progress.done / progress.total) * 100) : 0}%` }}
+              />
+            </div>
+          </div>
+        ) : null}
+
+        {step === "done" ? (
+          <div className="space-y-3">
+            <div className="rounded border border-emerald-400/40 bg-emerald-500/10 p-3 text-sm text-emerald-300">
+              Imported {importedCount} of {rows.length} row{rows.length === 1 ? "" : "s"}.
+              {problemLines.length ? ` ${problemLines.length} not imported.` : ""}
+            </div>
+            {problemLines.length ? (
+              <>
+                <ul className="max-h-48 overflow-auto text-xs text-muted-foreground">
+                  {problemLines.slice(0, 50).map((r) => (
+                    <li key={r.line}>
+                      Line {r.line}: {reports.get(r.line)?.outcome} - {reports.get(r.line)?.message}
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  type="button"
+                  onClick={downloadReport}
+                  className="rounded border border-cyan-400/40 bg-cyan-500/15 px-3 py-1.5 text-sm text-cyan-200 hover:bg-cyan-500/25"
+                >
+                  Download error report
+                </button>
+              </>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
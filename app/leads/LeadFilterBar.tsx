@@ -0,0 +1,235 @@
+"use client";
+
+import * as React from "react";
+import {
+  AI_STATES,
+  countActiveFilters,
+  CREATED_WITHIN,
+  DEFAULT_LEAD_FILTERS,
+  LEAD_STATUSES,
+  parseStateCodes,
+  SOURCE_FACETS,
+  WAITING_FOR,
+  type AiState,
+  type CreatedWithin,
+  type LeadFilters,
+  type Tristate,
+  type WaitingFor,
+} from "@/lib/api";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const AI_LABEL: Record<AiState, string> = {
+  active: "Active",
+  cooldown: "Cooldown",
+  stopped: "Stopped",
+};
+
+function toggle<T>(list: readonly T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`rounded border px-2 py-0.5 text-[11px] ${
+        active
+          ? "border-cyan-400/50 bg-cyan-500/20 text-cyan-200"
+          : "border-border bg-card text-muted-foreground hover:bg-muted/40"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+function TristateSelect({ label, value, onChange }: { label: string; value: Tristate; onChange: (v: Tristate) => void }) {
+  return (
+    <label className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as Tristate)}
+        className="rounded border border-border bg-card px-1.5 py-0.5 text-[11px] text-foreground"
+      >
+        <option value="any">Any</option>
+        <option value="yes">Yes</option>
+        <option value="no">No</option>
+      </select>
+    </label>
+  );
+}
+
+// Search box and facet filters above the leads table. Typing is debounced;
+// every other control applies at once.
+export default function LeadFilterBar({
+  filters,
+  onChange,
+}: {
+  filters: LeadFilters;
+  onChange: (patch: Partial<LeadFilters>) => void;
+}) {
+  const [search, setSearch] = React.useState(filters.q);
+  const [stateText, setStateText] = React.useState(filters.state.join(", "));
+  const [open, setOpen] = React.useState(false);
+  const active = countActiveFilters(filters);
+
+  // Follow outside changes (saved views, back/forward) without clobbering typing.
+  React.useEffect(() => {
+    setSearch((prev) => (prev.trim() === filters.q ? prev : filters.q));
+  }, [filters.q]);
+  React.useEffect(() => {
+    setStateText((prev) => (parseStateCodes(prev).join(",") === filters.state.join(",") ? prev : filters.state.join(", ")));
+  }, [filters.state]);
+
+  React.useEffect(() => {
+    const q = search.trim();
+    if (q === filters.q) return;
+    const t = window.setTimeout(() => onChange({ q }), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(t);
+  }, [search, filters.q, onChange]);
+
+  function clearAll() {
+    const { view, sort, assignee } = filters;
+    onChange({ ...DEFAULT_LEAD_FILTERS, view, sort, assignee });
+    setSearch("");
+    setStateText("");
+  }
+
+  return (
+    <div className="mb-3 rounded-xl border border-border/80 bg-card/70 p-3 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search name, phone, email, city or message text"
+          className="min-w-[260px] flex-1 rounded border border-border bg-background/40 px-2.5 py-1.5 text-sm text-foreground placeholder:text-muted-foreground"
+        />
+        <button
+          type="button"
+          onClick={() => setOpen((v) => !v)}
+          className="rounded border border-border bg-muted px-3 py-1.5 text-sm text-foreground hover:bg-accent"
+        >
+          Filters{active ? ` (${active})` : ""}
+        </button>
+        {active ? (
+          <button type="button" onClick={clearAll} className="text-xs text-cyan-400 underline decoration-cyan-500/40">
+            Clear
+          </button>
+        ) : null}
+      </div>
+
+      {open ? (
+        <div className="mt-3 grid gap-3 text-xs md:grid-cols-2">
+          <div>
+            <div className="mb-1 text-muted-foreground">Status</div>
+            <div className="flex flex-wrap gap-1">
+              {LEAD_STATUSES.map((s) => (
+                <Chip key={s} active={filters.status.includes(s)} onClick={() => onChange({ status: toggle(filters.status, s) })}>
+                  {s}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-1 text-muted-foreground">Source</div>
+            <div className="flex flex-wrap gap-1">
+              {SOURCE_FACETS.map((f) => (
+                <Chip
+                  key={f.value}
+                  active={filters.source.includes(f.value)}
+                  onClick={() => onChange({ source: toggle(filters.source, f.value) })}
+                >
+                  {f.label}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-1 text-muted-foreground">AI</div>
+            <div className="flex flex-wrap gap-1">
+              {AI_STATES.map((s) => (
+                <Chip key={s} active={filters.ai.includes(s)} onClick={() => onChange({ ai: toggle(filters.ai, s) })}>
+                  {AI_LABEL[s]}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <TristateSelect label="Hot" value={filters.hot} onChange={(hot) => onChange({ hot })} />
+            <TristateSelect label="Waiting" value={filters.waiting} onChange={(waiting) => onChange({ waiting })} />
+            <TristateSelect label="DNC" value={filters.dnc} onChange={(dnc) => onChange({ dnc })} />
+            <label className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+              Waiting over
+              <select
+                value={filters.waiting_for}
+                onChange={(e) => onChange({ waiting_for: e.target.value as WaitingFor | "" })}
+                className="rounded border border-border bg-card px-1.5 py-0.5 text-[11px] text-foreground"
+              >
+                <option value="">Any</option>
+                {(Object.keys(WAITING_FOR) as WaitingFor[]).map((k) => (
+                  <option key={k} value={k}>
+                    {k}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="mb-1 block text-muted-foreground">State</span>
+            <input
+              value={stateText}
+              onChange={(e) => {
+                setStateText(e.target.value);
+                onChange({ state: parseStateCodes(e.target.value) });
+              }}
+              placeholder="e.g. TX, FL"
+              className="w-full rounded border border-border bg-background/40 px-2 py-1 text-xs text-foreground placeholder:text-muted-foreground"
+            />
+          </label>
+
+          <div>
+            <div className="mb-1 text-muted-foreground">Created</div>
+            <div className="flex flex-wrap items-center gap-1.5">
+              <select
+                value={filters.created_within}
+                onChange={(e) => onChange({ created_within: e.target.value as CreatedWithin | "" })}
+                className="rounded border border-border bg-card px-1.5 py-1 text-xs text-foreground"
+              >
+                <option value="">Custom dates</option>
+                {(Object.keys(CREATED_WITHIN) as CreatedWithin[]).map((k) => (
+                  <option key={k} value={k}>
+                    {CREATED_WITHIN[k]}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="date"
+                disabled={!!filters.created_within}
+                value={filters.created_from}
+                onChange={(e) => onChange({ created_from: e.target.value })}
+                className="rounded border border-border bg-background/40 px-2 py-1 text-xs text-foreground"
+              />
+              <span className="text-muted-foreground">to</span>
+              <input
+                type="date"
+                disabled={!!filters.created_within}
+                value={filters.created_to}
+                onChange={(e) => onChange({ created_to: e.target.value })}
+                className="rounded border border-border bg-background/40 px-2 py-1 text-xs text-foreground"
+              />
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
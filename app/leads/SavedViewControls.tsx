@@ -0,0 +1,149 @@
+"use client";
+
+import * as React from "react";
+import {
+  createSavedView,
+  deleteSavedView,
+  errorMessage,
+  leadFiltersToParams,
+  savedViewFilters,
+  updateSavedView,
+  useSavedViews,
+  type LeadFilters,
+} from "@/lib/api";
+
+// Save the current filters as a named view, or switch to one. Views also show
+// in the sidebar with their own waiting badge.
+export default function SavedViewControls({
+  filters,
+  onApply,
+}: {
+  filters: LeadFilters;
+  onApply: (filters: LeadFilters) => void;
+}) {
+  const views = useSavedViews().data ?? [];
+  const [saving, setSaving] = React.useState(false);
+  const [formOpen, setFormOpen] = React.useState(false);
+  const [name, setName] = React.useState("");
+  const [shared, setShared] = React.useState(false);
+  const [error, setError] = React.useState("");
+
+  const currentQuery = leadFiltersToParams(filters).toString();
+  const current = views.find((v) => v.query === currentQuery) ?? null;
+
+  async function onSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (saving || !name.trim()) return;
+    setSaving(true);
+    setError("");
+    try {
+      await createSavedView({ name: name.trim(), filters, shared });
+      setName("");
+      setShared(false);
+      setFormOpen(false);
+    } catch (err) {
+      setError(errorMessage(err, "Could not save view."));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function run(action: () => Promise<unknown>, fallback: string) {
+    setSaving(true);
+    setError("");
+    try {
+      await action();
+    } catch (err) {
+      setError(errorMessage(err, fallback));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+      <select
+        value={current ? String(current.id) : ""}
+        onChange={(e) => {
+          const view = views.find((v) => String(v.id) === e.target.value);
+          if (view) onApply(savedViewFilters(view));
+        }}
+        className="rounded border border-border bg-card px-2 py-1.5 text-xs text-foreground"
+        title="Saved views"
+      >
+        <option value="">{views.length ? "Saved views..." : "No saved views"}</option>
+        {views.map((v) => (
+          <option key={v.id} value={String(v.id)}>
+            {v.name}
+            {v.mine ? "" : ` (shared by ${v.owner_email})`}
+          </option>
+        ))}
+      </select>
+
+      {current?.mine ? (
+        <>
+          <label className="flex items-center gap-1.5 text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={current.shared}
+              disabled={saving}
+              onChange={(e) => run(() => updateSavedView(current.id, { shared: e.target.checked }), "Could not update view.")}
+            />
+            Shared with team
+          </label>
+          <button
+            type="button"
+            disabled={saving}
+            onClick={() => {
+              if (window.confirm(`Delete the saved view "${current.name}"?`)) {
+                void run(() => deleteSavedView(current.id), "Could not delete view.");
+              }
+            }}
+            className="rounded border border-rose-400/40 px-2 py-1 text-rose-300 hover:bg-rose-500/10 disabled:opacity-60"
+          >
+            Delete view
+          </button>
+        </>
+      ) : null}
+
+      {!current ? (
+        formOpen ? (
+          <form onSubmit={onSave} className="flex flex-wrap items-center gap-2">
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="View name"
+              maxLength={60}
+              className="rounded border border-border bg-background/40 px-2 py-1 text-xs text-foreground placeholder:text-muted-foreground"
+            />
+            <label className="flex items-center gap-1.5 text-muted-foreground">
+              <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+              Share with team
+            </label>
+            <button
+              type="submit"
+              disabled={saving || !name.trim()}
+              className="rounded border border-cyan-400/40 bg-cyan-500/15 px-2 py-1 text-cyan-200 hover:bg-cyan-500/25 disabled:opacity-60"
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+            <button type="button" onClick={() => setFormOpen(false)} className="text-muted-foreground hover:text-foreground">
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setFormOpen(true)}
+            className="rounded border border-border px-2 py-1 text-muted-foreground hover:bg-muted/40"
+          >
+            Save as view
+          </button>
+        )
+      ) : null}
+
+      {error ? <span className="text-rose-400">{error}</span> : null}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import * as React from "react";
+import {
+  createMessageTemplate,
+  deleteMessageTemplate,
+  errorMessage,
+  updateMessageTemplate,
+  type MessageTemplate,
+} from "@/lib/api";
+import { renderTemplate, TEMPLATE_VARIABLES, type TemplateContext } from "@/lib/messageTemplates";
+
+// Why a rendered template still has `{placeholders}` in it.
+export function MissingNote({ missing, unknown }: { missing: string[]; unknown: string[] }) {
+  if (!missing.length && !unknown.length) return null;
+  return (
+    <div className="mt-1 text-[11px] text-amber-300">
+      {missing.length ? `No value for ${missing.map((k) => `{${k}}`).join(", ")} on this lead.` : ""}
+      {missing.length && unknown.length ? " " : ""}
+      {unknown.length ? `Not a variable: ${unknown.map((k) => `{${k}}`).join(", ")}.` : ""}
+    </div>
+  );
+}
+
+// Create or edit one template, previewed against the lead that is open.
+export default function TemplateEditorDialog({
+  template,
+  context,
+  onClose,
+}: {
+  template: MessageTemplate | null;
+  context: TemplateContext;
+  onClose: () => void;
+}) {
+  const [name, setName] = React.useState(template?.name ?? "");
+  const [body, setBody] = React.useState(template?.body ?? "");
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState("");
+  const bodyRef = React.useRef<HTMLTextAreaElement | null>(null);
+
+  const preview = renderTemplate(body, context);
+
+  function insertVariable(key: string) {
+    const el = bodyRef.current;
+    const token = `{${key}}`;
+    const at = el ? el.selectionStart : body.length;
+    const end = el ? el.selectionEnd : body.length;
+    setBody(body.slice(0, at) + token + body.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(at + token.length, at + token.length);
+    });
+  }
+
+  async function onSave() {
+    if (busy) return;
+    if (!name.trim() || !body.trim()) {
+      setError("A template needs a name and a message.");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      const input = { name: name.trim(), body };
+      if (template) await updateMessageTemplate(template.id, input);
+      else await createMessageTemplate(input);
+      onClose();
+    } catch (e) {
+      setError(errorMessage(e, "Save failed."));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onDelete() {
+    if (!template || busy) return;
+    if (!confirm(`Delete the "${template.name}" template?`)) return;
+    setBusy(true);
+    setError("");
+    try {
+      await deleteMessageTemplate(template.id);
+      onClose();
+    } catch (e) {
+      setError(errorMessage(e, "Delete failed."));
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="max-h-[90vh] w-full max-w-3xl overflow-y-auto rounded-xl border border-border/80 bg-slate-900 p-4 text-sm shadow-2xl">
+        <div className="mb-3 flex items-center justify-between">
+          <div className="text-base font-semibold">{template ? "Edit template" : "New template"}</div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={busy}
+            className="rounded border border-border px-2.5 py-1 text-xs hover:bg-muted/40 disabled:opacity-60"
+          >
+            Cancel
+          </button>
+        </div>
+
+        <label className="block text-xs text-muted-foreground">
+          Name
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Appointment reminder"
+            className="mt-1 w-full rounded border border-border bg-background/40 px-2.5 py-1.5 text-sm text-foreground"
+          />
+        </label>
+
+        <label className="mt-3 block text-xs text-muted-foreground">
+          Message
+          <textarea
+            ref={bodyRef}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={5}
+            placeholder="Hi {first_name}, this is {agent_name}. Just confirming our call on {appointment_time}."
+            className="mt-1 w-full rounded border border-border bg-background/40 px-2.5 py-1.5 text-sm text-foreground"
+          />
+        </label>
+
+        <div className="mt-2 flex flex-wrap gap-1">
+          {TEMPLATE_VARIABLES.map((v) => (
+            <button
+              key={v.key}
+              type="button"
+              onClick={() => insertVariable(v.key)}
+              title={v.label}
+              className="rounded border border-border px-1.5 py-0.5 font-mono text-[11px] text-muted-foreground hover:bg-muted/40"
+            >
+              {`{${v.key}}`}
+            </button>
+          ))}
+        </div>
+
+        <div className="mt-3 rounded border border-border/70 p-3">
+          <div className="mb-1 text-xs text-muted-foreground">Preview for this lead</div>
+          <div className="whitespace-pre-wrap text-sm text-foreground">{preview.text || "-"}</div>
+          <MissingNote missing={preview.missing} unknown={preview.unknown} />
+        </div>
+
+        {error ? <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-3 text-sm text-rose-300">{error}</div> : null}
+
+        <div className="mt-3 flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onSave}
+            disabled={busy}
+            className="rounded bg-cyan-600 px-4 py-1.5 text-sm font-medium text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {busy ? "Saving..." : "Save template"}
+          </button>
+          {template ? (
+            <button
+              type="button"
+              onClick={onDelete}
+              disabled={busy}
+              className="ml-auto rounded border border-rose-400/40 px-3 py-1.5 text-xs text-rose-300 hover:bg-rose-500/10 disabled:opacity-60"
+            >
+              Delete
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import * as React from "react";
+import { useLeadAppointments, useMessageTemplates, useSettings, type Lead, type MessageTemplate } from "@/lib/api";
+import { pickAppointment, renderTemplate, type TemplateContext } from "@/lib/messageTemplates";
+import TemplateEditorDialog, { MissingNote } from "./TemplateEditorDialog";
+
+// Variables for the open lead: the sender's name from settings and the
+// lead's booked appointment, fetched only while a picker is open.
+export function useTemplateContext(lead: Lead): TemplateContext {
+  const settings = useSettings().data?.settings;
+  const appointments = useLeadAppointments(lead.id, { staleMs: 60_000 });
+  const [openedAt] = React.useState(() => Date.now());
+  const appointment = React.useMemo(
+    () => pickAppointment(appointments.data ?? [], openedAt),
+    [appointments.data, openedAt]
+  );
+  return { lead, agentName: settings?.ai_name, appointment };
+}
+
+// Template library panel above the composer. Opened from the toolbar or by
+// typing "/" into an empty draft; arrows move, Enter inserts, Escape closes.
+// When "/" opened it, Escape or a second "/" hands the typed text back
+// (`onClose("/...")`) so a message can still start with a slash.
+export default function TemplatePicker({
+  lead,
+  openedWithSlash = false,
+  onInsert,
+  onClose,
+}: {
+  lead: Lead;
+  openedWithSlash?: boolean;
+  onInsert: (text: string) => void;
+  onClose: (typed: string) => void;
+}) {
+  const templates = useMessageTemplates();
+  const ctx = useTemplateContext(lead);
+  const [query, setQuery] = React.useState("");
+  const [active, setActive] = React.useState(0);
+  const [editing, setEditing] = React.useState<MessageTemplate | "new" | null>(null);
+
+  const q = query.trim().toLowerCase();
+  const matches = (templates.data ?? []).filter(
+    (t) => !q || t.name.toLowerCase().includes(q) || t.body.toLowerCase().includes(q)
+  );
+  const current = matches[Math.min(active, matches.length - 1)] ?? null;
+  const preview = current ? renderTemplate(current.body, ctx) : null;
+
+  function insert(template: MessageTemplate) {
+    onInsert(renderTemplate(template.body, ctx).text);
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!matches.length) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((i) => (Math.min(i, matches.length - 1) + step + matches.length) % matches.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (current) insert(current);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose(openedWithSlash ? `/${query}` : "");
+    } else if (e.key === "/" && openedWithSlash && !query) {
+      e.preventDefault();
+      onClose("/");
+    }
+  }
+
+  return (
+    <div className="mb-2 rounded border border-border/70 bg-card/70 p-2 text-sm">
+      <div className="mb-2 flex items-center gap-2">
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActive(0);
+          }}
+          onKeyDown={onKeyDown}
+          placeholder={openedWithSlash ? "Search templates, or / again to type a slash" : "Search templates..."}
+          className="flex-1 rounded border border-border bg-background/40 px-2.5 py-1 text-sm"
+        />
+        <button
+          type="button"
+          onClick={() => setEditing("new")}
+          className="rounded border border-cyan-400/40 bg-cyan-500/15 px-2.5 py-1 text-xs text-cyan-200 hover:bg-cyan-500/25"
+        >
+          New template
+        </button>
+        <button type="button" onClick={() => onClose("")} className="rounded border border-border px-2.5 py-1 text-xs hover:bg-muted/40">
+          Close
+        </button>
+      </div>
+
+      {templates.error ? (
+        <div className="text-xs text-rose-300">Could not load templates.</div>
+      ) : templates.data === undefined ? (
+        <div className="text-xs text-muted-foreground">Loading...</div>
+      ) : !templates.data.length ? (
+        <div className="text-xs text-muted-foreground">
+          No templates yet. Use variables like {"{first_name}"} or {"{appointment_time}"} and they are filled in for each lead.
+        </div>
+      ) : !matches.length ? (
+        <div className="text-xs text-muted-foreground">No templates match.</div>
+      ) : (
+        <div className="grid gap-2 md:grid-cols-2">
+          <ul className="max-h-48 overflow-y-auto">
+            {matches.map((t) => (
+              <li key={t.id}>
+                <button
+                  type="button"
+                  onMouseEnter={() => setActive(matches.indexOf(t))}
+                  onClick={() => insert(t)}
+                  className={`w-full truncate rounded px-2 py-1 text-left text-xs ${
+                    t === current ? "bg-cyan-500/15 text-cyan-200" : "text-foreground hover:bg-muted/40"
+                  }`}
+                >
+                  {t.name || "Untitled"}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {current && preview ? (
+            <div className="rounded border border-border/70 p-2">
+              <div className="whitespace-pre-wrap text-xs text-foreground">{preview.text}</div>
+              <MissingNote missing={preview.missing} unknown={preview.unknown} />
+              <div className="mt-2 flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => insert(current)}
+                  className="rounded bg-cyan-600 px-2.5 py-1 text-xs font-medium text-white hover:bg-cyan-500"
+                >
+                  Insert
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditing(current)}
+                  className="rounded border border-border px-2.5 py-1 text-xs hover:bg-muted/40"
+                >
+                  Edit
+                </button>
+              </div>
+            </div>
+          ) : null}
+        </div>
+      )}
+
+      {editing ? (
+        <TemplateEditorDialog
+          template={editing === "new" ? null : editing}
+          context={ctx}
+          onClose={() => setEditing(null)}
+        />
+      ) : null}
+    </div>
+  );
+}
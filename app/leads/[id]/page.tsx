@@ -3,62 +3,47 @@
 import * as React from "react";
 import Link from "next/link";
 import { useParams, useSearchParams } from "next/navigation";
-import { apiFetch } from "@/lib/apiFetch";
-
-type LeadStatus = "engaged" | "cold" | "booked" | "missed_appointment" | "sold" | "dead";
-
-type Lead = {
-  id: number;
-  name?: string | null;
-  first_name?: string | null;
-  last_name?: string | null;
-  phone?: string | null;
-  email?: string | null;
-  city?: string | null;
-  state?: string | null;
-  zip?: string | null;
-  lead_timezone?: string | null;
-  status?: LeadStatus | string | null;
-  ai_enabled?: number | null;
-  ai_allow_quote_override?: number | null;
-  ai_allow_aca_override?: number | null;
-  auto_followup_enabled?: number | null;
-  auto_followup_config?: string | null;
-  appointment_reminders_enabled?: number | null;
-  appointment_reminder_offsets?: string | null;
-  ai_paused?: number | null;
-  ai_cooldown_until?: string | null;
-  ai_pause_reason?: string | null;
-  notes?: string | null;
-  hot?: number | null;
-  archived?: number | null;
-  dnc?: number | null;
-  lead_snapshot_json?: string | null;
-  lead_snapshot_updated_at?: string | null;
-  createdAt?: string | null;
-  created_at?: string | null;
-  created?: string | null;
-  lastMessageAt?: string | null;
-  last_message_at?: string | null;
-  lastMessageDirection?: "in" | "out" | null;
-  inboundCount?: number | null;
-  inbound_count?: number | null;
-  inbound?: number | null;
-};
-
-type Msg = {
-  id: number;
-  lead_id: number;
-  direction: "in" | "out";
-  text: string;
-  created_at?: string | null;
-  ai_response_source?: string | null;
-  ai_faq_id?: number | null;
-  delivery_status?: string | null;
-  delivery_status_at?: string | null;
-  ai_feedback_positive?: number | null;
-  ai_feedback_negative?: number | null;
-};
+import LeadLocalTime from "@/app/LeadLocalTime";
+import { findPlaceholders } from "@/lib/messageTemplates";
+import {
+  bookLeadAppointment,
+  errorMessage,
+  fetchQuery,
+  getAutoFollowupDefaults,
+  getGoogleStatus,
+  getLead,
+  getLeadNeighbors,
+  getSettings,
+  LEAD_STATUSES,
+  leadFiltersToParams,
+  listMessages,
+  markLeadViewed,
+  normalizeLeadStatus,
+  parseLeadFilters,
+  resumeLeadAi,
+  saveAutoFollowupDefaults,
+  saveLeadNotes,
+  sendMessage,
+  setLeadAcaOverride,
+  setLeadAi,
+  setLeadAppointmentReminders,
+  setLeadArchived,
+  setLeadDnc,
+  setLeadHot,
+  setLeadQuoteOverride,
+  setMessageFeedback,
+  subscribeRealtime,
+  syncMessages,
+  updateLeadAutoFollowup,
+  updateLeadStatus,
+  uploadMessageImage,
+  useRealtime,
+  type Lead,
+  type LeadNeighbors,
+  type LeadStatus,
+  type Msg,
+} from "@/lib/api";
+import TemplatePicker from "./TemplatePicker";
 
 type AutoFollowupRule = {
   enabled: boolean;
@@ -255,29 +240,33 @@ function formatIncomeValue(value: unknown) {
   return Number(digits).toLocaleString();
 }
 
-function getSnapshotLeadInfo(snapshot: any) {
-  const extracted = snapshot?.extracted_lead || {};
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function getSnapshotLeadInfo(snapshot: unknown) {
+  const extracted = asRecord(asRecord(snapshot).extracted_lead);
   return {
-    name: displayFieldValue(extracted?.name),
-    first_name: displayFieldValue(extracted?.first_name),
-    last_name: displayFieldValue(extracted?.last_name),
-    email: displayFieldValue(extracted?.email),
-    phone: displayFieldValue(extracted?.phone),
-    address: displayFieldValue(extracted?.address),
-    city: displayFieldValue(extracted?.city),
-    state: displayFieldValue(extracted?.state),
-    zip: displayFieldValue(extracted?.zip),
-    lead_timezone: displayFieldValue(extracted?.lead_timezone),
-    dob: displayFieldValue(extracted?.dob),
-    gender: displayFieldValue(extracted?.gender),
-    height: displayFieldValue(extracted?.height),
-    weight: displayFieldValue(extracted?.weight),
-    annual_household_income: formatIncomeValue(extracted?.annual_household_income),
-    qualifying_event: displayFieldValue(extracted?.qualifying_event),
-    family_size: displayFieldValue(extracted?.family_size),
-    coverage_type: displayFieldValue(extracted?.coverage_type),
-    is_medicare: displayFieldValue(extracted?.is_medicare),
-    custom_lead_type_name: displayFieldValue(extracted?.custom_lead_type_name),
+    name: displayFieldValue(extracted.name),
+    first_name: displayFieldValue(extracted.first_name),
+    last_name: displayFieldValue(extracted.last_name),
+    email: displayFieldValue(extracted.email),
+    phone: displayFieldValue(extracted.phone),
+    address: displayFieldValue(extracted.address),
+    city: displayFieldValue(extracted.city),
+    state: displayFieldValue(extracted.state),
+    zip: displayFieldValue(extracted.zip),
+    lead_timezone: displayFieldValue(extracted.lead_timezone),
+    dob: displayFieldValue(extracted.dob),
+    gender: displayFieldValue(extracted.gender),
+    height: displayFieldValue(extracted.height),
+    weight: displayFieldValue(extracted.weight),
+    annual_household_income: formatIncomeValue(extracted.annual_household_income),
+    qualifying_event: displayFieldValue(extracted.qualifying_event),
+    family_size: displayFieldValue(extracted.family_size),
+    coverage_type: displayFieldValue(extracted.coverage_type),
+    is_medicare: displayFieldValue(extracted.is_medicare),
+    custom_lead_type_name: displayFieldValue(extracted.custom_lead_type_name),
   };
 }
 
@@ -293,7 +282,7 @@ function addMinutesToLocalInput(localValue: string, minutes: number) {
   return `${y}-${m}-${day}T${hh}:${mm}`;
 }
 
-const STATUSES: LeadStatus[] = ["engaged", "cold", "booked", "missed_appointment", "sold", "dead"];
+const STATUSES: readonly LeadStatus[] = LEAD_STATUSES;
 
 const STATUS_STYLE: Record<LeadStatus, string> = {
   engaged: "border-amber-400/40 bg-amber-500/15 text-amber-300",
@@ -305,55 +294,13 @@ const STATUS_STYLE: Record<LeadStatus, string> = {
 };
 
 const EMOJI_CHOICES = ["🙂", "👍", "✅", "📅", "⏰", "🙏", "🎉", "📲"];
+const NEIGHBORS_STALE_MS = 5000;
+const THREAD_POLL_MS = 1000;
+// Pushed events trigger reloads while the realtime stream is open; this is only a safety net.
+const THREAD_POLL_REALTIME_MS = 30 * 1000;
 const HISTORY_SYNC_INTERVAL_MS = 60 * 1000;
 
-function normalizeStatus(s: any): LeadStatus {
-  const v = String(s || "engaged").toLowerCase();
-  if (v === "new" || v === "contacted" || v === "engaged") return "engaged";
-  if (v === "cold" || v === "booked" || v === "missed_appointment" || v === "sold" || v === "dead") return v;
-  return "engaged";
-}
-
-function toDateSafe(v?: string | null): number {
-  if (!v) return 0;
-  const iso = v.includes("T") ? v : v.replace(" ", "T") + "Z";
-  const d = new Date(iso);
-  const t = d.getTime();
-  return Number.isNaN(t) ? 0 : t;
-}
-
-function normalizeLeadForNavigation(raw: any): Lead {
-  return {
-    ...raw,
-    createdAt: raw?.createdAt ?? raw?.created_at ?? raw?.created ?? null,
-    lastMessageAt: raw?.lastMessageAt ?? raw?.last_message_at ?? null,
-    inboundCount: Number(raw?.inboundCount ?? raw?.inbound_count ?? raw?.inbound ?? 0),
-  };
-}
-
-function compareLeadForNavigation(a: Lead, b: Lead) {
-  const waitingA = String(a?.lastMessageDirection || "").toLowerCase() === "in" ? 1 : 0;
-  const waitingB = String(b?.lastMessageDirection || "").toLowerCase() === "in" ? 1 : 0;
-  if (waitingA !== waitingB) return waitingB - waitingA;
-
-  const hotA = Number(a?.hot ?? 0) === 1 ? 1 : 0;
-  const hotB = Number(b?.hot ?? 0) === 1 ? 1 : 0;
-  if (hotA !== hotB) return hotB - hotA;
-
-  const statusA = normalizeStatus(a?.status);
-  const statusB = normalizeStatus(b?.status);
-  const ageA = Date.now() - toDateSafe(String(a?.createdAt || a?.created_at || a?.created || ""));
-  const ageB = Date.now() - toDateSafe(String(b?.createdAt || b?.created_at || b?.created || ""));
-  const coldA = statusA === "engaged" && ageA >= 3 * 24 * 60 * 60 * 1000 ? 1 : 0;
-  const coldB = statusB === "engaged" && ageB >= 3 * 24 * 60 * 60 * 1000 ? 1 : 0;
-  if (coldA !== coldB) return coldA - coldB;
-
-  const tA = toDateSafe(String(a?.createdAt || a?.created_at || a?.created || ""));
-  const tB = toDateSafe(String(b?.createdAt || b?.created_at || b?.created || ""));
-  return tB - tA;
-}
-
-function normalizeOptionalBitToBool(value: any): boolean | null {
+function normalizeOptionalBitToBool(value: unknown): boolean | null {
   if (value === null || value === undefined || String(value).trim() === "") return null;
   const v = String(value).trim().toLowerCase();
   if (v === "1" || v === "true") return true;
@@ -361,14 +308,14 @@ function normalizeOptionalBitToBool(value: any): boolean | null {
   return null;
 }
 
-function clampDelayMinutes(value: any, fallback: number) {
+function clampDelayMinutes(value: unknown, fallback: number) {
   const n = Number(value);
   if (!Number.isFinite(n)) return fallback;
   return Math.max(1, Math.min(7 * 24 * 60, Math.floor(n)));
 }
 
-function normalizeAutoFollowupConfig(input: any): AutoFollowupConfig {
-  const src = input && typeof input === "object" ? input : {};
+function normalizeAutoFollowupConfig(input: unknown): AutoFollowupConfig {
+  const src = asRecord(input);
   const next: AutoFollowupConfig = {
     quote_missing_info: { ...DEFAULT_AUTO_FOLLOWUP_CONFIG.quote_missing_info },
     quoted_not_booked: { ...DEFAULT_AUTO_FOLLOWUP_CONFIG.quoted_not_booked },
@@ -377,11 +324,11 @@ function normalizeAutoFollowupConfig(input: any): AutoFollowupConfig {
     missed_appointment: { ...DEFAULT_AUTO_FOLLOWUP_CONFIG.missed_appointment },
   };
   (Object.keys(next) as Array<keyof AutoFollowupConfig>).forEach((key) => {
-    const rule: any = src?.[key] || {};
+    const rule = asRecord(src[key]);
     next[key] = {
-      enabled: rule?.enabled === undefined ? next[key].enabled : !!rule.enabled,
-      delay_minutes: clampDelayMinutes(rule?.delay_minutes, next[key].delay_minutes),
-      message: String(rule?.message || next[key].message || "").slice(0, 480),
+      enabled: rule.enabled === undefined ? next[key].enabled : !!rule.enabled,
+      delay_minutes: clampDelayMinutes(rule.delay_minutes, next[key].delay_minutes),
+      message: String(rule.message || next[key].message || "").slice(0, 480),
     };
   });
   return next;
@@ -466,21 +413,19 @@ export default function LeadThreadPage() {
   const idParam = params?.id;
   const leadId = Array.isArray(idParam) ? idParam[0] : idParam;
 
-  const API_BASE =
-    (process.env.NEXT_PUBLIC_API_BASE && process.env.NEXT_PUBLIC_API_BASE.trim()) ||
-    "https://infinitedrip-backend.onrender.com";
-
   const [lead, setLead] = React.useState<Lead | null>(null);
   const [messages, setMessages] = React.useState<Msg[]>([]);
   const [error, setError] = React.useState("");
   const [nowMs, setNowMs] = React.useState<number>(() => Date.now());
-  const [computedNextLeadId, setComputedNextLeadId] = React.useState<number | null>(null);
+  const [neighbors, setNeighbors] = React.useState<LeadNeighbors | null>(null);
 
   const [newMessage, setNewMessage] = React.useState("");
   const [sending, setSending] = React.useState(false);
   const [uploadingImage, setUploadingImage] = React.useState(false);
   const [mediaUrl, setMediaUrl] = React.useState("");
   const [showEmoji, setShowEmoji] = React.useState(false);
+  // "slash" when typing "/" opened the picker, so it can hand the slash back.
+  const [showTemplates, setShowTemplates] = React.useState<false | "button" | "slash">(false);
 
   const [q, setQ] = React.useState("");
   const [updatingStatus, setUpdatingStatus] = React.useState(false);
@@ -523,6 +468,7 @@ export default function LeadThreadPage() {
 
   const threadScrollRef = React.useRef<HTMLDivElement | null>(null);
   const fileInputRef = React.useRef<HTMLInputElement | null>(null);
+  const composerRef = React.useRef<HTMLTextAreaElement | null>(null);
   const autoFollowupModalOpenRef = React.useRef(false);
   const autoFollowupDraftDirtyRef = React.useRef(false);
   const lastHistorySyncAtRef = React.useRef(0);
@@ -530,12 +476,23 @@ export default function LeadThreadPage() {
   const threadLoadInFlightRef = React.useRef(false);
   const viewedPostedLeadRef = React.useRef("");
 
-  const queryNextLeadId = React.useMemo(() => {
-    const n = Number(searchParams?.get("next") || 0);
-    return Number.isFinite(n) && n > 0 ? n : null;
-  }, [searchParams]);
+  // The leads table passes its ordering along so neighbors match the rows around this lead.
+  const navFilters = parseLeadFilters(searchParams);
+  const navFilterQuery = leadFiltersToParams(navFilters).toString();
+  const navQuery = `?from=leads${navFilterQuery ? `&${navFilterQuery}` : ""}`;
+
+  // Ids linked from the table are only used until the server answers.
+  const queryLeadId = React.useCallback(
+    (name: "prev" | "next") => {
+      const n = Number(searchParams?.get(name) || 0);
+      return Number.isFinite(n) && n > 0 ? n : null;
+    },
+    [searchParams]
+  );
 
-  const nextLeadId = queryNextLeadId ?? computedNextLeadId;
+  const prevLeadId = neighbors ? neighbors.prev_id : queryLeadId("prev");
+  const nextLeadId = neighbors ? neighbors.next_id : queryLeadId("next");
+  const realtimeOpen = useRealtime() === "open";
 
   React.useEffect(() => {
     const id = window.setInterval(() => setNowMs(Date.now()), 1000);
@@ -545,20 +502,16 @@ export default function LeadThreadPage() {
   async function loadThread() {
     if (!leadId) return;
 
-    const lr = await apiFetch(`${API_BASE}/api/leads?include_archived=1`, { cache: "no-store" });
-    const ldata = await lr.json();
-    const rawList: Lead[] = Array.isArray(ldata) ? ldata : ldata?.leads ?? [];
-    const list = rawList.map((x) => normalizeLeadForNavigation(x));
-    const found = list.find((x) => String(x.id) === String(leadId)) || null;
-
-    const sortedForNavigation = [...list].sort(compareLeadForNavigation);
-    const navIdx = sortedForNavigation.findIndex((x) => String(x.id) === String(leadId));
-    if (navIdx >= 0 && navIdx < sortedForNavigation.length - 1) {
-      const nextId = Number(sortedForNavigation[navIdx + 1]?.id || 0);
-      setComputedNextLeadId(Number.isFinite(nextId) && nextId > 0 ? nextId : null);
-    } else {
-      setComputedNextLeadId(null);
-    }
+    // Neighbors only drive the prev/next links, so they can lag the 1s thread tick.
+    // A failed lookup must not fail the thread; the links then fall back to the
+    // prev/next ids the list put in the URL.
+    const neighborsRequest = fetchQuery(
+      `leads:neighbors:${leadId}:${navFilterQuery}`,
+      () => getLeadNeighbors(leadId, navFilters),
+      { staleMs: NEIGHBORS_STALE_MS }
+    ).catch(() => null);
+    const found = await getLead(leadId);
+    setNeighbors(await neighborsRequest);
 
     setLead(found);
     if (found) {
@@ -581,23 +534,16 @@ export default function LeadThreadPage() {
       setNotesDraft((prev) => (prev === "" ? found.notes || "" : prev));
     }
 
-    const mr = await apiFetch(`${API_BASE}/api/leads/${leadId}/messages`, { cache: "no-store" });
-    const mdata = await mr.json();
-    const msgs: Msg[] = Array.isArray(mdata) ? mdata : mdata?.messages ?? [];
-    setMessages(msgs);
+    setMessages(await listMessages(leadId));
   }
 
   async function syncThreadHistory() {
     if (!leadId || historySyncInFlightRef.current) return;
     historySyncInFlightRef.current = true;
     try {
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/messages/sync`, {
-        method: "POST",
-      });
+      await syncMessages(leadId);
       lastHistorySyncAtRef.current = Date.now();
-      if (r.ok) {
-        await loadThread();
-      }
+      await loadThread();
     } catch {
       lastHistorySyncAtRef.current = Date.now();
     } finally {
@@ -618,6 +564,7 @@ export default function LeadThreadPage() {
     lastHistorySyncAtRef.current = 0;
     historySyncInFlightRef.current = false;
     threadLoadInFlightRef.current = false;
+    setNeighbors(null);
     try {
       const stored = window.localStorage.getItem(`lead_email_${String(leadId)}`) || "";
       const normalized = normalizeEmail(stored);
@@ -625,35 +572,49 @@ export default function LeadThreadPage() {
     } catch {}
 
     let dead = false;
+    let reloadQueued = false;
 
-    async function tick() {
-      if (threadLoadInFlightRef.current) return;
+    async function tick(fromEvent = false) {
+      if (threadLoadInFlightRef.current) {
+        // A pushed event may postdate the in-flight load; run once more after it.
+        if (fromEvent) reloadQueued = true;
+        return;
+      }
       threadLoadInFlightRef.current = true;
       try {
         await loadThread();
+        // The webhook-fed stream covers new messages, so only sync history once when it is open.
         const shouldSyncHistory = (
           lastHistorySyncAtRef.current === 0 ||
-          (Date.now() - lastHistorySyncAtRef.current) >= HISTORY_SYNC_INTERVAL_MS
+          (!realtimeOpen && (Date.now() - lastHistorySyncAtRef.current) >= HISTORY_SYNC_INTERVAL_MS)
         );
         if (shouldSyncHistory) {
           void syncThreadHistory();
         }
         if (!dead) setError("");
-      } catch {
-        if (!dead) setError("Load failed");
+      } catch (e) {
+        if (!dead) setError(errorMessage(e, "Load failed"));
       } finally {
         threadLoadInFlightRef.current = false;
+        if (reloadQueued && !dead) {
+          reloadQueued = false;
+          void tick();
+        }
       }
     }
 
     tick();
-    const t = setInterval(tick, 1000);
+    const t = setInterval(() => tick(), realtimeOpen ? THREAD_POLL_REALTIME_MS : THREAD_POLL_MS);
+    const unsubscribe = subscribeRealtime((event) => {
+      if ("lead_id" in event && String(event.lead_id) === String(leadId)) void tick(true);
+    });
 
     return () => {
       dead = true;
       clearInterval(t);
+      unsubscribe();
     };
-  }, [leadId, API_BASE]);
+  }, [leadId, realtimeOpen, navFilterQuery]);
 
   React.useEffect(() => {
     viewedPostedLeadRef.current = "";
@@ -664,11 +625,8 @@ export default function LeadThreadPage() {
     const key = String(leadId);
     if (viewedPostedLeadRef.current === key) return;
     viewedPostedLeadRef.current = key;
-    void apiFetch(`${API_BASE}/api/leads/${leadId}/viewed`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-    }).catch(() => {});
-  }, [leadId, lead?.id, API_BASE]);
+    void markLeadViewed(leadId).catch(() => {});
+  }, [leadId, lead?.id]);
 
   React.useEffect(() => {
     const emailFromLead = normalizeEmail(String(lead?.email || ""));
@@ -680,28 +638,22 @@ export default function LeadThreadPage() {
     let dead = false;
     (async () => {
       try {
-        const r = await apiFetch(`${API_BASE}/api/integrations/google/status`, { cache: "no-store" });
-        if (!r.ok) return;
-        const body = await r.json().catch(() => ({}));
-        const status = body?.status || {};
+        const status = await getGoogleStatus();
         if (dead) return;
         setGoogleGmailConnected(!!status?.gmail_connected);
-        setGoogleConnectedEmail(normalizeEmail(String(status?.account_email || "")));
+        setGoogleConnectedEmail(normalizeEmail(status?.account_email || ""));
       } catch {}
     })();
     return () => {
       dead = true;
     };
-  }, [API_BASE]);
+  }, []);
 
   React.useEffect(() => {
     let dead = false;
     (async () => {
       try {
-        const r = await apiFetch(`${API_BASE}/api/settings`, { cache: "no-store" });
-        if (!r.ok) return;
-        const body = await r.json().catch(() => ({}));
-        const settings = body?.settings || {};
+        const { settings } = await getSettings();
         if (dead) return;
         setGlobalAllowQuote(!!settings?.ai_allow_quote);
       } catch {}
@@ -709,7 +661,7 @@ export default function LeadThreadPage() {
     return () => {
       dead = true;
     };
-  }, [API_BASE]);
+  }, []);
 
   React.useEffect(() => {
     const el = threadScrollRef.current;
@@ -722,6 +674,12 @@ export default function LeadThreadPage() {
     setShowEmoji(false);
   }
 
+  function insertTemplate(text: string) {
+    setNewMessage((prev) => (prev.trim() ? `${prev.trimEnd()} ${text}` : text));
+    setShowTemplates(false);
+    composerRef.current?.focus();
+  }
+
   function openImagePicker() {
     fileInputRef.current?.click();
   }
@@ -732,20 +690,9 @@ export default function LeadThreadPage() {
 
     setUploadingImage(true);
     try {
-      const body = new FormData();
-      body.append("image", file);
-
-      const r = await apiFetch(`${API_BASE}/api/uploads/image`, {
-        method: "POST",
-        body,
-      });
-      const data = await r.json().catch(() => ({}));
-      if (!r.ok || !data?.url) {
-        throw new Error(String(data?.error || "upload_failed"));
-      }
-      setMediaUrl(String(data.url));
-    } catch (err: any) {
-      alert(`Image upload failed: ${String(err?.message || err)}`);
+      setMediaUrl(await uploadMessageImage(file));
+    } catch (e) {
+      alert(errorMessage(e, "Image upload failed"));
     } finally {
       setUploadingImage(false);
       if (fileInputRef.current) fileInputRef.current.value = "";
@@ -758,24 +705,19 @@ export default function LeadThreadPage() {
       alert("DNC is enabled for this lead. Sending is disabled.");
       return;
     }
+    const placeholders = findPlaceholders(newMessage);
+    if (placeholders.length && !confirm(`${placeholders.join(", ")} could not be filled in. Send anyway?`)) return;
 
     try {
       setSending(true);
 
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/messages`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ text: newMessage, media_url: mediaUrl || undefined }),
-      });
-
-      if (!r.ok) throw new Error("Send failed");
+      await sendMessage(leadId, { text: newMessage, media_url: mediaUrl || undefined });
 
       setNewMessage("");
       setMediaUrl("");
       await loadThread();
-    } catch (e: any) {
-      const msg = e?.message || "unknown error";
-      alert("Send failed: " + msg);
+    } catch (e) {
+      alert(errorMessage(e, "Send failed: unknown error"));
     } finally {
       setSending(false);
     }
@@ -790,15 +732,7 @@ export default function LeadThreadPage() {
     const busyKey = `${Number(msg.id)}:${feedbackType}`;
     try {
       setFeedbackBusyKey(busyKey);
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/messages/${msg.id}/feedback`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          feedback_type: feedbackType,
-          active: nextActive,
-        }),
-      });
-      if (!r.ok) throw new Error("Feedback save failed");
+      await setMessageFeedback(leadId, msg.id, feedbackType, nextActive);
       setMessages((prev) =>
         prev.map((m) =>
           Number(m.id) === Number(msg.id)
@@ -845,32 +779,23 @@ export default function LeadThreadPage() {
 
     try {
       setBookingBusy(true);
-      const r = await apiFetch(`${API_BASE}/api/appointments/book`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          leadId: Number(leadId),
-          startDateTime: start.toISOString(),
-          endDateTime: end.toISOString(),
-          summary: bookingTitle.trim() || `Appointment - ${lead?.name || lead?.phone || "Lead"}`,
-          description: bookingDescription.trim(),
-          timeZone:
-            String(lead?.lead_timezone || "").trim() ||
-            Intl.DateTimeFormat().resolvedOptions().timeZone ||
-            "America/New_York",
-        }),
+      await bookLeadAppointment({
+        leadId: Number(leadId),
+        startDateTime: start.toISOString(),
+        endDateTime: end.toISOString(),
+        summary: bookingTitle.trim() || `Appointment - ${lead?.name || lead?.phone || "Lead"}`,
+        description: bookingDescription.trim(),
+        timeZone:
+          String(lead?.lead_timezone || "").trim() ||
+          Intl.DateTimeFormat().resolvedOptions().timeZone ||
+          "America/New_York",
       });
 
-      const data = await r.json().catch(() => ({}));
-      if (!r.ok || !data?.ok) {
-        throw new Error(String(data?.error || "booking_failed"));
-      }
-
       setBookingEnd(resolvedEnd);
       alert("Appointment created. Lead status updated to booked.");
       await loadThread();
-    } catch (e: any) {
-      alert(`Booking failed: ${String(e?.message || e)}`);
+    } catch (e) {
+      alert(errorMessage(e, "Booking failed"));
     } finally {
       setBookingBusy(false);
     }
@@ -882,13 +807,7 @@ export default function LeadThreadPage() {
     try {
       setUpdatingStatus(true);
 
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: next }),
-      });
-
-      if (!r.ok) throw new Error("Status update failed");
+      await updateLeadStatus(leadId, next);
 
       await loadThread();
     } catch {
@@ -904,13 +823,7 @@ export default function LeadThreadPage() {
     try {
       setUpdatingAi(true);
 
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/ai`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ enabled }),
-      });
-
-      if (!r.ok) throw new Error("AI toggle failed");
+      await setLeadAi(leadId, enabled);
 
       await loadThread();
     } catch {
@@ -924,18 +837,10 @@ export default function LeadThreadPage() {
     if (!leadId) return;
     try {
       setResumingAi(true);
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/ai/resume`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ reactivate: true }),
-      });
-      const body = await r.json().catch(() => ({}));
-      if (!r.ok || !body?.ok) throw new Error(String(body?.error || "AI resume failed"));
-
-      const reason = String(body?.result?.reason || "");
+      const { queued, reason } = await resumeLeadAi(leadId);
       if (reason === "replied") {
         alert("AI resumed and sent a reply.");
-      } else if (body?.queued) {
+      } else if (queued) {
         alert("AI resume queued. It will continue automatically.");
       } else if (reason === "no_pending_inbound") {
         alert("AI resumed. There is no pending inbound message right now.");
@@ -943,8 +848,8 @@ export default function LeadThreadPage() {
         alert(`AI resume completed: ${reason || "ok"}`);
       }
       await loadThread();
-    } catch {
-      alert("AI resume failed");
+    } catch (e) {
+      alert(errorMessage(e, "AI resume failed"));
     } finally {
       setResumingAi(false);
     }
@@ -956,16 +861,10 @@ export default function LeadThreadPage() {
     const effective = override === null ? globalAllowQuote : override;
     try {
       setUpdatingLeadQuote(true);
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/quote`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ enabled: !effective }),
-      });
-      if (!r.ok) throw new Error("Quote toggle failed");
-      const updated = await r.json().catch(() => ({}));
-      setLead((prev) => (prev ? { ...prev, ...updated } : prev));
-    } catch {
-      alert("Quote toggle failed");
+      await setLeadQuoteOverride(leadId, !effective);
+      setLead((prev) => (prev ? { ...prev, ai_allow_quote_override: effective ? 0 : 1 } : prev));
+    } catch (e) {
+      alert(errorMessage(e, "Quote toggle failed"));
     } finally {
       setUpdatingLeadQuote(false);
     }
@@ -977,16 +876,10 @@ export default function LeadThreadPage() {
     const effective = override === null ? true : override;
     try {
       setUpdatingLeadAca(true);
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/aca`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ enabled: !effective }),
-      });
-      if (!r.ok) throw new Error("ACA toggle failed");
-      const updated = await r.json().catch(() => ({}));
-      setLead((prev) => (prev ? { ...prev, ...updated } : prev));
-    } catch {
-      alert("ACA toggle failed");
+      await setLeadAcaOverride(leadId, !effective);
+      setLead((prev) => (prev ? { ...prev, ai_allow_aca_override: effective ? 0 : 1 } : prev));
+    } catch (e) {
+      alert(errorMessage(e, "ACA toggle failed"));
     } finally {
       setUpdatingLeadAca(false);
     }
@@ -996,29 +889,23 @@ export default function LeadThreadPage() {
     if (!leadId) return;
     try {
       setUpdatingAutoFollowup(true);
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/auto-followup`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ enabled: nextEnabled }),
-      });
-      if (!r.ok) throw new Error("Automatic follow-up toggle failed");
-      const body = await r.json().catch(() => ({}));
-      setAutoFollowupEnabled(!!body?.enabled);
-      setAutoFollowupConfig(normalizeAutoFollowupConfig(body?.config || autoFollowupConfig));
+      const body = await updateLeadAutoFollowup(leadId, nextEnabled);
+      setAutoFollowupEnabled(body.enabled);
+      setAutoFollowupConfig(normalizeAutoFollowupConfig(body.config || autoFollowupConfig));
       setLead((prev) =>
         prev
           ? {
               ...prev,
-              auto_followup_enabled: body?.enabled ? 1 : 0,
-              auto_followup_config: JSON.stringify(normalizeAutoFollowupConfig(body?.config || autoFollowupConfig)),
+              auto_followup_enabled: body.enabled ? 1 : 0,
+              auto_followup_config: JSON.stringify(normalizeAutoFollowupConfig(body.config || autoFollowupConfig)),
             }
           : prev
       );
       setAutoFollowupDraft(null);
       autoFollowupDraftDirtyRef.current = false;
       setAutoFollowupDraftDirty(false);
-    } catch {
-      alert("Automatic follow-up toggle failed");
+    } catch (e) {
+      alert(errorMessage(e, "Automatic follow-up toggle failed"));
     } finally {
       setUpdatingAutoFollowup(false);
     }
@@ -1028,24 +915,15 @@ export default function LeadThreadPage() {
     if (!leadId) return;
     try {
       setUpdatingAutoFollowup(true);
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/auto-followup`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          enabled: autoFollowupEnabled,
-          config: autoFollowupDraft || autoFollowupConfig,
-        }),
-      });
-      if (!r.ok) throw new Error("Automatic follow-up save failed");
-      const body = await r.json().catch(() => ({}));
-      setAutoFollowupEnabled(!!body?.enabled);
-      setAutoFollowupConfig(normalizeAutoFollowupConfig(body?.config || autoFollowupConfig));
+      const body = await updateLeadAutoFollowup(leadId, autoFollowupEnabled, autoFollowupDraft || autoFollowupConfig);
+      setAutoFollowupEnabled(body.enabled);
+      setAutoFollowupConfig(normalizeAutoFollowupConfig(body.config || autoFollowupConfig));
       setLead((prev) =>
         prev
           ? {
               ...prev,
-              auto_followup_enabled: body?.enabled ? 1 : 0,
-              auto_followup_config: JSON.stringify(normalizeAutoFollowupConfig(body?.config || autoFollowupConfig)),
+              auto_followup_enabled: body.enabled ? 1 : 0,
+              auto_followup_config: JSON.stringify(normalizeAutoFollowupConfig(body.config || autoFollowupConfig)),
             }
           : prev
       );
@@ -1053,8 +931,8 @@ export default function LeadThreadPage() {
       autoFollowupDraftDirtyRef.current = false;
       setAutoFollowupDraftDirty(false);
       setShowAutoFollowupModal(false);
-    } catch {
-      alert("Automatic follow-up save failed");
+    } catch (e) {
+      alert(errorMessage(e, "Automatic follow-up save failed"));
     } finally {
       setUpdatingAutoFollowup(false);
     }
@@ -1076,11 +954,7 @@ export default function LeadThreadPage() {
   async function openAutoFollowupDefaultsSetup() {
     try {
       setLoadingAutoFollowupDefaults(true);
-      const r = await apiFetch(`${API_BASE}/api/auto-followup/defaults`, { cache: "no-store" });
-      const body = await r.json().catch(() => ({}));
-      if (r.ok) {
-        setAutoFollowupDefaultsDraft(normalizeAutoFollowupConfig(body?.config || {}));
-      }
+      setAutoFollowupDefaultsDraft(normalizeAutoFollowupConfig(await getAutoFollowupDefaults()));
       setShowAutoFollowupDefaultsSetup(true);
     } catch {
       setAutoFollowupDefaultsDraft(normalizeAutoFollowupConfig({}));
@@ -1116,17 +990,8 @@ export default function LeadThreadPage() {
   async function saveAutoFollowupDefaultsSetup() {
     try {
       setSavingAutoFollowupDefaults(true);
-      const r = await apiFetch(`${API_BASE}/api/auto-followup/defaults`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          config: autoFollowupDefaultsDraft,
-          apply_to_all: true,
-        }),
-      });
-      if (!r.ok) throw new Error("Save failed");
-      const body = await r.json().catch(() => ({}));
-      const normalized = normalizeAutoFollowupConfig(body?.config || autoFollowupDefaultsDraft);
+      const saved = await saveAutoFollowupDefaults(autoFollowupDefaultsDraft, { applyToAll: true });
+      const normalized = normalizeAutoFollowupConfig(saved);
       setAutoFollowupDefaultsDraft(normalized);
       setAutoFollowupConfig(normalized);
       setAutoFollowupDraft(normalizeAutoFollowupConfig(normalized));
@@ -1139,8 +1004,8 @@ export default function LeadThreadPage() {
           : prev
       );
       setShowAutoFollowupDefaultsSetup(false);
-    } catch {
-      alert("Automatic follow-up defaults save failed");
+    } catch (e) {
+      alert(errorMessage(e, "Automatic follow-up defaults save failed"));
     } finally {
       setSavingAutoFollowupDefaults(false);
     }
@@ -1150,18 +1015,12 @@ export default function LeadThreadPage() {
     if (!leadId) return;
     try {
       setUpdatingAppointmentReminders(true);
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/appointment-reminders`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          enabled: appointmentRemindersEnabled,
-          times: appointmentReminderOffsets,
-        }),
+      const saved = await setLeadAppointmentReminders(leadId, {
+        enabled: appointmentRemindersEnabled,
+        times: appointmentReminderOffsets,
       });
-      if (!r.ok) throw new Error("Appointment reminders save failed");
-      const body = await r.json().catch(() => ({}));
-      const enabled = !!body?.enabled;
-      const offsets = parseAppointmentReminderOffsets(body?.offsets);
+      const enabled = saved.enabled;
+      const offsets = parseAppointmentReminderOffsets(saved.offsets);
       setAppointmentRemindersEnabled(enabled);
       setAppointmentReminderOffsets(offsets);
       setLead((prev) =>
@@ -1173,8 +1032,8 @@ export default function LeadThreadPage() {
             }
           : prev
       );
-    } catch {
-      alert("Appointment reminders save failed");
+    } catch (e) {
+      alert(errorMessage(e, "Appointment reminders save failed"));
     } finally {
       setUpdatingAppointmentReminders(false);
     }
@@ -1184,12 +1043,7 @@ export default function LeadThreadPage() {
     if (!leadId) return;
     try {
       setUpdatingHot(true);
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/hot`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ hot: nextHot }),
-      });
-      if (!r.ok) throw new Error("Hot toggle failed");
+      await setLeadHot(leadId, nextHot);
       await loadThread();
     } catch {
       alert("Hot toggle failed");
@@ -1202,12 +1056,7 @@ export default function LeadThreadPage() {
     if (!leadId) return;
     try {
       setUpdatingArchive(true);
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/archive`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ archived: nextArchived }),
-      });
-      if (!r.ok) throw new Error("Archive toggle failed");
+      await setLeadArchived(leadId, nextArchived);
       await loadThread();
     } catch {
       alert("Archive toggle failed");
@@ -1220,12 +1069,7 @@ export default function LeadThreadPage() {
     if (!leadId) return;
     try {
       setUpdatingDnc(true);
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/dnc`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ enabled: nextDnc }),
-      });
-      if (!r.ok) throw new Error("DNC toggle failed");
+      await setLeadDnc(leadId, nextDnc);
       await loadThread();
     } catch {
       alert("DNC toggle failed");
@@ -1240,13 +1084,7 @@ export default function LeadThreadPage() {
     try {
       setSavingNotes(true);
 
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/notes`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ notes: notesDraft }),
-      });
-
-      if (!r.ok) throw new Error("Notes save failed");
+      await saveLeadNotes(leadId, notesDraft);
 
       await loadThread();
     } catch {
@@ -1290,7 +1128,7 @@ export default function LeadThreadPage() {
     return messages.filter((m) => (m.text || "").toLowerCase().includes(term));
   }, [messages, q]);
 
-  const currentStatus = normalizeStatus(lead?.status);
+  const currentStatus = normalizeLeadStatus(lead?.status);
   const statusStyle = STATUS_STYLE[currentStatus];
   const aiOn = (lead?.ai_enabled ?? 1) === 1;
   const aiSignal = React.useMemo(() => getAiSignal(lead, nowMs), [lead, nowMs]);
@@ -1316,6 +1154,7 @@ export default function LeadThreadPage() {
   const leadSnapshot = parseLeadSnapshot(lead?.lead_snapshot_json || "");
   const snapshotLeadInfo = getSnapshotLeadInfo(leadSnapshot);
   const autoFollowupModalConfig = autoFollowupDraft || autoFollowupConfig;
+  const draftPlaceholders = findPlaceholders(newMessage);
 
   function updateAutoFollowupRule(
     key: keyof AutoFollowupConfig,
@@ -1342,9 +1181,21 @@ export default function LeadThreadPage() {
           <Link href="/leads" className="text-cyan-400 underline decoration-cyan-500/40">
             ← Back
           </Link>
+          {prevLeadId ? (
+            <Link
+              href={`/leads/${prevLeadId}${navQuery}`}
+              className="rounded border border-cyan-400/40 bg-cyan-500/10 px-2 py-1 text-xs text-cyan-300 hover:bg-cyan-500/20"
+            >
+              ← Prev Lead
+            </Link>
+          ) : (
+            <span className="rounded border border-border/70 bg-card/60 px-2 py-1 text-xs text-muted-foreground">
+              ← Prev Lead
+            </span>
+          )}
           {nextLeadId ? (
             <Link
-              href={`/leads/${nextLeadId}`}
+              href={`/leads/${nextLeadId}${navQuery}`}
               className="rounded border border-cyan-400/40 bg-cyan-500/10 px-2 py-1 text-xs text-cyan-300 hover:bg-cyan-500/20"
             >
               Next Lead →
@@ -1374,6 +1225,7 @@ export default function LeadThreadPage() {
           </div>
           <div className="text-sm text-muted-foreground">{lead?.phone}</div>
           <div className="text-xs text-muted-foreground">{leadLocationLine}</div>
+          {lead ? <LeadLocalTime lead={lead} className="mt-0.5 text-xs text-muted-foreground" /> : null}
           <div className="mt-2 flex items-center gap-2">
             <input
               type="email"
@@ -1845,6 +1697,19 @@ export default function LeadThreadPage() {
               </div>
             ) : null}
 
+            {showTemplates && lead ? (
+              <TemplatePicker
+                lead={lead}
+                openedWithSlash={showTemplates === "slash"}
+                onInsert={insertTemplate}
+                onClose={(typed) => {
+                  setShowTemplates(false);
+                  if (typed) setNewMessage((prev) => prev + typed);
+                  composerRef.current?.focus();
+                }}
+              />
+            ) : null}
+
             {showEmoji ? (
               <div className="mb-2 rounded border border-border/70 p-2 flex flex-wrap gap-2 bg-card/70">
                 {EMOJI_CHOICES.map((emo) => (
@@ -1862,6 +1727,7 @@ export default function LeadThreadPage() {
 
             <div className="flex gap-2">
               <textarea
+                ref={composerRef}
                 value={newMessage}
                 onChange={(e) => setNewMessage(e.target.value)}
                 placeholder={dnc ? "DNC enabled - messaging disabled" : (mediaUrl ? "Optional caption..." : "Type a message...")}
@@ -1874,6 +1740,14 @@ export default function LeadThreadPage() {
                 }`}
                 onKeyDown={(e) => {
                   if (dnc) return;
+                  // "/" in an empty draft opens the template picker; Escape or
+                  // another "/" there puts the slash in the message instead.
+                  if (e.key === "/" && !newMessage) {
+                    e.preventDefault();
+                    setShowEmoji(false);
+                    setShowTemplates("slash");
+                    return;
+                  }
                   if (e.key === "Enter" && !e.shiftKey) {
                     e.preventDefault();
                     if (!sending) handleSend();
@@ -1901,7 +1775,23 @@ export default function LeadThreadPage() {
 
               <button
                 type="button"
-                onClick={() => setShowEmoji((v) => !v)}
+                onClick={() => {
+                  setShowEmoji(false);
+                  setShowTemplates((v) => (v ? false : "button"));
+                }}
+                disabled={dnc || sending || !lead}
+                className="border px-3 py-2 rounded"
+                title="Templates (or type / in an empty message)"
+              >
+                📝
+              </button>
+
+              <button
+                type="button"
+                onClick={() => {
+                  setShowTemplates(false);
+                  setShowEmoji((v) => !v);
+                }}
                 disabled={dnc || sending}
                 className="border px-3 py-2 rounded"
                 title="Emoji"
@@ -1919,6 +1809,11 @@ export default function LeadThreadPage() {
                 {sending ? "..." : "Send"}
               </button>
             </div>
+            {draftPlaceholders.length ? (
+              <div className="mt-1 text-xs text-amber-300">
+                Not filled in: {draftPlaceholders.join(", ")}. Replace {draftPlaceholders.length === 1 ? "it" : "them"} before sending.
+              </div>
+            ) : null}
           </div>
         </section>
       </div>
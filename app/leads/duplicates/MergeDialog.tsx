@@ -0,0 +1,177 @@
+"use client";
+
+import * as React from "react";
+import { errorMessage, MERGE_FIELDS, mergeLeads, type Lead, type MergeField } from "@/lib/api";
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  name: "Name",
+  first_name: "First name",
+  last_name: "Last name",
+  phone: "Phone",
+  email: "Email",
+  city: "City",
+  state: "State",
+  zip: "ZIP",
+  lead_timezone: "Timezone",
+  status: "Status",
+  source: "Source",
+  assigned_to: "Assigned to",
+};
+
+function fieldValue(lead: Lead, field: MergeField) {
+  const v = lead[field];
+  return v === null || v === undefined ? "" : String(v).trim();
+}
+
+// Per field, the survivor's value unless it is blank.
+function defaultChoices(leads: Lead[], survivorId: number) {
+  const survivor = leads.find((l) => l.id === survivorId) ?? leads[0];
+  const out = {} as Record<MergeField, number>;
+  for (const field of MERGE_FIELDS) {
+    const filled = fieldValue(survivor, field) ? survivor : leads.find((l) => fieldValue(l, field));
+    out[field] = (filled ?? survivor).id;
+  }
+  return out;
+}
+
+function combinedNotes(leads: Lead[]) {
+  const withNotes = leads.filter((l) => String(l.notes || "").trim());
+  if (withNotes.length <= 1) return String(withNotes[0]?.notes || "").trim();
+  return withNotes.map((l) => `From lead #${l.id}:\n${String(l.notes).trim()}`).join("\n\n");
+}
+
+// Side-by-side merge of one duplicate group. Pick the record to keep and,
+// field by field, which lead's value survives.
+export default function MergeDialog({
+  leads,
+  onClose,
+  onMerged,
+}: {
+  leads: Lead[];
+  onClose: () => void;
+  onMerged: (survivor: Lead) => void;
+}) {
+  const [survivorId, setSurvivorId] = React.useState(leads[0].id);
+  const [choices, setChoices] = React.useState(() => defaultChoices(leads, leads[0].id));
+  const [notes, setNotes] = React.useState(() => combinedNotes(leads));
+  const [merging, setMerging] = React.useState(false);
+  const [error, setError] = React.useState("");
+
+  const others = leads.filter((l) => l.id !== survivorId);
+
+  function chooseSurvivor(id: number) {
+    setSurvivorId(id);
+    setChoices(defaultChoices(leads, id));
+  }
+
+  async function onMerge() {
+    if (merging) return;
+    setMerging(true);
+    setError("");
+    try {
+      const fields: Partial<Record<MergeField, string | null>> = {};
+      for (const field of MERGE_FIELDS) {
+        const source = leads.find((l) => l.id === choices[field]);
+        fields[field] = source ? fieldValue(source, field) || null : null;
+      }
+      onMerged(await mergeLeads(survivorId, { mergeIds: others.map((l) => l.id), fields, notes }));
+    } catch (e) {
+      setError(errorMessage(e, "Merge failed."));
+    } finally {
+      setMerging(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="max-h-[90vh] w-full max-w-5xl overflow-y-auto rounded-xl border border-border/80 bg-slate-900 p-4 text-sm shadow-2xl">
+        <div className="mb-3 flex items-center justify-between">
+          <div className="text-base font-semibold">Merge {leads.length} leads</div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={merging}
+            className="rounded border border-border px-2.5 py-1 text-xs hover:bg-muted/40 disabled:opacity-60"
+          >
+            Cancel
+          </button>
+        </div>
+
+        <div className="overflow-x-auto rounded border border-border/70">
+          <table className="w-full text-xs">
+            <thead className="bg-muted/70 text-muted-foreground">
+              <tr>
+                <th className="px-3 py-1.5 text-left">Field</th>
+                {leads.map((l) => (
+                  <th key={l.id} className="px-3 py-1.5 text-left">
+                    <label className="flex items-center gap-2 text-foreground">
+                      <input
+                        type="radio"
+                        name="survivor"
+                        checked={survivorId === l.id}
+                        onChange={() => chooseSurvivor(l.id)}
+                      />
+                      Keep #{l.id}
+                    </label>
+                    <div className="mt-0.5 font-normal">
+                      {l.archived ? "archived, " : ""}created {l.createdAt ? new Date(l.createdAt).toLocaleDateString() : "-"}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {MERGE_FIELDS.map((field) => (
+                <tr key={field} className="border-t border-border/70">
+                  <td className="px-3 py-1.5 text-muted-foreground">{FIELD_LABELS[field]}</td>
+                  {leads.map((l) => {
+                    const value = fieldValue(l, field);
+                    return (
+                      <td key={l.id} className="px-3 py-1.5">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            name={`field:${field}`}
+                            checked={choices[field] === l.id}
+                            onChange={() => setChoices((prev) => ({ ...prev, [field]: l.id }))}
+                          />
+                          <span className={value ? "text-foreground" : "text-muted-foreground"}>{value || "-"}</span>
+                        </label>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <label className="mt-3 block text-xs text-muted-foreground">
+          Notes
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={5}
+            className="mt-1 w-full rounded border border-border bg-background/40 px-2.5 py-1.5 text-sm text-foreground"
+          />
+        </label>
+
+        <div className="mt-3 text-xs text-muted-foreground">
+          Messages and appointments from {others.map((l) => `#${l.id}`).join(", ")} move to #{survivorId}, then{" "}
+          {others.length === 1 ? "that lead is" : "those leads are"} deleted. The merge is recorded in the audit log.
+        </div>
+
+        {error ? <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-3 text-sm text-rose-300">{error}</div> : null}
+
+        <button
+          type="button"
+          onClick={onMerge}
+          disabled={merging}
+          className="mt-3 rounded bg-cyan-600 px-4 py-1.5 text-sm font-medium text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {merging ? "Merging..." : `Merge into #${survivorId}`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { errorMessage, useLeadList, type Lead } from "@/lib/api";
+import { DUPLICATE_REASON_LABELS, findDuplicateGroups, type DuplicateGroup } from "@/lib/leadDuplicates";
+import MergeDialog from "./MergeDialog";
+
+export default function LeadDuplicatesPage() {
+  // Archived leads count: an old archived record is still the same person.
+  const leadList = useLeadList({ includeArchived: true });
+  const groups = React.useMemo(() => findDuplicateGroups(leadList.data?.leads ?? []), [leadList.data]);
+  const [merging, setMerging] = React.useState<DuplicateGroup | null>(null);
+  const [merged, setMerged] = React.useState<Lead | null>(null);
+
+  return (
+    <div className="mx-auto max-w-5xl rounded-2xl border border-border/70 bg-card/40 p-6 shadow-xl backdrop-blur-sm">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <h1 className="text-2xl font-semibold text-foreground">Duplicate leads</h1>
+        <Link className="text-sm text-cyan-400 underline decoration-cyan-500/40" href="/leads">
+          Leads
+        </Link>
+      </div>
+      <p className="mb-4 text-sm text-muted-foreground">
+        Leads are grouped when they share a phone number (however it was formatted), an email address, or a name and
+        ZIP code.
+      </p>
+
+      {leadList.error ? (
+        <div className="mb-4 rounded border border-rose-400/40 bg-rose-500/10 p-3 text-sm text-rose-300">
+          {errorMessage(leadList.error, "Load leads failed")}
+        </div>
+      ) : null}
+      {merged ? (
+        <div className="mb-4 rounded border border-emerald-400/40 bg-emerald-500/10 p-3 text-sm text-emerald-300">
+          Merged into{" "}
+          <Link href={`/leads/${merged.id}`} className="underline">
+            lead #{merged.id}
+            {merged.name ? ` (${merged.name})` : ""}
+          </Link>
+          .
+        </div>
+      ) : null}
+
+      {leadList.fetching && !leadList.data ? <p className="text-sm text-muted-foreground">Loading...</p> : null}
+      {leadList.data && groups.length === 0 ? <p className="text-sm text-muted-foreground">No duplicates found.</p> : null}
+
+      <div className="space-y-3">
+        {groups.map((g) => (
+          <div key={g.id} className="rounded-xl border border-border/80 bg-card/70 p-3 shadow-sm">
+            <div className="mb-2 flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium text-foreground">{g.leads.length} leads</span>
+              {g.reasons.map((r) => (
+                <span key={r} className="rounded border border-amber-400/40 bg-amber-500/10 px-1.5 py-0.5 text-xs text-amber-300">
+                  {DUPLICATE_REASON_LABELS[r]}
+                </span>
+              ))}
+              <button
+                type="button"
+                onClick={() => {
+                  setMerged(null);
+                  setMerging(g);
+                }}
+                className="ml-auto rounded border border-cyan-400/40 bg-cyan-500/15 px-3 py-1 text-xs text-cyan-200 hover:bg-cyan-500/25"
+              >
+                Review and merge
+              </button>
+            </div>
+            <table className="w-full text-xs">
+              <tbody>
+                {g.leads.map((l) => (
+                  <tr key={l.id} className="border-t border-border/70">
+                    <td className="py-1 pr-3">
+                      <Link href={`/leads/${l.id}`} className="text-cyan-400 underline decoration-cyan-500/40">
+                        #{l.id}
+                      </Link>
+                    </td>
+                    <td className="py-1 pr-3 text-foreground">{l.name || "-"}</td>
+                    <td className="py-1 pr-3">{l.phone || "-"}</td>
+                    <td className="py-1 pr-3">{l.email || "-"}</td>
+                    <td className="py-1 pr-3">{l.zip || "-"}</td>
+                    <td className="py-1 pr-3 text-muted-foreground">{l.source}</td>
+                    <td className="py-1 pr-3 text-muted-foreground">
+                      {l.status}
+                      {l.archived ? " (archived)" : ""}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+
+      {merging ? (
+        <MergeDialog
+          leads={merging.leads}
+          onClose={() => setMerging(null)}
+          onMerged={(survivor) => {
+            setMerging(null);
+            setMerged(survivor);
+          }}
+        />
+      ) : null}
+    </div>
+  );
+}
@@ -2,44 +2,41 @@
 
 import * as React from "react";
 import Link from "next/link";
-import { apiFetch } from "@/lib/apiFetch";
-
-type LeadStatus = "engaged" | "booked" | "missed_appointment" | "sold" | "cold" | "dead";
-
-type Lead = {
-  id: number;
-  name?: string | null;
-  phone?: string | null;
-  status?: LeadStatus | string | null;
-  ai_enabled?: number | null;
-  ai_paused?: number | null;
-  ai_pause_reason?: string | null;
-  ai_cooldown_until?: string | null;
-  createdAt?: string | null;
-  created_at?: string | null;
-  created?: string | null;
-
-  lastMessageDirection?: "in" | "out" | null;
-  lastMessageAt?: string | null;
-  last_message_at?: string | null;
-  last_message?: string | null;
-  inboundCount?: number | null;
-  inbound_count?: number | null;
-  inbound?: number | null;
-  source?: string | null;
-  city?: string | null;
-  state?: string | null;
-  zip?: string | null;
-  lead_timezone?: string | null;
-  hot?: number | null;
-  archived?: number | null;
-  archived_at?: string | null;
-};
-
-type LeadsResponse = {
-  leads?: Lead[];
-  counts?: Record<string, number>;
-};
+import { useRouter, useSearchParams } from "next/navigation";
+import AssigneeFilter from "@/app/AssigneeFilter";
+import LeadLocalTime from "@/app/LeadLocalTime";
+import { useNow } from "@/app/useNow";
+import { useVirtualRows } from "@/app/useVirtualRows";
+import BulkActionBar from "./BulkActionBar";
+import ExportDialog from "./ExportDialog";
+import ImportWizard from "./ImportWizard";
+import LeadFilterBar from "./LeadFilterBar";
+import SavedViewControls from "./SavedViewControls";
+import {
+  assignLead,
+  countActiveFilters,
+  createLead,
+  deleteLead,
+  errorMessage,
+  findExistingLeads,
+  leadFiltersToParams,
+  listMatchingLeadIds,
+  normalizeLeadStatus,
+  parseLeadFilters,
+  setLeadArchived,
+  setQueryData,
+  useLeadPages,
+  usePermissions,
+  useTeam,
+  type LeadFilters,
+  type LeadPage,
+  type LeadSort,
+  type LeadView,
+  type Lead,
+  type LeadStatus,
+} from "@/lib/api";
+import { findLikelyDuplicates } from "@/lib/leadDuplicates";
+import { toE164 } from "@/lib/phone";
 
 const STATUS_STYLE: Record<LeadStatus, string> = {
   engaged: "border-amber-400/40 bg-amber-500/15 text-amber-300",
@@ -50,13 +47,6 @@ const STATUS_STYLE: Record<LeadStatus, string> = {
   dead: "border-rose-400/40 bg-rose-500/15 text-rose-300",
 };
 
-function normalizeStatus(s: any): LeadStatus {
-  const v = String(s || "engaged").toLowerCase();
-  if (v === "new" || v === "contacted" || v === "engaged") return "engaged";
-  if (v === "booked" || v === "missed_appointment" || v === "sold" || v === "cold" || v === "dead") return v;
-  return "engaged";
-}
-
 function formatMessagePreview(text?: string | null) {
   const s = String(text || "").replace(/\s+/g, " ").trim();
   if (!s) return "";
@@ -96,104 +86,6 @@ function formatAge(v?: string | null) {
   return `${mins}m`;
 }
 
-const STATE_TZ_LABEL: Record<string, string> = {
-  AL: "CST",
-  AK: "AKST",
-  AZ: "MTN",
-  AR: "CST",
-  CA: "PST",
-  CO: "MTN",
-  CT: "EST",
-  DE: "EST",
-  FL: "EST",
-  GA: "EST",
-  HI: "HST",
-  ID: "MTN",
-  IL: "CST",
-  IN: "EST",
-  IA: "CST",
-  KS: "CST",
-  KY: "EST",
-  LA: "CST",
-  ME: "EST",
-  MD: "EST",
-  MA: "EST",
-  MI: "EST",
-  MN: "CST",
-  MS: "CST",
-  MO: "CST",
-  MT: "MTN",
-  NE: "CST",
-  NV: "PST",
-  NH: "EST",
-  NJ: "EST",
-  NM: "MTN",
-  NY: "EST",
-  NC: "EST",
-  ND: "CST",
-  OH: "EST",
-  OK: "CST",
-  OR: "PST",
-  PA: "EST",
-  RI: "EST",
-  SC: "EST",
-  SD: "CST",
-  TN: "CST",
-  TX: "CST",
-  UT: "MTN",
-  VT: "EST",
-  VA: "EST",
-  WA: "PST",
-  WV: "EST",
-  WI: "CST",
-  WY: "MTN",
-  DC: "EST",
-};
-
-function inferTimezoneLabel(lead: Lead): string {
-  const state = String(lead?.state || "").trim().toUpperCase();
-  const tz = String(lead?.lead_timezone || "").trim().toLowerCase();
-
-  let label = "";
-  if (state && STATE_TZ_LABEL[state]) {
-    label = STATE_TZ_LABEL[state];
-  } else if (tz) {
-    if (
-      tz.includes("new_york") ||
-      tz.includes("detroit") ||
-      tz.includes("indiana") ||
-      tz.includes("kentucky") ||
-      tz.includes("toronto")
-    ) {
-      label = "EST";
-    } else if (
-      tz.includes("chicago") ||
-      tz.includes("winnipeg")
-    ) {
-      label = "CST";
-    } else if (
-      tz.includes("denver") ||
-      tz.includes("boise") ||
-      tz.includes("phoenix")
-    ) {
-      label = "MTN";
-    } else if (
-      tz.includes("los_angeles") ||
-      tz.includes("vancouver")
-    ) {
-      label = "PST";
-    } else if (tz.includes("anchorage")) {
-      label = "AKST";
-    } else if (tz.includes("honolulu")) {
-      label = "HST";
-    }
-  }
-
-  if (!label) return "-";
-  if (state) return `${label} (${state})`;
-  return label;
-}
-
 function renderSourceBadge(v?: string | null) {
   const s = String(v || "manual");
 
@@ -309,228 +201,184 @@ function getAiSignal(lead: Lead, nowMs = Date.now()): AiSignal {
   };
 }
 
-function normalizeLead(raw: any): Lead {
-  const createdAt = raw?.createdAt ?? raw?.created_at ?? raw?.created ?? null;
-  const lastMessageAt = raw?.lastMessageAt ?? raw?.last_message_at ?? null;
-  const inboundCount = raw?.inboundCount ?? raw?.inbound_count ?? raw?.inbound ?? 0;
-
-  return {
-    ...raw,
-    ai_enabled: Number(raw?.ai_enabled ?? 1),
-    ai_paused: Number(raw?.ai_paused ?? 0),
-    ai_cooldown_until: raw?.ai_cooldown_until ?? null,
-    createdAt,
-    lastMessageAt,
-    inboundCount: Number(inboundCount ?? 0),
-    source: String(raw?.source || "manual"),
-    city: String(raw?.city || "").trim(),
-    state: String(raw?.state || "").trim(),
-    zip: String(raw?.zip || "").trim(),
-    lead_timezone: String(raw?.lead_timezone || "").trim(),
-    hot: Number(raw?.hot ?? 0),
-    archived: Number(raw?.archived ?? 0),
-    archived_at: raw?.archived_at ?? null,
-  };
+// The cooldown countdown ticks here so only this badge re-renders each second.
+function AiSignalBadge({ lead }: { lead: Lead }) {
+  const nowMs = useNow(toDateSafe(lead.ai_cooldown_until) || null);
+  const aiSignal = getAiSignal(lead, nowMs);
+  return (
+    <span className={`inline-flex items-center gap-1 border rounded px-1.5 py-0.5 text-[11px] ${aiSignal.className}`}>
+      <span aria-hidden="true">{aiSignal.tone === "green" ? "🟢" : aiSignal.tone === "yellow" ? "🟡" : "🔴"}</span>
+      {aiSignal.label}
+    </span>
+  );
 }
 
-type SortKey = "newest" | "oldest";
-type LeadView = "active" | "archived" | "all";
+// Typical row with a message preview; real heights are measured as rows render.
+const ROW_HEIGHT_ESTIMATE = 64;
 
-async function readResponseError(r: Response): Promise<string> {
-  const ct = (r.headers.get("content-type") || "").toLowerCase();
-
-  // Try text first (works for both JSON + HTML)
-  const text = await r.text().catch(() => "");
-
-  // If it's HTML, surface that clearly (usually means we hit Next.js instead of backend)
-  if (ct.includes("text/html") || text.trim().startsWith("<!DOCTYPE html")) {
-    return "Server returned HTML (wrong route / proxy / auth).";
-  }
-
-  // If JSON, try to extract a useful message
-  if (ct.includes("application/json")) {
-    try {
-      const j = JSON.parse(text || "{}");
-      const msg =
-        j?.error ||
-        j?.message ||
-        j?.detail ||
-        j?.errors?.[0]?.message ||
-        "";
-      return msg ? String(msg) : (text || "Request failed");
-    } catch {
-      return text || "Request failed";
-    }
-  }
-
-  return text || "Request failed";
+// useSearchParams needs a Suspense boundary on a statically rendered route.
+export default function LeadsPage() {
+  return (
+    <React.Suspense fallback={null}>
+      <LeadsTable />
+    </React.Suspense>
+  );
 }
 
-export default function LeadsPage() {
-  const [leads, setLeads] = React.useState<Lead[]>([]);
-  const [counts, setCounts] = React.useState<Record<string, number> | null>(null);
+function LeadsTable() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
   const [error, setError] = React.useState("");
-  const [nowMs, setNowMs] = React.useState<number>(() => Date.now());
 
-  const [sort, setSort] = React.useState<SortKey>("newest");
-  const [view, setView] = React.useState<LeadView>("active");
+  // Filters live in the query string so a filtered list can be bookmarked,
+  // shared, or linked from a saved view in the sidebar.
+  const filterQuery = leadFiltersToParams(parseLeadFilters(searchParams)).toString();
+  const filters = React.useMemo(() => parseLeadFilters(new URLSearchParams(filterQuery)), [filterQuery]);
+  const { sort, view, assignee } = filters;
+
+  // Team owners see every member's leads and can reassign them.
+  const { can } = usePermissions();
+  const isTeamOwner = can("team.manage");
+  const team = useTeam({ enabled: isTeamOwner });
+  const members = team.data?.members ?? [];
+  const showAssignee = isTeamOwner && !!team.data;
+  const columnCount = showAssignee ? 12 : 11;
 
   const [name, setName] = React.useState("");
   const [phone, setPhone] = React.useState("");
   const [adding, setAdding] = React.useState(false);
+  const [duplicates, setDuplicates] = React.useState<Lead[]>([]);
 
-  const [file, setFile] = React.useState<File | null>(null);
-  const [importing, setImporting] = React.useState(false);
-  const [importResult, setImportResult] = React.useState<string>("");
+  const [importOpen, setImportOpen] = React.useState(false);
+  const [exportOpen, setExportOpen] = React.useState(false);
 
-  React.useEffect(() => {
-    const id = window.setInterval(() => setNowMs(Date.now()), 1000);
-    return () => window.clearInterval(id);
-  }, []);
-
-  async function loadLeads() {
-    const includeArchived = view !== "active";
-    const suffix = includeArchived ? "?include_archived=1" : "";
-    const r = await apiFetch(`/api/leads${suffix}`, { cache: "no-store" });
-    if (!r.ok) {
-      const details = await readResponseError(r);
-      const url = (r as any)?.url ? String((r as any).url) : "unknown-url";
-      throw new Error(`Failed to load leads (${r.status}) [${url}]: ${details}`);
-    }
+  const updateFilters = React.useCallback(
+    (patch: Partial<LeadFilters>) => {
+      const query = leadFiltersToParams({ ...filters, ...patch }).toString();
+      router.replace(query ? `/leads?${query}` : "/leads", { scroll: false });
+    },
+    [filters, router]
+  );
 
-    const data: any = await r.json();
-    const listRaw: Lead[] = Array.isArray(data) ? data : (data as LeadsResponse)?.leads ?? [];
-    const list = listRaw.map((l: any) => normalizeLead(l));
-    const c = Array.isArray(data) ? null : (data as LeadsResponse)?.counts ?? null;
+  const leadPages = useLeadPages(filters, { pollMs: 5000, errorPollMs: 15000 });
+  const { leads, counts, hasMore, loadingMore, loadMore } = leadPages;
+  const loadError = leadPages.error ? errorMessage(leadPages.error, "Load leads failed") : "";
 
-    const filtered = list.filter((l) => {
-      const a = Number((l as any).archived ?? 0) === 1;
-      if (view === "active") return !a;
-      if (view === "archived") return a;
-      return true;
-    });
-    setLeads(filtered);
-    setCounts(c);
-  }
+  // Bulk selection. Shift-click selects the range from the last clicked row;
+  // "all matching" pulls every id for the filter, not only loaded rows.
+  const [selected, setSelected] = React.useState<Set<number>>(() => new Set());
+  const [allMatching, setAllMatching] = React.useState(false);
+  const lastClickedRef = React.useRef<number | null>(null);
+  const selectedIds = React.useMemo(() => Array.from(selected), [selected]);
+  const allLoadedSelected = leads.length > 0 && leads.every((l) => selected.has(l.id));
 
   React.useEffect(() => {
-    let dead = false;
-    let timer: ReturnType<typeof setTimeout> | null = null;
-
-    async function tick() {
-      let ok = false;
-      try {
-        await loadLeads();
-        ok = true;
-        if (!dead) {
-          setError((prev) => {
-            const p = String(prev || "");
-            if (
-              p.startsWith("Load failed") ||
-              p.startsWith("Failed to load leads") ||
-              p.includes("Failed to load leads (")
-            ) {
-              return "";
-            }
-            return p;
-          });
-        }
-      } catch (e: any) {
-        const msg = e?.message ? String(e.message) : "Load failed";
-        if (!dead) setError(msg);
-      } finally {
-        if (!dead) {
-          const delayMs = ok ? 5000 : 15000;
-          timer = setTimeout(tick, delayMs);
-        }
+    setSelected(new Set());
+    setAllMatching(false);
+    lastClickedRef.current = null;
+  }, [filterQuery]);
+
+  function toggleRow(index: number, shiftKey: boolean) {
+    const id = leads[index]?.id;
+    if (id === undefined) return;
+    const anchor = lastClickedRef.current;
+    setSelected((prev) => {
+      const next = new Set(prev);
+      const on = !prev.has(id);
+      const [from, to] = shiftKey && anchor !== null ? [Math.min(anchor, index), Math.max(anchor, index)] : [index, index];
+      for (let i = from; i <= to && i < leads.length; i += 1) {
+        if (on) next.add(leads[i].id);
+        else next.delete(leads[i].id);
       }
-    }
+      return next;
+    });
+    lastClickedRef.current = index;
+    setAllMatching(false);
+  }
 
-    tick();
+  function toggleAllLoaded() {
+    setSelected(allLoadedSelected ? new Set() : new Set(leads.map((l) => l.id)));
+    setAllMatching(false);
+  }
 
-    return () => {
-      dead = true;
-      if (timer) clearTimeout(timer);
-    };
-  }, [view]);
+  async function selectAllMatching() {
+    setSelected(new Set(await listMatchingLeadIds(filters)));
+    setAllMatching(true);
+  }
+
+  function clearSelection() {
+    setSelected(new Set());
+    setAllMatching(false);
+  }
+
+  // Infinite scroll: fetch the next page when the sentinel row nears the bottom of the table.
+  const scrollRef = React.useRef<HTMLDivElement | null>(null);
+  const sentinelRef = React.useRef<HTMLTableRowElement | null>(null);
+  React.useEffect(() => {
+    const root = scrollRef.current;
+    const target = sentinelRef.current;
+    if (!root || !target || !hasMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) loadMore().catch((e) => setError(errorMessage(e, "Load leads failed")));
+      },
+      { root, rootMargin: "200px" }
+    );
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  // Only rows near the viewport are rendered, so large accounts scroll smoothly.
+  const rowKeys = React.useMemo(() => leads.map((l) => l.id), [leads]);
+  const rows = useVirtualRows({ scrollRef, keys: rowKeys, estimateHeight: ROW_HEIGHT_ESTIMATE });
 
   async function handleAddLead(e: React.FormEvent) {
     e.preventDefault();
+    await addLead(false);
+  }
+
+  async function addLead(force: boolean) {
     if (!phone.trim()) return;
 
     try {
       setAdding(true);
       setError("");
 
-      const r = await apiFetch(`/api/leads`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name, phone }),
-      });
-
-      if (!r.ok) {
-        const details = await readResponseError(r);
-        const url = (r as any)?.url ? String((r as any).url) : "unknown-url";
-        throw new Error(`Add lead failed (${r.status}) [${url}]: ${details}`);
+      // Warn before creating what is probably the same person again.
+      if (!force) {
+        const e164 = toE164(phone);
+        const existing = e164 ? await findExistingLeads({ phones: [e164], emails: [] }) : [];
+        const matches = findLikelyDuplicates({ name, phone }, existing);
+        if (matches.length) {
+          setDuplicates(matches.map((m) => m.lead));
+          return;
+        }
       }
+      setDuplicates([]);
 
-      const created: any = await r.json().catch(() => null);
+      const created = await createLead({ name, phone });
 
       // Optimistic UI: insert immediately so it shows up even if the poll races.
-      if (created && typeof created === "object") {
-        setLeads((prev) => {
-          const id = Number((created as any).id || 0);
-          const filtered = id ? prev.filter((x: any) => Number((x as any).id || 0) !== id) : prev;
-          return [normalizeLead(created), ...filtered.map((x: any) => normalizeLead(x))];
-        });
-      }
+      setQueryData<LeadPage[]>(leadPages.key, (prev) =>
+        prev.map((page, i) => (i === 0 ? { ...page, leads: [created, ...page.leads.filter((x) => x.id !== created.id)] } : page))
+      );
 
       setName("");
       setPhone("");
-
-      // Refresh from server in background (keeps counts accurate)
-      loadLeads().catch(() => {});
-    } catch (e: any) {
-      const msg = e?.message ? String(e.message) : "Add lead failed";
-      setError(msg);
+    } catch (e) {
+      setError(errorMessage(e, "Add lead failed"));
     } finally {
       setAdding(false);
     }
   }
 
-  async function handleImport(e: React.FormEvent) {
-    e.preventDefault();
-    if (!file) return;
-
+  async function handleAssignLead(leadId: number, value: string) {
     try {
-      setImporting(true);
       setError("");
-      setImportResult("");
-
-      const fd = new FormData();
-      fd.append("file", file);
-
-      const r = await apiFetch(`/api/leads/import`, {
-        method: "POST",
-        body: fd,
-      });
-
-      if (!r.ok) {
-        const details = await readResponseError(r);
-        const url = (r as any)?.url ? String((r as any).url) : "unknown-url";
-        throw new Error(`CSV import failed (${r.status}) [${url}]: ${details}`);
-      }
-
-      const data: any = await r.json().catch(() => ({}));
-      setImportResult(`Imported ${data.imported ?? "?"}. Total ${data.total ?? "?"}.`);
-      setFile(null);
-
-      await loadLeads();
-    } catch (e: any) {
-      const msg = e?.message ? String(e.message) : "CSV import failed";
-      setError(msg);
-    } finally {
-      setImporting(false);
+      await assignLead(leadId, value === "round_robin" ? "round_robin" : value || null);
+      await leadPages.reload();
+    } catch (e) {
+      setError(errorMessage(e, "Assignment failed"));
     }
   }
 
@@ -539,74 +387,23 @@ export default function LeadsPage() {
     if (!yes) return;
     try {
       setError("");
-      const r = await apiFetch(`/api/leads/${leadId}`, { method: "DELETE" });
-      if (!r.ok) {
-        const details = await readResponseError(r);
-        throw new Error(`Delete failed (${r.status}): ${details}`);
-      }
-      setLeads((prev) => prev.filter((l) => Number(l.id) !== Number(leadId)));
-      loadLeads().catch(() => {});
-    } catch (e: any) {
-      setError(e?.message ? String(e.message) : "Delete failed");
+      await deleteLead(leadId);
+      await leadPages.reload();
+    } catch (e) {
+      setError(errorMessage(e, "Delete failed"));
     }
   }
 
   async function handleArchiveLead(leadId: number, archived: boolean) {
     try {
       setError("");
-      const r = await apiFetch(`/api/leads/${leadId}/archive`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ archived }),
-      });
-      if (!r.ok) {
-        const details = await readResponseError(r);
-        throw new Error(`Archive update failed (${r.status}): ${details}`);
-      }
-      await loadLeads();
-    } catch (e: any) {
-      setError(e?.message ? String(e.message) : "Archive update failed");
+      await setLeadArchived(leadId, archived);
+      await leadPages.reload();
+    } catch (e) {
+      setError(errorMessage(e, "Archive update failed"));
     }
   }
 
-  const sortedLeads = React.useMemo(() => {
-    const copy = [...leads];
-
-    const isWaiting = (l: Lead) => l.lastMessageDirection === "in";
-    const inbound = (l: Lead) => Number(l.inboundCount ?? 0);
-    const isHot = (l: Lead) => Number(l.hot ?? 0) === 1;
-
-    const isCold = (l: Lead) => {
-      const status = normalizeStatus(l.status);
-      const createdMs = toDateSafe(l.createdAt);
-      const ageMs = createdMs ? Date.now() - createdMs : 0;
-
-      return (
-        (status === "engaged" && ageMs >= 3 * 24 * 60 * 60 * 1000)
-      );
-    };
-
-    copy.sort((a, b) => {
-      const wa = isWaiting(a) ? 1 : 0;
-      const wb = isWaiting(b) ? 1 : 0;
-      if (wa !== wb) return wb - wa;
-
-      const ha = isHot(a) ? 1 : 0;
-      const hb = isHot(b) ? 1 : 0;
-      if (ha !== hb) return hb - ha;
-
-      const ca = isCold(a) ? 1 : 0;
-      const cb = isCold(b) ? 1 : 0;
-      if (ca !== cb) return ca - cb;
-
-      const ta = toDateSafe(a.createdAt);
-      const tb = toDateSafe(b.createdAt);
-      return sort === "newest" ? tb - ta : ta - tb;
-    });
-
-    return copy;
-  }, [leads, sort]);
-
   return (
     <div className="mx-auto w-full max-w-[1680px] rounded-2xl border border-border/70 bg-card/40 p-4 shadow-xl backdrop-blur-sm md:p-5">
       <div className="mb-3 flex flex-col md:flex-row md:items-start md:justify-between gap-2">
@@ -621,22 +418,23 @@ export default function LeadsPage() {
               ))}
             </div>
           ) : null}
-          {error ? <div className="mt-2 text-sm text-rose-400">{error}</div> : null}
+          {error || loadError ? <div className="mt-2 text-sm text-rose-400">{error || loadError}</div> : null}
         </div>
 
         <div className="flex flex-wrap items-center gap-2">
           <div className="text-xs text-muted-foreground">Sort</div>
           <select
             value={sort}
-            onChange={(e) => setSort(e.target.value as SortKey)}
+            onChange={(e) => updateFilters({ sort: e.target.value as LeadSort })}
             className="rounded border border-border bg-card px-2 py-1.5 text-xs text-foreground"
           >
+            <option value="priority">Priority</option>
             <option value="newest">Newest first</option>
             <option value="oldest">Oldest first</option>
           </select>
           <select
             value={view}
-            onChange={(e) => setView(e.target.value as LeadView)}
+            onChange={(e) => updateFilters({ view: e.target.value as LeadView })}
             className="rounded border border-border bg-card px-2 py-1.5 text-xs text-foreground"
             title="Lead view"
           >
@@ -644,7 +442,25 @@ export default function LeadsPage() {
             <option value="archived">Archived</option>
             <option value="all">All records</option>
           </select>
+          <AssigneeFilter value={assignee} onChange={(next) => updateFilters({ assignee: next })} />
+          <button
+            type="button"
+            onClick={() => setExportOpen(true)}
+            className="rounded border border-cyan-400/40 bg-cyan-500/15 px-2.5 py-1.5 text-sm text-cyan-200 hover:bg-cyan-500/25"
+          >
+            Export
+          </button>
 
+          <Link
+            href={filterQuery ? `/leads/triage?${filterQuery}` : "/leads/triage"}
+            className="text-sm text-cyan-400 underline decoration-cyan-500/40"
+            title="Work through waiting leads with the keyboard"
+          >
+            Triage
+          </Link>
+          <Link href="/leads/duplicates" className="text-sm text-cyan-400 underline decoration-cyan-500/40">
+            Duplicates
+          </Link>
           <Link href="/pipeline" className="text-sm text-cyan-400 underline decoration-cyan-500/40">
             Funnel
           </Link>
@@ -665,13 +481,19 @@ export default function LeadsPage() {
               className="rounded border border-border bg-background/40 px-2.5 py-1.5 text-sm text-foreground placeholder:text-muted-foreground"
               placeholder="Name (optional)"
               value={name}
-              onChange={(e) => setName(e.target.value)}
+              onChange={(e) => {
+                setName(e.target.value);
+                setDuplicates([]);
+              }}
             />
             <input
               className="rounded border border-border bg-background/40 px-2.5 py-1.5 text-sm text-foreground placeholder:text-muted-foreground"
               placeholder="Phone (required)"
               value={phone}
-              onChange={(e) => setPhone(e.target.value)}
+              onChange={(e) => {
+                setPhone(e.target.value);
+                setDuplicates([]);
+              }}
             />
             <button
               disabled={adding}
@@ -680,45 +502,80 @@ export default function LeadsPage() {
             >
               {adding ? "Adding…" : "Add"}
             </button>
+            {duplicates.length ? (
+              <div className="rounded border border-amber-400/40 bg-amber-500/10 p-2 text-xs text-amber-300">
+                <div>This phone already belongs to:</div>
+                <ul className="my-1">
+                  {duplicates.map((d) => (
+                    <li key={d.id}>
+                      <Link href={`/leads/${d.id}`} className="underline">
+                        #{d.id} {d.name || d.phone}
+                      </Link>
+                      {d.archived ? " (archived)" : ""}
+                    </li>
+                  ))}
+                </ul>
+                <button type="button" onClick={() => addLead(true)} disabled={adding} className="underline disabled:opacity-60">
+                  Add anyway
+                </button>
+              </div>
+            ) : null}
           </div>
         </form>
 
-        <form onSubmit={handleImport} className="rounded-xl border border-border/80 bg-card/70 p-3 shadow-sm">
+        <div className="rounded-xl border border-border/80 bg-card/70 p-3 shadow-sm">
           <div className="mb-1.5 text-sm font-medium text-foreground">Import CSV</div>
-          <div className="mb-1.5 text-xs text-muted-foreground">CSV columns: name, phone</div>
-          <div className="grid grid-cols-1 gap-1.5">
-            <input
-              type="file"
-              accept=".csv,text/csv"
-              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
-              className="text-sm text-muted-foreground"
-            />
-            <button
-              disabled={importing || !file}
-              className="rounded border border-border bg-muted px-3 py-1.5 text-sm text-foreground hover:bg-accent"
-              type="submit"
-            >
-              {importing ? "Importing…" : "Import"}
-            </button>
-            {importResult ? <div className="text-xs text-emerald-300">{importResult}</div> : null}
+          <div className="mb-1.5 text-xs text-muted-foreground">
+            Map any columns to lead fields, check phones and duplicates, then import.
           </div>
-        </form>
+          <button
+            type="button"
+            onClick={() => setImportOpen(true)}
+            className="rounded border border-border bg-muted px-3 py-1.5 text-sm text-foreground hover:bg-accent"
+          >
+            Import leads...
+          </button>
+        </div>
       </div>
 
+      <LeadFilterBar filters={filters} onChange={updateFilters} />
+      <SavedViewControls filters={filters} onApply={(next) => updateFilters(next)} />
+      <BulkActionBar
+        selectedIds={selectedIds}
+        allMatching={allMatching}
+        onSelectAllMatching={selectAllMatching}
+        onSelect={(ids) => {
+          setSelected(new Set(ids));
+          setAllMatching(false);
+        }}
+        onClear={clearSelection}
+        onFinished={leadPages.reload}
+      />
+
       <div className="overflow-hidden rounded-xl border border-border/80 bg-card/70 shadow-sm">
         <div className="border-b border-border/70 px-3 py-2 text-sm font-medium text-foreground">
-          {sortedLeads.length} lead{sortedLeads.length === 1 ? "" : "s"}
+          {leads.length} lead{leads.length === 1 ? "" : "s"}
+          {hasMore ? <span className="ml-1 text-xs font-normal text-muted-foreground">(scroll for more)</span> : null}
         </div>
 
-        <div className="max-h-[62vh] overflow-auto">
+        <div ref={scrollRef} className="max-h-[62vh] overflow-auto">
           <table className="min-w-[1220px] w-full text-xs md:text-sm">
             <thead className="sticky top-0 z-10 bg-muted/70 backdrop-blur text-muted-foreground">
               <tr>
+                <th className="w-8 px-3 py-1.5">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all loaded leads"
+                    checked={allLoadedSelected}
+                    onChange={toggleAllLoaded}
+                  />
+                </th>
                 <th className="text-left px-3 py-1.5">Lead</th>
                 <th className="text-left px-3 py-1.5">Status</th>
                 <th className="text-left px-3 py-1.5">AI</th>
+                {showAssignee ? <th className="text-left px-3 py-1.5">Assigned to</th> : null}
                 <th className="text-left px-3 py-1.5">Source</th>
-                <th className="text-left px-3 py-1.5">TZ</th>
+                <th className="text-left px-3 py-1.5">Local time</th>
                 <th className="text-left px-3 py-1.5">Created</th>
                 <th className="text-left px-3 py-1.5">Age</th>
                 <th className="text-left px-3 py-1.5">Last msg</th>
@@ -727,24 +584,37 @@ export default function LeadsPage() {
               </tr>
             </thead>
             <tbody>
-              {sortedLeads.map((l) => {
-                const idx = sortedLeads.findIndex((x) => Number(x.id) === Number(l.id));
-                const prevLeadId = idx > 0 ? Number(sortedLeads[idx - 1]?.id || 0) : 0;
-                const nextLeadId = idx >= 0 && idx < sortedLeads.length - 1 ? Number(sortedLeads[idx + 1]?.id || 0) : 0;
+              {rows.padTop > 0 ? <tr aria-hidden="true" style={{ height: rows.padTop }} /> : null}
+              {leads.slice(rows.start, rows.end).map((l, offset) => {
+                const idx = rows.start + offset;
+                const prevLeadId = idx > 0 ? Number(leads[idx - 1]?.id || 0) : 0;
+                const nextLeadId = idx >= 0 && idx < leads.length - 1 ? Number(leads[idx + 1]?.id || 0) : 0;
                 const detailHref = `/leads/${l.id}`
-                  + `?from=leads`
+                  + `?from=leads${filterQuery ? `&${filterQuery}` : ""}`
                   + (prevLeadId > 0 ? `&prev=${prevLeadId}` : "")
                   + (nextLeadId > 0 ? `&next=${nextLeadId}` : "");
-                const st = normalizeStatus(l.status);
+                const st = normalizeLeadStatus(l.status);
                 const cls = STATUS_STYLE[st];
-                const aiSignal = getAiSignal(l, nowMs);
                 const needsHumanAttention = Number(l?.ai_paused ?? 0) === 1;
 
                 const waiting = l.lastMessageDirection === "in";
                 const hot = Number(l.inboundCount ?? 0) >= 3;
 
                 return (
-                  <tr key={l.id} className="border-t border-border/70 hover:bg-muted/30">
+                  <tr
+                    key={l.id}
+                    ref={rows.measureRef(l.id)}
+                    className={`border-t border-border/70 hover:bg-muted/30 ${selected.has(l.id) ? "bg-cyan-500/10" : ""}`}
+                  >
+                    <td className="px-3 py-1.5">
+                      <input
+                        type="checkbox"
+                        aria-label={`Select lead ${l.name || l.phone || l.id}`}
+                        checked={selected.has(l.id)}
+                        readOnly
+                        onClick={(e) => toggleRow(idx, e.shiftKey)}
+                      />
+                    </td>
                     <td className="px-3 py-1.5">
                       <div className="flex flex-col">
                         <div className="flex items-center gap-1.5">
@@ -780,12 +650,7 @@ export default function LeadsPage() {
                     </td>
                     <td className="px-3 py-1.5">
                       <div className="flex flex-wrap items-center gap-1">
-                        <span className={`inline-flex items-center gap-1 border rounded px-1.5 py-0.5 text-[11px] ${aiSignal.className}`}>
-                          <span aria-hidden="true">
-                            {aiSignal.tone === "green" ? "🟢" : aiSignal.tone === "yellow" ? "🟡" : "🔴"}
-                          </span>
-                          {aiSignal.label}
-                        </span>
+                        <AiSignalBadge lead={l} />
                         {needsHumanAttention ? (
                           <span className="inline-flex items-center gap-1 rounded border border-rose-400/40 bg-rose-500/15 px-1.5 py-0.5 text-[11px] text-rose-200">
                             🔴 Alert
@@ -794,8 +659,31 @@ export default function LeadsPage() {
                       </div>
                     </td>
 
+                    {showAssignee ? (
+                      <td className="px-3 py-1.5">
+                        <select
+                          value={l.assigned_to || ""}
+                          onChange={(e) => handleAssignLead(l.id, e.target.value)}
+                          className="max-w-[160px] rounded border border-border bg-card px-1.5 py-0.5 text-[11px] text-foreground"
+                          title="Assigned to"
+                        >
+                          <option value="">Unassigned</option>
+                          {members.map((m) => (
+                            <option key={m.email} value={m.email}>
+                              {m.name || m.email}
+                            </option>
+                          ))}
+                          {l.assigned_to && !members.some((m) => m.email === l.assigned_to) ? (
+                            <option value={l.assigned_to}>{l.assigned_to}</option>
+                          ) : null}
+                          {!l.assigned_to ? <option value="round_robin">Next in round-robin</option> : null}
+                        </select>
+                      </td>
+                    ) : null}
                     <td className="px-3 py-1.5">{renderSourceBadge(l.source)}</td>
-                    <td className="px-3 py-1.5 whitespace-nowrap text-muted-foreground">{inferTimezoneLabel(l)}</td>
+                    <td className="px-3 py-1.5 whitespace-nowrap text-muted-foreground">
+                      <LeadLocalTime lead={l} />
+                    </td>
 
                     <td className="px-3 py-1.5 whitespace-nowrap text-muted-foreground">{formatCreated(l.createdAt)}</td>
                     <td className="px-3 py-1.5 whitespace-nowrap text-muted-foreground">{formatAge(l.createdAt)}</td>
@@ -826,11 +714,26 @@ export default function LeadsPage() {
                   </tr>
                 );
               })}
+              {rows.padBottom > 0 ? <tr aria-hidden="true" style={{ height: rows.padBottom }} /> : null}
 
-              {sortedLeads.length === 0 ? (
+              {leads.length === 0 && !leadPages.loading ? (
                 <tr className="border-t">
-                  <td className="px-3 py-5 text-sm text-muted-foreground" colSpan={10}>
-                    No leads yet.
+                  <td className="px-3 py-5 text-sm text-muted-foreground" colSpan={columnCount}>
+                    {countActiveFilters(filters) ? "No leads match these filters." : "No leads yet."}
+                  </td>
+                </tr>
+              ) : null}
+
+              {hasMore ? (
+                <tr ref={sentinelRef} className="border-t">
+                  <td className="px-3 py-3 text-center" colSpan={columnCount}>
+                    <button
+                      onClick={() => loadMore().catch((e) => setError(errorMessage(e, "Load leads failed")))}
+                      disabled={loadingMore}
+                      className="rounded border border-border bg-card px-3 py-1 text-xs text-foreground hover:bg-muted/40 disabled:opacity-60"
+                    >
+                      {loadingMore ? "Loading..." : "Load more"}
+                    </button>
                   </td>
                 </tr>
               ) : null}
@@ -838,6 +741,13 @@ export default function LeadsPage() {
           </table>
         </div>
       </div>
+
+      {importOpen ? (
+        <ImportWizard onClose={() => setImportOpen(false)} onImported={() => void leadPages.reload()} />
+      ) : null}
+      {exportOpen ? (
+        <ExportDialog filters={filters} selectedIds={selectedIds} onClose={() => setExportOpen(false)} />
+      ) : null}
     </div>
   );
 }
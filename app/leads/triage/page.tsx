@@ -0,0 +1,376 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import {
+  errorMessage,
+  getLead,
+  LEAD_STATUSES,
+  leadFiltersToParams,
+  listMatchingLeadIds,
+  listMessages,
+  normalizeLeadStatus,
+  parseLeadFilters,
+  removeQuery,
+  resumeLeadAi,
+  sendMessage,
+  setLeadAi,
+  setLeadArchived,
+  setLeadHot,
+  updateLeadStatus,
+  useQuery,
+  type Lead,
+  type LeadStatus,
+} from "@/lib/api";
+
+const SHORTCUTS: Array<[string, string]> = [
+  ["j", "next"],
+  ["k", "previous"],
+  ["r", "reply"],
+  ["h", "hot"],
+  ["a", "archive"],
+  ["s", "status"],
+  ["p", "pause / resume AI"],
+];
+
+const SHOWN_MESSAGES = 12;
+
+function formatTime(raw?: string | null) {
+  if (!raw) return "";
+  const iso = raw.includes("T") ? raw : raw.replace(" ", "T") + "Z";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return raw;
+  return d.toLocaleString();
+}
+
+function isTyping(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+function aiRunning(lead: Lead) {
+  return Number(lead.ai_enabled ?? 1) === 1 && Number(lead.ai_paused ?? 0) !== 1;
+}
+
+// useSearchParams needs a Suspense boundary on a statically rendered route.
+export default function LeadTriagePage() {
+  return (
+    <React.Suspense fallback={null}>
+      <TriageQueue />
+    </React.Suspense>
+  );
+}
+
+// Walks every waiting lead (last message inbound, as counted in the sidebar)
+// one at a time. The queue is a snapshot taken on load, narrowed by whatever
+// filters the leads table passed along; replying or archiving clears a lead
+// and moves on.
+function TriageQueue() {
+  const searchParams = useSearchParams();
+  const filterQuery = leadFiltersToParams(parseLeadFilters(searchParams)).toString();
+  const filters = React.useMemo(
+    () => ({ ...parseLeadFilters(new URLSearchParams(filterQuery)), waiting: "yes" as const }),
+    [filterQuery]
+  );
+
+  const [queue, setQueue] = React.useState<number[] | null>(null);
+  const [index, setIndex] = React.useState(0);
+  const [cleared, setCleared] = React.useState<Set<number>>(() => new Set());
+  const [reply, setReply] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState("");
+  const replyRef = React.useRef<HTMLTextAreaElement | null>(null);
+  const statusRef = React.useRef<HTMLSelectElement | null>(null);
+
+  const loadQueue = React.useCallback(async () => {
+    setError("");
+    setQueue(null);
+    try {
+      setQueue(await listMatchingLeadIds(filters));
+      setIndex(0);
+      setCleared(new Set());
+    } catch (e) {
+      setError(errorMessage(e, "Load waiting leads failed"));
+      setQueue([]);
+    }
+  }, [filters]);
+
+  React.useEffect(() => {
+    void loadQueue();
+  }, [loadQueue]);
+
+  const leadId = queue && index < queue.length ? queue[index] : null;
+  const remaining = queue ? queue.filter((id) => !cleared.has(id)).length : 0;
+  const done = queue !== null && remaining === 0;
+
+  // "leads:" keys refresh with every lead mutation and sent message.
+  const leadQuery = useQuery(leadId ? `leads:triage:${leadId}` : null, () => getLead(leadId as number));
+  const messagesQuery = useQuery(leadId ? `leads:triage:${leadId}:messages` : null, () => listMessages(leadId as number));
+  const lead = leadQuery.data ?? null;
+  const messages = (messagesQuery.data ?? []).slice(-SHOWN_MESSAGES);
+
+  // Only the current card stays cached, so a long queue doesn't pile up
+  // entries that every "leads" invalidation walks. Runs after the queries
+  // above have unsubscribed from the previous lead.
+  React.useEffect(() => {
+    if (leadId === null) return;
+    return () => {
+      removeQuery(`leads:triage:${leadId}`);
+      removeQuery(`leads:triage:${leadId}:messages`);
+    };
+  }, [leadId]);
+
+  // Next (or previous) lead still in the queue, wrapping around.
+  const step = React.useCallback(
+    (dir: 1 | -1, skip: ReadonlySet<number> = cleared) => {
+      if (!queue || queue.length === 0) return;
+      for (let n = 1; n <= queue.length; n += 1) {
+        const i = (index + dir * n + queue.length) % queue.length;
+        if (!skip.has(queue[i])) {
+          setIndex(i);
+          setReply("");
+          return;
+        }
+      }
+    },
+    [queue, index, cleared]
+  );
+
+  const clearCurrent = React.useCallback(() => {
+    if (leadId === null) return;
+    const next = new Set(cleared).add(leadId);
+    setCleared(next);
+    step(1, next);
+  }, [leadId, cleared, step]);
+
+  const run = React.useCallback(async (fallback: string, action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+      return true;
+    } catch (e) {
+      setError(errorMessage(e, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const onSend = React.useCallback(async () => {
+    const text = reply.trim();
+    if (!lead || !text || busy) return;
+    if (await run("Send failed", () => sendMessage(lead.id, { text }))) {
+      setReply("");
+      replyRef.current?.blur();
+      clearCurrent();
+    }
+  }, [lead, reply, busy, run, clearCurrent]);
+
+  const onStatus = React.useCallback(
+    async (status: LeadStatus) => {
+      if (!lead) return;
+      statusRef.current?.blur();
+      await run("Status update failed", () => updateLeadStatus(lead.id, status));
+    },
+    [lead, run]
+  );
+
+  React.useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      if (isTyping(e.target)) {
+        if (e.key === "Escape") (e.target as HTMLElement).blur();
+        return;
+      }
+      if (busy) return;
+      const key = e.key.toLowerCase();
+      // Stepping works even when the current lead failed to load or is gone.
+      if (key === "j") step(1);
+      else if (key === "k") step(-1);
+      else if (!lead) return;
+      else if (key === "r" && !lead.dnc) replyRef.current?.focus();
+      else if (key === "s") statusRef.current?.focus();
+      else if (key === "h") void run("Hot toggle failed", () => setLeadHot(lead.id, !lead.hot));
+      else if (key === "a") {
+        void run("Archive failed", () => setLeadArchived(lead.id, true)).then((ok) => ok && clearCurrent());
+      } else if (key === "p") {
+        const action = aiRunning(lead)
+          ? () => setLeadAi(lead.id, false)
+          : Number(lead.ai_paused ?? 0) === 1
+          ? () => resumeLeadAi(lead.id)
+          : () => setLeadAi(lead.id, true);
+        void run("AI update failed", action);
+      } else return;
+      // Keeps "r" from also typing into the reply box it just focused.
+      e.preventDefault();
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [lead, busy, step, run, clearCurrent]);
+
+  return (
+    <div className="mx-auto max-w-4xl rounded-2xl border border-border/70 bg-card/40 p-6 shadow-xl backdrop-blur-sm">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <h1 className="text-2xl font-semibold text-foreground">Triage</h1>
+        <div className="flex items-center gap-3 text-sm">
+          {queue && queue.length ? (
+            <span className="text-muted-foreground">
+              {done ? queue.length : index + 1} of {queue.length}
+              {cleared.size ? ` · ${cleared.size} cleared` : ""}
+            </span>
+          ) : null}
+          <Link href={filterQuery ? `/leads?${filterQuery}` : "/leads"} className="text-cyan-400 underline decoration-cyan-500/40">
+            Leads
+          </Link>
+        </div>
+      </div>
+
+      {queue && queue.length ? (
+        <div className="mb-4 h-1.5 overflow-hidden rounded-full bg-muted">
+          <div
+            className="h-full bg-cyan-500 transition-all"
+            style={{ width: `${Math.round((cleared.size / queue.length) * 100)}%` }}
+          />
+        </div>
+      ) : null}
+
+      <div className="mb-4 flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        {SHORTCUTS.map(([key, label]) => (
+          <span key={key}>
+            <kbd className="rounded border border-border bg-muted px-1.5 py-0.5 font-mono text-foreground">{key}</kbd> {label}
+          </span>
+        ))}
+      </div>
+
+      {error ? <div className="mb-4 rounded border border-rose-400/40 bg-rose-500/10 p-3 text-sm text-rose-300">{error}</div> : null}
+
+      {queue === null ? <p className="text-sm text-muted-foreground">Loading waiting leads...</p> : null}
+
+      {done ? (
+        <div className="rounded-xl border border-emerald-400/40 bg-emerald-500/10 p-6 text-center">
+          <div className="text-lg font-semibold text-emerald-300">Queue cleared</div>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {queue.length ? `All ${queue.length} waiting leads handled.` : "No leads are waiting on a reply."}
+          </p>
+          <button
+            type="button"
+            onClick={() => void loadQueue()}
+            className="mt-3 rounded border border-cyan-400/40 bg-cyan-500/15 px-3 py-1.5 text-sm text-cyan-200 hover:bg-cyan-500/25"
+          >
+            Check for new replies
+          </button>
+        </div>
+      ) : null}
+
+      {!done && leadId !== null ? (
+        <div className="rounded-xl border border-border/80 bg-card/70 p-4 shadow-sm">
+          {lead ? (
+            <>
+              <div className="mb-3 flex flex-wrap items-center gap-2">
+                <Link href={`/leads/${lead.id}`} className="text-lg font-medium text-cyan-400 underline decoration-cyan-500/40">
+                  {lead.name || lead.phone || `Lead #${lead.id}`}
+                </Link>
+                <span className="text-sm text-muted-foreground">{lead.phone}</span>
+                {cleared.has(lead.id) ? (
+                  <span className="rounded border border-emerald-400/40 bg-emerald-500/15 px-1.5 py-0.5 text-[11px] text-emerald-300">
+                    cleared
+                  </span>
+                ) : null}
+                {lead.hot ? (
+                  <span className="rounded border border-rose-400/40 bg-rose-500/15 px-1.5 py-0.5 text-[11px] text-rose-200">hot</span>
+                ) : null}
+                {lead.dnc ? (
+                  <span className="rounded border border-rose-400/40 bg-rose-500/15 px-1.5 py-0.5 text-[11px] text-rose-300">DNC</span>
+                ) : null}
+                <span
+                  className={`rounded border px-1.5 py-0.5 text-[11px] ${
+                    aiRunning(lead)
+                      ? "border-emerald-400/40 bg-emerald-500/15 text-emerald-300"
+                      : "border-rose-400/40 bg-rose-500/15 text-rose-300"
+                  }`}
+                >
+                  AI {aiRunning(lead) ? "on" : Number(lead.ai_paused ?? 0) === 1 ? "paused" : "off"}
+                </span>
+                <select
+                  ref={statusRef}
+                  value={normalizeLeadStatus(lead.status)}
+                  onChange={(e) => void onStatus(e.target.value as LeadStatus)}
+                  disabled={busy}
+                  className="ml-auto rounded border border-border bg-card px-2 py-1 text-xs text-foreground"
+                  title="Status (s)"
+                >
+                  {LEAD_STATUSES.map((s) => (
+                    <option key={s} value={s}>
+                      {s}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="mb-3 max-h-[45vh] space-y-1.5 overflow-y-auto rounded border border-border/70 bg-background/30 p-3">
+                {messages.length === 0 ? <div className="text-xs text-muted-foreground">No messages loaded.</div> : null}
+                {messages.map((m) => (
+                  <div key={m.id} className={`flex ${m.direction === "in" ? "justify-start" : "justify-end"}`}>
+                    <div
+                      className={`max-w-[75%] rounded-lg px-3 py-1.5 text-sm ${
+                        m.direction === "in" ? "bg-muted text-foreground" : "bg-cyan-600/80 text-white"
+                      }`}
+                    >
+                      <div className="whitespace-pre-wrap">{m.text}</div>
+                      <div className="mt-0.5 text-[10px] opacity-70">{formatTime(m.created_at)}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <textarea
+                ref={replyRef}
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    void onSend();
+                  }
+                }}
+                disabled={!!lead.dnc}
+                rows={3}
+                placeholder={lead.dnc ? "Lead is on the do-not-contact list" : "Reply (r), Enter to send, Esc to leave"}
+                className="w-full rounded border border-border bg-background/40 px-2.5 py-1.5 text-sm text-foreground placeholder:text-muted-foreground disabled:opacity-60"
+              />
+            </>
+          ) : leadQuery.data === null || leadQuery.error ? (
+            // Deleted, merged away or reassigned since the queue loaded, or the fetch failed.
+            <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+              <span>
+                {leadQuery.data === null
+                  ? `Lead #${leadId} no longer exists or is no longer yours.`
+                  : errorMessage(leadQuery.error, "Could not load this lead.")}
+              </span>
+              {leadQuery.error ? (
+                <button
+                  type="button"
+                  onClick={() => void leadQuery.refetch()}
+                  className="rounded border border-border px-2.5 py-1 text-xs hover:bg-muted/40"
+                >
+                  Retry
+                </button>
+              ) : null}
+              <button
+                type="button"
+                onClick={clearCurrent}
+                className="rounded border border-cyan-400/40 bg-cyan-500/15 px-2.5 py-1 text-xs text-cyan-200 hover:bg-cyan-500/25"
+              >
+                {leadQuery.data === null ? "Next lead" : "Skip"}
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Loading lead...</p>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
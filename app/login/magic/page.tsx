@@ -0,0 +1,125 @@
+"use client";
+
+import Link from "next/link";
+import { signIn } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { safeNextPath } from "@/lib/nextPath";
+
+type Status = "verifying" | "code" | "failed";
+
+// Landing page for the emailed sign-in link (?token=...). The token goes to the
+// "magic-link" NextAuth provider; accounts with 2FA still enter a code here.
+export default function MagicLinkPage() {
+  const router = useRouter();
+  const [status, setStatus] = useState<Status>("verifying");
+  const [message, setMessage] = useState("");
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const started = useRef(false);
+
+  async function verify(otp: string) {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get("token") || "";
+    if (!token) {
+      setStatus("failed");
+      setMessage("This sign-in link is incomplete. Request a new one from the login page.");
+      return;
+    }
+
+    const result = await signIn("magic-link", { token, otp, redirect: false });
+    const [errorCode, retryAfter] = String(result?.error || "").split(":");
+
+    if (!errorCode) {
+      router.push(safeNextPath(params.get("next")));
+      router.refresh();
+      return;
+    }
+    if (errorCode === "TwoFactorRequired") {
+      setStatus("code");
+      return;
+    }
+    if (errorCode === "TwoFactorInvalid") {
+      setStatus("code");
+      setMessage("That code is not valid. Try the current one.");
+      setCode("");
+      return;
+    }
+
+    setStatus("failed");
+    if (errorCode === "LinkInvalid") setMessage("This sign-in link has expired or was already used. Request a new one.");
+    else if (errorCode === "PendingApproval") setMessage("Your account is pending admin approval.");
+    else if (errorCode === "AccessDisabled") setMessage("Your account access is currently disabled. Contact support.");
+    else if (errorCode === "LockedOut" || errorCode === "RetryAfter") {
+      setMessage(`Too many sign-in attempts. Try again in ${Math.max(1, Math.ceil(Number(retryAfter) / 60) || 1)} minute(s).`);
+    } else setMessage("Sign-in failed. Request a new link from the login page.");
+  }
+
+  // Strict mode runs effects twice in development; the token must only be spent once.
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+    verify("").catch(() => {
+      setStatus("failed");
+      setMessage("Sign-in failed. Request a new link from the login page.");
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function onSubmitCode(e: React.FormEvent) {
+    e.preventDefault();
+    if (loading || !code.trim()) return;
+    setLoading(true);
+    setMessage("");
+    try {
+      await verify(code);
+    } catch {
+      setStatus("failed");
+      setMessage("Sign-in failed. Request a new link from the login page.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-950 p-4 text-slate-100">
+      <Card className="w-full max-w-sm border-sky-400/20 bg-slate-900/75">
+        <CardContent>
+          {status === "verifying" ? <p className="text-sm text-slate-300">Signing you in...</p> : null}
+
+          {status === "code" ? (
+            <form onSubmit={onSubmitCode} className="space-y-4">
+              <p className="text-sm text-slate-300">Enter the 6-digit code from your authenticator app, or a recovery code.</p>
+              <Input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="border-slate-700 bg-slate-950/70 text-slate-100"
+              />
+              {message ? <p className="text-sm text-rose-300">{message}</p> : null}
+              <Button type="submit" className="w-full bg-cyan-600 hover:bg-cyan-500" disabled={loading || !code.trim()}>
+                {loading ? "Verifying..." : "Verify"}
+              </Button>
+            </form>
+          ) : null}
+
+          {status === "failed" ? (
+            <div className="space-y-4">
+              <p className="text-sm text-rose-300">{message}</p>
+              <Link href="/login" className="text-sm text-cyan-300 hover:underline">
+                Back to login
+              </Link>
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
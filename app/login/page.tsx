@@ -4,14 +4,22 @@ import Image from "next/image";
 import Link from "next/link";
 import { signIn } from "next-auth/react";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
+import { safeNextPath } from "@/lib/nextPath";
+import { solveChallenge, type ChallengeSolution } from "@/lib/powSolver";
 
-const API_BASE =
-  process.env.NEXT_PUBLIC_API_BASE ||
-  "https://infinitedrip-backend.onrender.com";
+function readNextPath() {
+  return safeNextPath(new URLSearchParams(window.location.search).get("next"));
+}
+
+function formatWait(seconds: number) {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
 
 export default function LoginPage() {
   const router = useRouter();
@@ -19,54 +27,108 @@ export default function LoginPage() {
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  // Accounts with 2FA get a second step asking for an authenticator or recovery code.
+  const [step, setStep] = useState<"password" | "code">("password");
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  function backToPassword() {
+    setStep("password");
+    setCode("");
+    setUseRecoveryCode(false);
+    setError("");
+  }
+
+  // Seconds left on a throttle delay or lockout; the button stays disabled until then.
+  const [blockedUntil, setBlockedUntil] = useState(0);
+  const [blockedLocked, setBlockedLocked] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [checkingHuman, setCheckingHuman] = useState(false);
+  // Passwordless: the backend emails a single-use link to /login/magic.
+  const [linkMode, setLinkMode] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+
+  const blockedSeconds = Math.max(0, Math.ceil((blockedUntil - now) / 1000));
+
+  useEffect(() => {
+    if (blockedUntil <= Date.now()) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= blockedUntil) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [blockedUntil]);
+
+  function attemptSignIn(solution: ChallengeSolution | null) {
+    return signIn("credentials", {
+      email,
+      password,
+      otp: step === "code" ? code : "",
+      challenge: solution?.challenge || "",
+      nonce: solution?.nonce || "",
+      redirect: false,
+    });
+  }
 
   async function handleLogin(e: React.FormEvent) {
     e.preventDefault();
-    if (loading) return;
+    if (loading || blockedSeconds > 0) return;
 
     setError("");
     setLoading(true);
 
     try {
-      try {
-        const pre = await fetch(`${API_BASE}/auth/login`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ email, password }),
-        });
-
-        if (!pre.ok) {
-          const body = await pre.json().catch(() => ({}));
-          const err = String(body?.error || "");
-          if (pre.status === 403 && err === "pending_approval") {
-            setError("Your account is pending admin approval.");
-            return;
-          }
-          if (pre.status === 403 && err === "access_disabled") {
-            setError("Your account access is currently disabled. Contact support.");
-            return;
-          }
-          setError("Invalid email or password.");
-          return;
+      let result = await attemptSignIn(null);
+
+      // After a few failures the server wants a proof-of-work solution; solve it and retry once.
+      if (result?.error === "ChallengeRequired") {
+        setCheckingHuman(true);
+        try {
+          result = await attemptSignIn(await solveChallenge());
+        } finally {
+          setCheckingHuman(false);
         }
-      } catch (preErr) {
-        // Local dev can block this browser-side precheck via CORS;
-        // we still attempt signIn through NextAuth server route.
-        console.warn("Login precheck skipped:", preErr);
       }
 
-      const result = await signIn("credentials", {
-        email,
-        password,
-        redirect: false,
-      });
-
-      if (result?.error) {
+      const [errorCode, retryAfter] = String(result?.error || "").split(":");
+      if (errorCode === "LockedOut" || errorCode === "RetryAfter") {
+        const seconds = Math.max(1, Number(retryAfter) || 1);
+        setNow(Date.now());
+        setBlockedUntil(Date.now() + seconds * 1000);
+        setBlockedLocked(errorCode === "LockedOut");
+        return;
+      }
+      if (errorCode === "TwoFactorRequired") {
+        setStep("code");
+        return;
+      }
+      if (errorCode === "TwoFactorInvalid") {
+        setError(useRecoveryCode ? "That recovery code is not valid or was already used." : "That code is not valid. Try the current one.");
+        setCode("");
+        return;
+      }
+      if (errorCode === "PendingApproval") {
+        setError("Your account is pending admin approval.");
+        return;
+      }
+      if (errorCode === "AccessDisabled") {
+        setError("Your account access is currently disabled. Contact support.");
+        return;
+      }
+      if (errorCode === "ChallengeRequired") {
+        setError("The security check did not pass. Please try again.");
+        return;
+      }
+      if (errorCode === "CredentialsSignin") {
+        setError("Invalid email or password.");
+        return;
+      }
+      if (errorCode) {
         setError("Login failed. Please try again.");
         return;
       }
 
-      router.push("/dashboard");
+      router.push(readNextPath());
       router.refresh();
     } catch {
       setError("Login failed. Please try again.");
@@ -75,6 +137,43 @@ export default function LoginPage() {
     }
   }
 
+  async function requestMagicLink(e: React.FormEvent) {
+    e.preventDefault();
+    if (loading || !email.trim()) return;
+
+    setError("");
+    setLoading(true);
+    try {
+      const solution = await solveChallenge();
+      const next = new URLSearchParams(window.location.search).get("next");
+      const resp = await fetch(`/api/auth/magic-link${next ? `?next=${encodeURIComponent(next)}` : ""}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, ...solution }),
+      });
+      if (resp.status === 429) {
+        setError("Too many sign-in links requested from this network. Please wait a bit and try again.");
+        return;
+      }
+      if (resp.status === 400) {
+        setError("The security check did not pass. Please try again.");
+        return;
+      }
+      // Same answer whether or not the account exists.
+      setLinkSent(true);
+    } catch {
+      setError("Could not send the sign-in link. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function togglePasswordless() {
+    setLinkMode((v) => !v);
+    setLinkSent(false);
+    setError("");
+  }
+
   return (
     <div className="relative min-h-screen overflow-hidden bg-slate-950 text-slate-100">
       <div className="pointer-events-none absolute inset-0">
@@ -105,29 +204,124 @@ export default function LoginPage() {
         <div className="relative w-full max-w-md">
           <Card className="w-full border-sky-400/20 bg-slate-900/75 backdrop-blur-md">
             <CardContent>
-              <form onSubmit={handleLogin} className="space-y-4">
-                <Input
-                  type="email"
-                  placeholder="Email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="border-slate-700 bg-slate-950/70 text-slate-100"
-                />
-
-                <Input
-                  type="password"
-                  placeholder="Password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="border-slate-700 bg-slate-950/70 text-slate-100"
-                />
-
-                {error ? <p className="text-sm text-rose-300">{error}</p> : null}
-
-                <Button type="submit" className="w-full bg-cyan-600 hover:bg-cyan-500" disabled={loading}>
-                  {loading ? "Signing in..." : "Sign In"}
-                </Button>
-              </form>
+              {linkMode ? (
+                <form onSubmit={requestMagicLink} className="space-y-4">
+                  {linkSent ? (
+                    <p className="rounded border border-emerald-400/40 bg-emerald-500/10 p-3 text-sm text-emerald-200">
+                      If an account exists for {email}, a sign-in link is on its way. It works once and expires soon.
+                    </p>
+                  ) : (
+                    <>
+                      <p className="text-sm text-slate-300">We&apos;ll email you a link that signs you in without a password.</p>
+                      <Input
+                        type="email"
+                        placeholder="Email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        className="border-slate-700 bg-slate-950/70 text-slate-100"
+                      />
+                    </>
+                  )}
+
+                  {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+
+                  {!linkSent ? (
+                    <Button type="submit" className="w-full bg-cyan-600 hover:bg-cyan-500" disabled={loading || !email.trim()}>
+                      {loading ? "Sending..." : "Email me a sign-in link"}
+                    </Button>
+                  ) : null}
+                  <button type="button" onClick={togglePasswordless} className="w-full text-center text-sm text-cyan-300 hover:underline">
+                    Sign in with password instead
+                  </button>
+                </form>
+              ) : (
+                <form onSubmit={handleLogin} className="space-y-4">
+                  {step === "password" ? (
+                    <>
+                      <Input
+                        type="email"
+                        placeholder="Email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        className="border-slate-700 bg-slate-950/70 text-slate-100"
+                      />
+
+                      <Input
+                        type="password"
+                        placeholder="Password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className="border-slate-700 bg-slate-950/70 text-slate-100"
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-sm text-slate-300">
+                        {useRecoveryCode
+                          ? "Enter one of the recovery codes you saved when setting up two-factor authentication."
+                          : "Enter the 6-digit code from your authenticator app."}
+                      </p>
+                      <Input
+                        type="text"
+                        inputMode={useRecoveryCode ? "text" : "numeric"}
+                        autoComplete="one-time-code"
+                        autoFocus
+                        placeholder={useRecoveryCode ? "Recovery code" : "123456"}
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        className="border-slate-700 bg-slate-950/70 text-slate-100"
+                      />
+                      <div className="flex items-center justify-between text-xs">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setUseRecoveryCode((v) => !v);
+                            setCode("");
+                            setError("");
+                          }}
+                          className="text-cyan-300 hover:underline"
+                        >
+                          {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                        </button>
+                        <button type="button" onClick={backToPassword} className="text-slate-400 hover:underline">
+                          Back
+                        </button>
+                      </div>
+                    </>
+                  )}
+
+                  {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+                  {blockedSeconds > 0 ? (
+                    <p className="rounded border border-amber-400/40 bg-amber-500/10 p-2 text-sm text-amber-200">
+                      {blockedLocked
+                        ? `Too many failed sign-in attempts. Sign-in is locked for ${formatWait(blockedSeconds)}. You can reset your password in the meantime.`
+                        : `Too many attempts. Try again in ${formatWait(blockedSeconds)}.`}
+                    </p>
+                  ) : null}
+
+                  <Button
+                    type="submit"
+                    className="w-full bg-cyan-600 hover:bg-cyan-500"
+                    disabled={loading || blockedSeconds > 0 || (step === "code" && !code.trim())}
+                  >
+                    {checkingHuman
+                      ? "Running security check..."
+                      : loading
+                        ? step === "code"
+                          ? "Verifying..."
+                          : "Signing in..."
+                        : step === "code"
+                          ? "Verify"
+                          : "Sign In"}
+                  </Button>
+                </form>
+              )}
+
+              {!linkMode && step === "password" ? (
+                <button type="button" onClick={togglePasswordless} className="mt-3 w-full text-center text-sm text-cyan-300 hover:underline">
+                  Email me a sign-in link
+                </button>
+              ) : null}
 
               <p className="mt-4 text-sm text-slate-300">
                 Need an account?{" "}
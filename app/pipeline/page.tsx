@@ -2,34 +2,24 @@
 
 import * as React from "react";
 import Link from "next/link";
-import { apiFetch } from "@/lib/apiFetch";
-
-type LeadStatus = "engaged" | "cold" | "booked" | "missed_appointment" | "sold" | "dead";
-
-type Lead = {
-  id: number;
-  name?: string | null;
-  phone?: string | null;
-  status?: LeadStatus | string | null;
-  ai_enabled?: number | null;
-  ai_paused?: number | null;
-  ai_cooldown_until?: string | null;
-  createdAt?: string | null;
-  created_at?: string | null;
-  created?: string | null;
-
-  lastMessageDirection?: "in" | "out" | null;
-  lastMessageAt?: string | null;
-  last_message_at?: string | null;
-  inboundCount?: number | null;
-  inbound_count?: number | null;
-  inbound?: number | null;
-  source?: string | null;
-  hot?: number | null;
-  archived?: number | null;
-};
-
-const COLUMNS: LeadStatus[] = ["engaged", "cold", "booked", "missed_appointment", "sold", "dead"];
+import AssigneeFilter from "@/app/AssigneeFilter";
+import LeadLocalTime from "@/app/LeadLocalTime";
+import { useNow } from "@/app/useNow";
+import { useVirtualRows } from "@/app/useVirtualRows";
+import {
+  errorMessage,
+  LEAD_STATUSES,
+  normalizeLeadStatus,
+  setLeadArchived,
+  setLeadHot,
+  updateLeadStatus,
+  useLeadList,
+  type Lead,
+  type LeadAssignee,
+  type LeadStatus,
+} from "@/lib/api";
+
+const COLUMNS: readonly LeadStatus[] = LEAD_STATUSES;
 
 const STATUS_LABEL: Record<LeadStatus, string> = {
   engaged: "Engaged",
@@ -49,13 +39,6 @@ const COL_STYLE: Record<LeadStatus, string> = {
   dead: "bg-rose-500/10 border-rose-400/35",
 };
 
-function normalizeStatus(s: any): LeadStatus {
-  const v = String(s || "engaged").toLowerCase();
-  if (v === "new" || v === "contacted" || v === "engaged") return "engaged";
-  if (v === "booked" || v === "missed_appointment" || v === "sold" || v === "cold" || v === "dead") return v;
-  return "engaged";
-}
-
 function toDateSafe(v?: string | null): number {
   if (!v) return 0;
   const iso = v.includes("T") ? v : v.replace(" ", "T") + "Z";
@@ -161,33 +144,48 @@ function getAiSignal(lead: Lead, nowMs = Date.now()): AiSignal {
   };
 }
 
-function normalizeLead(raw: any): Lead {
-  return {
-    ...raw,
-    ai_enabled: Number(raw?.ai_enabled ?? 1),
-    ai_paused: Number(raw?.ai_paused ?? 0),
-    ai_cooldown_until: raw?.ai_cooldown_until ?? null,
-    createdAt: raw?.createdAt ?? raw?.created_at ?? raw?.created ?? null,
-    lastMessageAt: raw?.lastMessageAt ?? raw?.last_message_at ?? null,
-    inboundCount: Number(raw?.inboundCount ?? raw?.inbound_count ?? raw?.inbound ?? 0),
-    source: String(raw?.source || "manual"),
-    hot: Number(raw?.hot ?? 0),
-  };
+// The cooldown countdown ticks here so only this badge re-renders each second.
+function AiSignalBadge({ lead }: { lead: Lead }) {
+  const nowMs = useNow(toDateSafe(lead.ai_cooldown_until) || null);
+  const aiSignal = getAiSignal(lead, nowMs);
+  return (
+    <span className={`rounded border px-2 py-1 text-[10px] ${aiSignal.className}`}>
+      {aiSignal.tone === "green" ? "🟢" : aiSignal.tone === "yellow" ? "🟡" : "🔴"} {aiSignal.label}
+    </span>
+  );
+}
+
+const CARD_HEIGHT_ESTIMATE = 120;
+
+// One status column's cards. Each column scrolls on its own, so each one
+// windows its own list.
+function ColumnCards({ leads, renderCard }: { leads: Lead[]; renderCard: (lead: Lead) => React.ReactNode }) {
+  const scrollRef = React.useRef<HTMLDivElement | null>(null);
+  const keys = React.useMemo(() => leads.map((l) => l.id), [leads]);
+  const rows = useVirtualRows({ scrollRef, keys, estimateHeight: CARD_HEIGHT_ESTIMATE });
+
+  return (
+    <div ref={scrollRef} className="flex-1 overflow-y-auto">
+      {rows.padTop > 0 ? <div style={{ height: rows.padTop }} /> : null}
+      {leads.slice(rows.start, rows.end).map((l) => (
+        <div key={l.id} ref={rows.measureRef(l.id)} className="pb-2">
+          {renderCard(l)}
+        </div>
+      ))}
+      {rows.padBottom > 0 ? <div style={{ height: rows.padBottom }} /> : null}
+      {leads.length === 0 ? <div className="text-xs italic text-muted-foreground">No leads</div> : null}
+    </div>
+  );
 }
 
 type SortKey = "newest" | "oldest";
 type RangeKey = "3" | "7" | "30" | "90" | "all";
 
 export default function PipelinePage() {
-  const API_BASE =
-    (process.env.NEXT_PUBLIC_API_BASE && process.env.NEXT_PUBLIC_API_BASE.trim()) ||
-    "https://infinitedrip-backend.onrender.com";
-
-  const [leads, setLeads] = React.useState<Lead[]>([]);
   const [error, setError] = React.useState("");
   const [busy, setBusy] = React.useState(false);
-  const [nowMs, setNowMs] = React.useState<number>(() => Date.now());
   const [sort, setSort] = React.useState<SortKey>("newest");
+  const [assignee, setAssignee] = React.useState<LeadAssignee>("all");
   const [columnRange, setColumnRange] = React.useState<Record<LeadStatus, RangeKey>>({
     engaged: "30",
     cold: "30",
@@ -200,50 +198,12 @@ export default function PipelinePage() {
   const dragLeadIdRef = React.useRef<number | null>(null);
   const [dragOver, setDragOver] = React.useState<LeadStatus | null>(null);
 
-  React.useEffect(() => {
-    const id = window.setInterval(() => setNowMs(Date.now()), 1000);
-    return () => window.clearInterval(id);
-  }, []);
-
-  async function loadLeads() {
-    const r = await apiFetch(`${API_BASE}/api/leads`, { cache: "no-store" });
-    if (!r.ok) throw new Error("Load failed");
-    const data = await r.json();
-    const listRaw: Lead[] = Array.isArray(data) ? data : data?.leads ?? [];
-    const list = listRaw.map((l: any) => normalizeLead(l));
-    setLeads(list);
-  }
-
-  React.useEffect(() => {
-    let dead = false;
-    let timer: ReturnType<typeof setTimeout> | null = null;
-
-    async function tick() {
-      let ok = false;
-      try {
-        await loadLeads();
-        ok = true;
-        if (!dead) setError("");
-      } catch {
-        if (!dead) setError("Load failed");
-      } finally {
-        if (!dead) {
-          const delayMs = ok ? 5000 : 15000;
-          timer = setTimeout(tick, delayMs);
-        }
-      }
-    }
-
-    tick();
-
-    return () => {
-      dead = true;
-      if (timer) clearTimeout(timer);
-    };
-  }, [API_BASE]);
+  const leadList = useLeadList({ assignee }, { pollMs: 5000, errorPollMs: 15000 });
+  const leads = React.useMemo(() => leadList.data?.leads ?? [], [leadList.data]);
+  const loadError = leadList.error ? errorMessage(leadList.error, "Load failed") : "";
 
   function isCold(l: Lead) {
-    return normalizeStatus(l.status) === "cold";
+    return normalizeLeadStatus(l.status) === "cold";
   }
 
   function isHot(l: Lead) {
@@ -256,7 +216,7 @@ export default function PipelinePage() {
     const maxAgeMs = range === "all" ? null : Number(range) * 24 * 60 * 60 * 1000;
 
     const list = leads.filter((l) => {
-      if (normalizeStatus(l.status) !== status) return false;
+      if (normalizeLeadStatus(l.status) !== status) return false;
       if (maxAgeMs === null) return true;
       const createdMs = toDateSafe(l.createdAt);
       if (!createdMs) return false;
@@ -275,16 +235,9 @@ export default function PipelinePage() {
       setBusy(true);
       setError("");
 
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: nextStatus }),
-      });
-
-      if (!r.ok) throw new Error("Move failed");
-      await loadLeads();
-    } catch {
-      setError("Move failed");
+      await updateLeadStatus(leadId, nextStatus);
+    } catch (e) {
+      setError(errorMessage(e, "Move failed"));
     } finally {
       setBusy(false);
     }
@@ -294,15 +247,9 @@ export default function PipelinePage() {
     try {
       setBusy(true);
       setError("");
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/hot`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ hot }),
-      });
-      if (!r.ok) throw new Error("Hot toggle failed");
-      await loadLeads();
-    } catch {
-      setError("Hot toggle failed");
+      await setLeadHot(leadId, hot);
+    } catch (e) {
+      setError(errorMessage(e, "Hot toggle failed"));
     } finally {
       setBusy(false);
     }
@@ -312,15 +259,9 @@ export default function PipelinePage() {
     try {
       setBusy(true);
       setError("");
-      const r = await apiFetch(`${API_BASE}/api/leads/${leadId}/archive`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ archived }),
-      });
-      if (!r.ok) throw new Error("Archive update failed");
-      await loadLeads();
-    } catch {
-      setError("Archive update failed");
+      await setLeadArchived(leadId, archived);
+    } catch (e) {
+      setError(errorMessage(e, "Archive update failed"));
     } finally {
       setBusy(false);
     }
@@ -355,7 +296,7 @@ export default function PipelinePage() {
     if (!leadId) return;
 
     const existing = leads.find((l) => l.id === leadId);
-    if (existing && normalizeStatus(existing.status) === col) return;
+    if (existing && normalizeLeadStatus(existing.status) === col) return;
 
     await moveLead(leadId, col);
   }
@@ -375,6 +316,7 @@ export default function PipelinePage() {
             <option value="newest">Newest first</option>
             <option value="oldest">Oldest first</option>
           </select>
+          <AssigneeFilter value={assignee} onChange={setAssignee} />
 
           {busy ? <div className="text-xs text-muted-foreground">Saving…</div> : null}
 
@@ -388,7 +330,7 @@ export default function PipelinePage() {
         </div>
       </div>
 
-      {error && <div className="mb-3 text-sm text-rose-400">{error}</div>}
+      {(error || loadError) && <div className="mb-3 text-sm text-rose-400">{error || loadError}</div>}
 
       <div
         className="flex-1 grid gap-4 overflow-x-auto"
@@ -396,6 +338,7 @@ export default function PipelinePage() {
       >
         {COLUMNS.map((col) => {
           const isOver = dragOver === col;
+          const colLeads = leadsFor(col);
 
           return (
             <div
@@ -422,16 +365,16 @@ export default function PipelinePage() {
                     <option value="90">90d</option>
                     <option value="all">All</option>
                   </select>
-                  <div className="text-xs text-muted-foreground">{leadsFor(col).length}</div>
+                  <div className="text-xs text-muted-foreground">{colLeads.length}</div>
                 </div>
               </div>
 
-              <div className="flex-1 space-y-2 overflow-y-auto">
-                {leadsFor(col).map((l) => {
+              <ColumnCards
+                leads={colLeads}
+                renderCard={(l) => {
                   const waiting = l.lastMessageDirection === "in";
                   const hot = isHot(l);
                   const cold = isCold(l);
-                  const aiSignal = getAiSignal(l, nowMs);
 
                   const cardClass = waiting
                     ? "bg-amber-500/15 border-amber-400/45"
@@ -443,7 +386,6 @@ export default function PipelinePage() {
 
                   return (
                     <div
-                      key={l.id}
                       draggable
                       onDragStart={(e) => onDragStart(e, l.id)}
                       onDragEnd={onDragEnd}
@@ -471,9 +413,7 @@ export default function PipelinePage() {
                                 COLD
                               </span>
                             ) : null}
-                            <span className={`rounded border px-2 py-1 text-[10px] ${aiSignal.className}`}>
-                              {aiSignal.tone === "green" ? "🟢" : aiSignal.tone === "yellow" ? "🟡" : "🔴"} {aiSignal.label}
-                            </span>
+                            <AiSignalBadge lead={l} />
 
                             {renderSourceBadge(l.source)}
                             <button
@@ -507,7 +447,12 @@ export default function PipelinePage() {
                           </div>
                         </div>
 
-                        <div className="text-xs text-muted-foreground">{l.phone}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {l.phone}
+                          {assignee === "all" && l.assigned_to ? ` · ${l.assigned_to}` : ""}
+                        </div>
+
+                        <LeadLocalTime lead={l} className="mt-1 text-[11px] text-muted-foreground" />
 
                         <div className="mt-1 flex justify-between text-[11px] text-muted-foreground">
                           <span>Created: {formatCreated(l.createdAt)}</span>
@@ -521,12 +466,8 @@ export default function PipelinePage() {
                       </Link>
                     </div>
                   );
-                })}
-
-                {leadsFor(col).length === 0 && (
-                  <div className="text-xs italic text-muted-foreground">No leads</div>
-                )}
-              </div>
+                }}
+              />
             </div>
           );
         })}
@@ -5,6 +5,8 @@ import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { checkPassword, PASSWORD_REQUIREMENTS } from "@/lib/passwordPolicy";
+import PasswordStrength from "@/app/PasswordStrength";
 
 const API_BASE =
   process.env.NEXT_PUBLIC_API_BASE ||
@@ -30,6 +32,11 @@ export default function ResetPasswordPage() {
       setError("Missing reset token.");
       return;
     }
+    const passwordCheck = checkPassword(password);
+    if (!passwordCheck.ok) {
+      setError(passwordCheck.errors[0]);
+      return;
+    }
     if (password !== confirmPassword) {
       setError("Passwords do not match.");
       return;
@@ -46,7 +53,7 @@ export default function ResetPasswordPage() {
       if (!resp.ok) {
         const code = String(body?.error || "");
         if (code === "invalid_or_expired_token") setError("Reset link is invalid or expired.");
-        else if (code === "weak_password") setError("Password must be at least 8 characters.");
+        else if (code === "weak_password") setError(PASSWORD_REQUIREMENTS);
         else setError("Reset failed.");
         return;
       }
@@ -76,6 +83,7 @@ export default function ResetPasswordPage() {
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
               />
+              <PasswordStrength password={password} />
               <Input
                 type="password"
                 placeholder="Confirm password"
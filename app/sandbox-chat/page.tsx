@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { apiFetch } from "@/lib/apiFetch";
+import { errorMessage, getSettings, runAiTest, type AiTestTurn } from "@/lib/api";
 
 type ChatMsg = {
   role: "user" | "assistant";
@@ -9,41 +9,12 @@ type ChatMsg = {
   at: string;
 };
 
-type SettingsResponse = {
-  settings?: {
-    ai_allow_quote?: boolean;
-    ai_allow_aca?: boolean;
-    ai_quote_ask_plan_type_prompt?: boolean;
-    ai_quote_attempt_set_appointment_in_quote?: boolean;
-    ai_quote_deviation_single?: number;
-    ai_quote_deviation_couple?: number;
-    ai_quote_deviation_per_dependent?: number;
-    ai_schedule_time_mode?: "offer_two_times" | "accept_client_time";
-  };
-  ai_allow_quote?: boolean;
-  ai_allow_aca?: boolean;
-  ai_quote_ask_plan_type_prompt?: boolean;
-  ai_quote_attempt_set_appointment_in_quote?: boolean;
-  ai_quote_deviation_single?: number;
-  ai_quote_deviation_couple?: number;
-  ai_quote_deviation_per_dependent?: number;
-  ai_schedule_time_mode?: "offer_two_times" | "accept_client_time";
-};
-
 function clampInt(v: unknown, fallback: number, min: number, max: number) {
   const n = Number(v);
   if (!Number.isFinite(n)) return fallback;
   return Math.max(min, Math.min(max, Math.floor(n)));
 }
 
-function errorMessage(err: unknown, fallback: string) {
-  if (err && typeof err === "object" && "message" in err) {
-    const msg = String((err as { message?: unknown }).message || "").trim();
-    if (msg) return msg;
-  }
-  return fallback;
-}
-
 export default function SandboxChatPage() {
   const [loading, setLoading] = React.useState(true);
   const [busy, setBusy] = React.useState(false);
@@ -75,38 +46,21 @@ export default function SandboxChatPage() {
     (async () => {
       setLoading(true);
       try {
-        const res = await apiFetch("/api/settings", { cache: "no-store" });
-        if (!res.ok) throw new Error("Failed to load settings");
-        const body = (await res.json().catch(() => ({}))) as SettingsResponse;
+        const { settings: effective } = await getSettings();
         if (dead) return;
-        const effective = (body?.settings && typeof body.settings === "object")
-          ? body.settings
-          : body;
-        setAllowQuote(Boolean(effective?.ai_allow_quote));
-        setAllowAca(
-          typeof effective?.ai_allow_aca === "boolean"
-            ? Boolean(effective.ai_allow_aca)
-            : true
-        );
-        setQuoteAskPlanTypePrompt(
-          typeof effective?.ai_quote_ask_plan_type_prompt === "boolean"
-            ? Boolean(effective.ai_quote_ask_plan_type_prompt)
-            : true
-        );
-        setQuoteAttemptSetAppointmentInQuote(
-          typeof effective?.ai_quote_attempt_set_appointment_in_quote === "boolean"
-            ? Boolean(effective.ai_quote_attempt_set_appointment_in_quote)
-            : false
-        );
+        setAllowQuote(Boolean(effective.ai_allow_quote));
+        setAllowAca(effective.ai_allow_aca ?? true);
+        setQuoteAskPlanTypePrompt(effective.ai_quote_ask_plan_type_prompt ?? true);
+        setQuoteAttemptSetAppointmentInQuote(effective.ai_quote_attempt_set_appointment_in_quote ?? false);
         setScheduleTimeMode(
-          effective?.ai_schedule_time_mode === "accept_client_time"
+          effective.ai_schedule_time_mode === "accept_client_time"
             ? "accept_client_time"
             : "offer_two_times"
         );
-        setQuoteDeviationSingle(clampInt(effective?.ai_quote_deviation_single, 100, 0, 5000));
-        setQuoteDeviationCouple(clampInt(effective?.ai_quote_deviation_couple, 150, 0, 5000));
-        setQuoteDeviationPerDependent(clampInt(effective?.ai_quote_deviation_per_dependent, 25, 0, 1000));
-      } catch (e: unknown) {
+        setQuoteDeviationSingle(clampInt(effective.ai_quote_deviation_single, 100, 0, 5000));
+        setQuoteDeviationCouple(clampInt(effective.ai_quote_deviation_couple, 150, 0, 5000));
+        setQuoteDeviationPerDependent(clampInt(effective.ai_quote_deviation_per_dependent, 25, 0, 1000));
+      } catch (e) {
         if (!dead) setError(errorMessage(e, "Failed to load sandbox settings"));
       } finally {
         if (!dead) setLoading(false);
@@ -129,41 +83,31 @@ export default function SandboxChatPage() {
     setThread(nextThread);
 
     try {
-      const payloadThread = nextThread.map((m) => ({
+      const payloadThread: AiTestTurn[] = nextThread.map((m) => ({
         direction: m.role === "assistant" ? "out" : "in",
         text: m.text,
       }));
 
-      const res = await apiFetch("/api/ai/test", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          message: text,
-          thread: payloadThread,
-          allow_quote: allowQuote,
-          allow_aca: allowAca,
-          quote_ask_plan_type_prompt: quoteAskPlanTypePrompt,
-          quote_attempt_set_appointment_in_quote: quoteAttemptSetAppointmentInQuote,
-          quote_deviation_single: quoteDeviationSingle,
-          quote_deviation_couple: quoteDeviationCouple,
-          quote_deviation_per_dependent: quoteDeviationPerDependent,
-          schedule_time_mode: scheduleTimeMode,
-          lead_timezone: leadTimeZone,
-        }),
+      const result = await runAiTest({
+        message: text,
+        thread: payloadThread,
+        allow_quote: allowQuote,
+        allow_aca: allowAca,
+        quote_ask_plan_type_prompt: quoteAskPlanTypePrompt,
+        quote_attempt_set_appointment_in_quote: quoteAttemptSetAppointmentInQuote,
+        quote_deviation_single: quoteDeviationSingle,
+        quote_deviation_couple: quoteDeviationCouple,
+        quote_deviation_per_dependent: quoteDeviationPerDependent,
+        schedule_time_mode: scheduleTimeMode,
+        lead_timezone: leadTimeZone,
       });
 
-      const body = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        const detail = String(body?.detail || body?.error || "");
-        throw new Error(detail || `AI test failed (${res.status})`);
-      }
-
-      const reply = String(body?.reply || "").trim() || "No reply returned.";
-      setLastReplySource(String(body?.reply_source || ""));
-      setLastStateAction(String(body?.state_machine?.next_action || ""));
-      setLastStateStrict(Boolean(body?.state_machine?.strict_enabled));
+      const reply = result.reply || "No reply returned.";
+      setLastReplySource(result.reply_source);
+      setLastStateAction(result.state_machine.next_action);
+      setLastStateStrict(result.state_machine.strict_enabled);
       setThread((prev) => [...prev, { role: "assistant", text: reply, at: new Date().toISOString() }]);
-    } catch (e: unknown) {
+    } catch (e) {
       setError(errorMessage(e, "Sandbox send failed"));
     } finally {
       setBusy(false);
@@ -0,0 +1,115 @@
+"use client";
+
+import * as React from "react";
+import PasswordStrength from "@/app/PasswordStrength";
+import { ApiError, changePassword, errorMessage, useMe } from "@/lib/api";
+import { checkPassword, PASSWORD_REQUIREMENTS } from "@/lib/passwordPolicy";
+
+const EMPTY_FORM = { current: "", next: "", confirm: "" };
+
+export default function AccountSection() {
+  const me = useMe();
+  const email = me.data?.email || "";
+  const [form, setForm] = React.useState(EMPTY_FORM);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState("");
+  const [success, setSuccess] = React.useState("");
+
+  async function onChangePassword(e: React.FormEvent) {
+    e.preventDefault();
+    if (saving) return;
+    setError("");
+    setSuccess("");
+
+    if (!form.current) {
+      setError("Enter your current password.");
+      return;
+    }
+    const check = checkPassword(form.next, { email });
+    if (!check.ok) {
+      setError(check.errors[0]);
+      return;
+    }
+    if (form.next === form.current) {
+      setError("The new password must be different from the current one.");
+      return;
+    }
+    if (form.next !== form.confirm) {
+      setError("New passwords do not match.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await changePassword(form.current, form.next);
+      setForm(EMPTY_FORM);
+      setSuccess("Password changed. Other devices have been signed out.");
+    } catch (err) {
+      const code = err instanceof ApiError ? err.details : "";
+      if (code === "invalid_current_password") setError("Current password is incorrect.");
+      else if (code === "weak_password") setError(PASSWORD_REQUIREMENTS);
+      else setError(errorMessage(err, "Could not change password."));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <section className="rounded border border-border/70 bg-card/70 p-4">
+      <h2 className="text-lg font-medium text-foreground">Account</h2>
+      <p className="mt-1 text-sm text-muted-foreground">
+        Signed in as <span className="text-foreground">{email || "..."}</span>
+      </p>
+
+      <form onSubmit={onChangePassword} className="mt-3 grid max-w-md gap-3">
+        <div className="font-medium text-foreground">Change Password</div>
+        <label className="block text-sm">
+          <span className="mb-1 block text-muted-foreground">Current password</span>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={form.current}
+            onChange={(e) => setForm((prev) => ({ ...prev, current: e.target.value }))}
+            className="w-full rounded border border-border bg-card px-3 py-2"
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="mb-1 block text-muted-foreground">New password</span>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={form.next}
+            onChange={(e) => setForm((prev) => ({ ...prev, next: e.target.value }))}
+            className="w-full rounded border border-border bg-card px-3 py-2"
+          />
+        </label>
+        <PasswordStrength password={form.next} email={email} />
+        <label className="block text-sm">
+          <span className="mb-1 block text-muted-foreground">Confirm new password</span>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={form.confirm}
+            onChange={(e) => setForm((prev) => ({ ...prev, confirm: e.target.value }))}
+            className="w-full rounded border border-border bg-card px-3 py-2"
+          />
+        </label>
+
+        {error ? <div className="rounded border border-rose-400/40 bg-rose-500/10 p-3 text-sm text-rose-300">{error}</div> : null}
+        {success ? (
+          <div className="rounded border border-emerald-400/40 bg-emerald-500/10 p-3 text-sm text-emerald-300">{success}</div>
+        ) : null}
+
+        <div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded bg-cyan-600 px-4 py-2 text-sm font-medium text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {saving ? "Saving..." : "Change Password"}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
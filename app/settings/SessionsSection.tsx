@@ -0,0 +1,152 @@
+"use client";
+
+import * as React from "react";
+import { signOut } from "next-auth/react";
+import { errorMessage, revokeAllSessions, revokeSession, useSessions, type ActiveSession } from "@/lib/api";
+
+function fmtDate(v?: string | null) {
+  if (!v) return "";
+  const d = new Date(v.includes("T") ? v : `${v.replace(" ", "T")}Z`);
+  if (Number.isNaN(d.getTime())) return String(v);
+  return d.toLocaleString();
+}
+
+// First match wins, so Edge is checked before the Chrome token it also carries.
+const BROWSERS: Array<[string, RegExp]> = [
+  ["Edge", /Edg\//],
+  ["Chrome", /Chrome\//],
+  ["Firefox", /Firefox\//],
+  ["Safari", /Safari\//],
+];
+const SYSTEMS: Array<[string, RegExp]> = [
+  ["iOS", /iPhone|iPad/],
+  ["Android", /Android/],
+  ["macOS", /Mac OS X/],
+  ["Windows", /Windows/],
+  ["Linux", /Linux/],
+];
+
+// Fallback when the backend did not label the device.
+function describeDevice(s: ActiveSession) {
+  if (s.device) return s.device;
+  const ua = s.user_agent;
+  if (!ua) return "Unknown device";
+  const browser = BROWSERS.find(([, re]) => re.test(ua))?.[0] || "Browser";
+  const os = SYSTEMS.find(([, re]) => re.test(ua))?.[0];
+  return os ? `${browser} on ${os}` : browser;
+}
+
+export default function SessionsSection() {
+  const sessions = useSessions();
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+  const [error, setError] = React.useState("");
+
+  const rows = sessions.data ?? [];
+  const others = rows.filter((s) => !s.current);
+
+  async function onRevoke(s: ActiveSession) {
+    setBusyId(s.id);
+    setError("");
+    try {
+      await revokeSession(s.id);
+    } catch (e) {
+      setError(errorMessage(e, "Could not sign out that session."));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function onRevokeOthers() {
+    setBusyId("others");
+    setError("");
+    try {
+      await revokeAllSessions({ keepCurrent: true });
+    } catch (e) {
+      setError(errorMessage(e, "Could not sign out other sessions."));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function onSignOutEverywhere() {
+    if (!window.confirm("Sign out of every device, including this one?")) return;
+    setBusyId("all");
+    setError("");
+    try {
+      await revokeAllSessions({ keepCurrent: false });
+    } catch (e) {
+      setError(errorMessage(e, "Could not sign out everywhere."));
+      setBusyId(null);
+      return;
+    }
+    await signOut({ redirect: false }).catch(() => {});
+    window.location.assign("/login");
+  }
+
+  return (
+    <section className="rounded border border-border/70 bg-card/70 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-medium text-foreground">Sessions</h2>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={onRevokeOthers}
+            disabled={busyId !== null || others.length === 0}
+            className="rounded border border-border px-3 py-1.5 text-xs hover:bg-muted/40 disabled:opacity-60"
+          >
+            {busyId === "others" ? "Signing out..." : "Sign out other devices"}
+          </button>
+          <button
+            type="button"
+            onClick={onSignOutEverywhere}
+            disabled={busyId !== null}
+            className="rounded border border-rose-400/40 bg-rose-500/10 px-3 py-1.5 text-xs text-rose-300 hover:bg-rose-500/20 disabled:opacity-60"
+          >
+            {busyId === "all" ? "Signing out..." : "Sign out everywhere"}
+          </button>
+        </div>
+      </div>
+      <p className="mt-1 text-sm text-muted-foreground">Devices currently signed in to your account.</p>
+
+      {error ? <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-3 text-sm text-rose-300">{error}</div> : null}
+      {sessions.error && !sessions.data ? (
+        <div className="mt-3 text-sm text-rose-300">{errorMessage(sessions.error, "Could not load sessions.")}</div>
+      ) : null}
+      {!sessions.data && !sessions.error ? <div className="mt-3 text-sm text-muted-foreground">Loading sessions...</div> : null}
+
+      {rows.length > 0 ? (
+        <div className="mt-3 divide-y divide-border/60 rounded border border-border/70">
+          {rows.map((s) => (
+            <div key={s.id} className="flex flex-wrap items-center justify-between gap-3 px-3 py-2 text-sm">
+              <div>
+                <div className="font-medium text-foreground">
+                  {describeDevice(s)}
+                  {s.current ? (
+                    <span className="ml-2 rounded-full border border-emerald-400/40 bg-emerald-500/10 px-2 py-0.5 text-[11px] text-emerald-300">
+                      This device
+                    </span>
+                  ) : null}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {s.ip || "Unknown IP"}
+                  {s.last_seen_at ? ` | Last seen: ${fmtDate(s.last_seen_at)}` : ""}
+                  {s.created_at ? ` | Signed in: ${fmtDate(s.created_at)}` : ""}
+                </div>
+              </div>
+              {!s.current ? (
+                <button
+                  type="button"
+                  onClick={() => onRevoke(s)}
+                  disabled={busyId !== null}
+                  className="rounded border border-border px-3 py-1.5 text-xs hover:bg-muted/40 disabled:opacity-60"
+                >
+                  {busyId === s.id ? "Signing out..." : "Sign out"}
+                </button>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,298 @@
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import { refreshSession } from "@/lib/apiFetch";
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  errorMessage,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  useTwoFactorStatus,
+  type TwoFactorSetup,
+} from "@/lib/api";
+
+function downloadRecoveryCodes(codes: string[]) {
+  const text = `Infinite Drip recovery codes\nEach code works once.\n\n${codes.join("\n")}\n`;
+  const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = "infinitedrip-recovery-codes.txt";
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function TwoFactorSection() {
+  const status = useTwoFactorStatus();
+  const [setup, setSetup] = React.useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = React.useState("");
+  // Disabling and regenerating codes both ask for a current code first.
+  const [confirming, setConfirming] = React.useState<"disable" | "regenerate" | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = React.useState<string[] | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState("");
+  const sectionRef = React.useRef<HTMLElement | null>(null);
+
+  const enabled = !!status.data?.enabled;
+  const required = !!status.data?.required;
+
+  // proxy.ts sends users here with ?setup=2fa when an admin requires enrollment.
+  React.useEffect(() => {
+    if (new URLSearchParams(window.location.search).get("setup") === "2fa") {
+      sectionRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+    }
+  }, []);
+
+  async function onStartSetup() {
+    setBusy(true);
+    setError("");
+    try {
+      setSetup(await startTwoFactorSetup());
+      setCode("");
+    } catch (e) {
+      setError(errorMessage(e, "Could not start two-factor setup."));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onConfirmSetup(e: React.FormEvent) {
+    e.preventDefault();
+    if (busy || !code.trim()) return;
+    setBusy(true);
+    setError("");
+    try {
+      const codes = await enableTwoFactor(code.trim());
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(codes);
+      // Clears the enrollment hold in the session claims.
+      await refreshSession();
+    } catch (e) {
+      setError(errorMessage(e, "That code did not match. Try the current one."));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onConfirmAction(e: React.FormEvent) {
+    e.preventDefault();
+    if (busy || !confirming || !code.trim()) return;
+    setBusy(true);
+    setError("");
+    try {
+      if (confirming === "disable") {
+        await disableTwoFactor(code.trim());
+      } else {
+        setRecoveryCodes(await regenerateRecoveryCodes(code.trim()));
+      }
+      setConfirming(null);
+      setCode("");
+    } catch (e) {
+      setError(errorMessage(e, "That code did not match."));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section ref={sectionRef} className="rounded border border-border/70 bg-card/70 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-medium text-foreground">Two-Factor Authentication</h2>
+        {status.data ? (
+          <span
+            className={`rounded-full border px-2 py-0.5 text-xs ${
+              enabled
+                ? "border-emerald-400/40 bg-emerald-500/10 text-emerald-300"
+                : "border-border bg-muted/40 text-muted-foreground"
+            }`}
+          >
+            {enabled ? "On" : "Off"}
+          </span>
+        ) : null}
+      </div>
+      <p className="mt-1 text-sm text-muted-foreground">
+        Sign-in asks for a code from an authenticator app (Google Authenticator, 1Password, Authy) after your password.
+      </p>
+
+      {required && !enabled ? (
+        <div className="mt-3 rounded border border-amber-400/40 bg-amber-500/10 p-3 text-sm text-amber-200">
+          Your administrator requires two-factor authentication. Set it up to continue using the app.
+        </div>
+      ) : null}
+      {status.error && !status.data ? (
+        <div className="mt-3 text-sm text-rose-300">{errorMessage(status.error, "Could not load two-factor status.")}</div>
+      ) : null}
+      {error ? <div className="mt-3 rounded border border-rose-400/40 bg-rose-500/10 p-3 text-sm text-rose-300">{error}</div> : null}
+
+      {recoveryCodes ? (
+        <div className="mt-3 rounded border border-cyan-400/40 bg-cyan-500/10 p-3 text-sm">
+          <div className="font-medium text-cyan-100">Save your recovery codes</div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Each code signs you in once if you lose your authenticator. They will not be shown again.
+          </p>
+          <div className="mt-2 grid grid-cols-2 gap-1 font-mono text-sm text-foreground md:grid-cols-4">
+            {recoveryCodes.map((c) => (
+              <div key={c}>{c}</div>
+            ))}
+          </div>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => downloadRecoveryCodes(recoveryCodes)}
+              className="rounded border border-cyan-400/40 bg-cyan-500/15 px-3 py-1.5 text-xs text-cyan-200 hover:bg-cyan-500/25"
+            >
+              Download
+            </button>
+            <button
+              type="button"
+              onClick={() => navigator.clipboard.writeText(recoveryCodes.join("\n")).catch(() => setError("Could not copy codes."))}
+              className="rounded border border-border px-3 py-1.5 text-xs hover:bg-muted/40"
+            >
+              Copy
+            </button>
+            <button
+              type="button"
+              onClick={() => setRecoveryCodes(null)}
+              className="rounded border border-border px-3 py-1.5 text-xs hover:bg-muted/40"
+            >
+              I saved them
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {status.data && !enabled && !setup ? (
+        <button
+          type="button"
+          onClick={onStartSetup}
+          disabled={busy}
+          className="mt-3 rounded bg-cyan-600 px-4 py-2 text-sm font-medium text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {busy ? "Starting..." : "Set up two-factor"}
+        </button>
+      ) : null}
+
+      {setup ? (
+        <form onSubmit={onConfirmSetup} className="mt-3 rounded border border-border/70 bg-muted/40 p-3 text-sm">
+          <div className="font-medium text-foreground">1. Scan this QR code with your authenticator app</div>
+          {setup.qr_data_url ? (
+            <Image
+              src={setup.qr_data_url}
+              alt="Two-factor QR code"
+              width={176}
+              height={176}
+              unoptimized
+              className="mt-2 h-44 w-44 rounded bg-white p-2"
+            />
+          ) : null}
+          <p className="mt-2 text-xs text-muted-foreground">
+            Can&apos;t scan it? Enter this key manually: <span className="font-mono text-foreground">{setup.secret}</span>
+          </p>
+          <label className="mt-3 block">
+            <span className="mb-1 block font-medium text-foreground">2. Enter the 6-digit code it shows</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              className="w-40 rounded border border-border bg-card px-3 py-2 font-mono"
+            />
+          </label>
+          <div className="mt-3 flex gap-2">
+            <button
+              type="submit"
+              disabled={busy || !code.trim()}
+              className="rounded bg-cyan-600 px-4 py-2 text-sm font-medium text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {busy ? "Verifying..." : "Turn on"}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setSetup(null);
+                setCode("");
+              }}
+              disabled={busy}
+              className="rounded border border-border px-3 py-2 text-sm hover:bg-muted/40"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : null}
+
+      {enabled ? (
+        <div className="mt-3 text-sm">
+          <div className="text-muted-foreground">
+            Recovery codes left: {status.data?.recovery_codes_remaining ?? "-"}
+          </div>
+          {confirming ? (
+            <form onSubmit={onConfirmAction} className="mt-2 flex flex-wrap items-end gap-2">
+              <label className="block">
+                <span className="mb-1 block text-xs text-muted-foreground">
+                  {confirming === "disable" ? "Enter a current code to turn off 2FA" : "Enter a current code to replace your recovery codes"}
+                </span>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456"
+                  className="w-40 rounded border border-border bg-card px-3 py-2 font-mono"
+                />
+              </label>
+              <button
+                type="submit"
+                disabled={busy || !code.trim()}
+                className={`rounded px-3 py-2 text-sm disabled:opacity-60 ${
+                  confirming === "disable"
+                    ? "border border-rose-400/40 bg-rose-500/10 text-rose-300 hover:bg-rose-500/20"
+                    : "border border-cyan-400/40 bg-cyan-500/15 text-cyan-200 hover:bg-cyan-500/25"
+                }`}
+              >
+                {busy ? "Working..." : confirming === "disable" ? "Turn off" : "Regenerate"}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setConfirming(null);
+                  setCode("");
+                }}
+                disabled={busy}
+                className="rounded border border-border px-3 py-2 text-sm hover:bg-muted/40"
+              >
+                Cancel
+              </button>
+            </form>
+          ) : (
+            <div className="mt-2 flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => setConfirming("regenerate")}
+                className="rounded border border-border px-3 py-1.5 text-xs hover:bg-muted/40"
+              >
+                New recovery codes
+              </button>
+              {required ? (
+                <span className="self-center text-xs text-muted-foreground">Required by your administrator.</span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setConfirming("disable")}
+                  className="rounded border border-rose-400/40 bg-rose-500/10 px-3 py-1.5 text-xs text-rose-300 hover:bg-rose-500/20"
+                >
+                  Turn off
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ) : null}
+    </section>
+  );
+}
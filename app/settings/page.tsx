@@ -1,47 +1,31 @@
 "use client";
 
 import * as React from "react";
-import { apiFetch } from "@/lib/apiFetch";
-
-type SettingsResponse = {
-  ok?: boolean;
-  webhook_url?: string;
-  settings?: {
-    user_id?: string;
-    textdrip_api_token_set?: boolean;
-    textdrip_base_url?: string;
-    textdrip_base_url_effective?: string;
-    textdrip_webhook_secret?: string;
-    textdrip_webhook_secret_set?: boolean;
-    ai_first_reply_mode?: string;
-    ai_name?: string;
-    ai_allow_quote?: boolean;
-    ai_quote_ask_plan_type_prompt?: boolean;
-    ai_quote_attempt_set_appointment_in_quote?: boolean;
-    ai_quote_deviation_single?: number;
-    ai_quote_deviation_couple?: number;
-    ai_quote_deviation_per_dependent?: number;
-    ai_schedule_time_mode?: "offer_two_times" | "accept_client_time" | string;
-    ai_appointment_confirmation_text?: string;
-    ai_quiet_hours_enabled?: boolean;
-    ai_quiet_hours_start?: string;
-    ai_quiet_hours_end?: string;
-    ai_max_replies_per_5m?: number;
-    ai_reply_cooldown_minutes?: number;
-    ai_reply_cooldown_seconds?: number;
-    google_calendar_id?: string;
-    google_client_id?: string;
-    google_client_secret_set?: boolean;
-    google_refresh_token_set?: boolean;
-    google_account_email?: string;
-    google_account_email_set?: boolean;
-    gmail_lead_import_enabled?: boolean;
-    gmail_lead_import_query?: string;
-    gmail_lead_import_auto_text_enabled?: boolean;
-    gmail_lead_import_auto_text_template?: string;
-    updated_at?: string | null;
-  };
-};
+import {
+  ApiError,
+  createAiFaq,
+  deleteAiFaq,
+  errorMessage,
+  getCalendarStatus,
+  getGmailLeadImportStatus,
+  getGoogleAuthUrl,
+  getOnboardingChecklist,
+  getSettings,
+  listAiFaqs,
+  rotateWebhookSecret,
+  runAiTest,
+  runGmailLeadImport,
+  syncTextdripTemplates,
+  updateAiFaq,
+  updateSettings,
+  usePermissions,
+  type AiFaq,
+  type CalendarStatus,
+  type GmailLeadImportStatus,
+} from "@/lib/api";
+import AccountSection from "./AccountSection";
+import SessionsSection from "./SessionsSection";
+import TwoFactorSection from "./TwoFactorSection";
 
 type FormState = {
   textdrip_api_token: string;
@@ -72,54 +56,6 @@ type FormState = {
   gmail_lead_import_auto_text_template: string;
 };
 
-type AiFaqRow = {
-  id: number;
-  question: string;
-  answer: string;
-  active: number;
-  priority: number;
-  source?: string;
-  updated_at?: string | null;
-  created_at?: string | null;
-};
-
-type CalendarStatus = {
-  configured?: boolean;
-  connected?: boolean;
-  gmail_connected?: boolean;
-  account_email?: string;
-  warning?: string;
-  detail?: string;
-  calendar_id?: string;
-  next_event_at?: string | null;
-  checked_at?: string;
-};
-
-type GmailLeadImportStatus = {
-  access_granted?: boolean;
-  configured?: boolean;
-  connected?: boolean;
-  enabled?: boolean;
-  query?: string;
-  source_hints?: {
-    from?: string[];
-    subject?: string[];
-  };
-  auto_text_enabled?: boolean;
-  auto_text_template_set?: boolean;
-  warning?: string;
-  detail?: string;
-  recent_imports_24h?: number;
-  checked_at?: string;
-};
-
-type OnboardingChecklistResponse = {
-  ok?: boolean;
-  checklist?: {
-    steps?: Array<{ key?: string; label?: string; done?: boolean }>;
-  };
-};
-
 type TextdripSetupState = {
   textdripConnected: boolean;
   webhookConfigured: boolean;
@@ -133,13 +69,6 @@ type TextdripConnectDraft = {
   webhookSecret: string;
 };
 
-type MeResponse = {
-  ok?: boolean;
-  user?: {
-    role?: string;
-  };
-};
-
 type AiTestMsg = {
   role: "user" | "assistant";
   text: string;
@@ -262,10 +191,11 @@ export default function SettingsPage() {
   const [textdripDraft, setTextdripDraft] = React.useState<TextdripConnectDraft>(INITIAL_TEXTDRIP_DRAFT);
   const [textdripAdvancedOpen, setTextdripAdvancedOpen] = React.useState(false);
   const [textdripBaseUrlEffective, setTextdripBaseUrlEffective] = React.useState("");
-  const [isAdmin, setIsAdmin] = React.useState(false);
+  const { can } = usePermissions();
+  const isAdmin = can("admin.settings.defaults");
 
-  const [faqs, setFaqs] = React.useState<AiFaqRow[]>([]);
-  const [adminFaqs, setAdminFaqs] = React.useState<AiFaqRow[]>([]);
+  const [faqs, setFaqs] = React.useState<AiFaq[]>([]);
+  const [adminFaqs, setAdminFaqs] = React.useState<AiFaq[]>([]);
   const [faqSaving, setFaqSaving] = React.useState(false);
   const [faqBusyId, setFaqBusyId] = React.useState<number | null>(null);
   const [adminFaqSaving, setAdminFaqSaving] = React.useState(false);
@@ -293,15 +223,8 @@ export default function SettingsPage() {
     setLoading(true);
     setError("");
     try {
-      const res = await apiFetch("/api/settings", { cache: "no-store" });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Load failed (${res.status}): ${txt || "Unknown error"}`);
-      }
-
-      const data = (await res.json()) as SettingsResponse;
-      const s = data?.settings || {};
-      setWebhookUrl(String(data?.webhook_url || ""));
+      const { settings: s, webhook_url } = await getSettings();
+      setWebhookUrl(webhook_url || "");
       setTextdripBaseUrlEffective(String(s.textdrip_base_url_effective || s.textdrip_base_url || ""));
       const cooldownSeconds = normalizeCooldownSeconds(
         s.ai_reply_cooldown_seconds ?? (Number(s.ai_reply_cooldown_minutes || 2) * 60)
@@ -360,27 +283,14 @@ export default function SettingsPage() {
       setGoogleClientSecretSet(!!s.google_client_secret_set);
       setGoogleRefreshTokenSet(!!s.google_refresh_token_set);
       setUpdatedAt(s.updated_at || null);
-    } catch (e: any) {
-      setError(String(e?.message || "Failed to load settings"));
+    } catch (e) {
+      setError(errorMessage(e, "Failed to load settings"));
     } finally {
       setLoading(false);
     }
   }
 
-  async function loadMeRole() {
-    try {
-      const res = await apiFetch("/api/me", { cache: "no-store" });
-      if (!res.ok) return;
-      const body = (await res.json().catch(() => ({}))) as MeResponse;
-      const role = String(body?.user?.role || "").trim().toLowerCase();
-      setIsAdmin(role === "admin");
-    } catch {
-      setIsAdmin(false);
-    }
-  }
-
   React.useEffect(() => {
-    loadMeRole().catch(() => {});
     loadSettings();
     loadFaqs().catch(() => {});
     loadCalendarStatus().catch(() => {});
@@ -396,7 +306,7 @@ export default function SettingsPage() {
 
   React.useEffect(() => {
     if (!isAdmin) return;
-    loadAdminFaqs().catch((e) => setError(String(e?.message || "Admin FAQ load failed")));
+    loadAdminFaqs().catch((e) => setError(errorMessage(e, "Admin FAQ load failed")));
   }, [isAdmin]);
 
   React.useEffect(() => {
@@ -453,62 +363,25 @@ export default function SettingsPage() {
   }
 
   async function loadFaqs() {
-    const res = await apiFetch("/api/ai/faqs?limit=200", { cache: "no-store" });
-    if (!res.ok) {
-      const txt = await res.text().catch(() => "");
-      throw new Error(`FAQ load failed (${res.status}): ${txt || "Unknown error"}`);
-    }
-    const body = await res.json().catch(() => ({}));
-    const list = Array.isArray(body?.faqs) ? body.faqs : [];
-    setFaqs(
-      list.map((x: any) => ({
-        id: Number(x?.id || 0),
-        question: String(x?.question || ""),
-        answer: String(x?.answer || ""),
-        active: Number(x?.active || 0) ? 1 : 0,
-        priority: Number(x?.priority || 50),
-        updated_at: x?.updated_at || null,
-        created_at: x?.created_at || null,
-      }))
-    );
+    setFaqs(await listAiFaqs("user"));
   }
 
   async function loadAdminFaqs() {
-    const res = await apiFetch("/api/admin/ai/default-faqs?limit=200", { cache: "no-store" });
-    if (res.status === 403) {
-      setAdminFaqs([]);
-      return;
-    }
-    if (!res.ok) {
-      const txt = await res.text().catch(() => "");
-      throw new Error(`Admin FAQ load failed (${res.status}): ${txt || "Unknown error"}`);
+    try {
+      setAdminFaqs(await listAiFaqs("admin_default"));
+    } catch (e) {
+      if (e instanceof ApiError && e.status === 403) {
+        setAdminFaqs([]);
+        return;
+      }
+      throw e;
     }
-    const body = await res.json().catch(() => ({}));
-    const list = Array.isArray(body?.faqs) ? body.faqs : [];
-    setAdminFaqs(
-      list.map((x: any) => ({
-        id: Number(x?.id || 0),
-        question: String(x?.question || ""),
-        answer: String(x?.answer || ""),
-        active: Number(x?.active || 0) ? 1 : 0,
-        priority: Number(x?.priority || 50),
-        source: "admin_default",
-        updated_at: x?.updated_at || null,
-        created_at: x?.created_at || null,
-      }))
-    );
   }
 
   async function loadCalendarStatus() {
     setCheckingCalendar(true);
     try {
-      const res = await apiFetch("/api/appointments/status", { cache: "no-store" });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Calendar status failed (${res.status}): ${txt || "Unknown error"}`);
-      }
-      const body = await res.json().catch(() => ({}));
-      setCalendarStatus((body?.status || null) as CalendarStatus | null);
+      setCalendarStatus(await getCalendarStatus());
     } finally {
       setCheckingCalendar(false);
     }
@@ -517,44 +390,27 @@ export default function SettingsPage() {
   async function loadGmailLeadImportStatus() {
     setCheckingGmailLeadImportStatus(true);
     try {
-      const res = await apiFetch("/api/integrations/gmail-leads/status", { cache: "no-store" });
-      if (res.status === 403) {
-        setGmailLeadImportStatus({
-          access_granted: false,
-          warning: "Access not granted. Ask an admin to enable Email Lead Import for your account.",
-          checked_at: new Date().toISOString(),
-        });
-        return;
-      }
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Gmail lead import status failed (${res.status}): ${txt || "Unknown error"}`);
-      }
-      const body = await res.json().catch(() => ({}));
-      setGmailLeadImportStatus((body?.status || null) as GmailLeadImportStatus | null);
+      setGmailLeadImportStatus(await getGmailLeadImportStatus());
+    } catch (e) {
+      if (!(e instanceof ApiError && e.status === 403)) throw e;
+      setGmailLeadImportStatus({
+        access_granted: false,
+        warning: "Access not granted. Ask an admin to enable Email Lead Import for your account.",
+        checked_at: new Date().toISOString(),
+      });
     } finally {
       setCheckingGmailLeadImportStatus(false);
     }
   }
 
-  async function runGmailLeadImport() {
+  async function onRunGmailLeadImport() {
     setRunningGmailLeadImport(true);
     setError("");
     setSuccess("");
     try {
-      const res = await apiFetch("/api/integrations/gmail-leads/import", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ limit: 30, dry_run: false }),
-      });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Gmail lead import failed (${res.status}): ${txt || "Unknown error"}`);
-      }
-      const body = await res.json().catch(() => ({}));
-      const result = body?.result || {};
+      const result = await runGmailLeadImport({ limit: 30 });
       setSuccess(
-        `Email lead import completed. Scanned ${Number(result?.scanned || 0)}, imported ${Number(result?.imported || 0)}, ignored ${Number(result?.skipped_nonlead || 0)}.`
+        `Email lead import completed. Scanned ${result.scanned}, imported ${result.imported}, ignored ${result.skipped_nonlead}.`
       );
       await loadGmailLeadImportStatus().catch(() => {});
     } finally {
@@ -565,14 +421,8 @@ export default function SettingsPage() {
   async function loadTextdripSetupStatus() {
     setCheckingTextdrip(true);
     try {
-      const res = await apiFetch("/api/onboarding/checklist", { cache: "no-store" });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Textdrip status failed (${res.status}): ${txt || "Unknown error"}`);
-      }
-      const body = (await res.json().catch(() => ({}))) as OnboardingChecklistResponse;
-      const steps = Array.isArray(body?.checklist?.steps) ? body.checklist?.steps || [] : [];
-      const byKey = new Map(steps.map((s) => [String(s?.key || ""), !!s?.done]));
+      const steps = await getOnboardingChecklist();
+      const byKey = new Map(steps.map((s) => [s.key, s.done]));
       setTextdripSetup({
         textdripConnected: !!byKey.get("textdrip_connected"),
         webhookConfigured: !!byKey.get("webhook_configured"),
@@ -593,15 +443,7 @@ export default function SettingsPage() {
     }
     setFaqSaving(true);
     try {
-      const res = await apiFetch("/api/ai/faqs", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question, answer, priority, active: true }),
-      });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`FAQ create failed (${res.status}): ${txt || "Unknown error"}`);
-      }
+      await createAiFaq("user", { question, answer, priority });
       setNewFaqQuestion("");
       setNewFaqAnswer("");
       setNewFaqPriority("50");
@@ -612,25 +454,17 @@ export default function SettingsPage() {
     }
   }
 
-  async function toggleFaqActive(row: AiFaqRow) {
+  async function toggleFaqActive(row: AiFaq) {
     setFaqBusyId(row.id);
     try {
-      const res = await apiFetch(`/api/ai/faqs/${row.id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ active: row.active === 1 ? 0 : 1 }),
-      });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`FAQ update failed (${res.status}): ${txt || "Unknown error"}`);
-      }
+      await updateAiFaq("user", row.id, { active: row.active === 1 ? 0 : 1 });
       await loadFaqs();
     } finally {
       setFaqBusyId(null);
     }
   }
 
-  async function editFaq(row: AiFaqRow) {
+  async function editFaq(row: AiFaq) {
     const nextQuestion = window.prompt("Question", row.question);
     if (nextQuestion === null) return;
     const nextAnswer = window.prompt("Answer", row.answer);
@@ -641,34 +475,22 @@ export default function SettingsPage() {
 
     setFaqBusyId(row.id);
     try {
-      const res = await apiFetch(`/api/ai/faqs/${row.id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          question: String(nextQuestion || "").trim(),
-          answer: String(nextAnswer || "").trim(),
-          priority,
-        }),
+      await updateAiFaq("user", row.id, {
+        question: String(nextQuestion || "").trim(),
+        answer: String(nextAnswer || "").trim(),
+        priority,
       });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`FAQ edit failed (${res.status}): ${txt || "Unknown error"}`);
-      }
       await loadFaqs();
     } finally {
       setFaqBusyId(null);
     }
   }
 
-  async function removeFaq(row: AiFaqRow) {
+  async function removeFaq(row: AiFaq) {
     if (!window.confirm("Delete this FAQ?")) return;
     setFaqBusyId(row.id);
     try {
-      const res = await apiFetch(`/api/ai/faqs/${row.id}`, { method: "DELETE" });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`FAQ delete failed (${res.status}): ${txt || "Unknown error"}`);
-      }
+      await deleteAiFaq("user", row.id);
       await loadFaqs();
     } finally {
       setFaqBusyId(null);
@@ -684,15 +506,7 @@ export default function SettingsPage() {
     }
     setAdminFaqSaving(true);
     try {
-      const res = await apiFetch("/api/admin/ai/default-faqs", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question, answer, priority, active: true }),
-      });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Admin FAQ create failed (${res.status}): ${txt || "Unknown error"}`);
-      }
+      await createAiFaq("admin_default", { question, answer, priority });
       setNewAdminFaqQuestion("");
       setNewAdminFaqAnswer("");
       setNewAdminFaqPriority("50");
@@ -703,25 +517,17 @@ export default function SettingsPage() {
     }
   }
 
-  async function toggleAdminFaqActive(row: AiFaqRow) {
+  async function toggleAdminFaqActive(row: AiFaq) {
     setAdminFaqBusyId(row.id);
     try {
-      const res = await apiFetch(`/api/admin/ai/default-faqs/${row.id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ active: row.active === 1 ? 0 : 1 }),
-      });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Admin FAQ update failed (${res.status}): ${txt || "Unknown error"}`);
-      }
+      await updateAiFaq("admin_default", row.id, { active: row.active === 1 ? 0 : 1 });
       await loadAdminFaqs();
     } finally {
       setAdminFaqBusyId(null);
     }
   }
 
-  async function editAdminFaq(row: AiFaqRow) {
+  async function editAdminFaq(row: AiFaq) {
     const nextQuestion = window.prompt("Question", row.question);
     if (nextQuestion === null) return;
     const nextAnswer = window.prompt("Answer", row.answer);
@@ -732,34 +538,22 @@ export default function SettingsPage() {
 
     setAdminFaqBusyId(row.id);
     try {
-      const res = await apiFetch(`/api/admin/ai/default-faqs/${row.id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          question: String(nextQuestion || "").trim(),
-          answer: String(nextAnswer || "").trim(),
-          priority,
-        }),
+      await updateAiFaq("admin_default", row.id, {
+        question: String(nextQuestion || "").trim(),
+        answer: String(nextAnswer || "").trim(),
+        priority,
       });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Admin FAQ edit failed (${res.status}): ${txt || "Unknown error"}`);
-      }
       await loadAdminFaqs();
     } finally {
       setAdminFaqBusyId(null);
     }
   }
 
-  async function removeAdminFaq(row: AiFaqRow) {
+  async function removeAdminFaq(row: AiFaq) {
     if (!window.confirm("Delete this administrative default guardrail?")) return;
     setAdminFaqBusyId(row.id);
     try {
-      const res = await apiFetch(`/api/admin/ai/default-faqs/${row.id}`, { method: "DELETE" });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Admin FAQ delete failed (${res.status}): ${txt || "Unknown error"}`);
-      }
+      await deleteAiFaq("admin_default", row.id);
       await loadAdminFaqs();
     } finally {
       setAdminFaqBusyId(null);
@@ -775,34 +569,21 @@ export default function SettingsPage() {
     setAiTestInput("");
     setAiTestBusy(true);
     try {
-      const payloadThread = nextThread.map((m) => ({
-        direction: m.role === "assistant" ? "out" : "in",
-        text: m.text,
-      }));
-      const res = await apiFetch("/api/ai/test", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          message: text,
-          thread: payloadThread,
-          allow_quote: !!form.ai_allow_quote,
-          quote_ask_plan_type_prompt: !!form.ai_quote_ask_plan_type_prompt,
-          quote_attempt_set_appointment_in_quote: !!form.ai_quote_attempt_set_appointment_in_quote,
-          quote_deviation_single: Number(form.ai_quote_deviation_single || "100"),
-          quote_deviation_couple: Number(form.ai_quote_deviation_couple || "150"),
-          quote_deviation_per_dependent: Number(form.ai_quote_deviation_per_dependent || "25"),
-          schedule_time_mode: form.ai_schedule_time_mode,
-        }),
+      const result = await runAiTest({
+        message: text,
+        thread: nextThread.map((m) => ({ direction: m.role === "assistant" ? "out" : "in", text: m.text })),
+        allow_quote: !!form.ai_allow_quote,
+        quote_ask_plan_type_prompt: !!form.ai_quote_ask_plan_type_prompt,
+        quote_attempt_set_appointment_in_quote: !!form.ai_quote_attempt_set_appointment_in_quote,
+        quote_deviation_single: Number(form.ai_quote_deviation_single || "100"),
+        quote_deviation_couple: Number(form.ai_quote_deviation_couple || "150"),
+        quote_deviation_per_dependent: Number(form.ai_quote_deviation_per_dependent || "25"),
+        schedule_time_mode: form.ai_schedule_time_mode,
       });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`AI test failed (${res.status}): ${txt || "Unknown error"}`);
-      }
-      const body = await res.json().catch(() => ({}));
-      const reply = String(body?.reply || "").trim() || "No reply returned.";
+      const reply = result.reply || "No reply returned.";
       setAiTestThread((prev) => [...prev, { role: "assistant", text: reply, at: new Date().toISOString() }]);
-    } catch (e: any) {
-      setError(String(e?.message || "AI test failed"));
+    } catch (e) {
+      setError(errorMessage(e, "AI test failed"));
     } finally {
       setAiTestBusy(false);
     }
@@ -847,16 +628,7 @@ export default function SettingsPage() {
   }
 
   async function saveSettingsPayload() {
-    const payload = buildSettingsPayload();
-    const res = await apiFetch("/api/settings", {
-      method: "PUT",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-    });
-    if (!res.ok) {
-      const txt = await res.text().catch(() => "");
-      throw new Error(`Save failed (${res.status}): ${txt || "Unknown error"}`);
-    }
+    await updateSettings(buildSettingsPayload());
     await loadSettings();
     await loadCalendarStatus().catch(() => {});
     await loadGmailLeadImportStatus().catch(() => {});
@@ -871,8 +643,8 @@ export default function SettingsPage() {
     try {
       await saveSettingsPayload();
       setSuccess("Settings saved.");
-    } catch (e: any) {
-      setError(String(e?.message || "Save failed"));
+    } catch (e) {
+      setError(errorMessage(e, "Save failed"));
     } finally {
       setSaving(false);
     }
@@ -886,27 +658,18 @@ export default function SettingsPage() {
       await saveSettingsPayload();
       setSuccess("Quote settings saved.");
       setQuoteModalOpen(false);
-    } catch (e: any) {
-      setError(String(e?.message || "Save failed"));
+    } catch (e) {
+      setError(errorMessage(e, "Save failed"));
     } finally {
       setSaving(false);
     }
   }
 
   async function runTextdripConnectionCheck() {
-    const syncRes = await apiFetch("/api/textdrip/templates/sync", { method: "POST" });
-    if (!syncRes.ok) {
-      const txt = await syncRes.text().catch(() => "");
-      throw new Error(`Textdrip check failed (${syncRes.status}): ${txt || "Unknown error"}`);
-    }
-    const syncBody = await syncRes.json().catch(() => ({}));
-    const synced = Number(syncBody?.synced || 0);
-    setTextdripTemplateSource(String(syncBody?.source_url || ""));
+    const checked = await syncTextdripTemplates();
+    setTextdripTemplateSource(checked.source_url);
     await loadTextdripSetupStatus().catch(() => {});
-    return {
-      synced,
-      warning: String(syncBody?.warning || ""),
-    };
+    return checked;
   }
 
   async function onSaveTextdripConnect(runCheck = false) {
@@ -920,22 +683,14 @@ export default function SettingsPage() {
       if (textdripDraft.apiToken.trim()) payload.textdrip_api_token = textdripDraft.apiToken.trim();
       if (textdripDraft.webhookSecret.trim()) payload.textdrip_webhook_secret = textdripDraft.webhookSecret.trim();
 
-      const res = await apiFetch("/api/settings", {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Textdrip save failed (${res.status}): ${txt || "Unknown error"}`);
-      }
+      await updateSettings(payload);
 
       await loadSettings();
       await loadTextdripSetupStatus().catch(() => {});
 
       if (runCheck) {
         const checked = await runTextdripConnectionCheck();
-        const synced = Number(checked?.synced || 0);
+        const synced = checked.synced;
         setSuccess(
           synced > 0
             ? `Textdrip connected and checked. Synced ${synced} template${synced === 1 ? "" : "s"}. If inbound test is still pending, send 1 inbound SMS then check again.`
@@ -945,8 +700,8 @@ export default function SettingsPage() {
         setSuccess("Textdrip connection details saved.");
       }
       setTextdripModalOpen(false);
-    } catch (e: any) {
-      setError(String(e?.message || "Textdrip save failed"));
+    } catch (e) {
+      setError(errorMessage(e, "Textdrip save failed"));
     } finally {
       setTextdripModalSaving(false);
     }
@@ -958,14 +713,14 @@ export default function SettingsPage() {
     setSuccess("");
     try {
       const checked = await runTextdripConnectionCheck();
-      const synced = Number(checked?.synced || 0);
+      const synced = checked.synced;
       setSuccess(
         synced > 0
           ? `Textdrip check passed. Synced ${synced} template${synced === 1 ? "" : "s"}. If inbound test is still pending, send 1 inbound SMS then check again.`
           : "Textdrip check passed. SMS setup looks good. If inbound test is still pending, send 1 inbound SMS then check again."
       );
-    } catch (e: any) {
-      setError(String(e?.message || "Textdrip setup check failed"));
+    } catch (e) {
+      setError(errorMessage(e, "Textdrip setup check failed"));
     } finally {
       setRunningTextdripWizard(false);
     }
@@ -976,17 +731,9 @@ export default function SettingsPage() {
     setSuccess("");
     setConnectingGoogle(true);
     try {
-      const res = await apiFetch("/api/integrations/google/url", { cache: "no-store" });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Google connect failed (${res.status}): ${txt || "Unknown error"}`);
-      }
-      const data = await res.json();
-      const url = String(data?.url || "");
-      if (!url) throw new Error("Missing Google auth URL.");
-      window.location.href = url;
-    } catch (e: any) {
-      setError(String(e?.message || "Google connect failed"));
+      window.location.href = await getGoogleAuthUrl();
+    } catch (e) {
+      setError(errorMessage(e, "Google connect failed"));
       setConnectingGoogle(false);
     }
   }
@@ -996,20 +743,14 @@ export default function SettingsPage() {
     setError("");
     setSuccess("");
     try {
-      const res = await apiFetch("/api/settings/webhook-secret/rotate", { method: "POST" });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(`Key regeneration failed (${res.status}): ${txt || "Unknown error"}`);
-      }
-      const data = (await res.json()) as SettingsResponse;
-      const s = data?.settings || {};
-      setWebhookUrl(String(data?.webhook_url || ""));
+      const { settings: s, webhook_url } = await rotateWebhookSecret();
+      setWebhookUrl(webhook_url || "");
       setForm((prev) => ({ ...prev, textdrip_webhook_secret: String(s.textdrip_webhook_secret || "") }));
       setWebhookSecretSet(!!s.textdrip_webhook_secret_set);
       await loadTextdripSetupStatus().catch(() => {});
       setSuccess("Security key regenerated.");
-    } catch (e: any) {
-      setError(String(e?.message || "Key regeneration failed"));
+    } catch (e) {
+      setError(errorMessage(e, "Key regeneration failed"));
     } finally {
       setRotatingSecret(false);
     }
@@ -1312,7 +1053,7 @@ export default function SettingsPage() {
                 <div className="font-medium text-foreground">Connection Status</div>
                 <button
                   type="button"
-                  onClick={() => loadCalendarStatus().catch((e) => setError(String(e?.message || "Calendar check failed")))}
+                  onClick={() => loadCalendarStatus().catch((e) => setError(errorMessage(e, "Calendar check failed")))}
                   disabled={checkingCalendar}
                   className="rounded border border-border px-3 py-1.5 text-xs hover:bg-card/70 disabled:opacity-60"
                 >
@@ -1461,7 +1202,7 @@ export default function SettingsPage() {
                 />
               <button
                 type="button"
-                onClick={() => createFaq().catch((e) => setError(String(e?.message || "FAQ create failed")))}
+                onClick={() => createFaq().catch((e) => setError(errorMessage(e, "FAQ create failed")))}
                 disabled={faqSaving}
                 className="rounded bg-cyan-600 px-3 py-2 text-sm text-white hover:bg-cyan-500/100 disabled:opacity-60"
               >
@@ -1494,7 +1235,7 @@ export default function SettingsPage() {
                       <div className="mt-2 flex flex-wrap gap-2">
                         <button
                           type="button"
-                          onClick={() => toggleFaqActive(row).catch((e) => setError(String(e?.message || "FAQ update failed")))}
+                          onClick={() => toggleFaqActive(row).catch((e) => setError(errorMessage(e, "FAQ update failed")))}
                           disabled={busy}
                           className="rounded border border-border px-2 py-1 text-xs hover:bg-muted/40 disabled:opacity-60"
                         >
@@ -1502,7 +1243,7 @@ export default function SettingsPage() {
                         </button>
                         <button
                           type="button"
-                          onClick={() => editFaq(row).catch((e) => setError(String(e?.message || "FAQ edit failed")))}
+                          onClick={() => editFaq(row).catch((e) => setError(errorMessage(e, "FAQ edit failed")))}
                           disabled={busy}
                           className="rounded border border-border px-2 py-1 text-xs hover:bg-muted/40 disabled:opacity-60"
                         >
@@ -1510,7 +1251,7 @@ export default function SettingsPage() {
                         </button>
                         <button
                           type="button"
-                          onClick={() => removeFaq(row).catch((e) => setError(String(e?.message || "FAQ delete failed")))}
+                          onClick={() => removeFaq(row).catch((e) => setError(errorMessage(e, "FAQ delete failed")))}
                           disabled={busy}
                           className="rounded border border-rose-400/40 px-2 py-1 text-xs text-rose-300 hover:bg-rose-500/10 disabled:opacity-60"
                         >
@@ -1550,7 +1291,7 @@ export default function SettingsPage() {
                 />
                 <button
                   type="button"
-                  onClick={() => createAdminFaq().catch((e) => setError(String(e?.message || "Admin FAQ create failed")))}
+                  onClick={() => createAdminFaq().catch((e) => setError(errorMessage(e, "Admin FAQ create failed")))}
                   disabled={adminFaqSaving}
                   className="rounded bg-cyan-600 px-3 py-2 text-sm text-white hover:bg-cyan-500/100 disabled:opacity-60"
                 >
@@ -1583,7 +1324,7 @@ export default function SettingsPage() {
                         <div className="mt-2 flex flex-wrap gap-2">
                           <button
                             type="button"
-                            onClick={() => toggleAdminFaqActive(row).catch((e) => setError(String(e?.message || "Admin FAQ update failed")))}
+                            onClick={() => toggleAdminFaqActive(row).catch((e) => setError(errorMessage(e, "Admin FAQ update failed")))}
                             disabled={busy}
                             className="rounded border border-border px-2 py-1 text-xs hover:bg-muted/40 disabled:opacity-60"
                           >
@@ -1591,7 +1332,7 @@ export default function SettingsPage() {
                           </button>
                           <button
                             type="button"
-                            onClick={() => editAdminFaq(row).catch((e) => setError(String(e?.message || "Admin FAQ edit failed")))}
+                            onClick={() => editAdminFaq(row).catch((e) => setError(errorMessage(e, "Admin FAQ edit failed")))}
                             disabled={busy}
                             className="rounded border border-border px-2 py-1 text-xs hover:bg-muted/40 disabled:opacity-60"
                           >
@@ -1599,7 +1340,7 @@ export default function SettingsPage() {
                           </button>
                           <button
                             type="button"
-                            onClick={() => removeAdminFaq(row).catch((e) => setError(String(e?.message || "Admin FAQ delete failed")))}
+                            onClick={() => removeAdminFaq(row).catch((e) => setError(errorMessage(e, "Admin FAQ delete failed")))}
                             disabled={busy}
                             className="rounded border border-rose-400/40 px-2 py-1 text-xs text-rose-300 hover:bg-rose-500/10 disabled:opacity-60"
                           >
@@ -1624,6 +1365,12 @@ export default function SettingsPage() {
         </form>
       )}
 
+      <div className="mt-6 space-y-6">
+        <AccountSection />
+        <TwoFactorSection />
+        <SessionsSection />
+      </div>
+
       {textdripModalOpen ? (
         <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto p-4 pt-6 md:pt-10">
           <button
@@ -1921,7 +1668,7 @@ export default function SettingsPage() {
               </button>
               <button
                 type="button"
-                onClick={() => onSaveQuoteOptions().catch((e) => setError(String(e?.message || "Save failed")))}
+                onClick={() => onSaveQuoteOptions().catch((e) => setError(errorMessage(e, "Save failed")))}
                 disabled={saving}
                 className="rounded bg-cyan-600 px-3 py-2 text-xs font-medium text-white hover:bg-cyan-500/100 disabled:opacity-60"
               >
@@ -1997,7 +1744,7 @@ export default function SettingsPage() {
                   if (e.key === "Enter" && !e.shiftKey) {
                     e.preventDefault();
                     if (!aiTestBusy && String(aiTestInput || "").trim()) {
-                      runAiTestSend().catch((err) => setError(String(err?.message || "AI test failed")));
+                      runAiTestSend().catch((err) => setError(errorMessage(err, "AI test failed")));
                     }
                   }
                 }}
@@ -2013,7 +1760,7 @@ export default function SettingsPage() {
                 </button>
                 <button
                   type="button"
-                  onClick={() => runAiTestSend().catch((e) => setError(String(e?.message || "AI test failed")))}
+                  onClick={() => runAiTestSend().catch((e) => setError(errorMessage(e, "AI test failed")))}
                   disabled={aiTestBusy || !String(aiTestInput || "").trim()}
                   className="rounded bg-cyan-600 px-3 py-2 text-xs font-medium text-white hover:bg-cyan-500/100 disabled:opacity-60"
                 >
@@ -5,10 +5,9 @@ import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-
-const API_BASE =
-  process.env.NEXT_PUBLIC_API_BASE ||
-  "https://infinitedrip-backend.onrender.com";
+import { checkPassword, PASSWORD_REQUIREMENTS } from "@/lib/passwordPolicy";
+import { solveChallenge } from "@/lib/powSolver";
+import PasswordStrength from "@/app/PasswordStrength";
 
 export default function SignupPage() {
   const [firstName, setFirstName] = useState("");
@@ -36,6 +35,11 @@ export default function SignupPage() {
     setError("");
     setSuccess("");
 
+    const passwordCheck = checkPassword(password, { email });
+    if (!passwordCheck.ok) {
+      setError(passwordCheck.errors[0]);
+      return;
+    }
     if (password !== confirmPassword) {
       setError("Passwords do not match.");
       return;
@@ -43,7 +47,9 @@ export default function SignupPage() {
 
     setLoading(true);
     try {
-      const resp = await fetch(`${API_BASE}/auth/signup`, {
+      // Relayed through app/api/auth/signup, which rate-limits and checks the proof of work.
+      const solution = await solveChallenge();
+      const resp = await fetch("/api/auth/signup", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -56,6 +62,7 @@ export default function SignupPage() {
           website,
           agreementAccepted,
           agreementViewed: agreementOpened,
+          ...solution,
         }),
       });
 
@@ -67,9 +74,10 @@ export default function SignupPage() {
         else if (code === "invite_invalid") setError("This invite is invalid, revoked, or expired.");
         else if (code === "invite_email_mismatch") setError("This invite is for a different email address.");
         else if (code === "rate_limited") setError("Too many signup attempts from this network. Please wait a bit and try again.");
+        else if (code === "challenge_failed") setError("The security check did not pass. Please try again.");
         else if (code === "agreement_view_required") setError("Please open and review the Beta Tester Agreement.");
         else if (code === "agreement_required") setError("You must accept the User Agreement.");
-        else if (code === "weak_password") setError("Password must be at least 8 characters.");
+        else if (code === "weak_password") setError(PASSWORD_REQUIREMENTS);
         else setError("Signup failed. Please check your details.");
         return;
       }
@@ -84,6 +92,8 @@ export default function SignupPage() {
       setWebsite("");
       setAgreementOpened(false);
       setAgreementAccepted(false);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Signup failed. Please try again.");
     } finally {
       setLoading(false);
     }
@@ -105,6 +115,7 @@ export default function SignupPage() {
             <Input type="email" placeholder="Email" value={email} onChange={(e) => setEmail(e.target.value)} />
             {inviteToken ? <p className="text-xs text-gray-600">Invite code detected.</p> : null}
             <Input type="password" placeholder="Password" value={password} onChange={(e) => setPassword(e.target.value)} />
+            <PasswordStrength password={password} email={email} />
             <Input
               type="password"
               placeholder="Confirm password"
@@ -2,31 +2,7 @@
 
 import * as React from "react";
 import Link from "next/link";
-import { apiFetch } from "@/lib/apiFetch";
-
-type Lead = {
-  id: number;
-  status?: string | null;
-  source?: string | null;
-  createdAt?: string | null;
-  created_at?: string | null;
-  created?: string | null;
-
-  firstInboundAt?: string | null;
-  firstOutboundAt?: string | null;
-
-  lastMessageDirection?: "in" | "out" | null;
-  inboundCount?: number | null;
-  inbound_count?: number | null;
-  inbound?: number | null;
-  lastMessageAt?: string | null;
-  last_message_at?: string | null;
-  last_message?: string | null;
-};
-
-type LeadsResponse = {
-  leads?: Lead[];
-};
+import { errorMessage, useLeadList, type Lead } from "@/lib/api";
 
 function toMs(v?: string | null): number | null {
   if (!v) return null;
@@ -58,16 +34,6 @@ function srcLabel(src?: string | null) {
   return s;
 }
 
-function normalizeLead(raw: any): Lead {
-  return {
-    ...raw,
-    createdAt: raw?.createdAt ?? raw?.created_at ?? raw?.created ?? null,
-    inboundCount: Number(raw?.inboundCount ?? raw?.inbound_count ?? raw?.inbound ?? 0),
-    lastMessageAt: raw?.lastMessageAt ?? raw?.last_message_at ?? null,
-    source: String(raw?.source || "manual"),
-  };
-}
-
 function median(values: number[]) {
   if (values.length === 0) return null;
   const sorted = [...values].sort((a, b) => a - b);
@@ -83,46 +49,9 @@ function avg(values: number[]) {
 }
 
 export default function StatsPage() {
-  const API_BASE =
-    (process.env.NEXT_PUBLIC_API_BASE && process.env.NEXT_PUBLIC_API_BASE.trim()) ||
-    "https://infinitedrip-backend.onrender.com";
-
-  const [leads, setLeads] = React.useState<Lead[]>([]);
-  const [error, setError] = React.useState("");
-
-  async function load() {
-    const r = await apiFetch(`${API_BASE}/api/leads`, { cache: "no-store" });
-    if (!r.ok) throw new Error("Failed");
-    const data: any = await r.json();
-    const listRaw: Lead[] = Array.isArray(data) ? data : (data as LeadsResponse)?.leads ?? [];
-    const list = listRaw.map((l: any) => normalizeLead(l));
-    setLeads(list);
-  }
-
-  React.useEffect(() => {
-    let dead = false;
-    let timer: ReturnType<typeof setTimeout> | null = null;
-    async function tick() {
-      let ok = false;
-      try {
-        await load();
-        ok = true;
-        if (!dead) setError("");
-      } catch {
-        if (!dead) setError("Load failed");
-      } finally {
-        if (!dead) {
-          const delayMs = ok ? 7000 : 20000;
-          timer = setTimeout(tick, delayMs);
-        }
-      }
-    }
-    tick();
-    return () => {
-      dead = true;
-      if (timer) clearTimeout(timer);
-    };
-  }, [API_BASE]);
+  const leadList = useLeadList({}, { pollMs: 7000, errorPollMs: 20000 });
+  const leads = React.useMemo(() => leadList.data?.leads ?? [], [leadList.data]);
+  const error = leadList.error ? errorMessage(leadList.error, "Load failed") : "";
 
   const bySource = React.useMemo(() => {
     const map = new Map<string, Lead[]>();
@@ -0,0 +1,248 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import {
+  createTeamInvite,
+  errorMessage,
+  removeTeamMember,
+  revokeTeamInvite,
+  setMemberRoundRobin,
+  updateTeam,
+  useTeam,
+  useTeamInvites,
+  type TeamMember,
+} from "@/lib/api";
+
+function fmtDate(v?: string | null) {
+  if (!v) return "";
+  const d = new Date(v.includes("T") ? v : `${v.replace(" ", "T")}Z`);
+  if (Number.isNaN(d.getTime())) return String(v);
+  return d.toLocaleString();
+}
+
+export default function TeamPage() {
+  const team = useTeam();
+  const invites = useTeamInvites();
+  const [busy, setBusy] = React.useState("");
+  const [error, setError] = React.useState("");
+  const [inviteEmail, setInviteEmail] = React.useState("");
+  const [inviteExpiryDays, setInviteExpiryDays] = React.useState("7");
+  const [inviteUrl, setInviteUrl] = React.useState("");
+
+  const members = team.data?.members ?? [];
+  const agents = members.filter((m) => m.role === "agent");
+  const rotation = members.filter((m) => m.round_robin);
+
+  async function run(key: string, fallback: string, action: () => Promise<unknown>) {
+    setBusy(key);
+    setError("");
+    try {
+      await action();
+    } catch (e) {
+      setError(errorMessage(e, fallback));
+    } finally {
+      setBusy("");
+    }
+  }
+
+  function onToggleRoundRobin(enabled: boolean) {
+    return run("round-robin", "Could not update round-robin.", () => updateTeam({ round_robin_enabled: enabled }));
+  }
+
+  function onToggleMember(m: TeamMember) {
+    return run(`member:${m.email}`, "Could not update member.", () => setMemberRoundRobin(m.email, !m.round_robin));
+  }
+
+  function onRemove(m: TeamMember) {
+    if (!window.confirm(`Remove ${m.name || m.email} from the team? Their leads become unassigned.`)) return;
+    return run(`remove:${m.email}`, "Could not remove member.", () => removeTeamMember(m.email));
+  }
+
+  function onCreateInvite(e: React.FormEvent) {
+    e.preventDefault();
+    setInviteUrl("");
+    const days = Number(inviteExpiryDays || "7");
+    const expiresMinutes = Math.max(1, Math.round((Number.isFinite(days) && days > 0 ? days : 7) * 24 * 60));
+    return run("invite", "Could not create invite.", async () => {
+      setInviteUrl(await createTeamInvite({ email: inviteEmail.trim(), expiresMinutes }));
+      setInviteEmail("");
+    });
+  }
+
+  return (
+    <div className="mx-auto max-w-5xl rounded-2xl border border-border/70 bg-card/40 p-6 shadow-xl backdrop-blur-sm">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <h1 className="text-2xl font-semibold text-foreground">{team.data?.name || "Team"}</h1>
+        <Link className="text-sm text-cyan-400 underline decoration-cyan-500/40" href="/leads">
+          Leads
+        </Link>
+      </div>
+      <p className="mb-4 text-sm text-muted-foreground">
+        Agents you invite work their own leads; as owner you see the whole team&apos;s book and decide who gets which lead.
+      </p>
+
+      {error ? <div className="mb-4 rounded border border-rose-400/40 bg-rose-500/10 p-3 text-sm text-rose-300">{error}</div> : null}
+      {team.error && team.data === undefined ? (
+        <div className="mb-4 text-sm text-rose-300">{errorMessage(team.error, "Could not load team.")}</div>
+      ) : null}
+
+      <div className="space-y-6">
+        <section className="rounded border border-border/70 bg-card/70 p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="text-lg font-medium text-foreground">Members</h2>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={!!team.data?.round_robin_enabled}
+                disabled={!team.data || busy !== ""}
+                onChange={(e) => onToggleRoundRobin(e.target.checked)}
+              />
+              Assign new leads round-robin
+            </label>
+          </div>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {team.data?.round_robin_enabled
+              ? `New leads rotate between ${rotation.length} member${rotation.length === 1 ? "" : "s"}.`
+              : "New leads stay unassigned until you hand them out from the leads table."}
+          </p>
+
+          {team.data === undefined && !team.error ? <div className="mt-3 text-sm text-muted-foreground">Loading team...</div> : null}
+          {team.data !== undefined && agents.length === 0 ? (
+            <div className="mt-3 text-sm text-muted-foreground">No agents yet. Invite one below.</div>
+          ) : null}
+
+          {members.length > 0 ? (
+            <div className="mt-3 overflow-x-auto rounded border border-border/70">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/70 text-muted-foreground">
+                  <tr>
+                    <th className="px-3 py-1.5 text-left">Member</th>
+                    <th className="px-3 py-1.5 text-left">Role</th>
+                    <th className="px-3 py-1.5 text-right">Open leads</th>
+                    <th className="px-3 py-1.5 text-left">Joined</th>
+                    <th className="px-3 py-1.5 text-left">Round-robin</th>
+                    <th className="px-3 py-1.5 text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {members.map((m) => (
+                    <tr key={m.email} className="border-t border-border/70">
+                      <td className="px-3 py-1.5">
+                        <div className="font-medium text-foreground">{m.name || m.email}</div>
+                        {m.name ? <div className="text-xs text-muted-foreground">{m.email}</div> : null}
+                      </td>
+                      <td className="px-3 py-1.5 capitalize">{m.role}</td>
+                      <td className="px-3 py-1.5 text-right">
+                        <Link
+                          className="text-cyan-400 underline decoration-cyan-500/40"
+                          href={`/leads?assignee=${encodeURIComponent(m.email)}`}
+                        >
+                          {m.open_leads}
+                        </Link>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-1.5 text-muted-foreground">{fmtDate(m.joined_at) || "-"}</td>
+                      <td className="px-3 py-1.5">
+                        <input
+                          type="checkbox"
+                          aria-label={`Include ${m.email} in round-robin`}
+                          checked={m.round_robin}
+                          disabled={busy !== ""}
+                          onChange={() => onToggleMember(m)}
+                        />
+                      </td>
+                      <td className="px-3 py-1.5 text-right">
+                        {m.role === "agent" ? (
+                          <button
+                            type="button"
+                            onClick={() => onRemove(m)}
+                            disabled={busy !== ""}
+                            className="rounded border border-rose-400/40 px-2 py-1 text-xs text-rose-300 hover:bg-rose-500/10 disabled:opacity-60"
+                          >
+                            {busy === `remove:${m.email}` ? "Removing..." : "Remove"}
+                          </button>
+                        ) : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+        </section>
+
+        <section className="rounded border border-border/70 bg-card/70 p-4">
+          <h2 className="text-lg font-medium text-foreground">Invite Agent</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            The agent signs up with this link and joins your team once their account is approved.
+          </p>
+          <form onSubmit={onCreateInvite} className="mt-3 grid gap-2 md:grid-cols-4">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="Agent email"
+              required
+              className="rounded border border-border px-3 py-2 text-sm md:col-span-2"
+            />
+            <input
+              type="number"
+              min={1}
+              value={inviteExpiryDays}
+              onChange={(e) => setInviteExpiryDays(e.target.value)}
+              placeholder="Expiry days"
+              className="rounded border border-border px-3 py-2 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={busy !== ""}
+              className="rounded bg-cyan-600 px-3 py-2 text-sm text-white hover:bg-cyan-500 disabled:opacity-60"
+            >
+              {busy === "invite" ? "Creating..." : "Create Invite"}
+            </button>
+          </form>
+          {inviteUrl ? (
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span className="break-all">{inviteUrl}</span>
+              <button
+                type="button"
+                onClick={() => navigator.clipboard.writeText(inviteUrl).catch(() => {})}
+                className="rounded border border-border px-2 py-1 hover:bg-muted/40"
+              >
+                Copy
+              </button>
+            </div>
+          ) : null}
+
+          {(invites.data ?? []).length > 0 ? (
+            <div className="mt-4 space-y-2">
+              <div className="font-medium text-foreground">Recent Invites</div>
+              {(invites.data ?? []).map((inv) => (
+                <div key={inv.id} className="rounded border border-border/60 p-2 text-xs text-muted-foreground">
+                  <div>
+                    {inv.email || "(any email)"} | status {inv.status || "unknown"}
+                  </div>
+                  <div>
+                    Created: {fmtDate(inv.created_at)} | Expires: {fmtDate(inv.expires_at)}
+                    {inv.used_at ? ` | Used: ${fmtDate(inv.used_at)}` : ""}
+                    {inv.revoked_at ? ` | Revoked: ${fmtDate(inv.revoked_at)}` : ""}
+                  </div>
+                  {!inv.used_at && !inv.revoked_at ? (
+                    <button
+                      type="button"
+                      onClick={() => run(`revoke:${inv.id}`, "Could not revoke invite.", () => revokeTeamInvite(inv.id))}
+                      disabled={busy !== ""}
+                      className="mt-2 rounded border border-rose-400/40 px-2 py-1 text-xs text-rose-300 hover:bg-rose-500/10 disabled:opacity-60"
+                    >
+                      Revoke
+                    </button>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import * as React from "react";
+
+// The current time, refreshed every second until `untilMs` has passed. Call
+// it from the small component that shows a countdown so the tick re-renders
+// that label only, not the page around it.
+export function useNow(untilMs: number | null) {
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    if (!untilMs) return;
+    const tick = () => {
+      const t = Date.now();
+      setNow(t);
+      if (t >= untilMs) window.clearInterval(id);
+    };
+    // Catch up right away when the deadline changes after mount.
+    const first = window.setTimeout(tick, 0);
+    const id = window.setInterval(tick, 1000);
+    return () => {
+      window.clearTimeout(first);
+      window.clearInterval(id);
+    };
+  }, [untilMs]);
+
+  return now;
+}
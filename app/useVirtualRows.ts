@@ -0,0 +1,97 @@
+"use client";
+
+import * as React from "react";
+
+// Windowed rendering for long lists inside a scroll container. Only the rows
+// near the viewport are rendered; spacers of `padTop`/`padBottom` pixels keep
+// the scrollbar honest. Row heights start at `estimateHeight` and are
+// replaced by measured heights as rows mount, keyed so inserts at the top
+// don't shuffle them.
+export function useVirtualRows({
+  scrollRef,
+  keys,
+  estimateHeight,
+  overscanPx = 600,
+}: {
+  scrollRef: React.RefObject<HTMLElement | null>;
+  keys: readonly React.Key[];
+  estimateHeight: number;
+  overscanPx?: number;
+}) {
+  const [heights, setHeights] = React.useState(() => new Map<React.Key, number>());
+  const [viewport, setViewport] = React.useState({ top: 0, height: 0 });
+  // Heights measured since the last flush, and everything measured so far.
+  const pendingRef = React.useRef(new Map<React.Key, number>());
+  const knownRef = React.useRef(new Map<React.Key, number>());
+  const flushRef = React.useRef(0);
+
+  React.useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      setViewport({ top: el.scrollTop, height: el.clientHeight });
+    };
+    const schedule = () => {
+      if (!frame) frame = window.requestAnimationFrame(update);
+    };
+    schedule();
+    el.addEventListener("scroll", schedule, { passive: true });
+    const resize = new ResizeObserver(schedule);
+    resize.observe(el);
+    return () => {
+      if (frame) window.cancelAnimationFrame(frame);
+      el.removeEventListener("scroll", schedule);
+      resize.disconnect();
+    };
+  }, [scrollRef]);
+
+  React.useEffect(() => () => window.cancelAnimationFrame(flushRef.current), []);
+
+  const range = React.useMemo(() => {
+    const lo = viewport.top - overscanPx;
+    // Before the first measurement, render one screen's worth.
+    const hi = viewport.top + (viewport.height || 800) + overscanPx;
+    let offset = 0;
+    let start = -1;
+    let padTop = 0;
+    let end = keys.length;
+    for (let i = 0; i < keys.length; i += 1) {
+      const h = heights.get(keys[i]) ?? estimateHeight;
+      if (start === -1 && offset + h > lo) {
+        start = i;
+        padTop = offset;
+      }
+      if (offset >= hi) {
+        end = i;
+        break;
+      }
+      offset += h;
+    }
+    if (start === -1) {
+      start = end;
+      padTop = offset;
+    }
+    let padBottom = 0;
+    for (let i = end; i < keys.length; i += 1) padBottom += heights.get(keys[i]) ?? estimateHeight;
+    return { start, end, padTop, padBottom };
+  }, [keys, heights, viewport, estimateHeight, overscanPx]);
+
+  const measureRef = React.useCallback((key: React.Key) => (el: HTMLElement | null) => {
+    if (!el) return;
+    const h = el.offsetHeight;
+    if (!h || knownRef.current.get(key) === h) return;
+    knownRef.current.set(key, h);
+    pendingRef.current.set(key, h);
+    // One re-layout per frame however many rows were measured.
+    window.cancelAnimationFrame(flushRef.current);
+    flushRef.current = window.requestAnimationFrame(() => {
+      const pending = pendingRef.current;
+      pendingRef.current = new Map();
+      setHeights((prev) => new Map([...prev, ...pending]));
+    });
+  }, []);
+
+  return { ...range, measureRef };
+}
@@ -0,0 +1,519 @@
+import { updateSession } from "@/lib/apiFetch";
+import { resolvePermissions, type Capability } from "@/lib/permissions";
+import { requestJson, requestOk } from "./client";
+import { invalidateQueries } from "./query";
+import { arrayOf, bool, flag, maybe, nullable, num, record, recordOf, shape, str, withDefault, type Decoder } from "./schema";
+import { decodeAuditRow, decodeDeliveryEvent, type AuditRow, type DeliveryEvent } from "./models";
+
+const decodeAuditLogs = shape<{ logs: AuditRow[] }>({
+  logs: withDefault(arrayOf(decodeAuditRow), []),
+});
+
+export async function listAuditLogs(limit = 200) {
+  const body = await requestJson(`/api/admin/audit-logs?limit=${limit}`, decodeAuditLogs, { label: "Load audit log" });
+  return body.logs;
+}
+
+const decodeDeliveryEvents = shape<{ events: DeliveryEvent[] }>({
+  events: withDefault(arrayOf(decodeDeliveryEvent), []),
+});
+
+export async function listTextdripDeliveryEvents(params: URLSearchParams) {
+  const body = await requestJson(`/api/admin/textdrip/delivery-events?${params.toString()}`, decodeDeliveryEvents, {
+    label: "Load delivery events",
+  });
+  return body.events;
+}
+
+// Replaces the user's granted capabilities with exactly `permissions`.
+export function setUserPermissions(userId: number, permissions: Capability[]) {
+  return requestOk(`/api/admin/users/${userId}/permissions`, {
+    label: "Permission update",
+    method: "PUT",
+    json: { permissions },
+  });
+}
+
+export function setUserTwoFactorRequired(userId: number, required: boolean) {
+  return requestOk(`/api/admin/users/${userId}/2fa/required`, {
+    label: "Two-factor requirement update",
+    method: "PUT",
+    json: { required },
+  });
+}
+
+// Clears the user's secret and recovery codes so they can enroll again.
+export function resetUserTwoFactor(userId: number) {
+  return requestOk(`/api/admin/users/${userId}/2fa/reset`, { label: "Two-factor reset", method: "POST" });
+}
+
+// A "view as user" session. While it is active apiFetch sends the user's
+// email as x-user-id, so every screen shows exactly what they see.
+export type Impersonation = {
+  id: string;
+  email: string;
+  permissions: Capability[];
+};
+
+const decodeImpersonation: Decoder<Impersonation> = (value, path) => {
+  const raw = record(record(value, path).impersonation, `${path}.impersonation`);
+  const user = record(raw.user, `${path}.impersonation.user`);
+  return {
+    id: str(raw.id, `${path}.impersonation.id`),
+    email: str(user.email, `${path}.impersonation.user.email`),
+    permissions: resolvePermissions(user),
+  };
+};
+
+// The backend writes the start and stop events to the audit log; the session
+// claim is what apiFetch and proxy.ts read afterwards. Only the id goes to the
+// session: the jwt callback looks it up and takes email and permissions from there.
+export async function startImpersonation(userId: number) {
+  const impersonation = await requestJson("/api/admin/impersonation", decodeImpersonation, {
+    label: "View as user",
+    method: "POST",
+    json: { user_id: userId },
+  });
+  const session = await updateSession({ impersonate: { id: impersonation.id } });
+  if (!session?.impersonating) {
+    await requestOk(`/api/admin/impersonation/${encodeURIComponent(impersonation.id)}/stop`, {
+      label: "Exit view as user",
+      method: "POST",
+    }).catch(() => {});
+    throw new Error("View as user failed: session was not updated.");
+  }
+  return impersonation;
+}
+
+export async function stopImpersonation(id: string) {
+  try {
+    await requestOk(`/api/admin/impersonation/${encodeURIComponent(id)}/stop`, { label: "Exit view as user", method: "POST" });
+  } finally {
+    // Drop the claim even if the backend already ended the session.
+    await updateSession({ impersonate: null });
+  }
+}
+
+export type ApprovalStatus = "pending" | "approved" | "suspended" | "rejected";
+export type BillingStatus = "trial" | "active" | "past_due" | "canceled" | "none";
+
+export type AdminUser = {
+  id: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone: string;
+  createdAt: string | null;
+  approval_status: string;
+  approved_at: string | null;
+  billing_status: string;
+  trial_ends_at: string | null;
+  role: string;
+  email_lead_import_access: boolean;
+  // Absent on backends that predate per-user permissions; see resolvePermissions.
+  permissions?: string[];
+  two_factor_enabled: boolean;
+  two_factor_required: boolean;
+};
+
+const text = withDefault(str, "");
+
+const decodeAdminUser = shape<AdminUser>({
+  id: num,
+  email: text,
+  first_name: text,
+  last_name: text,
+  phone: text,
+  createdAt: nullable(str),
+  approval_status: text,
+  approved_at: nullable(str),
+  billing_status: text,
+  trial_ends_at: nullable(str),
+  role: text,
+  email_lead_import_access: withDefault(bool, false),
+  permissions: maybe(arrayOf(str)),
+  two_factor_enabled: withDefault(bool, false),
+  two_factor_required: withDefault(bool, false),
+});
+
+export async function listAdminUsers(status: "all" | ApprovalStatus) {
+  const body = await requestJson(
+    `/api/admin/users?status=${status}`,
+    shape<{ users: AdminUser[] }>({ users: withDefault(arrayOf(decodeAdminUser), []) }),
+    { label: "Load users" }
+  );
+  return body.users;
+}
+
+export type AdminUserAction =
+  | "approve"
+  | "reject"
+  | "suspend"
+  | "reactivate"
+  | "delete"
+  | "delete-account"
+  | "resend-approval-email"
+  | "send-reset-email";
+
+// "delete" removes a pending signup; "delete-account" wipes an approved
+// user's data as well.
+export function runAdminUserAction(userId: number, action: AdminUserAction) {
+  if (action === "delete") {
+    return requestOk(`/api/admin/users/${userId}`, { label: "Delete", method: "DELETE" });
+  }
+  return requestOk(`/api/admin/users/${userId}/${action}`, { label: action, method: "POST" });
+}
+
+export type UserBillingUpdate = {
+  billing_status: BillingStatus;
+  trial_ends_at: string | null;
+  stripe_customer_id?: string;
+  stripe_subscription_id?: string;
+};
+
+export function setUserBilling(userId: number, update: UserBillingUpdate) {
+  return requestOk(`/api/admin/users/${userId}/billing`, { label: "Billing update", method: "POST", json: update });
+}
+
+export type SetupCheck = {
+  key: string;
+  label: string;
+  status: string;
+  detail: string;
+};
+
+export type AdminSystemStatus = {
+  email_configured: boolean;
+  email_from: string;
+  google_oauth_configured: boolean;
+  user_counts: Record<string, number>;
+  setup_checks: SetupCheck[];
+};
+
+const decodeAdminSystemStatus = shape<AdminSystemStatus>({
+  email_configured: withDefault(bool, false),
+  email_from: text,
+  google_oauth_configured: withDefault(bool, false),
+  user_counts: withDefault(recordOf(num), {}),
+  setup_checks: withDefault(
+    arrayOf(shape<SetupCheck>({ key: text, label: text, status: text, detail: text })),
+    []
+  ),
+});
+
+const emptySystemStatus: AdminSystemStatus = {
+  email_configured: false,
+  email_from: "",
+  google_oauth_configured: false,
+  user_counts: {},
+  setup_checks: [],
+};
+
+export async function getAdminSystemStatus() {
+  const body = await requestJson(
+    "/api/admin/system-status",
+    shape<{ status: AdminSystemStatus }>({ status: withDefault(decodeAdminSystemStatus, emptySystemStatus) }),
+    { label: "Load status" }
+  );
+  return body.status;
+}
+
+export type AdminInvite = {
+  id: number;
+  email: string;
+  role: string;
+  created_by: string;
+  created_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  used_at: string | null;
+  status: string;
+};
+
+const decodeInvite = shape<AdminInvite>({
+  id: num,
+  email: text,
+  role: text,
+  created_by: text,
+  created_at: nullable(str),
+  expires_at: nullable(str),
+  revoked_at: nullable(str),
+  used_at: nullable(str),
+  status: text,
+});
+
+export async function listAdminInvites(limit = 20) {
+  const body = await requestJson(
+    `/api/admin/invites?limit=${limit}`,
+    shape<{ invites: AdminInvite[] }>({ invites: withDefault(arrayOf(decodeInvite), []) }),
+    { label: "Load invites" }
+  );
+  return body.invites;
+}
+
+// Returns the signup link to hand to the invitee.
+export async function createAdminInvite(input: { email: string; role: string; expiresMinutes: number }) {
+  const body = await requestJson("/api/admin/invites", shape<{ signup_url: string }>({ signup_url: text }), {
+    label: "Create invite",
+    method: "POST",
+    json: input,
+  });
+  return body.signup_url;
+}
+
+export function revokeAdminInvite(id: number) {
+  return requestOk(`/api/admin/invites/${id}/revoke`, { label: "Revoke invite", method: "POST" });
+}
+
+export type LeadIntegrityResult = {
+  scanned: number;
+  affected_rows: number;
+  fixed_rows: number;
+  issue_counts: Record<string, number>;
+};
+
+const count = withDefault(num, 0);
+
+const decodeLeadIntegrityResult = shape<LeadIntegrityResult>({
+  scanned: count,
+  affected_rows: count,
+  fixed_rows: count,
+  issue_counts: withDefault(recordOf(num), {}),
+});
+
+// Scans lead rows for malformed fields; with `apply` the backend also
+// rewrites the rows it can fix.
+export async function checkLeadIntegrity(opts: { limit: number; sample: number; apply: boolean; userId?: string }) {
+  const params = new URLSearchParams({
+    limit: String(opts.limit),
+    sample: String(opts.sample),
+    apply: opts.apply ? "1" : "0",
+  });
+  if (opts.userId) params.set("user_id", opts.userId);
+  const body = await requestJson(
+    `/api/admin/data-integrity/leads?${params.toString()}`,
+    shape<{ result: LeadIntegrityResult | null }>({ result: nullable(decodeLeadIntegrityResult) }),
+    { label: "Lead integrity check" }
+  );
+  if (opts.apply) await invalidateQueries("leads");
+  return body.result;
+}
+
+export type TextdripDeliverySummary = {
+  window_hours: number;
+  delivery_events: {
+    total: number;
+    delivered: number;
+    failed: number;
+    opt_out: number;
+    opt_in: number;
+    unique_phones: number;
+    latest_event_at: string | null;
+    by_status: Record<string, number>;
+  };
+  suppressed_contacts: { active: number };
+};
+
+// Missing sections decode as if every field were absent.
+function orEmpty<T>(decoder: Decoder<T>): Decoder<T> {
+  return (value, path) => decoder(value ?? {}, path);
+}
+
+const decodeActiveCount = orEmpty(shape<{ active: number }>({ active: count }));
+
+const decodeTextdripDeliverySummary = shape<TextdripDeliverySummary>({
+  window_hours: count,
+  delivery_events: orEmpty(
+    shape<TextdripDeliverySummary["delivery_events"]>({
+      total: count,
+      delivered: count,
+      failed: count,
+      opt_out: count,
+      opt_in: count,
+      unique_phones: count,
+      latest_event_at: nullable(str),
+      by_status: withDefault(recordOf(num), {}),
+    })
+  ),
+  suppressed_contacts: decodeActiveCount,
+});
+
+// `params` carries the page's filters (hours, user_id, phone).
+export async function getTextdripDeliverySummary(params: URLSearchParams) {
+  const body = await requestJson(
+    `/api/admin/textdrip/summary?${params.toString()}`,
+    shape<{ summary: TextdripDeliverySummary | null }>({ summary: nullable(decodeTextdripDeliverySummary) }),
+    { label: "Load summary" }
+  );
+  return body.summary;
+}
+
+// A phone number Textdrip will not text, usually after a STOP reply.
+export type SuppressedContact = {
+  id: number;
+  user_id: string;
+  phone: string;
+  reason: string;
+  source: string;
+  active: number;
+  payload: Record<string, unknown> | null;
+  updated_at: string | null;
+};
+
+const decodeSuppressedContact = shape<SuppressedContact>({
+  id: num,
+  user_id: text,
+  phone: text,
+  reason: text,
+  source: text,
+  active: flag(0),
+  payload: nullable(record),
+  updated_at: nullable(str),
+});
+
+export async function listTextdripSuppressedContacts(params: URLSearchParams) {
+  const body = await requestJson(
+    `/api/admin/textdrip/suppressed-contacts?${params.toString()}`,
+    shape<{ contacts: SuppressedContact[] }>({ contacts: withDefault(arrayOf(decodeSuppressedContact), []) }),
+    { label: "Load suppressed contacts" }
+  );
+  return body.contacts;
+}
+
+export function setTextdripContactSuppressed(id: number, active: boolean) {
+  return requestOk(`/api/admin/textdrip/suppressed-contacts/${id}`, { label: "Update", method: "PUT", json: { active } });
+}
+
+export type EmailDeliverySummary = {
+  window_hours: number;
+  delivery_events: {
+    total: number;
+    delivered: number;
+    failed: number;
+    opened: number;
+    clicked: number;
+    complaints: number;
+    unique_emails: number;
+    latest_event_at: string | null;
+    by_status: Record<string, number>;
+  };
+  suppressed_emails: { active: number };
+};
+
+// How outbound email is wired up on the backend.
+export type EmailConfig = {
+  resend_configured: boolean;
+  email_from: string;
+  webhook_secret_set: boolean;
+  webhook_url: string;
+};
+
+const decodeEmailDeliverySummary = shape<EmailDeliverySummary>({
+  window_hours: count,
+  delivery_events: orEmpty(
+    shape<EmailDeliverySummary["delivery_events"]>({
+      total: count,
+      delivered: count,
+      failed: count,
+      opened: count,
+      clicked: count,
+      complaints: count,
+      unique_emails: count,
+      latest_event_at: nullable(str),
+      by_status: withDefault(recordOf(num), {}),
+    })
+  ),
+  suppressed_emails: decodeActiveCount,
+});
+
+const decodeEmailConfig = orEmpty(shape<EmailConfig>({
+  resend_configured: withDefault(bool, false),
+  email_from: text,
+  webhook_secret_set: withDefault(bool, false),
+  webhook_url: text,
+}));
+
+export async function getEmailDeliverySummary(params: URLSearchParams) {
+  return requestJson(
+    `/api/admin/email/summary?${params.toString()}`,
+    shape<{ summary: EmailDeliverySummary | null; config: EmailConfig }>({
+      summary: nullable(decodeEmailDeliverySummary),
+      config: decodeEmailConfig,
+    }),
+    { label: "Load summary" }
+  );
+}
+
+export type EmailDeliveryEvent = {
+  id: number;
+  user_id: string;
+  email: string;
+  provider_message_id: string;
+  event_type: string;
+  status: string;
+  subject: string;
+  from_email: string;
+  to_email: string;
+  error_reason: string;
+  payload: Record<string, unknown> | null;
+  created_at: string | null;
+};
+
+const decodeEmailDeliveryEvent = shape<EmailDeliveryEvent>({
+  id: num,
+  user_id: text,
+  email: text,
+  provider_message_id: text,
+  event_type: text,
+  status: text,
+  subject: text,
+  from_email: text,
+  to_email: text,
+  error_reason: text,
+  payload: nullable(record),
+  created_at: nullable(str),
+});
+
+export async function listEmailDeliveryEvents(params: URLSearchParams) {
+  const body = await requestJson(
+    `/api/admin/email/delivery-events?${params.toString()}`,
+    shape<{ events: EmailDeliveryEvent[] }>({ events: withDefault(arrayOf(decodeEmailDeliveryEvent), []) }),
+    { label: "Load events" }
+  );
+  return body.events;
+}
+
+export type SuppressedEmail = {
+  id: number;
+  user_id: string;
+  email: string;
+  reason: string;
+  source: string;
+  active: number;
+  payload: Record<string, unknown> | null;
+  updated_at: string | null;
+};
+
+const decodeSuppressedEmail = shape<SuppressedEmail>({
+  id: num,
+  user_id: text,
+  email: text,
+  reason: text,
+  source: text,
+  active: flag(0),
+  payload: nullable(record),
+  updated_at: nullable(str),
+});
+
+export async function listSuppressedEmails(params: URLSearchParams) {
+  const body = await requestJson(
+    `/api/admin/email/suppressed-emails?${params.toString()}`,
+    shape<{ emails: SuppressedEmail[] }>({ emails: withDefault(arrayOf(decodeSuppressedEmail), []) }),
+    { label: "Load suppressed emails" }
+  );
+  return body.emails;
+}
+
+export function setEmailSuppressed(id: number, active: boolean) {
+  return requestOk(`/api/admin/email/suppressed-emails/${id}`, { label: "Update", method: "PUT", json: { active } });
+}
@@ -0,0 +1,109 @@
+import { requestJson, requestOk } from "./client";
+import { arrayOf, bool, flag, nullable, num, shape, str, withDefault } from "./schema";
+
+// FAQ answers the AI prefers over free-form replies. Users keep their own;
+// admins keep account-wide defaults ("guardrails") at a parallel path.
+
+export type FaqScope = "user" | "admin_default";
+
+export type AiFaq = {
+  id: number;
+  question: string;
+  answer: string;
+  active: number;
+  // 1-99, lower wins when several FAQs match.
+  priority: number;
+  updated_at: string | null;
+  created_at: string | null;
+};
+
+export type AiFaqInput = {
+  question: string;
+  answer: string;
+  priority: number;
+};
+
+const decodeAiFaq = shape<AiFaq>({
+  id: num,
+  question: withDefault(str, ""),
+  answer: withDefault(str, ""),
+  active: flag(0),
+  priority: withDefault(num, 50),
+  updated_at: nullable(str),
+  created_at: nullable(str),
+});
+
+const decodeAiFaqs = shape<{ faqs: AiFaq[] }>({ faqs: withDefault(arrayOf(decodeAiFaq), []) });
+
+function faqPath(scope: FaqScope) {
+  return scope === "admin_default" ? "/api/admin/ai/default-faqs" : "/api/ai/faqs";
+}
+
+function faqLabel(scope: FaqScope, action: string) {
+  return scope === "admin_default" ? `Admin FAQ ${action}` : `FAQ ${action}`;
+}
+
+export async function listAiFaqs(scope: FaqScope, limit = 200) {
+  const body = await requestJson(`${faqPath(scope)}?limit=${limit}`, decodeAiFaqs, { label: faqLabel(scope, "load") });
+  return body.faqs;
+}
+
+export function createAiFaq(scope: FaqScope, input: AiFaqInput) {
+  return requestOk(faqPath(scope), {
+    label: faqLabel(scope, "create"),
+    method: "POST",
+    json: { ...input, active: true },
+  });
+}
+
+export function updateAiFaq(scope: FaqScope, id: number, patch: Partial<AiFaqInput> & { active?: 0 | 1 }) {
+  return requestOk(`${faqPath(scope)}/${id}`, { label: faqLabel(scope, "update"), method: "PATCH", json: patch });
+}
+
+export function deleteAiFaq(scope: FaqScope, id: number) {
+  return requestOk(`${faqPath(scope)}/${id}`, { label: faqLabel(scope, "delete"), method: "DELETE" });
+}
+
+export type AiTestTurn = {
+  direction: "in" | "out";
+  text: string;
+};
+
+// One dry-run reply for a sandbox conversation. Nothing is sent or stored;
+// the optional fields try out settings before they are saved.
+export type AiTestRequest = {
+  message: string;
+  thread: AiTestTurn[];
+  allow_quote?: boolean;
+  allow_aca?: boolean;
+  quote_ask_plan_type_prompt?: boolean;
+  quote_attempt_set_appointment_in_quote?: boolean;
+  quote_deviation_single?: number;
+  quote_deviation_couple?: number;
+  quote_deviation_per_dependent?: number;
+  schedule_time_mode?: string;
+  lead_timezone?: string;
+};
+
+export type AiTestReply = {
+  reply: string;
+  // Which path produced the reply, e.g. an FAQ match or the model.
+  reply_source: string;
+  state_machine: { next_action: string; strict_enabled: boolean };
+};
+
+const decodeAiTestReply = shape<AiTestReply>({
+  reply: (value, path) => withDefault(str, "")(value, path).trim(),
+  reply_source: withDefault(str, ""),
+  state_machine: withDefault(
+    shape<AiTestReply["state_machine"]>({
+      next_action: withDefault(str, ""),
+      strict_enabled: withDefault(bool, false),
+    }),
+    { next_action: "", strict_enabled: false }
+  ),
+});
+
+export function runAiTest(input: AiTestRequest) {
+  return requestJson("/api/ai/test", decodeAiTestReply, { label: "AI test", method: "POST", json: input });
+}
@@ -0,0 +1,62 @@
+import { ApiError, requestJson } from "./client";
+import { invalidateQueries, useQuery, type QueryOptions } from "./query";
+import { arrayOf, bool, nullable, shape, str, withDefault } from "./schema";
+import { decodeAppointment, decodeCalendarStatus, type Appointment, type CalendarStatus } from "./models";
+
+const decodeAppointmentList = shape<{ events: Appointment[] }>({
+  events: withDefault(arrayOf(decodeAppointment), []),
+});
+
+export async function listAppointments(range: { timeMin: Date; timeMax: Date; maxResults?: number }) {
+  const params = new URLSearchParams({
+    timeMin: range.timeMin.toISOString(),
+    timeMax: range.timeMax.toISOString(),
+    maxResults: String(range.maxResults ?? 500),
+  });
+  const body = await requestJson(`/api/appointments?${params.toString()}`, decodeAppointmentList, {
+    label: "Appointments load",
+  });
+  return body.events;
+}
+
+// Calendar events booked for one lead, soonest first. Under the "leads"
+// prefix so a lead change refreshes them.
+export async function listLeadAppointments(leadId: number | string) {
+  const body = await requestJson(`/api/leads/${leadId}/appointments`, decodeAppointmentList, {
+    label: "Lead appointments load",
+  });
+  return body.events;
+}
+
+export function useLeadAppointments(leadId: number | string | null, query: QueryOptions = {}) {
+  return useQuery(leadId ? `leads:appointments:${leadId}` : null, () => listLeadAppointments(leadId ?? ""), query);
+}
+
+const decodeCalendarStatusBody = shape<{ status: CalendarStatus | null }>({ status: nullable(decodeCalendarStatus) });
+
+export async function getCalendarStatus() {
+  const body = await requestJson("/api/appointments/status", decodeCalendarStatusBody, { label: "Calendar status" });
+  return body.status;
+}
+
+export type AppointmentBooking = {
+  leadId: number;
+  startDateTime: string;
+  endDateTime: string;
+  summary: string;
+  description: string;
+  timeZone: string;
+};
+
+const decodeBookingResult = shape<{ ok: boolean; error: string }>({
+  ok: withDefault(bool, false),
+  error: withDefault(str, ""),
+});
+
+// Creates the calendar event and moves the lead to "booked".
+export async function bookLeadAppointment(booking: AppointmentBooking) {
+  const path = "/api/appointments/book";
+  const body = await requestJson(path, decodeBookingResult, { label: "Booking", method: "POST", json: booking });
+  if (!body.ok) throw new ApiError("Booking", 200, path, body.error || "booking_failed");
+  await Promise.all([invalidateQueries("leads"), invalidateQueries("navigation-activity"), invalidateQueries("savedViews")]);
+}
@@ -0,0 +1,79 @@
+import { apiFetch } from "@/lib/apiFetch";
+import { decode, type Decoder } from "./schema";
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly url: string;
+  readonly details: string;
+
+  constructor(label: string, status: number, url: string, details: string) {
+    super(`${label} failed (${status}): ${details}`);
+    this.name = "ApiError";
+    this.status = status;
+    this.url = url;
+    this.details = details;
+  }
+}
+
+export async function readResponseError(r: Response): Promise<string> {
+  const ct = (r.headers.get("content-type") || "").toLowerCase();
+
+  // Try text first (works for both JSON + HTML)
+  const text = await r.text().catch(() => "");
+
+  // If it's HTML, surface that clearly (usually means we hit Next.js instead of backend)
+  if (ct.includes("text/html") || text.trim().startsWith("<!DOCTYPE html")) {
+    return "Server returned HTML (wrong route / proxy / auth).";
+  }
+
+  if (ct.includes("application/json")) {
+    try {
+      const j = JSON.parse(text || "{}");
+      const msg = j?.error || j?.message || j?.detail || j?.errors?.[0]?.message || "";
+      return msg ? String(msg) : text || "Request failed";
+    } catch {
+      return text || "Request failed";
+    }
+  }
+
+  return text || "Request failed";
+}
+
+export function errorMessage(e: unknown, fallback: string) {
+  if (e instanceof Error && e.message) return e.message;
+  return fallback;
+}
+
+export type RequestOptions = RequestInit & {
+  // Human-readable action used in error messages, e.g. "Load leads".
+  label: string;
+  // Serialized as the JSON request body when present.
+  json?: unknown;
+};
+
+async function send(path: string, { label, json, ...init }: RequestOptions): Promise<Response> {
+  const method = (init.method || "GET").toUpperCase();
+  const r = await apiFetch(path, {
+    cache: method === "GET" ? "no-store" : undefined,
+    ...init,
+    ...(json === undefined ? {} : { body: JSON.stringify(json) }),
+  });
+  if (!r.ok) {
+    const details = await readResponseError(r);
+    throw new ApiError(label, r.status, r.url || path, details);
+  }
+  return r;
+}
+
+// Fetches `path` and validates the JSON body with `decoder`.
+export async function requestJson<T>(path: string, decoder: Decoder<T>, options: RequestOptions): Promise<T> {
+  const r = await send(path, options);
+  const body: unknown = await r.json().catch(() => null);
+  const method = (options.method || "GET").toUpperCase();
+  return decode(decoder, body, `${method} ${path.split("?")[0]}`);
+}
+
+// For mutations whose response body callers do not depend on.
+export async function requestOk(path: string, options: RequestOptions): Promise<void> {
+  await send(path, options);
+}
@@ -0,0 +1,28 @@
+export { ApiError, errorMessage, readResponseError } from "./client";
+export { ApiSchemaError } from "./schema";
+export {
+  fetchQuery,
+  getQueryData,
+  invalidateQueries,
+  removeQuery,
+  setQueryData,
+  useQuery,
+  type QueryOptions,
+  type QueryState,
+} from "./query";
+export * from "./models";
+export * from "./leads";
+export * from "./leadFilters";
+export * from "./savedViews";
+export * from "./messages";
+export * from "./appointments";
+export * from "./templates";
+export * from "./settings";
+export * from "./me";
+export * from "./admin";
+export * from "./realtime";
+export * from "./twoFactor";
+export * from "./sessions";
+export * from "./team";
+export * from "./integrations";
+export * from "./ai";
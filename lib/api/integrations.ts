@@ -0,0 +1,169 @@
+import { requestJson } from "./client";
+import { invalidateQueries } from "./query";
+import { arrayOf, bool, maybe, nullable, num, shape, str, withDefault } from "./schema";
+import { decodeCalendarStatus, type CalendarStatus } from "./models";
+
+// Third-party connections: Google (calendar + Gmail), the Gmail lead
+// importer, and the Textdrip template library.
+
+const decodeGoogleStatus = shape<{ status: CalendarStatus | null }>({ status: nullable(decodeCalendarStatus) });
+
+export async function getGoogleStatus() {
+  const body = await requestJson("/api/integrations/google/status", decodeGoogleStatus, { label: "Google status" });
+  return body.status;
+}
+
+// The OAuth consent URL to send the browser to; Google redirects back to
+// /settings?google=... when the user is done.
+export async function getGoogleAuthUrl() {
+  const body = await requestJson("/api/integrations/google/url", shape<{ url: string }>({ url: str }), {
+    label: "Google connect",
+  });
+  if (!body.url) throw new Error("Missing Google auth URL.");
+  return body.url;
+}
+
+export type GmailLeadImportStatus = {
+  // False when an admin has not enabled email lead import for the account.
+  access_granted?: boolean;
+  configured?: boolean;
+  connected?: boolean;
+  account_email?: string;
+  enabled?: boolean;
+  query?: string;
+  source_hints?: { from: string[]; subject: string[] };
+  auto_text_enabled?: boolean;
+  auto_text_template_set?: boolean;
+  worker_enabled?: boolean;
+  worker_interval_ms?: number;
+  worker_per_user_limit?: number;
+  warning?: string;
+  detail?: string;
+  recent_imports_24h?: number;
+  checked_at?: string;
+};
+
+const optStr = maybe(str);
+const optBool = maybe(bool);
+const optNum = maybe(num);
+const hints = withDefault(arrayOf(str), []);
+
+const decodeGmailLeadImportStatus = shape<GmailLeadImportStatus>({
+  access_granted: optBool,
+  configured: optBool,
+  connected: optBool,
+  account_email: optStr,
+  enabled: optBool,
+  query: optStr,
+  source_hints: maybe(shape<{ from: string[]; subject: string[] }>({ from: hints, subject: hints })),
+  auto_text_enabled: optBool,
+  auto_text_template_set: optBool,
+  worker_enabled: optBool,
+  worker_interval_ms: optNum,
+  worker_per_user_limit: optNum,
+  warning: optStr,
+  detail: optStr,
+  recent_imports_24h: optNum,
+  checked_at: optStr,
+});
+
+export async function getGmailLeadImportStatus() {
+  const body = await requestJson(
+    "/api/integrations/gmail-leads/status",
+    shape<{ status: GmailLeadImportStatus | null }>({ status: nullable(decodeGmailLeadImportStatus) }),
+    { label: "Gmail lead import status" }
+  );
+  return body.status;
+}
+
+export type GmailImportSample = {
+  status: string;
+  reason: string;
+};
+
+export type GmailImportResult = {
+  scanned: number;
+  imported: number;
+  skipped_nonlead: number;
+  deduped: number;
+  // The scan hit the server's hard cap before reaching the end of the query.
+  truncated: boolean;
+  samples: GmailImportSample[];
+};
+
+const count = withDefault(num, 0);
+
+const decodeGmailImportResult = shape<GmailImportResult>({
+  scanned: count,
+  imported: count,
+  skipped_nonlead: count,
+  deduped: count,
+  truncated: withDefault(bool, false),
+  samples: withDefault(
+    arrayOf(shape<GmailImportSample>({ status: withDefault(str, ""), reason: withDefault(str, "") })),
+    []
+  ),
+});
+
+const emptyImportResult: GmailImportResult = {
+  scanned: 0,
+  imported: 0,
+  skipped_nonlead: 0,
+  deduped: 0,
+  truncated: false,
+  samples: [],
+};
+
+// Scans the mailbox now instead of waiting for the worker. A limit of 0 lets
+// the server apply its own cap.
+export async function runGmailLeadImport(opts: { limit: number; dryRun?: boolean }) {
+  const body = await requestJson(
+    "/api/integrations/gmail-leads/import",
+    shape<{ result: GmailImportResult }>({ result: withDefault(decodeGmailImportResult, emptyImportResult) }),
+    { label: "Gmail lead import", method: "POST", json: { limit: opts.limit, dry_run: !!opts.dryRun } }
+  );
+  if (!opts.dryRun) await invalidateQueries("leads");
+  return body.result;
+}
+
+// Sends `message` to `to` through the same path an imported lead's auto-text
+// takes, creating a lead for the number. Returns that lead's id.
+export async function sendGmailLeadTestText(input: { to: string; message: string }) {
+  const body = await requestJson(
+    "/api/integrations/gmail-leads/test-text",
+    shape<{ lead_id: number }>({ lead_id: withDefault(num, 0) }),
+    { label: "Test send", method: "POST", json: input }
+  );
+  await invalidateQueries("leads");
+  return body.lead_id;
+}
+
+// Deletes every lead the importer created for this account.
+export async function purgeGmailImportedLeads() {
+  const body = await requestJson(
+    "/api/integrations/gmail-leads/purge",
+    shape<{ deleted_count: number }>({ deleted_count: withDefault(num, 0) }),
+    { label: "Purge", method: "POST", json: { dry_run: false } }
+  );
+  await invalidateQueries("leads");
+  return body.deleted_count;
+}
+
+export type TextdripTemplateSync = {
+  synced: number;
+  source_url: string;
+  warning: string;
+};
+
+// Pulls the account's Textdrip templates, which doubles as a credentials check.
+export function syncTextdripTemplates() {
+  return requestJson(
+    "/api/textdrip/templates/sync",
+    shape<TextdripTemplateSync>({
+      synced: withDefault(num, 0),
+      source_url: withDefault(str, ""),
+      warning: withDefault(str, ""),
+    }),
+    { label: "Textdrip check", method: "POST" }
+  );
+}
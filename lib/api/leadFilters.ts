@@ -0,0 +1,233 @@
+import { LEAD_STATUSES, type LeadStatus } from "./models";
+
+// Search and facet state of the leads table. It lives in the URL so a filtered
+// list can be bookmarked, and the same shape is sent to GET /api/leads (and
+// the neighbors endpoint) so the server does the matching, including message
+// text, across every page rather than only the rows already loaded.
+
+// Ordering and filter of the leads table. The neighbors endpoint applies the
+// same ones so "next lead" on a thread matches the row below it in the list.
+// "priority" puts leads waiting on a reply first, then hot ones, and engaged
+// leads gone cold last, newest first within each group.
+export type LeadSort = "priority" | "newest" | "oldest";
+export type LeadView = "active" | "archived" | "all";
+
+// Whose leads a list shows. Agents only ever get their own back, so the
+// filter matters to team owners: "me", "unassigned" or a member's email.
+export type LeadAssignee = "all" | "me" | "unassigned" | `${string}@${string}`;
+
+export function parseLeadAssignee(value: unknown): LeadAssignee {
+  const v = String(value || "").trim().toLowerCase();
+  if (v === "me" || v === "unassigned") return v;
+  return v.includes("@") ? (v as LeadAssignee) : "all";
+}
+
+// Source facets as labelled by the leads table badge. Some badges cover more
+// than one stored `source` value.
+export const SOURCE_FACETS = [
+  { value: "textdrip", label: "Textdrip", sources: ["textdrip", "inbound_webhook"] },
+  { value: "csv_import", label: "CSV", sources: ["csv_import"] },
+  { value: "quotewizard", label: "QuoteWizard", sources: ["quotewizard"] },
+  { value: "nextgen", label: "NextGen", sources: ["nextgen"] },
+  { value: "mastodon", label: "Mastodon", sources: ["mastodon"] },
+  { value: "ushamarketplace", label: "USHAMarketplace", sources: ["ushamarketplace"] },
+  { value: "usha", label: "USHA", sources: ["usha"] },
+  { value: "gmail", label: "Gmail", sources: ["gmail", "gmail_test"] },
+  { value: "manual", label: "Manual", sources: ["manual"] },
+] as const;
+
+export type SourceFacet = (typeof SOURCE_FACETS)[number]["value"];
+
+// Same buckets as the AI badge: stopped (off or paused), cooling down, active.
+export const AI_STATES = ["active", "cooldown", "stopped"] as const;
+export type AiState = (typeof AI_STATES)[number];
+
+export type Tristate = "any" | "yes" | "no";
+
+// "Waiting longer than": the last message is inbound and older than this.
+export const WAITING_FOR = { "15m": 15, "1h": 60, "4h": 240, "24h": 1440 } as const;
+export type WaitingFor = keyof typeof WAITING_FOR;
+
+// Created-date windows relative to the moment the list is loaded, so a saved
+// "this week" view stays current.
+export const CREATED_WITHIN = {
+  today: "Today",
+  this_week: "This week",
+  this_month: "This month",
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+} as const;
+export type CreatedWithin = keyof typeof CREATED_WITHIN;
+
+export type LeadFilters = {
+  q: string;
+  status: LeadStatus[];
+  source: SourceFacet[];
+  // Two-letter codes, uppercase.
+  state: string[];
+  ai: AiState[];
+  hot: Tristate;
+  waiting: Tristate;
+  dnc: Tristate;
+  waiting_for: WaitingFor | "";
+  // Takes precedence over the fixed dates below.
+  created_within: CreatedWithin | "";
+  // Local calendar dates (YYYY-MM-DD), both inclusive.
+  created_from: string;
+  created_to: string;
+  view: LeadView;
+  sort: LeadSort;
+  assignee: LeadAssignee;
+};
+
+export const DEFAULT_LEAD_FILTERS: LeadFilters = {
+  q: "",
+  status: [],
+  source: [],
+  state: [],
+  ai: [],
+  hot: "any",
+  waiting: "any",
+  dnc: "any",
+  waiting_for: "",
+  created_within: "",
+  created_from: "",
+  created_to: "",
+  view: "active",
+  sort: "priority",
+  assignee: "all",
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const SOURCE_VALUES: readonly string[] = SOURCE_FACETS.map((f) => f.value);
+
+function pickList<T extends string>(raw: string | null, allowed: readonly string[]): T[] {
+  const out = new Set<T>();
+  for (const part of String(raw || "").split(",")) {
+    const v = part.trim().toLowerCase();
+    if (allowed.includes(v)) out.add(v as T);
+  }
+  return [...out];
+}
+
+function pickSort(raw: string | null): LeadSort {
+  return raw === "newest" || raw === "oldest" ? raw : "priority";
+}
+
+function pickTristate(raw: string | null): Tristate {
+  return raw === "1" || raw === "yes" ? "yes" : raw === "0" || raw === "no" ? "no" : "any";
+}
+
+export function parseStateCodes(raw: string | null | undefined): string[] {
+  const out = new Set<string>();
+  for (const part of String(raw || "").split(/[\s,]+/)) {
+    const v = part.trim().toUpperCase();
+    if (/^[A-Z]{2}$/.test(v)) out.add(v);
+  }
+  return [...out];
+}
+
+// Unknown or malformed params fall back to the defaults instead of failing.
+export function parseLeadFilters(params: { get(name: string): string | null } | null | undefined): LeadFilters {
+  const get = (name: string) => params?.get(name) ?? null;
+  const view = get("view");
+  const waitingFor = String(get("waiting_for") || "");
+  const createdWithin = String(get("created_within") || "");
+  const from = String(get("created_from") || "");
+  const to = String(get("created_to") || "");
+  return {
+    q: String(get("q") || "").trim(),
+    status: pickList<LeadStatus>(get("status"), LEAD_STATUSES),
+    source: pickList<SourceFacet>(get("source"), SOURCE_VALUES),
+    state: parseStateCodes(get("state")),
+    ai: pickList<AiState>(get("ai"), AI_STATES),
+    hot: pickTristate(get("hot")),
+    waiting: pickTristate(get("waiting")),
+    dnc: pickTristate(get("dnc")),
+    waiting_for: waitingFor in WAITING_FOR ? (waitingFor as WaitingFor) : "",
+    created_within: createdWithin in CREATED_WITHIN ? (createdWithin as CreatedWithin) : "",
+    created_from: DATE_RE.test(from) ? from : "",
+    created_to: DATE_RE.test(to) ? to : "",
+    view: view === "archived" || view === "all" ? view : "active",
+    sort: pickSort(get("sort")),
+    assignee: parseLeadAssignee(get("assignee")),
+  };
+}
+
+// URL form. Defaults are left out so a plain /leads stays plain.
+export function leadFiltersToParams(filters: LeadFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.q) params.set("q", filters.q);
+  if (filters.status.length) params.set("status", filters.status.join(","));
+  if (filters.source.length) params.set("source", filters.source.join(","));
+  if (filters.state.length) params.set("state", filters.state.join(","));
+  if (filters.ai.length) params.set("ai", filters.ai.join(","));
+  if (filters.hot !== "any") params.set("hot", filters.hot === "yes" ? "1" : "0");
+  if (filters.waiting !== "any") params.set("waiting", filters.waiting === "yes" ? "1" : "0");
+  if (filters.dnc !== "any") params.set("dnc", filters.dnc === "yes" ? "1" : "0");
+  if (filters.waiting_for) params.set("waiting_for", filters.waiting_for);
+  if (filters.created_within) params.set("created_within", filters.created_within);
+  if (filters.created_from) params.set("created_from", filters.created_from);
+  if (filters.created_to) params.set("created_to", filters.created_to);
+  if (filters.view !== "active") params.set("view", filters.view);
+  if (filters.sort !== "priority") params.set("sort", filters.sort);
+  if (filters.assignee !== "all") params.set("assignee", filters.assignee);
+  return params;
+}
+
+function localDayStart(date: string, addDays = 0) {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(y, m - 1, d + addDays).toISOString();
+}
+
+function createdWithinStart(within: CreatedWithin, now = new Date()) {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (within === "this_week") today.setDate(today.getDate() - today.getDay());
+  else if (within === "this_month") today.setDate(1);
+  else if (within === "7d") today.setDate(today.getDate() - 6);
+  else if (within === "30d") today.setDate(today.getDate() - 29);
+  return today.toISOString();
+}
+
+// Query for GET /api/leads. Differs from the URL form in two places: source
+// facets expand to the stored values, and created dates become instants in
+// the browser's timezone so "today" means the user's today. Waiting windows
+// go out in minutes.
+export function leadFiltersToApiParams(filters: LeadFilters): URLSearchParams {
+  const params = leadFiltersToParams(filters);
+  params.set("view", filters.view);
+  params.set("sort", filters.sort);
+  if (filters.source.length) {
+    const sources = SOURCE_FACETS.filter((f) => filters.source.includes(f.value)).flatMap((f) => f.sources);
+    params.set("source", sources.join(","));
+  }
+  params.delete("waiting_for");
+  if (filters.waiting_for) params.set("waiting_min", String(WAITING_FOR[filters.waiting_for]));
+  params.delete("created_within");
+  params.delete("created_from");
+  params.delete("created_to");
+  if (filters.created_within) {
+    params.set("created_after", createdWithinStart(filters.created_within));
+  } else {
+    if (filters.created_from) params.set("created_after", localDayStart(filters.created_from));
+    if (filters.created_to) params.set("created_before", localDayStart(filters.created_to, 1));
+  }
+  return params;
+}
+
+// Facets narrowing the list, not counting view/sort/assignee which have their
+// own controls.
+export function countActiveFilters(filters: LeadFilters) {
+  return (
+    (filters.q ? 1 : 0) +
+    (filters.status.length ? 1 : 0) +
+    (filters.source.length ? 1 : 0) +
+    (filters.state.length ? 1 : 0) +
+    (filters.ai.length ? 1 : 0) +
+    (filters.hot !== "any" ? 1 : 0) +
+    (filters.waiting !== "any" ? 1 : 0) +
+    (filters.dnc !== "any" ? 1 : 0) +
+    (filters.waiting_for ? 1 : 0) +
+    (filters.created_within || filters.created_from || filters.created_to ? 1 : 0)
+  );
+}
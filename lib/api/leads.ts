@@ -0,0 +1,506 @@
+import * as React from "react";
+import { ApiError, requestJson, requestOk, type RequestOptions } from "./client";
+import { getQueryData, invalidateQueries, setQueryData, useQuery, type QueryOptions } from "./query";
+import { arrayOf, bool, literal, nullable, num, record, shape, str, withDefault, type Decoder } from "./schema";
+import { decodeCounts, decodeLead, type Lead, type LeadStatus } from "./models";
+import {
+  leadFiltersToApiParams,
+  leadFiltersToParams,
+  parseLeadFilters,
+  type LeadAssignee,
+  type LeadFilters,
+} from "./leadFilters";
+
+export type LeadList = {
+  leads: Lead[];
+  counts: Record<string, number> | null;
+};
+
+const leadArray = arrayOf(decodeLead);
+
+// GET /api/leads has answered with both a bare array and `{ leads, counts }`.
+const decodeLeadList: Decoder<LeadList> = (value, path) => {
+  if (Array.isArray(value)) return { leads: leadArray(value, path), counts: null };
+  const raw = record(value, path);
+  return {
+    leads: withDefault(leadArray, [])(raw.leads, `${path}.leads`),
+    counts: nullable(decodeCounts)(raw.counts, `${path}.counts`),
+  };
+};
+
+export function listLeads(opts: { includeArchived?: boolean; assignee?: LeadAssignee } = {}) {
+  const params = new URLSearchParams();
+  if (opts.includeArchived) params.set("include_archived", "1");
+  if (opts.assignee && opts.assignee !== "all") params.set("assignee", opts.assignee);
+  const query = params.toString();
+  return requestJson(query ? `/api/leads?${query}` : "/api/leads", decodeLeadList, { label: "Load leads" });
+}
+
+export type LeadNeighbors = {
+  prev_id: number | null;
+  next_id: number | null;
+};
+
+const decodeLeadResponse: Decoder<Lead> = (value, path) => {
+  const raw = record(value, path);
+  return "lead" in raw ? decodeLead(raw.lead, `${path}.lead`) : decodeLead(raw, path);
+};
+
+const decodeLeadNeighbors = shape<LeadNeighbors>({
+  prev_id: nullable(num),
+  next_id: nullable(num),
+});
+
+// Resolves to null when the lead does not exist (or belongs to another account).
+export async function getLead(id: number | string): Promise<Lead | null> {
+  try {
+    return await requestJson(`/api/leads/${id}`, decodeLeadResponse, { label: "Load lead" });
+  } catch (e) {
+    if (e instanceof ApiError && e.status === 404) return null;
+    throw e;
+  }
+}
+
+// Takes the filters of the table the user came from, so "next lead" on a
+// thread matches the row below it in the list.
+export function getLeadNeighbors(id: number | string, filters: LeadFilters) {
+  const params = leadFiltersToApiParams(filters);
+  return requestJson(`/api/leads/${id}/neighbors?${params.toString()}`, decodeLeadNeighbors, {
+    label: "Load lead neighbors",
+  });
+}
+
+export type LeadPage = {
+  leads: Lead[];
+  counts: Record<string, number> | null;
+  next_cursor: string | null;
+};
+
+export const LEAD_PAGE_SIZE = 50;
+
+const decodeLeadPage = shape<LeadPage>({
+  leads: withDefault(leadArray, []),
+  counts: nullable(decodeCounts),
+  next_cursor: nullable(str),
+});
+
+// One page of the leads table, filtered and ordered by the server. Search
+// matches name, phone, email, city and message text.
+export function listLeadPage(filters: LeadFilters, opts: { cursor?: string | null; limit?: number } = {}) {
+  const params = leadFiltersToApiParams(filters);
+  params.set("limit", String(opts.limit || LEAD_PAGE_SIZE));
+  if (opts.cursor) params.set("cursor", opts.cursor);
+  return requestJson(`/api/leads?${params.toString()}`, decodeLeadPage, { label: "Load leads" });
+}
+
+// Cache keys for lead lists. Every key starts with "leads" so one
+// invalidation refreshes all of them.
+export function leadListKey(opts: { includeArchived?: boolean; assignee?: LeadAssignee } = {}) {
+  const base = opts.includeArchived ? "leads:archived" : "leads";
+  return opts.assignee && opts.assignee !== "all" ? `${base}:assignee:${opts.assignee}` : base;
+}
+
+export function useLeadList(opts: { includeArchived?: boolean; assignee?: LeadAssignee } = {}, query: QueryOptions = {}) {
+  const includeArchived = !!opts.includeArchived;
+  const assignee = opts.assignee ?? "all";
+  return useQuery(leadListKey({ includeArchived, assignee }), () => listLeads({ includeArchived, assignee }), query);
+}
+
+// Cursor-paginated leads table. Polling refreshes only the first page, so
+// cost stays flat however far the user has scrolled; reload() walks every
+// loaded page again after edits that can move rows between pages.
+export function useLeadPages(filters: LeadFilters, query: QueryOptions = {}) {
+  // Keyed by the URL form, so equal filters share a cache entry whatever the
+  // object identity.
+  const filterQuery = leadFiltersToParams(filters).toString();
+  const key = `leads:pages:${filterQuery}`;
+  const current = React.useMemo(() => parseLeadFilters(new URLSearchParams(filterQuery)), [filterQuery]);
+
+  const pages = useQuery<LeadPage[]>(
+    key,
+    async () => {
+      const first = await listLeadPage(current);
+      // Read after the await so pages appended meanwhile are kept.
+      const rest = getQueryData<LeadPage[]>(key)?.slice(1) ?? [];
+      return [first, ...rest];
+    },
+    query
+  );
+
+  const [loadingMore, setLoadingMore] = React.useState(false);
+  const loaded = pages.data;
+  const nextCursor = loaded?.[loaded.length - 1]?.next_cursor ?? null;
+
+  const loadMore = React.useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await listLeadPage(current, { cursor: nextCursor });
+      setQueryData<LeadPage[]>(key, (prev) => [...prev, page]);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [key, current, nextCursor, loadingMore]);
+
+  const reload = React.useCallback(async () => {
+    const count = Math.max(1, getQueryData<LeadPage[]>(key)?.length ?? 1);
+    const next: LeadPage[] = [];
+    let cursor: string | null = null;
+    for (let i = 0; i < count; i += 1) {
+      const page: LeadPage = await listLeadPage(current, { cursor });
+      next.push(page);
+      cursor = page.next_cursor;
+      if (!cursor) break;
+    }
+    setQueryData(key, next);
+  }, [key, current]);
+
+  // Rows can shift between pages while polling; keep the first copy of each lead.
+  const leads = React.useMemo(() => {
+    const seen = new Set<number>();
+    const out: Lead[] = [];
+    for (const page of loaded ?? []) {
+      for (const l of page.leads) {
+        if (seen.has(l.id)) continue;
+        seen.add(l.id);
+        out.push(l);
+      }
+    }
+    return out;
+  }, [loaded]);
+
+  return {
+    key,
+    leads,
+    counts: loaded?.[0]?.counts ?? null,
+    error: pages.error,
+    loading: loaded === undefined && !pages.error,
+    hasMore: !!nextCursor,
+    loadingMore,
+    loadMore,
+    reload,
+  };
+}
+
+// Lead mutations also move the sidebar counters and saved view badges, so
+// those caches are refreshed too.
+// With a decoder the validated response body is returned.
+async function mutateLead(path: string, options: RequestOptions): Promise<void>;
+async function mutateLead<T>(path: string, options: RequestOptions, decoder: Decoder<T>): Promise<T>;
+async function mutateLead<T>(path: string, options: RequestOptions, decoder?: Decoder<T>) {
+  const body = decoder ? await requestJson(path, decoder, options) : await requestOk(path, options);
+  await Promise.all([invalidateQueries("leads"), invalidateQueries("navigation-activity"), invalidateQueries("savedViews")]);
+  return body;
+}
+
+export async function createLead(input: { name?: string; phone: string }) {
+  const created = await requestJson("/api/leads", decodeLead, { label: "Add lead", method: "POST", json: input });
+  await invalidateQueries("leads");
+  return created;
+}
+
+// Edits that apply to one lead at a time; the bulk runner sends the same
+// requests for each selected lead.
+export type LeadAction =
+  | { type: "delete" }
+  | { type: "status"; status: LeadStatus }
+  | { type: "archive"; archived: boolean }
+  | { type: "hot"; hot: boolean }
+  | { type: "dnc"; enabled: boolean }
+  | { type: "ai"; enabled: boolean }
+  // Without a config the lead keeps its current one.
+  | { type: "auto_followup"; enabled: boolean; config?: Record<string, unknown> };
+
+export function leadActionRequest(id: number | string, action: LeadAction): [string, RequestOptions] {
+  switch (action.type) {
+    case "delete":
+      return [`/api/leads/${id}`, { label: "Delete lead", method: "DELETE" }];
+    case "status":
+      return [`/api/leads/${id}`, { label: "Status update", method: "PATCH", json: { status: action.status } }];
+    case "archive":
+      return [`/api/leads/${id}/archive`, { label: "Archive update", method: "PUT", json: { archived: action.archived } }];
+    case "hot":
+      return [`/api/leads/${id}/hot`, { label: "Hot toggle", method: "PUT", json: { hot: action.hot } }];
+    case "dnc":
+      return [`/api/leads/${id}/dnc`, { label: "DNC toggle", method: "PUT", json: { enabled: action.enabled } }];
+    case "ai":
+      return [`/api/leads/${id}/ai`, { label: "AI toggle", method: "PUT", json: { enabled: action.enabled } }];
+    case "auto_followup":
+      return [
+        `/api/leads/${id}/auto-followup`,
+        { label: "Automatic follow-up update", method: "PUT", json: { enabled: action.enabled, config: action.config } },
+      ];
+  }
+}
+
+export function deleteLead(id: number | string) {
+  return mutateLead(...leadActionRequest(id, { type: "delete" }));
+}
+
+export function updateLeadStatus(id: number | string, status: LeadStatus) {
+  return mutateLead(...leadActionRequest(id, { type: "status", status }));
+}
+
+export function setLeadArchived(id: number | string, archived: boolean) {
+  return mutateLead(...leadActionRequest(id, { type: "archive", archived }));
+}
+
+export function setLeadHot(id: number | string, hot: boolean) {
+  return mutateLead(...leadActionRequest(id, { type: "hot", hot }));
+}
+
+export function setLeadDnc(id: number | string, enabled: boolean) {
+  return mutateLead(...leadActionRequest(id, { type: "dnc", enabled }));
+}
+
+export function setLeadAi(id: number | string, enabled: boolean) {
+  return mutateLead(...leadActionRequest(id, { type: "ai", enabled }));
+}
+
+export type AiResumeResult = {
+  // Handed to the background worker rather than run during the request.
+  queued: boolean;
+  // What the inline run did, e.g. "replied" or "no_pending_inbound".
+  reason: string;
+};
+
+const decodeAiResume = shape<{ ok: boolean; error: string; queued: boolean; result: { reason: string } }>({
+  ok: withDefault(bool, true),
+  error: withDefault(str, ""),
+  queued: withDefault(bool, false),
+  result: withDefault(shape<{ reason: string }>({ reason: withDefault(str, "") }), { reason: "" }),
+});
+
+// Clears a human-intervention pause and turns the AI back on.
+export async function resumeLeadAi(id: number | string): Promise<AiResumeResult> {
+  const path = `/api/leads/${id}/ai/resume`;
+  const body = await mutateLead(path, { label: "AI resume", method: "POST", json: { reactivate: true } }, decodeAiResume);
+  if (!body.ok) throw new ApiError("AI resume", 200, path, body.error || "not resumed");
+  return { queued: body.queued, reason: body.result.reason };
+}
+
+// Per-lead overrides of the account's quoting and ACA settings.
+export function setLeadQuoteOverride(id: number | string, enabled: boolean) {
+  return mutateLead(`/api/leads/${id}/quote`, { label: "Quote toggle", method: "PUT", json: { enabled } });
+}
+
+export function setLeadAcaOverride(id: number | string, enabled: boolean) {
+  return mutateLead(`/api/leads/${id}/aca`, { label: "ACA toggle", method: "PUT", json: { enabled } });
+}
+
+export type LeadAutoFollowup = {
+  enabled: boolean;
+  config: Record<string, unknown> | null;
+};
+
+const decodeLeadAutoFollowup = shape<LeadAutoFollowup>({
+  enabled: withDefault(bool, false),
+  config: nullable(record),
+});
+
+export function updateLeadAutoFollowup(id: number | string, enabled: boolean, config?: Record<string, unknown>) {
+  return mutateLead(...leadActionRequest(id, { type: "auto_followup", enabled, config }), decodeLeadAutoFollowup);
+}
+
+export type LeadAppointmentReminders = {
+  enabled: boolean;
+  // Raw reminder tokens such as "clock:09:00" or legacy "offset:60".
+  offsets: string[];
+};
+
+// Older rows store the tokens as one comma-separated string.
+const reminderOffsets: Decoder<string[]> = (value, path) =>
+  typeof value === "string" ? value.split(/[,\s;]+/).filter(Boolean) : withDefault(arrayOf(str), [])(value, path);
+
+const decodeLeadAppointmentReminders = shape<LeadAppointmentReminders>({
+  enabled: withDefault(bool, false),
+  offsets: reminderOffsets,
+});
+
+export function setLeadAppointmentReminders(id: number | string, input: { enabled: boolean; times: string[] }) {
+  return mutateLead(
+    `/api/leads/${id}/appointment-reminders`,
+    { label: "Appointment reminders save", method: "PUT", json: input },
+    decodeLeadAppointmentReminders
+  );
+}
+
+export type BulkFailure = {
+  id: number;
+  error: string;
+};
+
+export type BulkResult = {
+  succeeded: number[];
+  failed: BulkFailure[];
+  // True when the run was stopped before every lead was tried.
+  cancelled: boolean;
+};
+
+const BULK_CONCURRENCY = 4;
+
+// Applies `action` to every id, a few requests at a time. Failures are
+// collected rather than thrown so one bad lead does not stop the rest, and
+// the lead caches are refreshed once at the end instead of per lead.
+export async function runBulkLeadAction(
+  ids: readonly number[],
+  action: LeadAction,
+  opts: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<BulkResult> {
+  const succeeded: number[] = [];
+  const failed: BulkFailure[] = [];
+  let next = 0;
+
+  async function worker() {
+    while (next < ids.length && !opts.signal?.aborted) {
+      const id = ids[next];
+      next += 1;
+      try {
+        await requestOk(...leadActionRequest(id, action));
+        succeeded.push(id);
+      } catch (e) {
+        failed.push({ id, error: e instanceof Error ? e.message : String(e) });
+      }
+      opts.onProgress?.(succeeded.length + failed.length, ids.length);
+    }
+  }
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, ids.length) }, worker));
+  } finally {
+    await Promise.all([invalidateQueries("leads"), invalidateQueries("navigation-activity"), invalidateQueries("savedViews")]);
+  }
+  return { succeeded, failed, cancelled: succeeded.length + failed.length < ids.length };
+}
+
+// Every lead id matching `filters`, for "select all matching". Walks the
+// same cursor pages as the table, in larger pages.
+export async function listMatchingLeadIds(filters: LeadFilters) {
+  const ids: number[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: LeadPage = await listLeadPage(filters, { cursor, limit: 500 });
+    for (const l of page.leads) ids.push(l.id);
+    cursor = page.next_cursor;
+  } while (cursor);
+  return Array.from(new Set(ids));
+}
+
+export function saveLeadNotes(id: number | string, notes: string) {
+  return mutateLead(`/api/leads/${id}/notes`, { label: "Notes save", method: "PUT", json: { notes } });
+}
+
+// Pass an email to assign by hand, null to unassign, or "round_robin" to let
+// the backend pick the next member in the rotation.
+export async function assignLead(id: number | string, assignee: string | null | "round_robin") {
+  const json = assignee === "round_robin" ? { round_robin: true } : { assigned_to: assignee };
+  await mutateLead(`/api/leads/${id}/assignee`, { label: "Lead assignment", method: "PUT", json });
+  // Open-lead counts on the team page.
+  await invalidateQueries("team");
+}
+
+// Fields a merge can take from any of the merged leads.
+export const MERGE_FIELDS = [
+  "name",
+  "first_name",
+  "last_name",
+  "phone",
+  "email",
+  "city",
+  "state",
+  "zip",
+  "lead_timezone",
+  "status",
+  "source",
+  "assigned_to",
+] as const;
+
+export type MergeField = (typeof MERGE_FIELDS)[number];
+
+// Folds `mergeIds` into `survivorId`: the survivor takes the chosen field
+// values and `notes`, messages and appointments of the merged leads move to
+// it, and the merged leads are deleted. The backend records the merge in the
+// audit log with every lead's values before the change.
+export async function mergeLeads(
+  survivorId: number,
+  input: { mergeIds: number[]; fields: Partial<Record<MergeField, string | null>>; notes: string }
+) {
+  const merged = await requestJson(`/api/leads/${survivorId}/merge`, decodeLeadResponse, {
+    label: "Lead merge",
+    method: "POST",
+    json: { merge_ids: input.mergeIds, fields: input.fields, notes: input.notes },
+  });
+  await Promise.all([
+    invalidateQueries("leads"),
+    invalidateQueries("navigation-activity"),
+    invalidateQueries("savedViews"),
+    invalidateQueries("team"),
+  ]);
+  return merged;
+}
+
+export async function markLeadViewed(id: number | string) {
+  await requestOk(`/api/leads/${id}/viewed`, { label: "Mark viewed", method: "POST" });
+  await invalidateQueries("navigation-activity");
+}
+
+// Fields the import wizard can map CSV columns to. The phone is already E.164.
+export type LeadImportRow = {
+  phone: string;
+  name?: string;
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  source?: string;
+  notes?: string;
+};
+
+export type LeadImportRowResult = {
+  // Index into the rows that were sent.
+  row: number;
+  status: "imported" | "duplicate" | "error";
+  lead_id: number | null;
+  error: string;
+};
+
+const decodeLeadImportResults = shape<{ results: LeadImportRowResult[] }>({
+  results: withDefault(
+    arrayOf(
+      shape<LeadImportRowResult>({
+        row: num,
+        status: literal(["imported", "duplicate", "error"] as const),
+        lead_id: nullable(num),
+        error: withDefault(str, ""),
+      })
+    ),
+    []
+  ),
+});
+
+// Caller refreshes the lead lists once every batch is in. /api/leads/import
+// stays the legacy multipart upload, which only answers with totals.
+export async function importLeadRows(rows: LeadImportRow[], opts: { skipDuplicates: boolean }) {
+  const body = await requestJson("/api/leads/import/rows", decodeLeadImportResults, {
+    label: "Lead import",
+    method: "POST",
+    json: { rows, skip_duplicates: opts.skipDuplicates },
+  });
+  return body.results;
+}
+
+const decodeLeadLookup = shape<{ leads: Lead[] }>({ leads: withDefault(leadArray, []) });
+
+// Existing leads (archived included) with any of the given E.164 phones or
+// emails. Used to flag duplicates before they are created.
+export async function findExistingLeads(input: { phones: string[]; emails: string[] }) {
+  if (input.phones.length === 0 && input.emails.length === 0) return [];
+  const body = await requestJson("/api/leads/lookup", decodeLeadLookup, {
+    label: "Duplicate check",
+    method: "POST",
+    json: input,
+  });
+  return body.leads;
+}
@@ -0,0 +1,90 @@
+import * as React from "react";
+import type { Capability } from "@/lib/permissions";
+import { requestJson, requestOk } from "./client";
+import { invalidateQueries, useQuery } from "./query";
+import { bool, nullable, shape, str, withDefault } from "./schema";
+import { decodeMeUser, decodeNavigationActivity, type MeUser, type NavigationActivity } from "./models";
+
+const decodeMe = shape<{ user: MeUser }>({ user: decodeMeUser });
+
+export async function getMe() {
+  const body = await requestJson("/api/me", decodeMe, { label: "Authentication check" });
+  return body.user;
+}
+
+const decodeActivity = shape<{ activity: NavigationActivity }>({
+  activity: (value, path) => decodeNavigationActivity(value ?? {}, path),
+});
+
+export async function getNavigationActivity() {
+  const body = await requestJson("/api/navigation/activity", decodeActivity, { label: "Load activity" });
+  return body.activity;
+}
+
+// The signed-in user rarely changes within a page session.
+export function useMe() {
+  return useQuery("me", getMe, { staleMs: 60_000 });
+}
+
+// Pass a slower interval while the realtime stream is pushing counts.
+export function useNavigationActivity(opts: { pollMs?: number } = {}) {
+  return useQuery("navigation-activity", getNavigationActivity, { pollMs: opts.pollMs ?? 12000 });
+}
+
+export function usePermissions() {
+  const me = useMe();
+  const permissions = me.data?.permissions;
+  const can = React.useCallback((capability: Capability) => !!permissions?.includes(capability), [permissions]);
+  return {
+    permissions: permissions ?? [],
+    can,
+    loading: me.data === undefined && !me.error,
+  };
+}
+
+// The backend signs out the user's other sessions after a change.
+export async function changePassword(currentPassword: string, newPassword: string) {
+  await requestOk("/api/me/password", {
+    label: "Change password",
+    method: "POST",
+    json: { current_password: currentPassword, new_password: newPassword },
+  });
+  await invalidateQueries("me:sessions");
+}
+
+export type AccountBilling = {
+  status: string;
+  trial_ends_at: string | null;
+  stripe_customer_id_set: boolean;
+  stripe_subscription_id_set: boolean;
+  updated_at: string | null;
+  // Whether a lapsed status actually blocks the account.
+  enforced: boolean;
+};
+
+const decodeAccountBilling = shape<AccountBilling>({
+  status: withDefault(str, ""),
+  trial_ends_at: nullable(str),
+  stripe_customer_id_set: withDefault(bool, false),
+  stripe_subscription_id_set: withDefault(bool, false),
+  updated_at: nullable(str),
+  enforced: withDefault(bool, false),
+});
+
+const emptyBilling: AccountBilling = {
+  status: "",
+  trial_ends_at: null,
+  stripe_customer_id_set: false,
+  stripe_subscription_id_set: false,
+  updated_at: null,
+  enforced: false,
+};
+
+export async function getBillingStatus() {
+  const body = await requestJson(
+    "/api/billing/status",
+    shape<{ billing: AccountBilling }>({ billing: withDefault(decodeAccountBilling, emptyBilling) }),
+    { label: "Billing status" }
+  );
+  return body.billing;
+}
@@ -0,0 +1,51 @@
+import { requestJson, requestOk } from "./client";
+import { invalidateQueries } from "./query";
+import { arrayOf, record, shape, str, withDefault, type Decoder } from "./schema";
+import { decodeMsg, type Msg } from "./models";
+
+const msgArray = arrayOf(decodeMsg);
+
+const decodeMessageList: Decoder<Msg[]> = (value, path) => {
+  if (Array.isArray(value)) return msgArray(value, path);
+  return withDefault(msgArray, [])(record(value, path).messages, `${path}.messages`);
+};
+
+export function listMessages(leadId: number | string) {
+  return requestJson(`/api/leads/${leadId}/messages`, decodeMessageList, { label: "Load messages" });
+}
+
+export async function sendMessage(leadId: number | string, input: { text: string; media_url?: string }) {
+  await requestOk(`/api/leads/${leadId}/messages`, { label: "Send", method: "POST", json: input });
+  // Sending clears the lead's "waiting" state in lists and sidebar badges.
+  await Promise.all([invalidateQueries("leads"), invalidateQueries("navigation-activity"), invalidateQueries("savedViews")]);
+}
+
+// Stores an MMS attachment and returns the public URL to send as media_url.
+export async function uploadMessageImage(file: File) {
+  const body = new FormData();
+  body.append("image", file);
+  const saved = await requestJson("/api/uploads/image", shape<{ url: string }>({ url: str }), {
+    label: "Image upload",
+    method: "POST",
+    body,
+  });
+  return saved.url;
+}
+
+// Pulls provider-side history the webhook may have missed.
+export function syncMessages(leadId: number | string) {
+  return requestOk(`/api/leads/${leadId}/messages/sync`, { label: "Message sync", method: "POST" });
+}
+
+export function setMessageFeedback(
+  leadId: number | string,
+  messageId: number,
+  feedbackType: "positive" | "negative",
+  active: boolean
+) {
+  return requestOk(`/api/leads/${leadId}/messages/${messageId}/feedback`, {
+    label: "Feedback save",
+    method: "PUT",
+    json: { feedback_type: feedbackType, active },
+  });
+}
@@ -0,0 +1,393 @@
+import {
+  arrayOf,
+  bool,
+  fail,
+  flag,
+  literal,
+  maybe,
+  nullable,
+  num,
+  optionalFlag,
+  record,
+  recordOf,
+  shape,
+  str,
+  withDefault,
+  type Decoder,
+} from "./schema";
+import { resolvePermissions, type Capability } from "@/lib/permissions";
+
+export const LEAD_STATUSES = ["engaged", "cold", "booked", "missed_appointment", "sold", "dead"] as const;
+
+export type LeadStatus = (typeof LEAD_STATUSES)[number];
+
+export function normalizeLeadStatus(s: unknown): LeadStatus {
+  const v = String(s || "engaged").toLowerCase();
+  if (v === "new" || v === "contacted") return "engaged";
+  return (LEAD_STATUSES as readonly string[]).includes(v) ? (v as LeadStatus) : "engaged";
+}
+
+export type MessageDirection = "in" | "out";
+
+export type Lead = {
+  id: number;
+  name: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  phone: string | null;
+  email: string | null;
+  city: string;
+  state: string;
+  zip: string;
+  lead_timezone: string;
+  status: LeadStatus;
+  source: string;
+  notes: string | null;
+  // Email of the team member who owns the lead; null while unassigned.
+  assigned_to: string | null;
+
+  ai_enabled: number;
+  ai_paused: number;
+  ai_pause_reason: string | null;
+  ai_cooldown_until: string | null;
+  ai_allow_quote_override: number | null;
+  ai_allow_aca_override: number | null;
+  auto_followup_enabled: number;
+  auto_followup_config: string | null;
+  appointment_reminders_enabled: number;
+  appointment_reminder_offsets: string | null;
+
+  hot: number;
+  archived: number;
+  archived_at: string | null;
+  dnc: number;
+  lead_snapshot_json: string | null;
+  lead_snapshot_updated_at: string | null;
+
+  createdAt: string | null;
+  lastMessageAt: string | null;
+  lastMessageDirection: MessageDirection | null;
+  last_message: string | null;
+  inboundCount: number;
+  firstInboundAt: string | null;
+  firstOutboundAt: string | null;
+};
+
+export type Msg = {
+  id: number;
+  lead_id: number;
+  direction: MessageDirection;
+  text: string;
+  created_at: string | null;
+  ai_response_source: string | null;
+  ai_faq_id: number | null;
+  delivery_status: string | null;
+  delivery_status_at: string | null;
+  ai_feedback_positive: number;
+  ai_feedback_negative: number;
+};
+
+export type Appointment = {
+  id: string;
+  title: string;
+  start: string | null;
+  end: string | null;
+  link: string | null;
+};
+
+// Google connection health as the backend last checked it.
+export type CalendarStatus = {
+  configured: boolean;
+  connected: boolean;
+  gmail_connected: boolean;
+  account_email: string;
+  calendar_id: string;
+  warning: string;
+  detail: string;
+  next_event_at: string | null;
+  checked_at: string;
+};
+
+export type Settings = {
+  user_id?: string;
+  textdrip_api_token_set?: boolean;
+  textdrip_base_url?: string;
+  textdrip_base_url_effective?: string;
+  textdrip_webhook_secret?: string;
+  textdrip_webhook_secret_set?: boolean;
+  ai_first_reply_mode?: string;
+  ai_name?: string;
+  ai_allow_quote?: boolean;
+  ai_allow_aca?: boolean;
+  ai_quote_ask_plan_type_prompt?: boolean;
+  ai_quote_attempt_set_appointment_in_quote?: boolean;
+  ai_quote_deviation_single?: number;
+  ai_quote_deviation_couple?: number;
+  ai_quote_deviation_per_dependent?: number;
+  ai_schedule_time_mode?: string;
+  ai_appointment_confirmation_text?: string;
+  ai_quiet_hours_enabled?: boolean;
+  ai_quiet_hours_start?: string;
+  ai_quiet_hours_end?: string;
+  ai_max_replies_per_5m?: number;
+  ai_reply_cooldown_minutes?: number;
+  ai_reply_cooldown_seconds?: number;
+  google_calendar_id?: string;
+  google_client_id?: string;
+  google_client_secret_set?: boolean;
+  google_refresh_token_set?: boolean;
+  google_account_email?: string;
+  google_account_email_set?: boolean;
+  gmail_lead_import_enabled?: boolean;
+  gmail_lead_import_query?: string;
+  gmail_lead_import_auto_text_enabled?: boolean;
+  gmail_lead_import_auto_text_template?: string;
+  calendar_max_concurrent_bookings?: number;
+  calendar_overlap_window_minutes?: number;
+  calendar_blockout_enabled?: boolean;
+  // Older rows store the weekdays as a comma-separated string.
+  calendar_blockout_weekdays?: number[] | string;
+  calendar_blockout_all_day?: boolean;
+  calendar_blockout_start?: string;
+  calendar_blockout_end?: string;
+  // Rule lists the calendar page normalizes itself.
+  calendar_blockout_ranges?: unknown;
+  calendar_blockout_recurring?: unknown;
+  updated_at?: string;
+};
+
+export type AuditRow = {
+  id: number;
+  actor_user_id: string;
+  action: string;
+  target_type: string;
+  target_id: string;
+  metadata: Record<string, unknown>;
+  created_at: string | null;
+};
+
+export type DeliveryEvent = {
+  id: number;
+  user_id: string;
+  lead_id: number | null;
+  message_id: number | null;
+  provider_message_id: string;
+  event_type: string;
+  status: string;
+  from_phone: string;
+  to_phone: string;
+  payload: Record<string, unknown> | null;
+  created_at: string | null;
+};
+
+export type MeUser = {
+  email: string;
+  role: string;
+  email_lead_import_access: boolean;
+  permissions: Capability[];
+};
+
+export type NavigationActivity = {
+  leads_waiting: number;
+  email_leads_waiting: number;
+  leads_human_alerts: number;
+  email_leads_human_alerts: number;
+};
+
+const text = nullable(str);
+const trimmed: Decoder<string> = (value, path) => (value === null || value === undefined ? "" : str(value, path).trim());
+
+const leadStatus: Decoder<LeadStatus> = (value, path) => {
+  if (value !== null && value !== undefined && typeof value !== "string") return fail(path, "a status string", value);
+  return normalizeLeadStatus(value);
+};
+
+const direction = nullable(literal(["in", "out"] as const));
+
+const leadShape = shape<Lead>({
+  id: num,
+  name: text,
+  first_name: text,
+  last_name: text,
+  phone: text,
+  email: text,
+  city: trimmed,
+  state: trimmed,
+  zip: trimmed,
+  lead_timezone: trimmed,
+  status: leadStatus,
+  source: (value, path) => trimmed(value, path) || "manual",
+  notes: text,
+  assigned_to: (value, path) => text(value, path)?.trim().toLowerCase() || null,
+  ai_enabled: flag(1),
+  ai_paused: flag(0),
+  ai_pause_reason: text,
+  ai_cooldown_until: text,
+  ai_allow_quote_override: optionalFlag,
+  ai_allow_aca_override: optionalFlag,
+  auto_followup_enabled: flag(0),
+  auto_followup_config: text,
+  appointment_reminders_enabled: flag(0),
+  appointment_reminder_offsets: text,
+  hot: flag(0),
+  archived: flag(0),
+  archived_at: text,
+  dnc: flag(0),
+  lead_snapshot_json: text,
+  lead_snapshot_updated_at: text,
+  createdAt: text,
+  lastMessageAt: text,
+  lastMessageDirection: direction,
+  last_message: text,
+  inboundCount: withDefault(num, 0),
+  firstInboundAt: text,
+  firstOutboundAt: text,
+});
+
+// The backend has shipped several spellings for the same columns over time;
+// they are folded into one canonical field here and nowhere else.
+export const decodeLead: Decoder<Lead> = (value, path) => {
+  const raw = record(value, path);
+  return leadShape(
+    {
+      ...raw,
+      createdAt: raw.createdAt ?? raw.created_at ?? raw.created,
+      lastMessageAt: raw.lastMessageAt ?? raw.last_message_at,
+      inboundCount: raw.inboundCount ?? raw.inbound_count ?? raw.inbound,
+    },
+    path
+  );
+};
+
+export const decodeMsg: Decoder<Msg> = shape<Msg>({
+  id: num,
+  lead_id: num,
+  direction: literal(["in", "out"] as const),
+  text: withDefault(str, ""),
+  created_at: text,
+  ai_response_source: text,
+  ai_faq_id: nullable(num),
+  delivery_status: text,
+  delivery_status_at: text,
+  ai_feedback_positive: flag(0),
+  ai_feedback_negative: flag(0),
+});
+
+export const decodeAppointment: Decoder<Appointment> = shape<Appointment>({
+  id: str,
+  title: withDefault(str, ""),
+  start: text,
+  end: text,
+  link: text,
+});
+
+const optStr = maybe(str);
+const optBool = maybe(bool);
+const optNum = maybe(num);
+const passthrough: Decoder<unknown> = (value) => value;
+
+const weekdays: Decoder<number[] | string> = (value, path) =>
+  typeof value === "string" ? value : arrayOf(num)(value, path);
+
+export const decodeSettings: Decoder<Settings> = shape<Settings>({
+  user_id: optStr,
+  textdrip_api_token_set: optBool,
+  textdrip_base_url: optStr,
+  textdrip_base_url_effective: optStr,
+  textdrip_webhook_secret: optStr,
+  textdrip_webhook_secret_set: optBool,
+  ai_first_reply_mode: optStr,
+  ai_name: optStr,
+  ai_allow_quote: optBool,
+  ai_allow_aca: optBool,
+  ai_quote_ask_plan_type_prompt: optBool,
+  ai_quote_attempt_set_appointment_in_quote: optBool,
+  ai_quote_deviation_single: optNum,
+  ai_quote_deviation_couple: optNum,
+  ai_quote_deviation_per_dependent: optNum,
+  ai_schedule_time_mode: optStr,
+  ai_appointment_confirmation_text: optStr,
+  ai_quiet_hours_enabled: optBool,
+  ai_quiet_hours_start: optStr,
+  ai_quiet_hours_end: optStr,
+  ai_max_replies_per_5m: optNum,
+  ai_reply_cooldown_minutes: optNum,
+  ai_reply_cooldown_seconds: optNum,
+  google_calendar_id: optStr,
+  google_client_id: optStr,
+  google_client_secret_set: optBool,
+  google_refresh_token_set: optBool,
+  google_account_email: optStr,
+  google_account_email_set: optBool,
+  gmail_lead_import_enabled: optBool,
+  gmail_lead_import_query: optStr,
+  gmail_lead_import_auto_text_enabled: optBool,
+  gmail_lead_import_auto_text_template: optStr,
+  calendar_max_concurrent_bookings: optNum,
+  calendar_overlap_window_minutes: optNum,
+  calendar_blockout_enabled: optBool,
+  calendar_blockout_weekdays: maybe(weekdays),
+  calendar_blockout_all_day: optBool,
+  calendar_blockout_start: optStr,
+  calendar_blockout_end: optStr,
+  calendar_blockout_ranges: passthrough,
+  calendar_blockout_recurring: passthrough,
+  updated_at: optStr,
+});
+
+export const decodeCalendarStatus: Decoder<CalendarStatus> = shape<CalendarStatus>({
+  configured: withDefault(bool, false),
+  connected: withDefault(bool, false),
+  gmail_connected: withDefault(bool, false),
+  account_email: trimmed,
+  calendar_id: trimmed,
+  warning: trimmed,
+  detail: trimmed,
+  next_event_at: text,
+  checked_at: trimmed,
+});
+
+export const decodeAuditRow: Decoder<AuditRow> = shape<AuditRow>({
+  id: num,
+  actor_user_id: withDefault(str, ""),
+  action: str,
+  target_type: withDefault(str, ""),
+  target_id: withDefault(str, ""),
+  metadata: withDefault(record, {}),
+  created_at: text,
+});
+
+export const decodeDeliveryEvent: Decoder<DeliveryEvent> = shape<DeliveryEvent>({
+  id: num,
+  user_id: withDefault(str, ""),
+  lead_id: nullable(num),
+  message_id: nullable(num),
+  provider_message_id: withDefault(str, ""),
+  event_type: withDefault(str, ""),
+  status: withDefault(str, ""),
+  from_phone: withDefault(str, ""),
+  to_phone: withDefault(str, ""),
+  payload: nullable(record),
+  created_at: text,
+});
+
+export const decodeMeUser: Decoder<MeUser> = (value, path) => {
+  const raw = record(value, path);
+  return {
+    email: withDefault(str, "")(raw.email, `${path}.email`),
+    role: withDefault(str, "agent")(raw.role, `${path}.role`).trim().toLowerCase(),
+    email_lead_import_access: withDefault(bool, false)(raw.email_lead_import_access, `${path}.email_lead_import_access`),
+    permissions: resolvePermissions(raw),
+  };
+};
+
+const count: Decoder<number> = (value, path) => Math.max(0, withDefault(num, 0)(value, path));
+
+export const decodeNavigationActivity: Decoder<NavigationActivity> = shape<NavigationActivity>({
+  leads_waiting: count,
+  email_leads_waiting: count,
+  leads_human_alerts: count,
+  email_leads_human_alerts: count,
+});
+
+export const decodeCounts = recordOf(num);
@@ -0,0 +1,215 @@
+import * as React from "react";
+
+// Client-side query cache shared by every mounted screen. Entries are keyed by
+// string; keys that share a prefix (e.g. "leads", "leads:archived") can be
+// invalidated together after a mutation.
+
+export type QueryState<T> = {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  fetching: boolean;
+};
+
+type Entry = {
+  state: QueryState<unknown>;
+  promise: Promise<unknown> | null;
+  fetcher: (() => Promise<unknown>) | null;
+  listeners: Set<() => void>;
+};
+
+export type QueryOptions = {
+  // Poll interval while at least one component is subscribed.
+  pollMs?: number;
+  // Poll interval after a failed fetch. Defaults to pollMs.
+  errorPollMs?: number;
+  // Cached data younger than this is served without a request.
+  staleMs?: number;
+  // When false the hook neither fetches nor subscribes.
+  enabled?: boolean;
+};
+
+const EMPTY: QueryState<never> = { data: undefined, error: null, updatedAt: 0, fetching: false };
+
+// Focus and visibilitychange usually fire together; skip the second refetch.
+const FOCUS_REFETCH_MIN_MS = 2000;
+
+const cache = new Map<string, Entry>();
+
+function entryFor(key: string): Entry {
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = { state: EMPTY, promise: null, fetcher: null, listeners: new Set() };
+    cache.set(key, entry);
+  }
+  return entry;
+}
+
+function setState(entry: Entry, patch: Partial<QueryState<unknown>>) {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((l) => l());
+}
+
+function isHidden() {
+  return typeof document !== "undefined" && document.visibilityState === "hidden";
+}
+
+// Concurrent callers for the same key share one request, and fresh data is
+// returned straight from the cache.
+export function fetchQuery<T>(key: string, fetcher: () => Promise<T>, opts: { staleMs?: number } = {}): Promise<T> {
+  const entry = entryFor(key);
+  if (entry.promise) return entry.promise as Promise<T>;
+
+  const { data, error, updatedAt } = entry.state;
+  if (data !== undefined && !error && Date.now() - updatedAt < (opts.staleMs ?? 0)) {
+    return Promise.resolve(data as T);
+  }
+
+  const p: Promise<T> = fetcher().then(
+    (next) => {
+      // A newer request (e.g. after invalidation) owns the entry now.
+      if (entry.promise === p) {
+        entry.promise = null;
+        setState(entry, { data: next, error: null, updatedAt: Date.now(), fetching: false });
+      }
+      return next;
+    },
+    (err) => {
+      if (entry.promise === p) {
+        entry.promise = null;
+        setState(entry, { error: err, fetching: false });
+      }
+      throw err;
+    }
+  );
+  entry.promise = p;
+  setState(entry, { fetching: true });
+  return p;
+}
+
+export function getQueryData<T>(key: string): T | undefined {
+  return cache.get(key)?.state.data as T | undefined;
+}
+
+// Writes pushed or optimistic data. An updater function is skipped while
+// nothing is cached yet; a plain value always replaces the entry.
+export function setQueryData<T>(key: string, next: T | ((prev: T) => T)) {
+  const entry = entryFor(key);
+  if (typeof next === "function") {
+    if (entry.state.data === undefined) return;
+    next = (next as (prev: T) => T)(entry.state.data as T);
+  }
+  setState(entry, { data: next, error: null, updatedAt: Date.now() });
+}
+
+// Marks every entry whose key starts with `prefix` as stale and refetches the
+// ones a mounted component is watching. Never rejects.
+export async function invalidateQueries(prefix: string) {
+  const pending: Promise<unknown>[] = [];
+  for (const [key, entry] of cache) {
+    if (!key.startsWith(prefix)) continue;
+    // The in-flight request no longer owns the entry and will not clear
+    // `fetching` when it settles, so clear it here; a refetch sets it again.
+    const dropped = entry.promise !== null;
+    entry.promise = null;
+    entry.state = { ...entry.state, updatedAt: 0 };
+    if (entry.fetcher && entry.listeners.size > 0) {
+      pending.push(fetchQuery(key, entry.fetcher));
+    } else if (dropped) {
+      setState(entry, { fetching: false });
+    }
+  }
+  await Promise.allSettled(pending);
+}
+
+// Drops an entry nothing is watching, for keys that won't be read again such
+// as per-lead entries of a queue the user has moved past.
+export function removeQuery(key: string) {
+  const entry = cache.get(key);
+  if (entry && entry.listeners.size === 0) cache.delete(key);
+}
+
+let focusListenersInstalled = false;
+
+function refetchWatchedQueries() {
+  if (isHidden()) return;
+  for (const [key, entry] of cache) {
+    if (!entry.fetcher || entry.listeners.size === 0) continue;
+    if (Date.now() - entry.state.updatedAt < FOCUS_REFETCH_MIN_MS) continue;
+    fetchQuery(key, entry.fetcher).catch(() => {});
+  }
+}
+
+function installFocusListeners() {
+  if (focusListenersInstalled || typeof window === "undefined") return;
+  focusListenersInstalled = true;
+  window.addEventListener("focus", refetchWatchedQueries);
+  document.addEventListener("visibilitychange", refetchWatchedQueries);
+}
+
+export function useQuery<T>(queryKey: string | null, fetcher: () => Promise<T>, opts: QueryOptions = {}) {
+  const { pollMs, errorPollMs = pollMs, staleMs = pollMs ?? 0, enabled = true } = opts;
+  const key = enabled ? queryKey : null;
+
+  const fetcherRef = React.useRef(fetcher);
+  React.useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = React.useCallback(
+    (onChange: () => void) => {
+      if (!key) return () => {};
+      const entry = entryFor(key);
+      entry.listeners.add(onChange);
+      return () => {
+        entry.listeners.delete(onChange);
+      };
+    },
+    [key]
+  );
+
+  const state = React.useSyncExternalStore(
+    subscribe,
+    () => (key ? (entryFor(key).state as QueryState<T>) : EMPTY),
+    () => EMPTY
+  );
+
+  React.useEffect(() => {
+    if (!key) return;
+    const activeKey = key;
+    installFocusListeners();
+
+    const entry = entryFor(activeKey);
+    const run = () => fetcherRef.current();
+    entry.fetcher = run;
+
+    let dead = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    async function tick() {
+      let ok = true;
+      // Hidden tabs stop polling; the visibility listener catches up on return.
+      if (!isHidden()) {
+        try {
+          await fetchQuery(activeKey, run, { staleMs });
+        } catch {
+          ok = false;
+        }
+      }
+      if (!dead && pollMs) timer = setTimeout(tick, ok ? pollMs : errorPollMs);
+    }
+
+    tick();
+    return () => {
+      dead = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [key, pollMs, errorPollMs, staleMs]);
+
+  const refetch = React.useCallback(() => {
+    if (!key) return Promise.resolve(undefined);
+    return fetchQuery(key, () => fetcherRef.current());
+  }, [key]);
+
+  return { ...state, refetch };
+}
@@ -0,0 +1,152 @@
+import * as React from "react";
+import { decodeNavigationActivity, type NavigationActivity } from "./models";
+import { invalidateQueries, setQueryData } from "./query";
+import { literal, num, record, shape, str, type Decoder } from "./schema";
+
+// One shared Server-Sent Events connection for the whole tab. The stream is
+// served by app/api/realtime, which relays the backend feed (or a local
+// stand-in). Screens keep their polling loops and slow them down while the
+// stream is open, so a dropped connection degrades to the old behaviour.
+
+export type RealtimeEvent =
+  | { type: "message.created"; lead_id: number; message_id: number }
+  | { type: "message.status"; lead_id: number; message_id: number; status: string }
+  | { type: "lead.updated"; lead_id: number }
+  | { type: "activity"; activity: NavigationActivity };
+
+export type RealtimeStatus = "idle" | "connecting" | "open" | "closed";
+
+const REALTIME_PATH = "/api/realtime";
+const RETRY_MIN_MS = 2000;
+const RETRY_MAX_MS = 30000;
+// Keeps the stream alive across page navigations that unmount and remount subscribers.
+const CLOSE_GRACE_MS = 5000;
+
+const EVENT_TYPES = ["message.created", "message.status", "lead.updated", "activity"] as const;
+
+const decoders: { [K in RealtimeEvent["type"]]: Decoder<Extract<RealtimeEvent, { type: K }>> } = {
+  "message.created": shape({ type: literal(["message.created"] as const), lead_id: num, message_id: num }),
+  "message.status": shape({ type: literal(["message.status"] as const), lead_id: num, message_id: num, status: str }),
+  "lead.updated": shape({ type: literal(["lead.updated"] as const), lead_id: num }),
+  activity: shape({ type: literal(["activity"] as const), activity: decodeNavigationActivity }),
+};
+
+// Unknown event types are ignored so the backend can add new ones freely.
+export function decodeRealtimeEvent(value: unknown): RealtimeEvent | null {
+  const type = String(record(value, "event").type || "");
+  if (!(EVENT_TYPES as readonly string[]).includes(type)) return null;
+  return decoders[type as RealtimeEvent["type"]](value, "event");
+}
+
+type Listener = (event: RealtimeEvent) => void;
+
+const listeners = new Set<Listener>();
+const statusListeners = new Set<() => void>();
+let source: EventSource | null = null;
+let status: RealtimeStatus = "idle";
+let retryMs = RETRY_MIN_MS;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let closeTimer: ReturnType<typeof setTimeout> | null = null;
+
+function setStatus(next: RealtimeStatus) {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach((l) => l());
+}
+
+// Pushed events refresh the shared query cache directly, so list screens
+// pick them up without subscribing themselves.
+function applyToCache(event: RealtimeEvent) {
+  if (event.type === "activity") {
+    setQueryData("navigation-activity", event.activity);
+    return;
+  }
+  void invalidateQueries("leads");
+  if (event.type === "message.status") return;
+  // New messages and lead edits can move a lead in or out of a saved view.
+  void invalidateQueries("savedViews");
+  if (event.type === "message.created") void invalidateQueries("navigation-activity");
+}
+
+function handleMessage(e: MessageEvent) {
+  let event: RealtimeEvent | null = null;
+  try {
+    event = decodeRealtimeEvent(JSON.parse(String(e.data || "")));
+  } catch (err) {
+    console.warn("Ignoring malformed realtime event:", err);
+  }
+  if (!event) return;
+  applyToCache(event);
+  listeners.forEach((l) => l(event));
+}
+
+function connect() {
+  if (source || typeof window === "undefined" || typeof EventSource === "undefined") return;
+  setStatus("connecting");
+  const es = new EventSource(REALTIME_PATH);
+  source = es;
+
+  es.onopen = () => {
+    retryMs = RETRY_MIN_MS;
+    setStatus("open");
+  };
+  es.onmessage = handleMessage;
+  es.onerror = () => {
+    // EventSource retries on its own, but not after HTTP errors; own the backoff instead.
+    es.close();
+    if (source === es) source = null;
+    setStatus("closed");
+    if (listeners.size === 0 || retryTimer) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      if (listeners.size > 0) connect();
+    }, retryMs);
+    retryMs = Math.min(retryMs * 2, RETRY_MAX_MS);
+  };
+}
+
+function disconnect() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  source?.close();
+  source = null;
+  setStatus("idle");
+}
+
+export function subscribeRealtime(listener: Listener): () => void {
+  listeners.add(listener);
+  if (closeTimer) clearTimeout(closeTimer);
+  closeTimer = null;
+  connect();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0 || closeTimer) return;
+    closeTimer = setTimeout(() => {
+      closeTimer = null;
+      if (listeners.size === 0) disconnect();
+    }, CLOSE_GRACE_MS);
+  };
+}
+
+function subscribeStatus(onChange: () => void) {
+  statusListeners.add(onChange);
+  return () => {
+    statusListeners.delete(onChange);
+  };
+}
+
+// Keeps the shared stream open while mounted and reports its state.
+export function useRealtime(onEvent?: Listener): RealtimeStatus {
+  const onEventRef = React.useRef(onEvent);
+  React.useEffect(() => {
+    onEventRef.current = onEvent;
+  });
+
+  React.useEffect(() => subscribeRealtime((event) => onEventRef.current?.(event)), []);
+
+  return React.useSyncExternalStore(
+    subscribeStatus,
+    () => status,
+    () => "idle"
+  );
+}
@@ -0,0 +1,83 @@
+import { requestJson, requestOk } from "./client";
+import { invalidateQueries, useQuery, type QueryOptions } from "./query";
+import { arrayOf, bool, nullable, num, shape, str, withDefault } from "./schema";
+import { leadFiltersToParams, parseLeadFilters, type LeadFilters } from "./leadFilters";
+
+// Named lead filters ("smart lists"), stored per user by the backend. A view
+// shared with the team is listed for every member, but only its owner can
+// change it. The filters travel in their URL form, which is also what the
+// sidebar links to.
+
+export type SavedView = {
+  id: number;
+  name: string;
+  // Query string as produced by leadFiltersToParams, e.g. "hot=1&source=quotewizard".
+  query: string;
+  shared: boolean;
+  owner_email: string;
+  // False for views a teammate shared.
+  mine: boolean;
+  // Leads in the view whose last message is inbound; counted by the backend.
+  waiting_count: number;
+  created_at: string | null;
+};
+
+const decodeSavedView = shape<SavedView>({
+  id: num,
+  name: str,
+  // Normalized so it compares equal to the current table's filters.
+  query: (value, path) => leadFiltersToParams(parseLeadFilters(new URLSearchParams(withDefault(str, "")(value, path)))).toString(),
+  shared: withDefault(bool, false),
+  owner_email: withDefault(str, ""),
+  mine: withDefault(bool, true),
+  waiting_count: withDefault(num, 0),
+  created_at: nullable(str),
+});
+
+const decodeSavedViews = shape<{ views: SavedView[] }>({
+  views: withDefault(arrayOf(decodeSavedView), []),
+});
+
+export function savedViewFilters(view: SavedView): LeadFilters {
+  return parseLeadFilters(new URLSearchParams(view.query));
+}
+
+export async function listSavedViews() {
+  const body = await requestJson("/api/lead-views", decodeSavedViews, { label: "Load saved views" });
+  return body.views;
+}
+
+// Kept out of the "leads" prefix: the waiting counts are costly to compute, so
+// only changes that can move them (lead updates, sent and received messages)
+// refresh this key.
+export function useSavedViews(query: QueryOptions = {}) {
+  return useQuery("savedViews", listSavedViews, query);
+}
+
+export async function createSavedView(input: { name: string; filters: LeadFilters; shared: boolean }) {
+  const view = await requestJson("/api/lead-views", shape<{ view: SavedView }>({ view: decodeSavedView }), {
+    label: "Save view",
+    method: "POST",
+    json: { name: input.name, query: leadFiltersToParams(input.filters).toString(), shared: input.shared },
+  });
+  await invalidateQueries("savedViews");
+  return view.view;
+}
+
+export async function updateSavedView(id: number, input: { name?: string; filters?: LeadFilters; shared?: boolean }) {
+  await requestOk(`/api/lead-views/${id}`, {
+    label: "Update view",
+    method: "PUT",
+    json: {
+      name: input.name,
+      query: input.filters ? leadFiltersToParams(input.filters).toString() : undefined,
+      shared: input.shared,
+    },
+  });
+  await invalidateQueries("savedViews");
+}
+
+export async function deleteSavedView(id: number) {
+  await requestOk(`/api/lead-views/${id}`, { label: "Delete view", method: "DELETE" });
+  await invalidateQueries("savedViews");
+}
@@ -0,0 +1,142 @@
+// Small runtime decoders for backend payloads. Each decoder either returns a
+// typed value or throws ApiSchemaError naming the exact field that drifted.
+
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (value === undefined) return "undefined";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") {
+    const s = value.length > 40 ? `${value.slice(0, 40)}...` : value;
+    return `string "${s}"`;
+  }
+  if (typeof value === "object") return "object";
+  return `${typeof value} ${String(value)}`;
+}
+
+export class ApiSchemaError extends Error {
+  readonly path: string;
+  readonly expected: string;
+  readonly received: string;
+  endpoint: string;
+
+  constructor(path: string, expected: string, value: unknown, endpoint = "") {
+    super("");
+    this.name = "ApiSchemaError";
+    this.path = path;
+    this.expected = expected;
+    this.received = describe(value);
+    this.endpoint = endpoint;
+    this.message = this.format();
+  }
+
+  withEndpoint(endpoint: string) {
+    this.endpoint = endpoint;
+    this.message = this.format();
+    return this;
+  }
+
+  private format() {
+    const where = this.endpoint ? ` from ${this.endpoint}` : "";
+    return `Unexpected response${where}: ${this.path} should be ${this.expected}, got ${this.received}`;
+  }
+}
+
+export function fail(path: string, expected: string, value: unknown): never {
+  throw new ApiSchemaError(path, expected, value);
+}
+
+export const num: Decoder<number> = (value, path) => {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) return Number(value);
+  return fail(path, "a number", value);
+};
+
+export const str: Decoder<string> = (value, path) => {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return fail(path, "a string", value);
+};
+
+export const bool: Decoder<boolean> = (value, path) => {
+  if (typeof value === "boolean") return value;
+  if (value === 1 || value === "1" || value === "true") return true;
+  if (value === 0 || value === "0" || value === "false") return false;
+  return fail(path, "a boolean", value);
+};
+
+export function literal<T extends string>(values: readonly T[]): Decoder<T> {
+  return (value, path) => {
+    const s = typeof value === "string" ? value.trim().toLowerCase() : "";
+    if ((values as readonly string[]).includes(s)) return s as T;
+    return fail(path, `one of ${values.join(" | ")}`, value);
+  };
+}
+
+// SQLite-style 0/1 column. Missing values take the column default.
+export function flag(defaultValue: 0 | 1): Decoder<number> {
+  return (value, path) => {
+    if (value === null || value === undefined || value === "") return defaultValue;
+    return bool(value, path) ? 1 : 0;
+  };
+}
+
+// Tri-state override column: null means "inherit the account setting".
+export const optionalFlag: Decoder<number | null> = (value, path) => {
+  if (value === null || value === undefined || String(value).trim() === "") return null;
+  return bool(value, path) ? 1 : 0;
+};
+
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (value, path) => (value === null || value === undefined ? null : decoder(value, path));
+}
+
+export function maybe<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+  return (value, path) => (value === null || value === undefined ? undefined : decoder(value, path));
+}
+
+export function withDefault<T>(decoder: Decoder<T>, fallback: T): Decoder<T> {
+  return (value, path) => (value === null || value === undefined ? fallback : decoder(value, path));
+}
+
+export const record: Decoder<Record<string, unknown>> = (value, path) => {
+  if (value && typeof value === "object" && !Array.isArray(value)) return value as Record<string, unknown>;
+  return fail(path, "an object", value);
+};
+
+export function arrayOf<T>(decoder: Decoder<T>): Decoder<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) return fail(path, "an array", value);
+    return value.map((item, i) => decoder(item, `${path}[${i}]`));
+  };
+}
+
+export function recordOf<T>(decoder: Decoder<T>): Decoder<Record<string, T>> {
+  return (value, path) => {
+    const raw = record(value, path);
+    const out: Record<string, T> = {};
+    for (const [k, v] of Object.entries(raw)) out[k] = decoder(v, `${path}.${k}`);
+    return out;
+  };
+}
+
+export function shape<T>(fields: { [K in keyof T]-?: Decoder<T[K]> }): Decoder<T> {
+  return (value, path) => {
+    const raw = record(value, path);
+    const out = {} as T;
+    for (const key of Object.keys(fields) as Array<keyof T>) {
+      out[key] = fields[key](raw[key as string], `${path}.${String(key)}`);
+    }
+    return out;
+  };
+}
+
+export function decode<T>(decoder: Decoder<T>, value: unknown, endpoint: string): T {
+  try {
+    return decoder(value, "response");
+  } catch (e) {
+    if (e instanceof ApiSchemaError) throw e.withEndpoint(endpoint);
+    throw e;
+  }
+}
@@ -0,0 +1,61 @@
+import { requestJson, requestOk } from "./client";
+import { invalidateQueries, useQuery } from "./query";
+import { arrayOf, bool, nullable, shape, str, withDefault } from "./schema";
+
+// Sign-ins recorded by the backend. Every NextAuth session carries the id of
+// its record (see the jwt callback); revoking a record ends that session on
+// its next request in proxy.ts or apiFetch.
+
+export type ActiveSession = {
+  id: string;
+  // Browser and OS parsed from the user agent by the backend, e.g. "Chrome on macOS".
+  device: string;
+  user_agent: string;
+  ip: string;
+  created_at: string | null;
+  last_seen_at: string | null;
+  current: boolean;
+};
+
+const decodeActiveSession = shape<ActiveSession>({
+  id: str,
+  device: withDefault(str, ""),
+  user_agent: withDefault(str, ""),
+  ip: withDefault(str, ""),
+  created_at: nullable(str),
+  last_seen_at: nullable(str),
+  current: withDefault(bool, false),
+});
+
+const decodeSessions = shape<{ sessions: ActiveSession[] }>({
+  sessions: withDefault(arrayOf(decodeActiveSession), []),
+});
+
+export async function listSessions() {
+  const body = await requestJson("/api/me/sessions", decodeSessions, { label: "Load sessions" });
+  return body.sessions;
+}
+
+export function useSessions() {
+  return useQuery("me:sessions", listSessions, { pollMs: 60_000 });
+}
+
+export async function revokeSession(id: string) {
+  await requestOk(`/api/me/sessions/${encodeURIComponent(id)}`, { label: "Sign out session", method: "DELETE" });
+  await invalidateQueries("me:sessions");
+}
+
+// With keepCurrent the caller stays signed in on this device.
+export async function revokeAllSessions(opts: { keepCurrent: boolean }) {
+  await requestOk("/api/me/sessions/revoke-all", {
+    label: "Sign out everywhere",
+    method: "POST",
+    json: { keep_current: opts.keepCurrent },
+  });
+  await invalidateQueries("me:sessions");
+}
+
+// Used by logout so the record does not linger as "active".
+export function revokeCurrentSession() {
+  return requestOk("/api/me/sessions/current", { label: "Sign out", method: "DELETE" });
+}
@@ -0,0 +1,91 @@
+import { requestJson } from "./client";
+import { invalidateQueries, useQuery } from "./query";
+import { arrayOf, bool, nullable, record, shape, str, withDefault } from "./schema";
+import { decodeSettings, type Settings } from "./models";
+
+export type SettingsPayload = {
+  settings: Settings;
+  webhook_url: string | null;
+};
+
+const decodeSettingsPayload = shape<SettingsPayload>({
+  settings: withDefault(decodeSettings, {}),
+  webhook_url: nullable(str),
+});
+
+export function getSettings() {
+  return requestJson("/api/settings", decodeSettingsPayload, { label: "Load settings" });
+}
+
+// Shared read for pages that only consult a setting or two (quiet hours,
+// templates); the settings page itself loads and saves its own copy.
+export function useSettings() {
+  return useQuery("settings", getSettings, { staleMs: 60_000 });
+}
+
+// Issues a new Textdrip webhook secret; the old one stops working at once.
+export async function rotateWebhookSecret() {
+  const saved = await requestJson("/api/settings/webhook-secret/rotate", decodeSettingsPayload, {
+    label: "Key regeneration",
+    method: "POST",
+  });
+  await invalidateQueries("settings");
+  return saved;
+}
+
+export async function updateSettings(patch: Partial<Record<keyof Settings, unknown>> & Record<string, unknown>) {
+  const saved = await requestJson("/api/settings", decodeSettingsPayload, { label: "Save settings", method: "PUT", json: patch });
+  await invalidateQueries("settings");
+  return saved;
+}
+
+const decodeAutoFollowupDefaults = shape<{ config: Record<string, unknown> }>({ config: withDefault(record, {}) });
+
+// Account-wide automatic follow-up rules that new leads start from.
+export async function getAutoFollowupDefaults() {
+  const body = await requestJson("/api/auto-followup/defaults", decodeAutoFollowupDefaults, {
+    label: "Load follow-up defaults",
+  });
+  return body.config;
+}
+
+// Saves the defaults; `applyToAll` also rewrites every existing lead's rules.
+export async function saveAutoFollowupDefaults(config: Record<string, unknown>, opts: { applyToAll: boolean }) {
+  const body = await requestJson("/api/auto-followup/defaults", decodeAutoFollowupDefaults, {
+    label: "Follow-up defaults save",
+    method: "PUT",
+    json: { config, apply_to_all: opts.applyToAll },
+  });
+  if (opts.applyToAll) await invalidateQueries("leads");
+  return body.config;
+}
+
+export type OnboardingStep = {
+  key: string;
+  label: string;
+  done: boolean;
+};
+
+const decodeOnboardingChecklist = shape<{ checklist: { steps: OnboardingStep[] } }>({
+  checklist: withDefault(
+    shape<{ steps: OnboardingStep[] }>({
+      steps: withDefault(
+        arrayOf(
+          shape<OnboardingStep>({
+            key: withDefault(str, ""),
+            label: withDefault(str, ""),
+            done: withDefault(bool, false),
+          })
+        ),
+        []
+      ),
+    }),
+    { steps: [] }
+  ),
+});
+
+// Account setup progress (Textdrip connected, webhook live, ...).
+export async function getOnboardingChecklist() {
+  const body = await requestJson("/api/onboarding/checklist", decodeOnboardingChecklist, { label: "Checklist load" });
+  return body.checklist.steps;
+}
@@ -0,0 +1,132 @@
+import { requestJson, requestOk } from "./client";
+import { invalidateQueries, useQuery } from "./query";
+import { arrayOf, bool, literal, nullable, num, shape, str, withDefault } from "./schema";
+
+// Agency accounts. An owner (capability "team.manage") sees every lead on the
+// team and hands them out; agents only ever get their own leads back from
+// /api/leads. The backend scopes the lists, the UI only adds the filters.
+
+export type TeamRole = "owner" | "agent";
+
+export type TeamMember = {
+  email: string;
+  name: string;
+  role: TeamRole;
+  // Included when new leads are dealt out round-robin.
+  round_robin: boolean;
+  open_leads: number;
+  joined_at: string | null;
+};
+
+export type Team = {
+  id: number;
+  name: string;
+  // New leads (manual, CSV, email import) are assigned automatically.
+  round_robin_enabled: boolean;
+  members: TeamMember[];
+};
+
+export type TeamInvite = {
+  id: number;
+  email: string;
+  created_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  used_at: string | null;
+  status: string;
+};
+
+const decodeTeamMember = shape<TeamMember>({
+  // Lowercased to match Lead.assigned_to.
+  email: (value, path) => str(value, path).trim().toLowerCase(),
+  name: withDefault(str, ""),
+  role: withDefault(literal(["owner", "agent"] as const), "agent"),
+  round_robin: withDefault(bool, true),
+  open_leads: withDefault(num, 0),
+  joined_at: nullable(str),
+});
+
+const decodeTeam = shape<Team>({
+  id: num,
+  name: withDefault(str, ""),
+  round_robin_enabled: withDefault(bool, false),
+  members: withDefault(arrayOf(decodeTeamMember), []),
+});
+
+// Solo accounts have no team.
+const decodeTeamResponse = shape<{ team: Team | null }>({ team: nullable(decodeTeam) });
+
+const decodeTeamInvites = shape<{ invites: TeamInvite[] }>({
+  invites: withDefault(
+    arrayOf(
+      shape<TeamInvite>({
+        id: num,
+        email: withDefault(str, ""),
+        created_at: nullable(str),
+        expires_at: nullable(str),
+        revoked_at: nullable(str),
+        used_at: nullable(str),
+        status: withDefault(str, ""),
+      })
+    ),
+    []
+  ),
+});
+
+const decodeInviteUrl = shape<{ signup_url: string }>({ signup_url: withDefault(str, "") });
+
+export async function getTeam() {
+  const body = await requestJson("/api/team", decodeTeamResponse, { label: "Load team" });
+  return body.team;
+}
+
+// Members change rarely; the assignee pickers share this cache.
+export function useTeam(opts: { enabled?: boolean } = {}) {
+  return useQuery("team", getTeam, { staleMs: 60_000, enabled: opts.enabled });
+}
+
+export async function updateTeam(input: { name?: string; round_robin_enabled?: boolean }) {
+  await requestOk("/api/team", { label: "Team update", method: "PUT", json: input });
+  await invalidateQueries("team");
+}
+
+export async function setMemberRoundRobin(email: string, enabled: boolean) {
+  await requestOk(`/api/team/members/${encodeURIComponent(email)}`, {
+    label: "Round-robin update",
+    method: "PUT",
+    json: { round_robin: enabled },
+  });
+  await invalidateQueries("team");
+}
+
+// The member's leads go back to the owner as unassigned.
+export async function removeTeamMember(email: string) {
+  await requestOk(`/api/team/members/${encodeURIComponent(email)}`, { label: "Remove member", method: "DELETE" });
+  await Promise.all([invalidateQueries("team"), invalidateQueries("leads"), invalidateQueries("savedViews")]);
+}
+
+export async function listTeamInvites() {
+  const body = await requestJson("/api/team/invites?limit=20", decodeTeamInvites, { label: "Load team invites" });
+  return body.invites;
+}
+
+export function useTeamInvites(opts: { enabled?: boolean } = {}) {
+  return useQuery("team:invites", listTeamInvites, { enabled: opts.enabled });
+}
+
+// Same signup links as the admin invites, but the account joins this team as
+// an agent once approved.
+export async function createTeamInvite(input: { email: string; expiresMinutes: number }) {
+  const body = await requestJson("/api/team/invites", decodeInviteUrl, {
+    label: "Create invite",
+    method: "POST",
+    json: input,
+  });
+  await invalidateQueries("team:invites");
+  return body.signup_url;
+}
+
+export async function revokeTeamInvite(id: number) {
+  await requestOk(`/api/team/invites/${id}/revoke`, { label: "Revoke invite", method: "POST" });
+  await invalidateQueries("team:invites");
+}
@@ -0,0 +1,54 @@
+import { requestJson, requestOk } from "./client";
+import { invalidateQueries, useQuery } from "./query";
+import { arrayOf, nullable, num, shape, str, withDefault } from "./schema";
+
+// Canned replies for the thread composer, stored per user by the backend.
+// The body keeps its `{variables}` as typed; they are filled in against a
+// lead on the client (see lib/messageTemplates.ts).
+
+export type MessageTemplate = {
+  id: number;
+  name: string;
+  body: string;
+  updated_at: string | null;
+};
+
+const decodeMessageTemplate = shape<MessageTemplate>({
+  id: num,
+  name: withDefault(str, ""),
+  body: withDefault(str, ""),
+  updated_at: nullable(str),
+});
+
+const decodeMessageTemplates = shape<{ templates: MessageTemplate[] }>({
+  templates: withDefault(arrayOf(decodeMessageTemplate), []),
+});
+
+export async function listMessageTemplates() {
+  const body = await requestJson("/api/message-templates", decodeMessageTemplates, { label: "Load templates" });
+  return body.templates;
+}
+
+export function useMessageTemplates() {
+  return useQuery("message-templates", listMessageTemplates, { staleMs: 60_000 });
+}
+
+export async function createMessageTemplate(input: { name: string; body: string }) {
+  const saved = await requestJson(
+    "/api/message-templates",
+    shape<{ template: MessageTemplate }>({ template: decodeMessageTemplate }),
+    { label: "Save template", method: "POST", json: input }
+  );
+  await invalidateQueries("message-templates");
+  return saved.template;
+}
+
+export async function updateMessageTemplate(id: number, input: { name: string; body: string }) {
+  await requestOk(`/api/message-templates/${id}`, { label: "Save template", method: "PUT", json: input });
+  await invalidateQueries("message-templates");
+}
+
+export async function deleteMessageTemplate(id: number) {
+  await requestOk(`/api/message-templates/${id}`, { label: "Delete template", method: "DELETE" });
+  await invalidateQueries("message-templates");
+}
@@ -0,0 +1,76 @@
+import { requestJson, requestOk } from "./client";
+import { invalidateQueries, useQuery } from "./query";
+import { arrayOf, bool, nullable, num, shape, str, withDefault } from "./schema";
+
+// TOTP two-factor authentication for the signed-in user. The backend owns the
+// secret; the browser only renders it for the authenticator app and relays codes.
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  // Set by an admin; users with it cannot turn 2FA off and are sent to Settings until enrolled.
+  required: boolean;
+  recovery_codes_remaining: number | null;
+};
+
+export type TwoFactorSetup = {
+  secret: string;
+  otpauth_url: string;
+  // PNG data URL of the otpauth QR code, rendered by the backend.
+  qr_data_url: string | null;
+};
+
+const decodeTwoFactorStatus = shape<TwoFactorStatus>({
+  enabled: withDefault(bool, false),
+  required: withDefault(bool, false),
+  recovery_codes_remaining: nullable(num),
+});
+
+const decodeTwoFactorSetup = shape<TwoFactorSetup>({
+  secret: str,
+  otpauth_url: str,
+  qr_data_url: nullable(str),
+});
+
+const decodeRecoveryCodes = shape<{ recovery_codes: string[] }>({
+  recovery_codes: withDefault(arrayOf(str), []),
+});
+
+export function getTwoFactorStatus() {
+  return requestJson("/api/me/2fa", decodeTwoFactorStatus, { label: "Load two-factor status" });
+}
+
+export function useTwoFactorStatus() {
+  return useQuery("me:2fa", getTwoFactorStatus);
+}
+
+// Issues a fresh, not yet active secret. Nothing changes until enableTwoFactor confirms a code from it.
+export function startTwoFactorSetup() {
+  return requestJson("/api/me/2fa/setup", decodeTwoFactorSetup, { label: "Start two-factor setup", method: "POST" });
+}
+
+// Resolves to the one-time recovery codes; they are not retrievable afterwards.
+export async function enableTwoFactor(code: string) {
+  const body = await requestJson("/api/me/2fa/enable", decodeRecoveryCodes, {
+    label: "Enable two-factor",
+    method: "POST",
+    json: { code },
+  });
+  await invalidateQueries("me");
+  return body.recovery_codes;
+}
+
+export async function disableTwoFactor(code: string) {
+  await requestOk("/api/me/2fa/disable", { label: "Disable two-factor", method: "POST", json: { code } });
+  await invalidateQueries("me");
+}
+
+// Replaces every unused recovery code.
+export async function regenerateRecoveryCodes(code: string) {
+  const body = await requestJson("/api/me/2fa/recovery-codes", decodeRecoveryCodes, {
+    label: "Regenerate recovery codes",
+    method: "POST",
+    json: { code },
+  });
+  await invalidateQueries("me:2fa");
+  return body.recovery_codes;
+}
@@ -1,9 +1,24 @@
-import { getSession } from "next-auth/react";
+import { getCsrfToken, getSession } from "next-auth/react";
+import type { Session } from "next-auth";
 
 const API_BASE =
   process.env.NEXT_PUBLIC_API_BASE ||
   "https://infinitedrip-backend.onrender.com";
 
+// Fired on window when the backend token is rejected and cannot be refreshed.
+// The CustomEvent detail says whether the session expired or was revoked.
+export const SESSION_EXPIRED_EVENT = "infinitedrip:session-expired";
+
+export type SessionEndReason = "expired" | "revoked";
+
+export type AppSession = Session & {
+  token?: string;
+  accessToken?: string;
+  error?: string;
+  // Set while an admin is viewing the app as another user (see startImpersonation).
+  impersonating?: { id: string; email: string } | null;
+};
+
 function resolveUrl(input: string) {
   const s = String(input || "");
   if (s.startsWith("http://") || s.startsWith("https://")) return s;
@@ -11,18 +26,11 @@ function resolveUrl(input: string) {
   return `${API_BASE}${s}`;
 }
 
-export async function apiFetch(url: string, init: RequestInit = {}) {
-  const session = await getSession();
-
-  const token =
-    (session as any)?.token ||
-    (session as any)?.accessToken ||
-    "";
+function buildHeaders(session: AppSession | null, init: RequestInit) {
+  const token = session?.token || session?.accessToken || "";
 
   // Use email as the user id (matches your “username field is driven by @ emails” setup)
-  const userId =
-    (session as any)?.user?.email ||
-    "";
+  const userId = session?.impersonating?.email || session?.user?.email || "";
 
   const headers = new Headers(init.headers || {});
 
@@ -35,10 +43,77 @@ export async function apiFetch(url: string, init: RequestInit = {}) {
     headers.set("x-user-id", userId);
   }
 
+  // The backend checks the admin's token against this id and audits the request under it.
+  if (session?.impersonating && !headers.has("x-impersonation-id")) {
+    headers.set("x-impersonation-id", session.impersonating.id);
+  }
+
   // Keep bearer token too (won't hurt; helps later if you switch backend auth)
   if (token && !headers.has("Authorization")) {
     headers.set("Authorization", `Bearer ${token}`);
   }
 
-  return fetch(resolveUrl(url), { ...init, headers });
+  return headers;
+}
+
+let refreshInFlight: Promise<AppSession | null> | null = null;
+
+// Posts `data` to the NextAuth jwt callback (trigger "update") and returns the new session.
+export async function updateSession(data: Record<string, unknown>): Promise<AppSession | null> {
+  try {
+    const csrfToken = await getCsrfToken();
+    const r = await fetch("/api/auth/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ csrfToken, data }),
+    });
+    if (!r.ok) return null;
+    const session = (await r.json().catch(() => null)) as AppSession | null;
+    return session?.user ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+// Asks the jwt callback to refresh the backend token, which also re-reads the
+// session claims. Concurrent 401s share one refresh.
+export function refreshSession(): Promise<AppSession | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = updateSession({ refresh: true }).finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+function notifySessionExpired(reason: SessionEndReason = "expired") {
+  window.dispatchEvent(new CustomEvent<SessionEndReason>(SESSION_EXPIRED_EVENT, { detail: reason }));
+}
+
+async function isRevokedResponse(r: Response) {
+  const body = await r.clone().json().catch(() => null);
+  return body?.error === "session_revoked";
+}
+
+export async function apiFetch(url: string, init: RequestInit = {}) {
+  const session = (await getSession()) as AppSession | null;
+  const r = await fetch(resolveUrl(url), { ...init, headers: buildHeaders(session, init) });
+  if (r.status !== 401 || typeof window === "undefined") return r;
+
+  // Retry once with a refreshed token; explicit Authorization headers are the caller's business.
+  if (new Headers(init.headers || {}).has("Authorization")) return r;
+  // A revoked session cannot be refreshed back to life.
+  if (await isRevokedResponse(r)) {
+    notifySessionExpired("revoked");
+    return r;
+  }
+  const refreshed = await refreshSession();
+  if (!refreshed || refreshed.error || !(refreshed.token || refreshed.accessToken)) {
+    notifySessionExpired(refreshed?.error === "SessionRevoked" ? "revoked" : "expired");
+    return r;
+  }
+
+  const retry = await fetch(resolveUrl(url), { ...init, headers: buildHeaders(refreshed, init) });
+  if (retry.status === 401) notifySessionExpired();
+  return retry;
 }
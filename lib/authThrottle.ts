@@ -0,0 +1,154 @@
+// Attempt limits for the auth endpoints (NextAuth authorize and the signup /
+// forgot-password relays in app/api/auth). Counters live in process memory,
+// so each server instance limits independently; the backend keeps its own
+// limits behind this.
+
+export type ThrottlePolicy = {
+  // Failures older than this are forgotten.
+  windowMs: number;
+  // Failures before a proof-of-work challenge is required.
+  challengeAfter: number;
+  // Failures before each further attempt has to wait, doubling from baseDelayMs.
+  delayAfter: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Failures that lock the key for lockMs.
+  lockAfter: number;
+  lockMs: number;
+};
+
+export type ThrottleVerdict =
+  | { status: "ok" }
+  | { status: "challenge" }
+  | { status: "wait"; retryAfterMs: number }
+  | { status: "locked"; retryAfterMs: number };
+
+type AttemptRecord = {
+  failures: number[];
+  lockedUntil: number;
+};
+
+const MINUTE = 60 * 1000;
+
+// Per email: a few typos are free, then a challenge, growing delays and a 15 minute lock.
+export const LOGIN_EMAIL_POLICY: ThrottlePolicy = {
+  windowMs: 15 * MINUTE,
+  challengeAfter: 3,
+  delayAfter: 5,
+  baseDelayMs: 2000,
+  maxDelayMs: 30 * 1000,
+  lockAfter: 10,
+  lockMs: 15 * MINUTE,
+};
+
+// Per IP: looser, since offices share one address.
+export const LOGIN_IP_POLICY: ThrottlePolicy = {
+  windowMs: 15 * MINUTE,
+  challengeAfter: 10,
+  delayAfter: 20,
+  baseDelayMs: 1000,
+  maxDelayMs: 10 * 1000,
+  lockAfter: 50,
+  lockMs: 15 * MINUTE,
+};
+
+// Signup, reset and sign-in link emails, per IP: every submission counts and
+// always needs a challenge. The proof of work already prices each request,
+// so the lock only stops floods; a shared office or carrier NAT stays open.
+export const FORM_IP_POLICY: ThrottlePolicy = {
+  windowMs: 60 * MINUTE,
+  challengeAfter: 0,
+  delayAfter: 30,
+  baseDelayMs: 2000,
+  maxDelayMs: 30 * 1000,
+  lockAfter: 200,
+  lockMs: 60 * MINUTE,
+};
+
+// The same forms per email and IP: repeat sends to one inbox slow down and
+// lock without blocking anyone else on that IP.
+export const FORM_EMAIL_POLICY: ThrottlePolicy = {
+  windowMs: 60 * MINUTE,
+  challengeAfter: 0,
+  delayAfter: 3,
+  baseDelayMs: 5000,
+  maxDelayMs: 60 * 1000,
+  lockAfter: 10,
+  lockMs: 60 * MINUTE,
+};
+
+const MAX_RECORDS = 10000;
+
+// Survives dev-server module reloads, like the realtime stand-in.
+const store = globalThis as typeof globalThis & { __authThrottleRecords?: Map<string, AttemptRecord> };
+const records = (store.__authThrottleRecords ??= new Map<string, AttemptRecord>());
+
+function readRecord(key: string, policy: ThrottlePolicy, now: number): AttemptRecord | null {
+  const rec = records.get(key);
+  if (!rec) return null;
+  rec.failures = rec.failures.filter((t) => now - t < policy.windowMs);
+  if (rec.failures.length === 0 && rec.lockedUntil <= now) {
+    records.delete(key);
+    return null;
+  }
+  return rec;
+}
+
+export function checkThrottle(key: string, policy: ThrottlePolicy, now = Date.now()): ThrottleVerdict {
+  const rec = readRecord(key, policy, now);
+  if (rec && rec.lockedUntil > now) return { status: "locked", retryAfterMs: rec.lockedUntil - now };
+
+  const failures = rec?.failures.length ?? 0;
+  if (rec && failures >= policy.delayAfter) {
+    const delay = Math.min(policy.baseDelayMs * 2 ** (failures - policy.delayAfter), policy.maxDelayMs);
+    const readyAt = rec.failures[rec.failures.length - 1] + delay;
+    if (readyAt > now) return { status: "wait", retryAfterMs: readyAt - now };
+  }
+  if (failures >= policy.challengeAfter) return { status: "challenge" };
+  return { status: "ok" };
+}
+
+export function recordFailure(key: string, policy: ThrottlePolicy, now = Date.now()) {
+  const rec = readRecord(key, policy, now) ?? { failures: [], lockedUntil: 0 };
+  rec.failures.push(now);
+  if (rec.failures.length >= policy.lockAfter) {
+    rec.lockedUntil = now + policy.lockMs;
+    rec.failures = [];
+  }
+  // Crude bound under a flood of distinct keys; losing counters only loosens limits.
+  if (!records.has(key) && records.size >= MAX_RECORDS) records.clear();
+  records.set(key, rec);
+}
+
+export function clearFailures(key: string) {
+  records.delete(key);
+}
+
+const SEVERITY: Record<ThrottleVerdict["status"], number> = { ok: 0, challenge: 1, wait: 2, locked: 3 };
+
+// The strictest of several verdicts (e.g. per email and per IP).
+export function strictest(verdicts: ThrottleVerdict[]): ThrottleVerdict {
+  return verdicts.reduce((worst, v) => (SEVERITY[v.status] > SEVERITY[worst.status] ? v : worst), { status: "ok" });
+}
+
+// Proxies in front of this app that append to x-forwarded-for. Everything
+// left of the hops they added came from the client and can be forged.
+const TRUSTED_PROXY_HOPS = Math.max(1, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 1));
+
+// The caller's address as seen by the nearest trusted proxy: a header the
+// platform sets itself (CLIENT_IP_HEADER, e.g. "cf-connecting-ip") when
+// configured, otherwise the x-forwarded-for entry our own proxies appended.
+export function clientIp(headers: Headers | Record<string, unknown> | undefined): string {
+  const read = (name: string) =>
+    String((headers instanceof Headers ? headers.get(name) : headers ? headers[name] : undefined) || "").trim();
+  const platformHeader = String(process.env.CLIENT_IP_HEADER || "").trim().toLowerCase();
+  const platform = platformHeader ? read(platformHeader) : "";
+  if (platform) return platform;
+
+  const hops = read("x-forwarded-for")
+    .split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+  const forwarded = hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)];
+  return forwarded || read("x-real-ip") || "unknown";
+}
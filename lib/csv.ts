@@ -0,0 +1,74 @@
+import { downloadBlob } from "@/lib/download";
+
+// Minimal RFC 4180 CSV reading and writing for lead import and export. Runs
+// in the browser; quoted fields may contain commas, quotes ("") and newlines.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  // Excel writes a byte-order mark at the start of UTF-8 files.
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < src.length; i += 1) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+      continue;
+    }
+    if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no data.
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+// Spreadsheets run a cell starting with one of these as a formula.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function escapeCell(value: unknown, neutralizeFormulas: boolean) {
+  let s = value === null || value === undefined ? "" : String(value);
+  // A leading apostrophe makes Excel and Sheets show the text as typed. Real
+  // numbers are left alone so a negative amount stays a number.
+  if (neutralizeFormulas && typeof value === "string" && FORMULA_START.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// Pass `neutralizeFormulas` for files people open in a spreadsheet that hold
+// text from outside (inbound SMS, vendor payloads, uploaded CSV cells).
+export function toCsv(rows: readonly (readonly unknown[])[], opts: { neutralizeFormulas?: boolean } = {}): string {
+  const neutralize = !!opts.neutralizeFormulas;
+  return rows.map((r) => r.map((cell) => escapeCell(cell, neutralize)).join(",")).join("\r\n") + "\r\n";
+}
+
+export function downloadCsv(
+  filename: string,
+  rows: readonly (readonly unknown[])[],
+  opts: { neutralizeFormulas?: boolean } = {}
+) {
+  downloadBlob(filename, new Blob([toCsv(rows, opts)], { type: "text/csv;charset=utf-8" }));
+}
@@ -0,0 +1,110 @@
+// Duplicate matching for leads. The same person arrives through Textdrip
+// webhooks, CSV import, Gmail import and manual add with the phone written
+// differently each time, so every key is normalized before comparing.
+
+import type { Lead } from "@/lib/api";
+import { toE164 } from "@/lib/phone";
+
+export type DuplicateReason = "phone" | "email" | "name_zip";
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: "Same phone",
+  email: "Same email",
+  name_zip: "Same name and ZIP",
+};
+
+export type DuplicateGroup = {
+  // Stable id for the group: its lowest lead id.
+  id: number;
+  leads: Lead[];
+  reasons: DuplicateReason[];
+};
+
+type MatchInput = Partial<Pick<Lead, "phone" | "name" | "first_name" | "last_name" | "email" | "zip">>;
+
+function phoneKey(phone: string | null | undefined) {
+  const e164 = toE164(phone);
+  if (e164) return e164;
+  // Unparseable numbers still match on their last ten digits.
+  const digits = String(phone || "").replace(/\D/g, "");
+  return digits.length >= 7 ? digits.slice(-10) : "";
+}
+
+function emailKey(email: string | null | undefined) {
+  const e = String(email || "").trim().toLowerCase();
+  return e.includes("@") ? e : "";
+}
+
+function nameZipKey(lead: MatchInput) {
+  const full = lead.name || [lead.first_name, lead.last_name].filter(Boolean).join(" ");
+  const name = String(full || "").toLowerCase().replace(/[^a-z]/g, "");
+  const zip = String(lead.zip || "").replace(/\D/g, "").slice(0, 5);
+  return name.length >= 3 && zip.length === 5 ? `${name}:${zip}` : "";
+}
+
+function matchKeys(lead: MatchInput): Array<[DuplicateReason, string]> {
+  const keys: Array<[DuplicateReason, string]> = [
+    ["phone", phoneKey(lead.phone)],
+    ["email", emailKey(lead.email)],
+    ["name_zip", nameZipKey(lead)],
+  ];
+  return keys.filter(([, key]) => key !== "");
+}
+
+// Groups leads sharing any key, transitively: A and B share a phone, B and C
+// an email, so all three are one group.
+export function findDuplicateGroups(leads: readonly Lead[]): DuplicateGroup[] {
+  const parent = leads.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const firstByKey = new Map<string, number>();
+  const reasonsByRoot = new Map<number, Set<DuplicateReason>>();
+  const links: Array<[number, number, DuplicateReason]> = [];
+  leads.forEach((lead, i) => {
+    for (const [reason, key] of matchKeys(lead)) {
+      const seen = firstByKey.get(`${reason}:${key}`);
+      if (seen === undefined) firstByKey.set(`${reason}:${key}`, i);
+      else links.push([seen, i, reason]);
+    }
+  });
+  for (const [a, b] of links) parent[find(a)] = find(b);
+  for (const [a, , reason] of links) {
+    const root = find(a);
+    const set = reasonsByRoot.get(root) ?? new Set<DuplicateReason>();
+    set.add(reason);
+    reasonsByRoot.set(root, set);
+  }
+
+  const members = new Map<number, Lead[]>();
+  leads.forEach((lead, i) => {
+    const root = find(i);
+    if (!reasonsByRoot.has(root)) return;
+    members.set(root, [...(members.get(root) ?? []), lead]);
+  });
+
+  return Array.from(members.entries())
+    .map(([root, group]) => {
+      const sorted = [...group].sort((a, b) => a.id - b.id);
+      return { id: sorted[0].id, leads: sorted, reasons: Array.from(reasonsByRoot.get(root) ?? []) };
+    })
+    .sort((a, b) => b.leads.length - a.leads.length || a.id - b.id);
+}
+
+// Existing leads that look like the same person as `candidate`, with why.
+export function findLikelyDuplicates(candidate: MatchInput, leads: readonly Lead[]) {
+  const wanted = new Map(matchKeys(candidate).map(([reason, key]) => [reason, key]));
+  const matches: Array<{ lead: Lead; reasons: DuplicateReason[] }> = [];
+  for (const lead of leads) {
+    const reasons = matchKeys(lead)
+      .filter(([reason, key]) => wanted.get(reason) === key)
+      .map(([reason]) => reason);
+    if (reasons.length) matches.push({ lead, reasons });
+  }
+  return matches;
+}
@@ -0,0 +1,144 @@
+// Lead export for the /leads page. Walks the same cursor pages as the table
+// and encodes each page as it arrives, yielding to the browser in between,
+// so exporting thousands of leads keeps the tab responsive.
+
+import { listLeadPage, listMessages, type Lead, type LeadFilters, type LeadPage, type Msg } from "@/lib/api";
+import { toCsv } from "@/lib/csv";
+import { parseLeadSnapshot, SNAPSHOT_FIELDS, snapshotValue } from "@/lib/leadSnapshot";
+import { createXlsxWriter } from "@/lib/xlsx";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportColumn = {
+  key: string;
+  label: string;
+  group: "lead" | "snapshot";
+  value: (lead: Lead, snapshot: Record<string, unknown> | null) => string | number | null;
+};
+
+function yesNo(flag: number) {
+  return flag ? "Yes" : "No";
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "id", label: "ID", group: "lead", value: (l) => l.id },
+  { key: "name", label: "Name", group: "lead", value: (l) => l.name },
+  { key: "first_name", label: "First name", group: "lead", value: (l) => l.first_name },
+  { key: "last_name", label: "Last name", group: "lead", value: (l) => l.last_name },
+  { key: "phone", label: "Phone", group: "lead", value: (l) => l.phone },
+  { key: "email", label: "Email", group: "lead", value: (l) => l.email },
+  { key: "city", label: "City", group: "lead", value: (l) => l.city },
+  { key: "state", label: "State", group: "lead", value: (l) => l.state },
+  { key: "zip", label: "ZIP", group: "lead", value: (l) => l.zip },
+  { key: "status", label: "Status", group: "lead", value: (l) => l.status },
+  { key: "source", label: "Source", group: "lead", value: (l) => l.source },
+  { key: "assigned_to", label: "Assigned to", group: "lead", value: (l) => l.assigned_to || "" },
+  { key: "hot", label: "Hot", group: "lead", value: (l) => yesNo(l.hot) },
+  { key: "dnc", label: "DNC", group: "lead", value: (l) => yesNo(l.dnc) },
+  { key: "archived", label: "Archived", group: "lead", value: (l) => yesNo(l.archived) },
+  { key: "ai_enabled", label: "AI on", group: "lead", value: (l) => yesNo(l.ai_enabled) },
+  { key: "last_message", label: "Last message", group: "lead", value: (l) => l.last_message || "" },
+  { key: "last_message_at", label: "Last message at", group: "lead", value: (l) => l.lastMessageAt || "" },
+  { key: "created_at", label: "Created", group: "lead", value: (l) => l.createdAt || "" },
+  { key: "notes", label: "Notes", group: "lead", value: (l) => l.notes || "" },
+  ...SNAPSHOT_FIELDS.map(
+    (f): ExportColumn => ({
+      key: `snapshot.${f.key}`,
+      label: f.label,
+      group: "snapshot",
+      value: (_l, snap) => snapshotValue(snap, f.key),
+    })
+  ),
+];
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  "id",
+  "name",
+  "phone",
+  "email",
+  "status",
+  "source",
+  "hot",
+  "dnc",
+  "last_message",
+  "created_at",
+];
+
+const EXPORT_PAGE_SIZE = 500;
+const TRANSCRIPT_CONCURRENCY = 4;
+
+function formatTranscript(messages: Msg[]) {
+  return messages
+    .map((m) => `[${m.created_at || ""}] ${m.direction === "in" ? "Lead" : "Agent"}: ${m.text}`)
+    .join("\n");
+}
+
+async function loadTranscripts(leads: Lead[], signal?: AbortSignal) {
+  const out = new Map<number, string>();
+  let next = 0;
+  async function worker() {
+    while (next < leads.length && !signal?.aborted) {
+      const lead = leads[next];
+      next += 1;
+      try {
+        out.set(lead.id, formatTranscript(await listMessages(lead.id)));
+      } catch (e) {
+        out.set(lead.id, `(transcript unavailable: ${e instanceof Error ? e.message : String(e)})`);
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(TRANSCRIPT_CONCURRENCY, leads.length) }, worker));
+  return out;
+}
+
+// Lets the browser paint and handle input between pages.
+function yieldToBrowser() {
+  return new Promise<void>((resolve) => window.setTimeout(resolve, 0));
+}
+
+export async function exportLeads(opts: {
+  filters: LeadFilters;
+  columns: string[];
+  format: ExportFormat;
+  includeTranscripts: boolean;
+  // Export only these leads (still in filter order) instead of every match.
+  onlyIds?: ReadonlySet<number>;
+  onProgress?: (exported: number) => void;
+  signal?: AbortSignal;
+}): Promise<{ blob: Blob; count: number } | null> {
+  const columns = opts.columns
+    .map((key) => EXPORT_COLUMNS.find((c) => c.key === key))
+    .filter((c): c is ExportColumn => !!c);
+  const header = [...columns.map((c) => c.label), ...(opts.includeTranscripts ? ["Transcript"] : [])];
+
+  const xlsx = opts.format === "xlsx" ? createXlsxWriter("Leads") : null;
+  // Excel only detects UTF-8 in a CSV when it starts with a byte-order mark.
+  const csvParts: string[] = ["\ufeff"];
+  const write = (rows: unknown[][]) => (xlsx ? xlsx.addRows(rows) : csvParts.push(toCsv(rows, { neutralizeFormulas: true })));
+  write([header]);
+
+  let count = 0;
+  let cursor: string | null = null;
+  do {
+    const page: LeadPage = await listLeadPage(opts.filters, { cursor, limit: EXPORT_PAGE_SIZE });
+    if (opts.signal?.aborted) return null;
+    const leads = opts.onlyIds ? page.leads.filter((l) => opts.onlyIds?.has(l.id)) : page.leads;
+    const transcripts = opts.includeTranscripts ? await loadTranscripts(leads, opts.signal) : null;
+    if (opts.signal?.aborted) return null;
+
+    write(
+      leads.map((lead) => {
+        const snapshot = parseLeadSnapshot(lead.lead_snapshot_json);
+        const row: unknown[] = columns.map((c) => c.value(lead, snapshot));
+        if (transcripts) row.push(transcripts.get(lead.id) ?? "");
+        return row;
+      })
+    );
+    count += leads.length;
+    opts.onProgress?.(count);
+    cursor = page.next_cursor;
+    await yieldToBrowser();
+  } while (cursor && !(opts.onlyIds && count >= opts.onlyIds.size));
+
+  return { blob: xlsx ? xlsx.finish() : new Blob(csvParts, { type: "text/csv;charset=utf-8" }), count };
+}
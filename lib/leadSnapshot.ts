@@ -0,0 +1,40 @@
+// Lead snapshots are the raw payload a lead vendor sent, stored as JSON on
+// `lead_snapshot_json`. The fields the vendor parser recognised live under
+// `extracted_lead`; anything else in there is vendor specific.
+
+export const SNAPSHOT_FIELDS = [
+  { key: "address", label: "Address" },
+  { key: "dob", label: "Date of birth" },
+  { key: "gender", label: "Gender" },
+  { key: "height", label: "Height" },
+  { key: "weight", label: "Weight" },
+  { key: "annual_household_income", label: "Household income" },
+  { key: "family_size", label: "Family size" },
+  { key: "coverage_type", label: "Coverage type" },
+  { key: "qualifying_event", label: "Qualifying event" },
+  { key: "is_medicare", label: "Medicare" },
+  { key: "custom_lead_type_name", label: "Lead type" },
+  { key: "lead_timezone", label: "Timezone (vendor)" },
+] as const;
+
+export type SnapshotField = (typeof SNAPSHOT_FIELDS)[number]["key"];
+
+export function parseLeadSnapshot(raw?: string | null): Record<string, unknown> | null {
+  const s = String(raw || "").trim();
+  if (!s) return null;
+  try {
+    const parsed: unknown = JSON.parse(s);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+// One extracted field as display text; "" when the vendor didn't send it.
+export function snapshotValue(snapshot: Record<string, unknown> | null, key: string): string {
+  const extracted = snapshot?.extracted_lead;
+  if (!extracted || typeof extracted !== "object") return "";
+  const value = (extracted as Record<string, unknown>)[key];
+  if (value === null || value === undefined || typeof value === "object") return "";
+  return String(value).trim();
+}
@@ -0,0 +1,104 @@
+// Merge variables for message templates. A template body refers to them as
+// `{first_name}`; rendering swaps in the lead's values and leaves anything it
+// can't fill in place so the sender sees the gap before the text goes out.
+
+import type { Appointment, Lead } from "@/lib/api";
+import { parseLeadSnapshot, snapshotValue, SNAPSHOT_FIELDS } from "@/lib/leadSnapshot";
+import { resolveLeadZone } from "@/lib/timezone";
+
+export type TemplateContext = {
+  lead: Lead;
+  // The name the lead knows the sender by (the AI name in settings).
+  agentName?: string;
+  appointment?: Appointment | null;
+};
+
+type Variable = { key: string; label: string; value: (ctx: TemplateContext) => string };
+
+function firstName(lead: Lead) {
+  const own = String(lead.first_name || "").trim();
+  if (own) return own;
+  return String(lead.name || "").trim().split(/\s+/)[0] || "";
+}
+
+function appointmentTime(ctx: TemplateContext) {
+  const start = ctx.appointment?.start ? new Date(ctx.appointment.start) : null;
+  if (!start || Number.isNaN(start.getTime())) return "";
+  // Spelled out in the lead's own zone, since that's the clock they'll read it against.
+  const zone = resolveLeadZone(ctx.lead)?.zone;
+  return start.toLocaleString("en-US", {
+    timeZone: zone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+function leadField(field: "last_name" | "name" | "city" | "state" | "zip" | "phone" | "email") {
+  return (ctx: TemplateContext) => String(ctx.lead[field] || "").trim();
+}
+
+export const TEMPLATE_VARIABLES: Variable[] = [
+  { key: "first_name", label: "First name", value: (ctx) => firstName(ctx.lead) },
+  { key: "last_name", label: "Last name", value: leadField("last_name") },
+  { key: "full_name", label: "Full name", value: leadField("name") },
+  { key: "city", label: "City", value: leadField("city") },
+  { key: "state", label: "State", value: leadField("state") },
+  { key: "zip", label: "ZIP", value: leadField("zip") },
+  { key: "phone", label: "Phone", value: leadField("phone") },
+  { key: "email", label: "Email", value: leadField("email") },
+  { key: "agent_name", label: "Agent name", value: (ctx) => String(ctx.agentName || "").trim() },
+  { key: "appointment_time", label: "Appointment time", value: appointmentTime },
+  ...SNAPSHOT_FIELDS.map((f) => ({
+    key: f.key,
+    label: f.label,
+    value: (ctx: TemplateContext) => snapshotValue(parseLeadSnapshot(ctx.lead.lead_snapshot_json), f.key),
+  })),
+];
+
+const VARIABLES_BY_KEY = new Map(TEMPLATE_VARIABLES.map((v) => [v.key, v]));
+
+const PLACEHOLDER = /\{([a-z][a-z0-9_]*)\}/gi;
+
+export type RenderedTemplate = {
+  text: string;
+  // Known variables this lead has no value for.
+  missing: string[];
+  // Names that aren't variables at all, usually a typo.
+  unknown: string[];
+};
+
+export function renderTemplate(body: string, ctx: TemplateContext): RenderedTemplate {
+  const missing = new Set<string>();
+  const unknown = new Set<string>();
+  const text = body.replace(PLACEHOLDER, (token, name: string) => {
+    const variable = VARIABLES_BY_KEY.get(name.toLowerCase());
+    if (!variable) {
+      unknown.add(name);
+      return token;
+    }
+    const value = variable.value(ctx);
+    if (!value) missing.add(variable.key);
+    return value || token;
+  });
+  return { text, missing: [...missing], unknown: [...unknown] };
+}
+
+// Placeholders still sitting in a draft, e.g. after inserting a template
+// for a lead with no city on file.
+export function findPlaceholders(text: string) {
+  return [...new Set(Array.from(text.matchAll(PLACEHOLDER), (m) => m[0]))];
+}
+
+// The appointment a template most likely means: the next upcoming one,
+// otherwise the most recent (for "we missed you" follow-ups).
+export function pickAppointment(events: Appointment[], nowMs: number): Appointment | null {
+  const timed = events
+    .map((e) => ({ e, t: e.start ? new Date(e.start).getTime() : NaN }))
+    .filter((x) => Number.isFinite(x.t))
+    .sort((a, b) => a.t - b.t);
+  return (timed.find((x) => x.t >= nowMs) ?? timed[timed.length - 1])?.e ?? null;
+}
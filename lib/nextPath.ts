@@ -0,0 +1,9 @@
+// Post-login redirect target from a `next` param (set by proxy.ts, the
+// session-expired modal and magic links). Only same-site paths are honoured.
+export function safeNextPath(next: string | null | undefined) {
+  const path = String(next || "");
+  if (!path.startsWith("/") || path.startsWith("//") || path.startsWith("/\\") || path.startsWith("/login")) {
+    return "/dashboard";
+  }
+  return path;
+}
@@ -0,0 +1,86 @@
+// Password rules shared by signup, reset-password and Settings > Account.
+// The backend enforces its own minimum; this catches weak choices before
+// submit and drives the strength meter. Everything runs offline.
+
+export const PASSWORD_MIN_LENGTH = 10;
+export const PASSWORD_MAX_LENGTH = 128;
+// Long passphrases are fine without mixing character classes.
+const PASSPHRASE_LENGTH = 16;
+const REQUIRED_CLASSES = 3;
+
+export const PASSWORD_REQUIREMENTS = `At least ${PASSWORD_MIN_LENGTH} characters with ${REQUIRED_CLASSES} of: lowercase, uppercase, number, symbol (or ${PASSPHRASE_LENGTH}+ characters). Common passwords are not allowed.`;
+
+// Base words of the most common leaked passwords, matched after stripping
+// digits and symbols from both ends ("Password123!" -> "password").
+const COMMON_WORDS = new Set([
+  "password", "passw0rd", "p@ssword", "pass", "qwerty", "qwertyuiop", "asdfgh", "asdfghjkl", "zxcvbnm",
+  "letmein", "welcome", "iloveyou", "admin", "administrator", "root", "login", "master", "secret",
+  "monkey", "dragon", "football", "baseball", "basketball", "soccer", "hockey", "sunshine", "princess",
+  "shadow", "superman", "batman", "trustno", "starwars", "whatever", "freedom", "charlie", "michael",
+  "jennifer", "jordan", "hunter", "ranger", "buster", "tigger", "summer", "winter", "autumn", "spring",
+  "hello", "hellohello", "changeme", "default", "test", "testing", "guest", "abc", "abcdef", "abcdefgh",
+  "abcdefghij", "loveme", "lovely", "flower", "cookie", "cheese", "chocolate", "computer", "internet",
+  "google", "facebook", "samsung", "apple", "mustang", "corvette", "ferrari", "yankees", "cowboys",
+  "eagles", "liverpool", "chelsea", "arsenal", "jesus", "christ", "blessed", "family", "money",
+  "qazwsx", "qazwsxedc", "zaq", "zaqxsw", "1qaz2wsx", "1q2w3e", "1q2w3e4r", "1q2w3e4r5t", "q1w2e3r4",
+  "infinitedrip", "infinite", "drip", "insurance", "healthinsurance", "medicare", "agent", "leads",
+]);
+
+// Keyboard and digit runs that the word list misses.
+const COMMON_SEQUENCES = [
+  "0123456789", "1234567890", "0987654321", "9876543210", "qwertyuiop", "asdfghjkl", "zxcvbnm",
+  "abcdefghijklmnopqrstuvwxyz",
+];
+
+export type PasswordCheck = {
+  ok: boolean;
+  // First entry is the most useful one to show.
+  errors: string[];
+  // 0 (very weak) to 4 (strong).
+  score: 0 | 1 | 2 | 3 | 4;
+  label: "Very weak" | "Weak" | "Fair" | "Good" | "Strong";
+};
+
+const LABELS: PasswordCheck["label"][] = ["Very weak", "Weak", "Fair", "Good", "Strong"];
+
+function characterClasses(password: string) {
+  return [/[a-z]/, /[A-Z]/, /[0-9]/, /[^A-Za-z0-9]/].filter((re) => re.test(password)).length;
+}
+
+function isCommon(password: string) {
+  const lower = password.toLowerCase();
+  const base = lower.replace(/^[^a-z]+|[^a-z]+$/g, "");
+  if (COMMON_WORDS.has(lower) || (base && COMMON_WORDS.has(base))) return true;
+  if (COMMON_SEQUENCES.some((seq) => seq.includes(lower) || lower.includes(seq.slice(0, 8)))) return true;
+  // One character repeated, e.g. "aaaaaaaaaa".
+  return /^(.)\1+$/.test(password);
+}
+
+export function checkPassword(password: string, context: { email?: string } = {}): PasswordCheck {
+  const errors: string[] = [];
+  const classes = characterClasses(password);
+  const common = isCommon(password);
+  const emailName = String(context.email || "").split("@")[0].toLowerCase();
+
+  if (password.length < PASSWORD_MIN_LENGTH) errors.push(`Use at least ${PASSWORD_MIN_LENGTH} characters.`);
+  if (password.length > PASSWORD_MAX_LENGTH) errors.push(`Use at most ${PASSWORD_MAX_LENGTH} characters.`);
+  if (password.length < PASSPHRASE_LENGTH && classes < REQUIRED_CLASSES) {
+    errors.push(`Mix ${REQUIRED_CLASSES} of: lowercase, uppercase, numbers, symbols — or use ${PASSPHRASE_LENGTH}+ characters.`);
+  }
+  if (common) errors.push("This password is too common. Pick something less guessable.");
+  if (emailName.length >= 3 && password.toLowerCase().includes(emailName)) {
+    errors.push("Don't include your email name in the password.");
+  }
+
+  let score = 0;
+  if (password.length >= PASSWORD_MIN_LENGTH) score += 1;
+  if (password.length >= 14) score += 1;
+  if (password.length >= 20) score += 1;
+  if (classes >= REQUIRED_CLASSES) score += 1;
+  if (classes === 4) score += 1;
+  if (common || errors.length > 0) score = Math.min(score, 1);
+  if (!password) score = 0;
+  const clamped = Math.min(score, 4) as PasswordCheck["score"];
+
+  return { ok: errors.length === 0, errors, score: clamped, label: LABELS[clamped] };
+}
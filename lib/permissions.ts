@@ -0,0 +1,46 @@
+// Capabilities a user can be granted. The backend returns the effective list
+// on /api/me and at login; proxy.ts, the sidebar and the pages all check these
+// names instead of comparing roles.
+
+export const CAPABILITIES = {
+  "leads.import.email": "Import leads from Gmail",
+  "billing.manage": "Manage own billing",
+  "team.manage": "Manage agency team and assign leads",
+  "admin.users.manage": "Manage users and invites",
+  "admin.audit.read": "Read the audit log",
+  "admin.textdrip.debug": "Textdrip delivery debugging",
+  "admin.email.debug": "Email delivery debugging",
+  "admin.settings.defaults": "Edit account-wide AI defaults and FAQs",
+} as const;
+
+export type Capability = keyof typeof CAPABILITIES;
+
+export const ALL_CAPABILITIES = Object.keys(CAPABILITIES) as Capability[];
+
+export function isCapability(value: unknown): value is Capability {
+  return typeof value === "string" && value in CAPABILITIES;
+}
+
+type PermissionSource = {
+  role?: unknown;
+  permissions?: unknown;
+  email_lead_import_access?: unknown;
+};
+
+// Effective capabilities for a user record. Backends that predate the
+// permissions list are mapped from the legacy role and access flag.
+export function resolvePermissions(user: PermissionSource): Capability[] {
+  if (Array.isArray(user.permissions)) {
+    return user.permissions.filter(isCapability);
+  }
+  if (String(user.role || "").trim().toLowerCase() === "admin") return [...ALL_CAPABILITIES];
+
+  const granted: Capability[] = ["billing.manage"];
+  const access = user.email_lead_import_access;
+  if (access === true || access === 1 || access === "1") granted.push("leads.import.email");
+  return granted;
+}
+
+export function hasPermission(user: { permissions: readonly string[] } | null | undefined, capability: Capability) {
+  return !!user && user.permissions.includes(capability);
+}
@@ -0,0 +1,23 @@
+// Phone numbers as the backend stores them: E.164 ("+15125550123"). Leads are
+// US numbers, so ten digits get the +1 country code; anything already written
+// with a "+" is kept if it has a plausible length.
+
+export function toE164(raw: string | null | undefined): string | null {
+  const value = String(raw || "").trim();
+  if (!value) return null;
+  // Drop extensions such as "x123" or "ext. 4".
+  const main = value.split(/\s*(?:x|ext\.?|#)\s*\d+$/i)[0];
+  const digits = main.replace(/\D/g, "");
+
+  if (main.startsWith("+")) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.length === 10) return isNanpNumber(digits) ? `+1${digits}` : null;
+  if (digits.length === 11 && digits.startsWith("1")) return isNanpNumber(digits.slice(1)) ? `+${digits}` : null;
+  return null;
+}
+
+// North American numbers never start the area code or exchange with 0 or 1.
+function isNanpNumber(ten: string) {
+  return /^[2-9]\d{2}[2-9]\d{6}$/.test(ten);
+}
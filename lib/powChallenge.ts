@@ -0,0 +1,52 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { leadingZeroBits } from "@/lib/proofOfWork";
+
+// Self-hosted proof-of-work challenge for the auth forms. A challenge is
+// "<issuedAt>.<random>.<difficulty>.<signature>"; the browser (lib/powSolver.ts)
+// finds a nonce whose SHA-256 of "<challenge>:<nonce>" starts with `difficulty`
+// zero bits. Challenges are signed instead of stored, and each one is
+// accepted once.
+
+// About 65k hashes: a second or two in a browser, costly across thousands of attempts.
+const DIFFICULTY_BITS = 16;
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// Without NEXTAUTH_SECRET, challenges only verify on the instance that issued them.
+const store = globalThis as typeof globalThis & {
+  __powFallbackSecret?: string;
+  __powUsedChallenges?: Map<string, number>;
+};
+const secret = process.env.NEXTAUTH_SECRET || (store.__powFallbackSecret ??= randomBytes(32).toString("hex"));
+const used = (store.__powUsedChallenges ??= new Map<string, number>());
+
+function sign(payload: string) {
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+export function createChallenge(now = Date.now()) {
+  const payload = `${now}.${randomBytes(12).toString("hex")}.${DIFFICULTY_BITS}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyChallenge(challenge: unknown, nonce: unknown, now = Date.now()): boolean {
+  if (typeof challenge !== "string" || typeof nonce !== "string" || !nonce || nonce.length > 32) return false;
+  const parts = challenge.split(".");
+  if (parts.length !== 4) return false;
+
+  const [issuedAt, , difficulty, signature] = parts;
+  const expected = Buffer.from(sign(parts.slice(0, 3).join(".")), "hex");
+  const given = Buffer.from(signature, "hex");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return false;
+
+  const age = now - Number(issuedAt);
+  if (!Number.isFinite(age) || age < 0 || age > CHALLENGE_TTL_MS) return false;
+
+  for (const [c, expiresAt] of used) if (expiresAt <= now) used.delete(c);
+  if (used.has(challenge)) return false;
+
+  const digest = createHash("sha256").update(`${challenge}:${nonce}`).digest();
+  if (leadingZeroBits(digest) < Number(difficulty)) return false;
+
+  used.set(challenge, Number(issuedAt) + CHALLENGE_TTL_MS);
+  return true;
+}
@@ -0,0 +1,27 @@
+// Browser side of lib/powChallenge.ts: fetches a challenge and brute-forces
+// the nonce. The result is sent along with the auth form.
+
+import { leadingZeroBits } from "@/lib/proofOfWork";
+
+export type ChallengeSolution = {
+  challenge: string;
+  nonce: string;
+};
+
+const encoder = new TextEncoder();
+
+export async function solveChallenge(): Promise<ChallengeSolution> {
+  const r = await fetch("/api/auth/challenge", { cache: "no-store" });
+  const body = await r.json().catch(() => ({}));
+  const challenge = String(body?.challenge || "");
+  const difficulty = Number(challenge.split(".")[2]);
+  if (!r.ok || !challenge || !Number.isFinite(difficulty)) throw new Error("Could not load the security check.");
+
+  // Far beyond the expected 2^difficulty tries; only a broken challenge gets here.
+  const limit = 2 ** (difficulty + 6);
+  for (let nonce = 0; nonce < limit; nonce += 1) {
+    const digest = await crypto.subtle.digest("SHA-256", encoder.encode(`${challenge}:${nonce}`));
+    if (leadingZeroBits(new Uint8Array(digest)) >= difficulty) return { challenge, nonce: String(nonce) };
+  }
+  throw new Error("Security check failed. Please try again.");
+}
@@ -0,0 +1,15 @@
+// Shared by the server verifier (lib/powChallenge.ts) and the browser solver
+// (lib/powSolver.ts) so both count a solution the same way. Must stay free
+// of Node-only imports.
+
+export function leadingZeroBits(bytes: Uint8Array) {
+  let bits = 0;
+  for (const b of bytes) {
+    if (b === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(b) - 24;
+  }
+  return bits;
+}
@@ -0,0 +1,267 @@
+// Where a lead is, in IANA terms, and whether it is a reasonable hour to
+// text them. Resolution order: the lead's own `lead_timezone`, the vendor
+// snapshot's, the ZIP code, the phone's area code, then the state. Split
+// states (FL panhandle, East/West TN and KY, NW and SW Indiana, West TX,
+// North ID, Western NE/SD/ND, Eastern OR) are handled by ZIP prefix; area
+// codes that straddle a line fall back to the zone most of their callers use.
+
+import type { Lead } from "@/lib/api";
+import { parseLeadSnapshot, snapshotValue } from "@/lib/leadSnapshot";
+
+const EASTERN = "America/New_York";
+const CENTRAL = "America/Chicago";
+const MOUNTAIN = "America/Denver";
+const PACIFIC = "America/Los_Angeles";
+
+const STATE_ZONE: Record<string, string> = {
+  AL: CENTRAL, AK: "America/Anchorage", AZ: "America/Phoenix", AR: CENTRAL, CA: PACIFIC,
+  CO: MOUNTAIN, CT: EASTERN, DC: EASTERN, DE: EASTERN, FL: EASTERN, GA: EASTERN,
+  HI: "Pacific/Honolulu", IA: CENTRAL, ID: "America/Boise", IL: CENTRAL,
+  IN: "America/Indiana/Indianapolis", KS: CENTRAL, KY: EASTERN, LA: CENTRAL, MA: EASTERN,
+  MD: EASTERN, ME: EASTERN, MI: "America/Detroit", MN: CENTRAL, MO: CENTRAL, MS: CENTRAL,
+  MT: MOUNTAIN, NC: EASTERN, ND: CENTRAL, NE: CENTRAL, NH: EASTERN, NJ: EASTERN, NM: MOUNTAIN,
+  NV: PACIFIC, NY: EASTERN, OH: EASTERN, OK: CENTRAL, OR: PACIFIC, PA: EASTERN,
+  PR: "America/Puerto_Rico", RI: EASTERN, SC: EASTERN, SD: CENTRAL, TN: CENTRAL, TX: CENTRAL,
+  UT: MOUNTAIN, VA: EASTERN, VT: EASTERN, WA: PACIFIC, WI: CENTRAL, WV: EASTERN, WY: MOUNTAIN,
+};
+
+// First three ZIP digits -> state, as inclusive ranges.
+const ZIP3_STATE: Array<[number, number, string]> = [
+  [5, 5, "NY"], [6, 9, "PR"], [10, 27, "MA"], [28, 29, "RI"], [30, 38, "NH"], [39, 49, "ME"],
+  [50, 59, "VT"], [60, 69, "CT"], [70, 89, "NJ"], [100, 149, "NY"], [150, 196, "PA"],
+  [197, 199, "DE"], [200, 205, "DC"], [206, 219, "MD"], [220, 246, "VA"], [247, 268, "WV"],
+  [270, 289, "NC"], [290, 299, "SC"], [300, 319, "GA"], [320, 349, "FL"], [350, 369, "AL"],
+  [370, 385, "TN"], [386, 397, "MS"], [398, 399, "GA"], [400, 427, "KY"], [430, 459, "OH"],
+  [460, 479, "IN"], [480, 499, "MI"], [500, 528, "IA"], [530, 549, "WI"], [550, 567, "MN"],
+  [570, 577, "SD"], [580, 588, "ND"], [590, 599, "MT"], [600, 629, "IL"], [630, 658, "MO"],
+  [660, 679, "KS"], [680, 693, "NE"], [700, 714, "LA"], [716, 729, "AR"], [730, 749, "OK"],
+  [750, 799, "TX"], [800, 816, "CO"], [820, 831, "WY"], [832, 838, "ID"], [840, 847, "UT"],
+  [850, 865, "AZ"], [870, 884, "NM"], [885, 885, "TX"], [889, 898, "NV"], [900, 961, "CA"],
+  [967, 968, "HI"], [970, 979, "OR"], [980, 994, "WA"], [995, 999, "AK"],
+];
+
+// ZIP prefixes on the other side of a state's time zone line.
+const ZIP3_ZONE: Array<[number, number, string]> = [
+  [324, 325, CENTRAL], // FL panhandle: Panama City, Pensacola
+  [373, 374, EASTERN], // East TN: Chattanooga
+  [375, 375, CENTRAL], // Memphis area, numbered among the eastern prefixes
+  [376, 379, EASTERN], // East TN: Tri-Cities, Knoxville
+  [420, 424, CENTRAL], // Western KY
+  [463, 464, CENTRAL], // NW Indiana near Chicago
+  [476, 477, CENTRAL], // SW Indiana: Evansville
+  [577, 577, MOUNTAIN], // West River SD: Rapid City
+  [586, 586, MOUNTAIN], // SW ND: Dickinson
+  [693, 693, MOUNTAIN], // Nebraska panhandle
+  [798, 799, MOUNTAIN], // El Paso
+  [885, 885, MOUNTAIN],
+  [835, 835, PACIFIC], // North Idaho: Lewiston, Coeur d'Alene
+  [838, 838, PACIFIC],
+  [979, 979, "America/Boise"], // Malheur County, OR
+];
+
+const AREA_CODE_STATE: Record<string, string> = {};
+for (const [state, codes] of Object.entries({
+  AL: "205 251 256 334 659 938",
+  AK: "907",
+  AZ: "480 520 602 623 928",
+  AR: "327 479 501 870",
+  CA: "209 213 279 310 323 341 350 408 415 424 442 510 530 559 562 619 626 628 650 657 661 669 707 714 747 760 805 818 820 831 840 858 909 916 925 949 951",
+  CO: "303 719 720 970 983",
+  CT: "203 475 860 959",
+  DC: "202 771",
+  DE: "302",
+  FL: "239 305 321 324 352 386 407 448 561 645 656 689 727 728 754 772 786 813 850 863 904 941 954",
+  GA: "229 404 470 478 678 706 762 770 912 943",
+  HI: "808",
+  IA: "319 515 563 641 712",
+  ID: "208 986",
+  IL: "217 224 309 312 331 447 464 618 630 708 730 773 779 815 847 861 872",
+  IN: "219 260 317 463 574 765 812 930",
+  KS: "316 620 785 913",
+  KY: "270 364 502 606 859",
+  LA: "225 318 337 504 985",
+  MA: "339 351 413 508 617 774 781 857 978",
+  MD: "227 240 301 410 443 667",
+  ME: "207",
+  MI: "231 248 269 313 517 586 616 679 734 810 906 947 989",
+  MN: "218 320 507 612 651 763 924 952",
+  MO: "235 314 417 557 573 636 660 816 975",
+  MS: "228 601 662 769",
+  MT: "406",
+  NC: "252 336 472 704 743 828 910 919 980 984",
+  ND: "701",
+  NE: "308 402 531",
+  NH: "603",
+  NJ: "201 551 609 640 732 848 856 862 908 973",
+  NM: "505 575",
+  NV: "702 725 775",
+  NY: "212 315 329 332 347 363 516 518 585 607 624 631 646 680 716 718 838 845 914 917 929 934",
+  OH: "216 220 234 283 326 330 380 419 436 440 513 567 614 740 937",
+  OK: "405 539 572 580 918",
+  OR: "458 503 541 971",
+  PA: "215 223 267 272 412 445 484 570 582 610 717 724 814 835 878",
+  PR: "787 939",
+  RI: "401",
+  SC: "803 821 839 843 854 864",
+  SD: "605",
+  TN: "423 615 629 731 865 901 931",
+  TX: "210 214 254 281 325 346 361 409 430 432 469 512 682 713 726 737 806 817 830 832 903 915 936 940 945 956 972 979",
+  UT: "385 435 801",
+  VA: "276 434 540 571 686 703 757 804 826 948",
+  VT: "802",
+  WA: "206 253 360 425 509 564",
+  WI: "262 274 353 414 534 608 715 920",
+  WV: "304 681",
+  WY: "307",
+})) {
+  for (const code of codes.split(" ")) AREA_CODE_STATE[code] = state;
+}
+
+// Area codes in split states that sit (mostly) across the line.
+const AREA_CODE_ZONE: Record<string, string> = {
+  "219": CENTRAL, // NW Indiana
+  "270": CENTRAL, // Western KY
+  "364": CENTRAL,
+  "423": EASTERN, // East TN
+  "865": EASTERN,
+  "915": MOUNTAIN, // El Paso
+};
+
+// Common non-IANA spellings seen in vendor payloads.
+const ZONE_ALIASES: Record<string, string> = {
+  est: EASTERN, edt: EASTERN, et: EASTERN, eastern: EASTERN,
+  cst: CENTRAL, cdt: CENTRAL, ct: CENTRAL, central: CENTRAL,
+  mst: MOUNTAIN, mdt: MOUNTAIN, mt: MOUNTAIN, mtn: MOUNTAIN, mountain: MOUNTAIN,
+  pst: PACIFIC, pdt: PACIFIC, pt: PACIFIC, pacific: PACIFIC,
+  akst: "America/Anchorage", alaska: "America/Anchorage",
+  hst: "Pacific/Honolulu", hawaii: "Pacific/Honolulu",
+};
+
+export type ZoneSource = "lead" | "snapshot" | "zip" | "area_code" | "state";
+
+export type ResolvedZone = {
+  zone: string;
+  // Two-letter state the zone came from, when known; drives state texting rules.
+  state: string;
+  source: ZoneSource;
+};
+
+function validZone(raw: string): string | null {
+  const value = raw.trim();
+  if (!value) return null;
+  const alias = ZONE_ALIASES[value.toLowerCase().replace(/\s*time$/, "")];
+  if (alias) return alias;
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: value }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+function fromZip(zip: string): { zone: string; state: string } | null {
+  const digits = zip.replace(/\D/g, "");
+  if (digits.length < 5) return null;
+  const prefix = Number(digits.slice(0, 3));
+  const state = ZIP3_STATE.find(([from, to]) => prefix >= from && prefix <= to)?.[2];
+  if (!state) return null;
+  const split = ZIP3_ZONE.find(([from, to]) => prefix >= from && prefix <= to)?.[2];
+  return { zone: split || STATE_ZONE[state], state };
+}
+
+function fromPhone(phone: string): { zone: string; state: string } | null {
+  const digits = phone.replace(/\D/g, "");
+  const national = digits.length === 11 && digits.startsWith("1") ? digits.slice(1) : digits;
+  if (national.length !== 10) return null;
+  const code = national.slice(0, 3);
+  const state = AREA_CODE_STATE[code];
+  if (!state) return null;
+  return { zone: AREA_CODE_ZONE[code] || STATE_ZONE[state], state };
+}
+
+type ZoneInput = Pick<Lead, "lead_timezone" | "zip" | "phone" | "state"> & Partial<Pick<Lead, "lead_snapshot_json">>;
+
+export function resolveLeadZone(lead: ZoneInput): ResolvedZone | null {
+  const state = String(lead.state || "").trim().toUpperCase();
+  const zip = fromZip(String(lead.zip || ""));
+  const phone = fromPhone(String(lead.phone || ""));
+  // Best guess at the state for texting rules when the lead has none.
+  const knownState = STATE_ZONE[state] ? state : zip?.state || phone?.state || "";
+
+  const own = validZone(String(lead.lead_timezone || ""));
+  if (own) return { zone: own, state: knownState, source: "lead" };
+  const snapshot = validZone(snapshotValue(parseLeadSnapshot(lead.lead_snapshot_json), "lead_timezone"));
+  if (snapshot) return { zone: snapshot, state: knownState, source: "snapshot" };
+  if (zip) return { zone: zip.zone, state: zip.state, source: "zip" };
+  if (phone) return { zone: phone.zone, state: phone.state, source: "area_code" };
+  if (STATE_ZONE[state]) return { zone: STATE_ZONE[state], state, source: "state" };
+  return null;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(zone: string) {
+  let f = formatters.get(zone);
+  if (!f) {
+    f = new Intl.DateTimeFormat(undefined, { timeZone: zone, hour: "numeric", minute: "2-digit", timeZoneName: "short" });
+    formatters.set(zone, f);
+  }
+  return f;
+}
+
+// "3:05 PM CDT"; DST comes from the zone, not a fixed label.
+export function formatZoneTime(zone: string, nowMs: number) {
+  return formatterFor(zone).format(nowMs);
+}
+
+const clockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function minutesOfDay(zone: string, nowMs: number) {
+  let f = clockFormatters.get(zone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", { timeZone: zone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" });
+    clockFormatters.set(zone, f);
+  }
+  const parts = f.formatToParts(nowMs);
+  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+function parseClock(v: string | undefined) {
+  const m = /^(\d{1,2}):(\d{2})/.exec(String(v || ""));
+  return m ? Number(m[1]) * 60 + Number(m[2]) : null;
+}
+
+function clockLabel(minutes: number) {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${h % 12 || 12}${m ? `:${String(m).padStart(2, "0")}` : ""} ${h < 12 ? "AM" : "PM"}`;
+}
+
+// Federal TCPA allows 8 AM to 9 PM in the recipient's local time. States
+// with a stricter window under their own telemarketing laws end at 8 PM.
+const TCPA_START = 8 * 60;
+const TCPA_END = 21 * 60;
+const STATE_TCPA_END: Record<string, number> = { FL: 20 * 60, OK: 20 * 60, WA: 20 * 60 };
+
+export type QuietHours = { enabled?: boolean; start?: string; end?: string };
+
+export type TextingWindow = { safe: boolean; reason: string };
+
+// Whether texting the lead right now respects the legal window and the
+// user's AI quiet hours, both read in the lead's local time.
+export function textingWindow(resolved: ResolvedZone, nowMs: number, quiet?: QuietHours | null): TextingWindow {
+  const local = minutesOfDay(resolved.zone, nowMs);
+  const end = STATE_TCPA_END[resolved.state] ?? TCPA_END;
+  if (local < TCPA_START) return { safe: false, reason: `Before ${clockLabel(TCPA_START)} for the lead` };
+  if (local >= end) return { safe: false, reason: `After ${clockLabel(end)} for the lead` };
+
+  const qs = quiet?.enabled ? parseClock(quiet.start) : null;
+  const qe = quiet?.enabled ? parseClock(quiet.end) : null;
+  if (qs !== null && qe !== null && qs !== qe) {
+    // Quiet hours usually wrap midnight (22:00 to 08:00).
+    const inQuiet = qs < qe ? local >= qs && local < qe : local >= qs || local < qe;
+    if (inQuiet) return { safe: false, reason: `Inside your quiet hours (${clockLabel(qs)} to ${clockLabel(qe)})` };
+  }
+  return { safe: true, reason: `Between ${clockLabel(TCPA_START)} and ${clockLabel(end)} for the lead` };
+}
@@ -0,0 +1,135 @@
+// Just enough of the XLSX format to write one sheet of text and numbers:
+// inline strings, no styles, packed into an uncompressed zip. Rows are
+// encoded as they are added so large exports never build one huge string.
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+// Excel refuses longer cells.
+const MAX_CELL_CHARS = 32767;
+
+const STATIC_PARTS: Array<[string, string]> = [
+  [
+    "[Content_Types].xml",
+    XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      "</Types>",
+  ],
+  [
+    "_rels/.rels",
+    XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>",
+  ],
+  [
+    "xl/_rels/workbook.xml.rels",
+    XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      "</Relationships>",
+  ],
+];
+
+const SHEET_OPEN =
+  XML_HEADER + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>';
+const SHEET_CLOSE = "</sheetData></worksheet>";
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array, crc = 0) {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < bytes.length; i += 1) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+}
+
+function escapeXml(s: string) {
+  return (
+    s
+      // Control characters are not allowed in XML 1.0 at all.
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+  );
+}
+
+function cellXml(value: unknown) {
+  if (value === null || value === undefined || value === "") return "<c/>";
+  if (typeof value === "number" && Number.isFinite(value)) return `<c><v>${value}</v></c>`;
+  const text = String(value).slice(0, MAX_CELL_CHARS);
+  return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+type ZipEntry = { name: Uint8Array<ArrayBuffer>; parts: Uint8Array<ArrayBuffer>[]; size: number; crc: number };
+
+function u16(n: number) {
+  return [n & 0xff, (n >>> 8) & 0xff];
+}
+
+function u32(n: number) {
+  return [n & 0xff, (n >>> 8) & 0xff, (n >>> 16) & 0xff, (n >>> 24) & 0xff];
+}
+
+// Stored (method 0) zip with a fixed 1980-01-01 timestamp.
+function zip(entries: ZipEntry[]): Blob {
+  const out: BlobPart[] = [];
+  const central: number[] = [];
+  let offset = 0;
+  for (const e of entries) {
+    const common = [...u16(20), ...u16(0x0800), ...u16(0), ...u16(0), ...u16(0x21), ...u32(e.crc), ...u32(e.size), ...u32(e.size), ...u16(e.name.length)];
+    const local = new Uint8Array([...u32(0x04034b50), ...common, ...u16(0)]);
+    out.push(local, e.name, ...e.parts);
+    central.push(...u32(0x02014b50), ...u16(20), ...common, ...u16(0), ...u16(0), ...u16(0), ...u16(0), ...u32(0), ...u32(offset), ...e.name);
+    offset += local.length + e.name.length + e.size;
+  }
+  const end = [...u32(0x06054b50), ...u16(0), ...u16(0), ...u16(entries.length), ...u16(entries.length), ...u32(central.length), ...u32(offset), ...u16(0)];
+  out.push(new Uint8Array(central), new Uint8Array(end));
+  return new Blob(out, { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+}
+
+export function createXlsxWriter(sheetName: string) {
+  const encoder = new TextEncoder();
+  const sheet: ZipEntry = { name: encoder.encode("xl/worksheets/sheet1.xml"), parts: [], size: 0, crc: 0 };
+
+  function write(text: string) {
+    const bytes = encoder.encode(text);
+    sheet.parts.push(bytes);
+    sheet.size += bytes.length;
+    sheet.crc = crc32(bytes, sheet.crc);
+  }
+
+  function entry(name: string, text: string): ZipEntry {
+    const bytes = encoder.encode(text);
+    return { name: encoder.encode(name), parts: [bytes], size: bytes.length, crc: crc32(bytes) };
+  }
+
+  write(SHEET_OPEN);
+
+  return {
+    addRows(rows: readonly (readonly unknown[])[]) {
+      write(rows.map((r) => `<row>${r.map(cellXml).join("")}</row>`).join(""));
+    },
+    finish(): Blob {
+      write(SHEET_CLOSE);
+      // Sheet names are capped at 31 characters and can't contain []:*?/\
+      const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet1");
+      const workbook =
+        XML_HEADER +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+      return zip([...STATIC_PARTS.map(([n, t]) => entry(n, t)), entry("xl/workbook.xml", workbook), sheet]);
+    },
+  };
+}
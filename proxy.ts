@@ -1,14 +1,100 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { getToken, type JWT } from "next-auth/jwt";
+import { resolvePermissions } from "@/lib/permissions";
+
+const API_BASE =
+  process.env.NEXT_PUBLIC_API_BASE ||
+  "https://infinitedrip-backend.onrender.com";
 
 const PUBLIC_PATHS = new Set([
   "/login",
+  "/login/magic",
   "/signup",
   "/forgot-password",
   "/reset-password",
   "/user-agreement",
 ]);
 
+// Routes gated on the permissions claim the NextAuth jwt callback stores in
+// the session token, which re-reads them from /api/me every minute. The pages
+// still check /api/me themselves; this just stops them rendering at all.
+// First matching prefix wins.
+const GATED_ROUTES: Array<{ prefix: string; allowed: (permissions: string[]) => boolean }> = [
+  { prefix: "/admin/users", allowed: (p) => p.includes("admin.users.manage") },
+  { prefix: "/admin/audit", allowed: (p) => p.includes("admin.audit.read") },
+  { prefix: "/admin/textdrip", allowed: (p) => p.includes("admin.textdrip.debug") },
+  { prefix: "/admin/email", allowed: (p) => p.includes("admin.email.debug") },
+  { prefix: "/admin", allowed: (p) => p.some((c) => c.startsWith("admin.")) },
+  { prefix: "/email-leads", allowed: (p) => p.includes("leads.import.email") },
+  { prefix: "/billing", allowed: (p) => p.includes("billing.manage") },
+  { prefix: "/team", allowed: (p) => p.includes("team.manage") },
+];
+
+// Tokens issued before the permissions claim existed only carry a role.
+// While an admin views as another user, that user's permissions apply; the
+// jwt callback reads them from the backend's impersonation record.
+function readPermissions(claims: JWT): string[] {
+  const impersonating = claims.impersonating as { permissions?: unknown } | null | undefined;
+  if (impersonating) return resolvePermissions({ permissions: impersonating.permissions });
+  return resolvePermissions({ role: claims.role, permissions: claims.permissions });
+}
+
+// Revocations from Settings > Sessions are picked up within this long.
+const SESSION_CHECK_TTL_MS = 60 * 1000;
+const SESSION_CHECK_MAX_ENTRIES = 1000;
+const sessionChecks = new Map<string, { revoked: boolean; checkedAt: number }>();
+
+// Backend trouble counts as active: the backend rejects revoked tokens itself,
+// this only stops pages from rendering for them.
+async function isSessionRevoked(claims: JWT): Promise<boolean> {
+  if (claims.error === "SessionRevoked") return true;
+  // Tokens issued before session records existed have no id.
+  const sessionId = String(claims.sessionId || "");
+  if (!sessionId) return false;
+
+  const cached = sessionChecks.get(sessionId);
+  if (cached && Date.now() - cached.checkedAt < SESSION_CHECK_TTL_MS) return cached.revoked;
+
+  let revoked = false;
+  try {
+    const r = await fetch(`${API_BASE}/auth/sessions/${encodeURIComponent(sessionId)}/status`, {
+      headers: { Authorization: `Bearer ${String(claims.token || "")}` },
+      cache: "no-store",
+    });
+    if (r.status === 404 || r.status === 410) revoked = true;
+    else if (r.ok) revoked = (await r.json().catch(() => ({})))?.active === false;
+    else return false;
+  } catch {
+    return false;
+  }
+
+  if (sessionChecks.size >= SESSION_CHECK_MAX_ENTRIES) sessionChecks.clear();
+  sessionChecks.set(sessionId, { revoked, checkedAt: Date.now() });
+  return revoked;
+}
+
+function revokedSessionResponse(req: NextRequest, pathname: string) {
+  let res: NextResponse;
+  if (pathname.startsWith("/api/")) {
+    res = new NextResponse("Session revoked", { status: 401 });
+  } else {
+    const url = req.nextUrl.clone();
+    url.pathname = "/login";
+    url.search = "";
+    url.searchParams.set("next", pathname);
+    res = NextResponse.redirect(url);
+  }
+  // Drop the cookie too, otherwise /login bounces straight back to the dashboard.
+  res.cookies.delete("next-auth.session-token");
+  res.cookies.delete("__Secure-next-auth.session-token");
+  return res;
+}
+
+function matchesPrefix(pathname: string, prefix: string) {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
 function isAlwaysPublicPath(pathname: string) {
   if (pathname.startsWith("/api/auth")) return true;
   if (pathname.startsWith("/_next")) return true;
@@ -19,7 +105,7 @@ function isAlwaysPublicPath(pathname: string) {
   return false;
 }
 
-export function proxy(req: NextRequest) {
+export async function proxy(req: NextRequest) {
   const pathname = req.nextUrl.pathname || "/";
   if (isAlwaysPublicPath(pathname)) return NextResponse.next();
 
@@ -45,6 +131,29 @@ export function proxy(req: NextRequest) {
     return NextResponse.redirect(url);
   }
 
+  // An undecodable token (e.g. rotated secret) counts as no access.
+  const claims = await getToken({ req }).catch(() => null);
+
+  if (claims && (await isSessionRevoked(claims))) return revokedSessionResponse(req, pathname);
+
+  // An admin required 2FA and the user has not enrolled yet: Settings is the only page until they do.
+  if (claims?.twoFactorSetup === true && !pathname.startsWith("/api/") && !matchesPrefix(pathname, "/settings")) {
+    const url = req.nextUrl.clone();
+    url.pathname = "/settings";
+    url.search = "?setup=2fa";
+    return NextResponse.redirect(url);
+  }
+
+  const gate = GATED_ROUTES.find((g) => matchesPrefix(pathname, g.prefix));
+  if (gate) {
+    if (!claims || !gate.allowed(readPermissions(claims))) {
+      const url = req.nextUrl.clone();
+      url.pathname = "/dashboard";
+      url.search = "";
+      return NextResponse.redirect(url);
+    }
+  }
+
   return NextResponse.next();
 }
 